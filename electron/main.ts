@@ -154,6 +154,12 @@ function createMenu(): void {
             mainWindow.webContents.send('menu-action', 'import-pptx');
           }
         },
+        {
+          label: 'Import Beamer LaTeX...',
+          click: () => {
+            mainWindow.webContents.send('menu-action', 'import-beamer');
+          }
+        },
         {
           label: 'Save',
           accelerator: 'CmdOrCtrl+S',
@@ -504,6 +510,19 @@ function setupIpcHandlers(): void {
     }
   });
 
+  ipcMain.handle('latex:checkFonts', async (_event, fonts: string[]) => {
+    try {
+      const availability = await latexCompilerInstance.checkFontAvailability(fonts);
+      return { success: true, fonts: availability };
+    } catch (error) {
+      console.error('❌ [Electron Main] Font availability check failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  });
+
   // Window management handlers
   ipcMain.handle('window:minimize', () => {
     if (mainWindow) {
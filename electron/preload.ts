@@ -13,6 +13,7 @@ contextBridge.exposeInMainWorld('electronAPI', {
   getLatexQueueStatus: () => ipcRenderer.invoke('latex:getQueueStatus'),
   clearLatexQueue: () => ipcRenderer.invoke('latex:clearQueue'),
   checkLatexAvailability: () => ipcRenderer.invoke('latex:checkAvailability'),
+  checkFontAvailability: (fonts: string[]) => ipcRenderer.invoke('latex:checkFonts', fonts),
   
   // Window management
   minimizeWindow: () => ipcRenderer.invoke('window:minimize'),
@@ -1,4 +1,4 @@
-import { useEffect, useState, useCallback } from 'react';
+import { useEffect, useState, useCallback, useRef, ChangeEvent } from 'react';
 import { useSelector, useDispatch } from 'react-redux';
 import { fabric } from 'fabric';
 import { RootState } from './store';
@@ -6,26 +6,49 @@ import {
   addSlide,
   deleteSlide,
   selectSlide,
-  duplicateSlide
+  duplicateSlide,
+  setBeamerThemeTemplate,
+  updatePresentationSettings,
+  updateSlide,
+  loadPresentation
 } from './store/slices/presentationSlice';
 import {
   showSettingsDialog,
-  hideSettingsDialog
+  hideSettingsDialog,
+  selectElements,
+  addNotification
 } from './store/slices/uiSlice';
 import { useFileOperations } from './hooks/useFileOperations';
 import { useUndoRedo, useActionRecorder } from './hooks/useUndoRedo';
 import { crashRecoveryService, RecoveryData } from './services/crashRecoveryService';
 import { accessibilityService } from './services/accessibilityService';
+import { latexTemplateManager } from './services/latexTemplates';
+import { rawLatexPreviewService, RawLatexPreviewEvent } from './services/rawLatexPreviewService';
+import { previewService } from './services/previewService';
+import { beamerImportService } from './services/beamerImportService';
+import { CompilationError as LatexCompilationError, CompilerBackend } from './services/latexCompiler';
+import { describeDiagnostic } from './services/latexDiagnostics';
+import { SlideAspectRatio, getSlideDimensions, getCanvasBaseHeight } from './utils/slideGeometry';
+import { createFlowRegions } from './utils/flowLayout';
 import SlideNavigation from './components/SlideNavigation';
 import SimpleTextCanvas from './components/SimpleTextCanvas';
+import BuildOrderPanel from './components/BuildOrderPanel';
 import PreviewPane from './components/PreviewPane';
 import { PPTXImportDialog } from './components/PPTXImportDialog';
 
 import CrashRecoveryDialog from './components/CrashRecoveryDialog';
 import CompilationErrorDisplay, { CompilationError } from './components/CompilationErrorDisplay';
 import AccessibilitySettings from './components/AccessibilitySettings';
+import PreambleEditor from './components/PreambleEditor';
+import BibliographyDialog from './components/BibliographyDialog';
 import './App.css';
 
+// Suggest a fix for the errors the log parser recognized, naming the package to install for missing files
+const getDiagnosticDetails = ({ diagnostic }: LatexCompilationError): Pick<CompilationError, 'suggestion' | 'missingPackage'> => ({
+  suggestion: diagnostic && describeDiagnostic(diagnostic),
+  missingPackage: diagnostic?.kind === 'missing-file' ? diagnostic.package : undefined,
+});
+
 function App() {
   console.log('🚀 [App] ===== APP COMPONENT RENDERING =====');
   console.log('🚀 [App] Fabric.js version check:', {
@@ -70,6 +93,9 @@ function App() {
   // State for dialogs
   const [isPPTXImportDialogOpen, setIsPPTXImportDialogOpen] = useState(false);
   const [isCrashRecoveryDialogOpen, setIsCrashRecoveryDialogOpen] = useState(false);
+  const [isPreambleEditorOpen, setIsPreambleEditorOpen] = useState(false);
+  const [isBibliographyDialogOpen, setIsBibliographyDialogOpen] = useState(false);
+  const beamerFileInputRef = useRef<HTMLInputElement>(null);
   
   // State for compilation errors
   const [compilationErrors, setCompilationErrors] = useState<CompilationError[]>([]);
@@ -187,6 +213,9 @@ function App() {
           case 'import-pptx':
             handleImportPPTX();
             break;
+          case 'import-beamer':
+            handleImportBeamer();
+            break;
           case 'undo':
             undo();
             break;
@@ -284,6 +313,34 @@ function App() {
     }
   };
 
+  const handleSlideLayoutModeChange = (value: string) => {
+    if (!presentation || !currentSlide) return;
+
+    if (value === 'absolute') {
+      dispatch(updateSlide({
+        slideId: currentSlide.id,
+        updates: { layout: { ...currentSlide.layout, mode: 'absolute' } }
+      }));
+      return;
+    }
+
+    // Flow slides place elements by the region they sit in, so lay the regions out over the whole canvas
+    const canvasHeight = getCanvasBaseHeight(getSlideDimensions(presentation.settings.slideSize.aspectRatio));
+    dispatch(updateSlide({
+      slideId: currentSlide.id,
+      updates: {
+        layout: {
+          ...currentSlide.layout,
+          mode: 'flow',
+          regions: {
+            ...createFlowRegions(canvasHeight, value === 'flow-columns'),
+            footer: currentSlide.layout.regions.footer
+          }
+        }
+      }
+    }));
+  };
+
   const handleImportPPTX = () => {
     setIsPPTXImportDialogOpen(true);
   };
@@ -292,6 +349,47 @@ function App() {
     setIsPPTXImportDialogOpen(false);
   };
 
+  const handleImportBeamer = () => {
+    beamerFileInputRef.current?.click();
+  };
+
+  const handleBeamerFileSelected = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const result = await beamerImportService.importTex(file);
+    if (!result.success || !result.presentation) {
+      dispatch(addNotification({
+        type: 'error',
+        title: 'Import Failed',
+        message: result.errors.join(', ') || 'Import failed',
+        duration: 5000
+      }));
+      return;
+    }
+
+    dispatch(loadPresentation(result.presentation));
+    const rawBlocks = result.rawLatexBlocks > 0
+      ? ` ${result.rawLatexBlocks} unrecognized ${result.rawLatexBlocks === 1 ? 'block was' : 'blocks were'} kept as raw LaTeX.`
+      : '';
+    dispatch(addNotification({
+      type: 'success',
+      title: 'Import Successful',
+      message: `Successfully imported ${result.importedSlides} slides from ${file.name}.${rawBlocks}`,
+      duration: 5000
+    }));
+
+    if (result.warnings.length > 0) {
+      dispatch(addNotification({
+        type: 'warning',
+        title: 'Import Warnings',
+        message: result.warnings.join(', '),
+        duration: 7000
+      }));
+    }
+  };
+
   // Crash recovery handlers
   const handleCrashRecovery = (recoveryData: RecoveryData) => {
     console.log('Recovered presentation:', recoveryData.presentation.title);
@@ -314,13 +412,80 @@ function App() {
       dispatch(selectSlide(error.slideId));
     }
     
-    // If there's an element ID, we could highlight it in the canvas
+    // Select the element the error came from; the canvas picks it up once the slide is shown
     if (error.elementId) {
-      // TODO: Implement element highlighting in SlideCanvas
-      console.log('Navigate to element:', error.elementId);
+      dispatch(selectElements([error.elementId]));
     }
   };
 
+  // Name the slide and element an error came from, by position so it matches what the user sees
+  const describeErrorSource = (error: CompilationError): CompilationError => {
+    const slideIndex = presentation?.slides.findIndex(slide => slide.id === error.slideId) ?? -1;
+    const slide = presentation?.slides[slideIndex];
+    if (!slide) return error;
+
+    const element = slide.elements.find(el => el.id === error.elementId);
+    const sourceLabel = element ? `Slide ${slideIndex + 1} · ${element.type}` : `Slide ${slideIndex + 1}`;
+    return { ...error, sourceLabel };
+  };
+
+  // Show compile errors of the whole presentation against the slide and element they came from
+  useEffect(() => {
+    const handleCompilationError = ({ errors }: { errors?: LatexCompilationError[] }) => {
+      if (!errors) return;
+
+      setCompilationErrors(current => [
+        ...current.filter(e => !e.id.startsWith('preview-')),
+        ...errors.map((error, index): CompilationError => ({
+          id: `preview-${index}`,
+          type: 'error',
+          message: error.message,
+          line: error.line,
+          file: error.file,
+          context: error.context,
+          elementId: error.elementId,
+          slideId: error.slideId,
+          ...getDiagnosticDetails(error),
+        })),
+      ]);
+    };
+
+    const handleCompilationSuccess = () => {
+      setCompilationErrors(current => current.filter(e => !e.id.startsWith('preview-')));
+    };
+
+    previewService.on('compilation-error', handleCompilationError);
+    previewService.on('compilation-success', handleCompilationSuccess);
+    return () => {
+      previewService.off('compilation-error', handleCompilationError);
+      previewService.off('compilation-success', handleCompilationSuccess);
+    };
+  }, []);
+
+  // Show compile errors of raw LaTeX elements against the element they came from
+  useEffect(() => {
+    const handlePreviewUpdated = ({ elementId, slideId, errors }: RawLatexPreviewEvent) => {
+      setCompilationErrors(current => [
+        ...current.filter(e => e.elementId !== elementId),
+        ...errors.map((error, index): CompilationError => ({
+          id: `raw-latex-${elementId}-${index}`,
+          type: 'error',
+          message: error.message,
+          line: error.line,
+          context: error.context,
+          elementId,
+          slideId,
+          ...getDiagnosticDetails(error),
+        })),
+      ]);
+    };
+
+    rawLatexPreviewService.on('preview-updated', handlePreviewUpdated);
+    return () => {
+      rawLatexPreviewService.off('preview-updated', handlePreviewUpdated);
+    };
+  }, []);
+
   const handleDismissCompilationError = (errorId: string) => {
     setCompilationErrors(errors => errors.filter(e => e.id !== errorId));
   };
@@ -410,6 +575,95 @@ function App() {
                 {presentation.title} - {presentation.slides.length} slides
               </span>
             )}
+            {presentation && (
+              <label className="beamer-theme-select">
+                Beamer theme
+                <select
+                  value={presentation.theme.beamerThemeTemplate || 'default'}
+                  onChange={(e) => dispatch(setBeamerThemeTemplate(e.target.value))}
+                  aria-label="Beamer theme"
+                >
+                  {latexTemplateManager.getThemeTemplates().map(template => (
+                    <option key={template.id} value={template.id} title={template.description}>
+                      {template.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+            {presentation && (
+              <label className="slide-size-select">
+                Aspect ratio
+                <select
+                  value={presentation.settings.slideSize.aspectRatio}
+                  onChange={(e) => dispatch(updatePresentationSettings({
+                    slideSize: {
+                      ...presentation.settings.slideSize,
+                      aspectRatio: e.target.value as SlideAspectRatio
+                    }
+                  }))}
+                  aria-label="Slide aspect ratio"
+                >
+                  <option value="16:9">16:9</option>
+                  <option value="16:10">16:10</option>
+                  <option value="4:3">4:3</option>
+                </select>
+              </label>
+            )}
+            {presentation && (
+              <label className="compiler-backend-select">
+                Compiler
+                <select
+                  value={presentation.settings.compilerBackend || 'engine'}
+                  onChange={(e) => dispatch(updatePresentationSettings({
+                    compilerBackend: e.target.value as CompilerBackend
+                  }))}
+                  aria-label="Compiler backend"
+                  title="latexmk and Tectonic handle reruns and bibliographies themselves"
+                >
+                  <option value="engine">LaTeX engine</option>
+                  <option value="latexmk">latexmk</option>
+                  <option value="tectonic">Tectonic</option>
+                </select>
+              </label>
+            )}
+            {presentation && currentSlide && (
+              <label className="slide-layout-select">
+                Layout
+                <select
+                  value={currentSlide.layout.mode !== 'flow'
+                    ? 'absolute'
+                    : currentSlide.layout.regions.leftColumn ? 'flow-columns' : 'flow'}
+                  onChange={(e) => handleSlideLayoutModeChange(e.target.value)}
+                  aria-label="Slide layout"
+                  title="Absolute keeps exact positions; flow generates regular Beamer content that reflows"
+                >
+                  <option value="absolute">Absolute</option>
+                  <option value="flow">Flow</option>
+                  <option value="flow-columns">Flow, two columns</option>
+                </select>
+              </label>
+            )}
+            {presentation && (
+              <button
+                onClick={() => setIsPreambleEditorOpen(true)}
+                title="Custom macros, packages and TikZ libraries"
+                className="preamble-button"
+                type="button"
+              >
+                Preamble
+              </button>
+            )}
+            {presentation && (
+              <button
+                onClick={() => setIsBibliographyDialogOpen(true)}
+                title="Attach a .bib file for citations"
+                className="bibliography-button"
+                type="button"
+              >
+                Bibliography
+              </button>
+            )}
             {/* Undo/Redo indicators */}
             <div className="undo-redo-info" role="toolbar" aria-label="Undo and Redo actions">
               <button 
@@ -448,7 +702,7 @@ function App() {
         {/* Compilation Errors Display */}
         {compilationErrors.length > 0 && (
           <CompilationErrorDisplay
-            errors={compilationErrors}
+            errors={compilationErrors.map(describeErrorSource)}
             onErrorClick={handleCompilationErrorClick}
             onDismiss={handleDismissCompilationError}
             onDismissAll={handleDismissAllCompilationErrors}
@@ -463,6 +717,7 @@ function App() {
                 <SimpleTextCanvas 
                   slideId={currentSlide.id}
                 />
+                <BuildOrderPanel slideId={currentSlide.id} />
               </div>
             ) : (
               <div className="no-slide-selected">
@@ -479,6 +734,16 @@ function App() {
         isOpen={isPPTXImportDialogOpen}
         onClose={handleClosePPTXImportDialog}
       />
+
+      {/* Beamer import file picker, opened from the File menu */}
+      <input
+        ref={beamerFileInputRef}
+        type="file"
+        accept=".tex"
+        onChange={handleBeamerFileSelected}
+        aria-label="Beamer LaTeX file"
+        hidden
+      />
       
       {/* Crash Recovery Dialog */}
       <CrashRecoveryDialog
@@ -488,6 +753,18 @@ function App() {
         onDismiss={handleDismissCrashRecovery}
       />
       
+      {/* Custom Preamble Dialog */}
+      <PreambleEditor
+        isOpen={isPreambleEditorOpen}
+        onClose={() => setIsPreambleEditorOpen(false)}
+      />
+
+      {/* Bibliography Dialog */}
+      <BibliographyDialog
+        isOpen={isBibliographyDialogOpen}
+        onClose={() => setIsBibliographyDialogOpen(false)}
+      />
+
       {/* Accessibility Settings Dialog */}
       <AccessibilitySettings
         isOpen={showSettings}
@@ -0,0 +1,192 @@
+import React, { useEffect, useState } from 'react';
+import { useSelector, useDispatch } from 'react-redux';
+import { RootState } from '../store';
+import { updatePresentationSettings } from '../store/slices/presentationSlice';
+import { Bibliography, BibliographyStyle } from '../types/presentation';
+import { parseBibEntries } from '../utils/bibliography';
+import './BibliographyDialog.css';
+
+interface BibliographyDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const STYLE_LABELS: Record<BibliographyStyle, string> = {
+  numeric: 'Numeric [1]',
+  authoryear: 'Author–year (Smith 2020)',
+  alphabetic: 'Alphabetic [Smi20]',
+};
+
+/**
+ * Dialog for attaching a .bib file and choosing how citations and references are typeset
+ */
+const BibliographyDialog: React.FC<BibliographyDialogProps> = ({ isOpen, onClose }) => {
+  const dispatch = useDispatch();
+  const bibliography = useSelector(
+    (state: RootState) => state.presentation.currentPresentation?.settings.bibliography
+  );
+
+  const [draft, setDraft] = useState<Bibliography | undefined>(undefined);
+
+  // Start from the saved bibliography each time the dialog opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setDraft(bibliography);
+  }, [isOpen, bibliography]);
+
+  if (!isOpen) return null;
+
+  const entries = draft ? parseBibEntries(draft.content) : [];
+
+  const updateDraft = (updates: Partial<Bibliography>) => {
+    if (!draft) return;
+    setDraft({ ...draft, ...updates });
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      setDraft({
+        style: 'numeric',
+        backend: 'biber',
+        referencesFrame: true,
+        ...draft,
+        fileName: file.name,
+        content: reader.result as string,
+      });
+    };
+    reader.readAsText(file);
+  };
+
+  const handleSave = () => {
+    dispatch(updatePresentationSettings({ bibliography: draft }));
+    onClose();
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      className="bibliography-dialog-overlay"
+      role="dialog"
+      aria-labelledby="bibliography-dialog-title"
+      aria-modal="true"
+      onKeyDown={handleKeyDown}
+    >
+      <div className="bibliography-dialog">
+        <header className="bibliography-dialog-header">
+          <h2 id="bibliography-dialog-title">Bibliography</h2>
+          <button
+            className="close-button"
+            onClick={onClose}
+            aria-label="Close bibliography dialog"
+            type="button"
+          >
+            ×
+          </button>
+        </header>
+
+        <div className="bibliography-dialog-content">
+          <section className="bibliography-section">
+            <h3>BibTeX File</h3>
+            {draft ? (
+              <p className="bibliography-file">
+                <strong>{draft.fileName}</strong> · {entries.length} {entries.length === 1 ? 'entry' : 'entries'}
+              </p>
+            ) : (
+              <p className="bibliography-description">
+                Attach a .bib file to cite its entries with \cite in text elements.
+              </p>
+            )}
+            <div className="bibliography-file-actions">
+              <label className="attach-bib-button">
+                {draft ? 'Replace .bib File' : 'Attach .bib File'}
+                <input
+                  type="file"
+                  accept=".bib"
+                  onChange={handleFileChange}
+                  aria-label="BibTeX file"
+                  hidden
+                />
+              </label>
+              {draft && (
+                <button className="remove-bib-button" onClick={() => setDraft(undefined)} type="button">
+                  Remove
+                </button>
+              )}
+            </div>
+          </section>
+
+          {draft && (
+            <>
+              <section className="bibliography-section">
+                <h3>Citations</h3>
+                <label className="bibliography-field">
+                  Style
+                  <select
+                    value={draft.style || 'numeric'}
+                    onChange={(e) => updateDraft({ style: e.target.value as BibliographyStyle })}
+                  >
+                    {(Object.keys(STYLE_LABELS) as BibliographyStyle[]).map(style => (
+                      <option key={style} value={style}>{STYLE_LABELS[style]}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="bibliography-field">
+                  Processor
+                  <select
+                    value={draft.backend || 'biber'}
+                    onChange={(e) => updateDraft({ backend: e.target.value as Bibliography['backend'] })}
+                  >
+                    <option value="biber">Biber</option>
+                    <option value="bibtex">BibTeX</option>
+                  </select>
+                </label>
+              </section>
+
+              <section className="bibliography-section">
+                <h3>References Frame</h3>
+                <label className="bibliography-checkbox">
+                  <input
+                    type="checkbox"
+                    checked={!!draft.referencesFrame}
+                    onChange={(e) => updateDraft({ referencesFrame: e.target.checked })}
+                  />
+                  List the cited references at the end of the presentation
+                </label>
+                {draft.referencesFrame && (
+                  <label className="bibliography-field">
+                    Title
+                    <input
+                      type="text"
+                      value={draft.referencesTitle ?? 'References'}
+                      onChange={(e) => updateDraft({ referencesTitle: e.target.value })}
+                    />
+                  </label>
+                )}
+              </section>
+            </>
+          )}
+        </div>
+
+        <footer className="bibliography-dialog-footer">
+          <button className="secondary-button" onClick={onClose} type="button">
+            Cancel
+          </button>
+          <button className="primary-button" onClick={handleSave} type="button">
+            Save
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default BibliographyDialog;
@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { useSelector, useDispatch } from 'react-redux';
+import { RootState } from '../store';
+import { updateElementProperties } from '../store/slices/presentationSlice';
+import { ElementOverlay, SlideElement } from '../types/presentation';
+import { latexGenerator } from '../services/latexGenerator';
+import './BuildOrderPanel.css';
+
+interface BuildOrderPanelProps {
+  slideId: string;
+}
+
+// Short human-readable label for an element in the build list
+const getElementLabel = (element: SlideElement): string => {
+  if (element.type === 'text' && element.content) {
+    const firstLine = element.content.split('\n')[0].trim();
+    return firstLine.length > 30 ? `${firstLine.substring(0, 30)}…` : firstLine;
+  }
+  if (element.type === 'chart' && element.properties.chartData?.title) {
+    return element.properties.chartData.title;
+  }
+  return element.type.charAt(0).toUpperCase() + element.type.slice(1);
+};
+
+const getAppearStep = (element: SlideElement): number => element.properties.overlay?.appearOnStep || 1;
+
+const BuildOrderPanel: React.FC<BuildOrderPanelProps> = ({ slideId }) => {
+  const dispatch = useDispatch();
+  const slide = useSelector((state: RootState) =>
+    state.presentation.currentPresentation?.slides.find(s => s.id === slideId)
+  );
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  if (!slide) return null;
+
+  // Elements in the order they appear, keeping z-order for elements on the same step
+  const orderedElements = [...slide.elements].sort((a, b) =>
+    getAppearStep(a) - getAppearStep(b) || (a.properties.zIndex || 0) - (b.properties.zIndex || 0)
+  );
+
+  const stepCount = slide.elements.reduce((count, element) => {
+    const overlay = element.properties.overlay;
+    const listSteps = overlay?.revealListItems && element.content
+      ? element.content.split('\n').filter(line => line.trim()).length - 1
+      : 0;
+    return Math.max(count, getAppearStep(element) + listSteps, overlay?.disappearAfterStep || 1);
+  }, 1);
+
+  const updateOverlay = (element: SlideElement, changes: Partial<ElementOverlay>) => {
+    const overlay = { ...element.properties.overlay, ...changes };
+
+    dispatch(updateElementProperties({
+      slideId,
+      elementId: element.id,
+      properties: { overlay },
+    }));
+  };
+
+  const parseStep = (value: string): number | undefined => {
+    const step = parseInt(value, 10);
+    return Number.isFinite(step) && step > 0 ? step : undefined;
+  };
+
+  const resetBuilds = () => {
+    slide.elements.forEach(element => {
+      if (element.properties.overlay) {
+        dispatch(updateElementProperties({
+          slideId,
+          elementId: element.id,
+          properties: { overlay: undefined },
+        }));
+      }
+    });
+  };
+
+  return (
+    <div className="build-order-panel">
+      <div className="build-order-header">
+        <button
+          className="build-order-toggle"
+          onClick={() => setIsExpanded(!isExpanded)}
+          aria-expanded={isExpanded}
+          type="button"
+        >
+          {isExpanded ? '▾' : '▸'} Build Order
+        </button>
+        <span className="build-order-summary">
+          {stepCount} {stepCount === 1 ? 'step' : 'steps'}
+        </span>
+        {isExpanded && stepCount > 1 && (
+          <button className="build-order-reset" onClick={resetBuilds} type="button">
+            Show all at once
+          </button>
+        )}
+      </div>
+
+      {isExpanded && (
+        orderedElements.length === 0 ? (
+          <div className="build-order-empty">No elements on this slide</div>
+        ) : (
+          <ul className="build-order-list">
+            {orderedElements.map(element => {
+              const overlay = element.properties.overlay;
+              const specification = latexGenerator.getOverlaySpecification(overlay);
+              const isList = element.type === 'text' && !!element.properties.listType && element.properties.listType !== 'none';
+
+              return (
+                <li key={element.id} className="build-order-item">
+                  <span className="build-order-label" title={element.type}>
+                    {getElementLabel(element)}
+                  </span>
+
+                  <label className="build-order-field">
+                    Appears on
+                    <input
+                      type="number"
+                      min={1}
+                      value={overlay?.appearOnStep || 1}
+                      onChange={(e) => updateOverlay(element, { appearOnStep: parseStep(e.target.value) })}
+                      aria-label={`Step ${getElementLabel(element)} appears on`}
+                    />
+                  </label>
+
+                  <label className="build-order-field">
+                    Hidden after
+                    <input
+                      type="number"
+                      min={1}
+                      placeholder="—"
+                      value={overlay?.disappearAfterStep || ''}
+                      onChange={(e) => updateOverlay(element, { disappearAfterStep: parseStep(e.target.value) })}
+                      aria-label={`Last step ${getElementLabel(element)} is shown on`}
+                    />
+                  </label>
+
+                  {isList && (
+                    <label className="build-order-field">
+                      <input
+                        type="checkbox"
+                        checked={!!overlay?.revealListItems}
+                        onChange={(e) => updateOverlay(element, { revealListItems: e.target.checked })}
+                      />
+                      One item per step
+                    </label>
+                  )}
+
+                  {specification && (
+                    <code className="build-order-spec">{specification}</code>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )
+      )}
+    </div>
+  );
+};
+
+export default BuildOrderPanel;
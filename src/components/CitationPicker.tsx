@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { BibEntry, CitationCommand, CITATION_COMMANDS, createCitation } from '../utils/bibliography';
+import './CitationPicker.css';
+
+interface CitationPickerProps {
+  entries: BibEntry[];
+  onInsert: (citation: string) => void;
+  onClose: () => void;
+}
+
+const matchesSearch = (entry: BibEntry, search: string): boolean =>
+  [entry.key, entry.title, entry.author, entry.year]
+    .some(field => field?.toLowerCase().includes(search.toLowerCase()));
+
+/**
+ * Dialog for picking bibliography entries and inserting a citation command for them
+ */
+const CitationPicker: React.FC<CitationPickerProps> = ({ entries, onInsert, onClose }) => {
+  const [search, setSearch] = useState('');
+  const [selectedKeys, setSelectedKeys] = useState<string[]>([]);
+  const [command, setCommand] = useState<CitationCommand>('cite');
+
+  const visibleEntries = entries.filter(entry => matchesSearch(entry, search));
+
+  const toggleKey = (key: string) => {
+    setSelectedKeys(keys => (keys.includes(key) ? keys.filter(k => k !== key) : [...keys, key]));
+  };
+
+  const handleInsert = () => {
+    if (selectedKeys.length === 0) return;
+    onInsert(createCitation(selectedKeys, command));
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      className="citation-picker-overlay"
+      role="dialog"
+      aria-labelledby="citation-picker-title"
+      aria-modal="true"
+      onKeyDown={handleKeyDown}
+    >
+      <div className="citation-picker">
+        <header className="citation-picker-header">
+          <h3 id="citation-picker-title">Insert Citation</h3>
+          <button className="close-button" onClick={onClose} aria-label="Close citation picker" type="button">
+            ×
+          </button>
+        </header>
+
+        <input
+          type="search"
+          className="citation-search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search by key, title, author or year"
+          aria-label="Search references"
+          autoFocus
+        />
+
+        {entries.length === 0 ? (
+          <p className="citation-empty">The attached bibliography has no entries.</p>
+        ) : (
+          <ul className="citation-list">
+            {visibleEntries.map(entry => (
+              <li key={entry.key}>
+                <label className="citation-entry">
+                  <input
+                    type="checkbox"
+                    checked={selectedKeys.includes(entry.key)}
+                    onChange={() => toggleKey(entry.key)}
+                  />
+                  <span className="citation-key">{entry.key}</span>
+                  <span className="citation-details">
+                    {[entry.author, entry.year].filter(Boolean).join(', ')}
+                    {entry.title && <em> {entry.title}</em>}
+                  </span>
+                </label>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <footer className="citation-picker-footer">
+          <select
+            value={command}
+            onChange={(e) => setCommand(e.target.value as CitationCommand)}
+            aria-label="Citation command"
+          >
+            {CITATION_COMMANDS.map(option => (
+              <option key={option} value={option}>\{option}</option>
+            ))}
+          </select>
+          <code className="citation-preview">
+            {selectedKeys.length > 0 ? createCitation(selectedKeys, command) : ''}
+          </code>
+          <button className="secondary-button" onClick={onClose} type="button">
+            Cancel
+          </button>
+          <button
+            className="primary-button"
+            onClick={handleInsert}
+            disabled={selectedKeys.length === 0}
+            type="button"
+          >
+            Insert
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default CitationPicker;
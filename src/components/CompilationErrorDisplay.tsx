@@ -12,6 +12,8 @@ export interface CompilationError {
   suggestion?: string;
   elementId?: string; // For highlighting specific slide elements
   slideId?: string;
+  sourceLabel?: string; // Where the error came from in the presentation, e.g. "Slide 3 · text"
+  missingPackage?: string; // TeX Live package providing a file the compiler couldn't find
 }
 
 interface CompilationErrorDisplayProps {
@@ -156,9 +158,17 @@ const CompilationErrorDisplay: React.FC<CompilationErrorDisplayProps> = ({
                 <div className="compilation-errors__item-message">
                   {error.message}
                 </div>
+
+                {error.missingPackage && (
+                  <div className="compilation-errors__item-package">
+                    Provided by TeX Live package <code>{error.missingPackage}</code>
+                    {error.sourceLabel && <span>, needed by {error.sourceLabel}</span>}
+                  </div>
+                )}
                 
-                {(error.line || error.file) && (
+                {(error.line || error.file || error.sourceLabel) && (
                   <div className="compilation-errors__item-location">
+                    {error.sourceLabel && <span>{error.sourceLabel}</span>}
                     {error.file && <span>File: {error.file}</span>}
                     {error.line && <span>Line: {error.line}</span>}
                     {error.column && <span>Column: {error.column}</span>}
@@ -167,7 +177,20 @@ const CompilationErrorDisplay: React.FC<CompilationErrorDisplayProps> = ({
               </div>
               
               <div className="compilation-errors__item-actions">
-                {onErrorClick && (
+                {onErrorClick && error.elementId && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onErrorClick(error);
+                    }}
+                    className="compilation-errors__item-jump"
+                    title="Select the element this error came from"
+                  >
+                    Jump to element
+                  </button>
+                )}
+
+                {onErrorClick && !error.elementId && (
                   <button
                     onClick={(e) => {
                       e.stopPropagation();
@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
 import katex from 'katex';
+import { DEFAULT_MATH_MACROS } from '../utils/mathRenderer';
 import 'katex/dist/katex.min.css';
 import './MathInput.css';
 
@@ -8,13 +9,15 @@ interface MathInputProps {
   onChange: (value: string) => void;
   onClose: () => void;
   placeholder?: string;
+  macros?: Record<string, string>; // KaTeX macros from the presentation's custom preamble
 }
 
 const MathInput: React.FC<MathInputProps> = ({
   value,
   onChange,
   onClose,
-  placeholder = 'Enter LaTeX math expression...'
+  placeholder = 'Enter LaTeX math expression...',
+  macros,
 }) => {
   const [inputValue, setInputValue] = useState(value);
   const [error, setError] = useState<string | null>(null);
@@ -216,17 +219,7 @@ const MathInput: React.FC<MathInputProps> = ({
         displayMode: true,
         throwOnError: true,
         errorColor: '#cc0000',
-        macros: {
-          '\\RR': '\\mathbb{R}',
-          '\\NN': '\\mathbb{N}',
-          '\\ZZ': '\\mathbb{Z}',
-          '\\QQ': '\\mathbb{Q}',
-          '\\CC': '\\mathbb{C}',
-          '\\eps': '\\varepsilon',
-          '\\phi': '\\varphi',
-          '\\implies': '\\Rightarrow',
-          '\\iff': '\\Leftrightarrow',
-        },
+        macros: { ...DEFAULT_MATH_MACROS, ...macros },
       });
       setPreviewHtml(html);
       setError(null);
@@ -249,7 +242,7 @@ const MathInput: React.FC<MathInputProps> = ({
       setError(errorMessage);
       setPreviewHtml('');
     }
-  }, [inputValue]);
+  }, [inputValue, macros]);
 
   // Focus input on mount
   useEffect(() => {
@@ -1,12 +1,14 @@
 import React, { useEffect, useRef, useState } from 'react';
 import katex from 'katex';
 import { fabric } from 'fabric';
+import { DEFAULT_MATH_MACROS } from '../utils/mathRenderer';
 
 interface MathRendererProps {
   expression: string;
   fontSize?: number;
   color?: string;
   displayMode?: boolean;
+  macros?: Record<string, string>; // KaTeX macros from the presentation's custom preamble
   onRender?: (element: HTMLElement) => void;
 }
 
@@ -18,6 +20,7 @@ const MathRenderer: React.FC<MathRendererProps> = ({
   fontSize = 16,
   color = '#000000',
   displayMode = false,
+  macros,
   onRender
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
@@ -36,17 +39,7 @@ const MathRenderer: React.FC<MathRendererProps> = ({
         displayMode,
         throwOnError: true,
         errorColor: '#cc0000',
-        macros: {
-          '\\RR': '\\mathbb{R}',
-          '\\NN': '\\mathbb{N}',
-          '\\ZZ': '\\mathbb{Z}',
-          '\\QQ': '\\mathbb{Q}',
-          '\\CC': '\\mathbb{C}',
-          '\\eps': '\\varepsilon',
-          '\\phi': '\\varphi',
-          '\\implies': '\\Rightarrow',
-          '\\iff': '\\Leftrightarrow',
-        },
+        macros: { ...DEFAULT_MATH_MACROS, ...macros },
       });
       setRenderedHtml(html);
       setError(null);
@@ -54,7 +47,7 @@ const MathRenderer: React.FC<MathRendererProps> = ({
       setError(err instanceof Error ? err.message : 'Rendering error');
       setRenderedHtml('');
     }
-  }, [expression, displayMode]);
+  }, [expression, displayMode, macros]);
 
   useEffect(() => {
     if (containerRef.current && renderedHtml && onRender) {
@@ -106,6 +99,7 @@ export const createMathFabricObject = async (
     fontSize?: number;
     color?: string;
     displayMode?: boolean;
+    macros?: Record<string, string>;
   } = {}
 ): Promise<fabric.Object> => {
   const {
@@ -113,7 +107,8 @@ export const createMathFabricObject = async (
     top = 0,
     fontSize = 16,
     color = '#000000',
-    displayMode = false
+    displayMode = false,
+    macros,
   } = options;
 
   return new Promise((resolve, reject) => {
@@ -131,17 +126,7 @@ export const createMathFabricObject = async (
         displayMode,
         throwOnError: true,
         errorColor: '#cc0000',
-        macros: {
-          '\\RR': '\\mathbb{R}',
-          '\\NN': '\\mathbb{N}',
-          '\\ZZ': '\\mathbb{Z}',
-          '\\QQ': '\\mathbb{Q}',
-          '\\CC': '\\mathbb{C}',
-          '\\eps': '\\varepsilon',
-          '\\phi': '\\varphi',
-          '\\implies': '\\Rightarrow',
-          '\\iff': '\\Leftrightarrow',
-        },
+        macros: { ...DEFAULT_MATH_MACROS, ...macros },
       });
 
       container.innerHTML = html;
@@ -227,10 +212,11 @@ const htmlToSvg = (element: HTMLElement, fontSize: number): string => {
 export const createEnhancedMathTextElement = async (
   content: string,
   position: { x: number; y: number },
-  properties: any = {}
+  properties: any = {},
+  macros: Record<string, string> = {}
 ): Promise<fabric.Object[]> => {
   const { parseMathContent } = await import('../utils/mathRenderer');
-  const segments = parseMathContent(content);
+  const segments = parseMathContent(content, macros);
   const objects: fabric.Object[] = [];
   
   let currentY = 0;
@@ -263,6 +249,7 @@ export const createEnhancedMathTextElement = async (
             `rgba(${properties.textColor.r}, ${properties.textColor.g}, ${properties.textColor.b}, ${properties.textColor.a || 1})` : 
             '#000000',
           displayMode: segment.content.includes('\\') && segment.content.length > 10, // Heuristic for display mode
+          macros,
         });
         objects.push(mathObj);
         currentY += lineHeight;
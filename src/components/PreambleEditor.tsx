@@ -0,0 +1,231 @@
+import React, { useEffect, useState } from 'react';
+import { useSelector, useDispatch } from 'react-redux';
+import { RootState } from '../store';
+import { updatePresentationSettings } from '../store/slices/presentationSlice';
+import { CustomPreamble, LatexMacro } from '../types/presentation';
+import { latexOptimizer } from '../services/latexOptimizer';
+import {
+  createEmptyCustomPreamble,
+  generateCustomPreambleLatex,
+  getCustomPreambleErrors,
+} from '../utils/customPreamble';
+import './PreambleEditor.css';
+
+interface PreambleEditorProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const MAX_MACRO_ARGUMENTS = 9;
+
+const splitLines = (text: string): string[] =>
+  text.split('\n').map(line => line.trim()).filter(line => line);
+
+const splitLibraries = (text: string): string[] =>
+  text.split(/[,\s]+/).filter(library => library);
+
+/**
+ * Dialog for the presentation's custom macros, packages, TikZ libraries and shell escape opt-in
+ */
+const PreambleEditor: React.FC<PreambleEditorProps> = ({ isOpen, onClose }) => {
+  const dispatch = useDispatch();
+  const customPreamble = useSelector(
+    (state: RootState) => state.presentation.currentPresentation?.settings.customPreamble
+  );
+  const savedAllowShellEscape = useSelector(
+    (state: RootState) => !!state.presentation.currentPresentation?.settings.allowShellEscape
+  );
+
+  const [macros, setMacros] = useState<LatexMacro[]>([]);
+  const [packagesText, setPackagesText] = useState('');
+  const [librariesText, setLibrariesText] = useState('');
+  const [allowShellEscape, setAllowShellEscape] = useState(false);
+
+  // Start from the saved preamble each time the dialog opens
+  useEffect(() => {
+    if (!isOpen) return;
+    const saved = customPreamble || createEmptyCustomPreamble();
+    setMacros(saved.macros);
+    setPackagesText(saved.packages.join('\n'));
+    setLibrariesText(saved.tikzLibraries.join(', '));
+    setAllowShellEscape(savedAllowShellEscape);
+  }, [isOpen, customPreamble, savedAllowShellEscape]);
+
+  if (!isOpen) return null;
+
+  const draft: CustomPreamble = {
+    macros,
+    packages: splitLines(packagesText),
+    tikzLibraries: splitLibraries(librariesText),
+  };
+  const generatedLatex = generateCustomPreambleLatex(draft);
+  const errors = [
+    ...getCustomPreambleErrors(draft),
+    ...latexOptimizer.validateSyntax(generatedLatex).errors,
+  ];
+
+  const updateMacro = (index: number, updates: Partial<LatexMacro>) => {
+    setMacros(macros.map((macro, i) => (i === index ? { ...macro, ...updates } : macro)));
+  };
+
+  const handleAddMacro = () => {
+    setMacros([...macros, { name: '', argumentCount: 0, definition: '' }]);
+  };
+
+  const handleRemoveMacro = (index: number) => {
+    setMacros(macros.filter((_, i) => i !== index));
+  };
+
+  const handleSave = () => {
+    if (errors.length > 0) return;
+    dispatch(updatePresentationSettings({ customPreamble: draft, allowShellEscape }));
+    onClose();
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      className="preamble-editor-overlay"
+      role="dialog"
+      aria-labelledby="preamble-editor-title"
+      aria-modal="true"
+      onKeyDown={handleKeyDown}
+    >
+      <div className="preamble-editor-dialog">
+        <header className="preamble-editor-header">
+          <h2 id="preamble-editor-title">Custom Preamble</h2>
+          <button
+            className="close-button"
+            onClick={onClose}
+            aria-label="Close preamble editor"
+            type="button"
+          >
+            ×
+          </button>
+        </header>
+
+        <div className="preamble-editor-content">
+          <section className="preamble-section">
+            <h3>Macros</h3>
+            <p className="preamble-description">
+              Defined with \newcommand in the exported document and available to math on the canvas.
+            </p>
+            {macros.map((macro, index) => (
+              <div key={index} className="macro-row">
+                <span className="macro-backslash">\</span>
+                <input
+                  type="text"
+                  className="macro-name-input"
+                  value={macro.name}
+                  onChange={(e) => updateMacro(index, { name: e.target.value })}
+                  placeholder="name"
+                  aria-label={`Macro ${index + 1} name`}
+                />
+                <select
+                  value={macro.argumentCount || 0}
+                  onChange={(e) => updateMacro(index, { argumentCount: parseInt(e.target.value) })}
+                  aria-label={`Macro ${index + 1} arguments`}
+                >
+                  {Array.from({ length: MAX_MACRO_ARGUMENTS + 1 }, (_, count) => (
+                    <option key={count} value={count}>{count} args</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  className="macro-definition-input"
+                  value={macro.definition}
+                  onChange={(e) => updateMacro(index, { definition: e.target.value })}
+                  placeholder="\mathbf{#1}"
+                  aria-label={`Macro ${index + 1} definition`}
+                />
+                <button
+                  className="remove-macro-button"
+                  onClick={() => handleRemoveMacro(index)}
+                  aria-label={`Remove macro ${index + 1}`}
+                  type="button"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+            <button className="add-macro-button" onClick={handleAddMacro} type="button">
+              + Add Macro
+            </button>
+          </section>
+
+          <section className="preamble-section">
+            <h3>Packages</h3>
+            <textarea
+              className="packages-input"
+              value={packagesText}
+              onChange={(e) => setPackagesText(e.target.value)}
+              placeholder={'\\usepackage{siunitx}\n\\usepackage[version=4]{mhchem}'}
+              aria-label="Package lines"
+              rows={4}
+            />
+          </section>
+
+          <section className="preamble-section">
+            <h3>TikZ Libraries</h3>
+            <input
+              type="text"
+              className="libraries-input"
+              value={librariesText}
+              onChange={(e) => setLibrariesText(e.target.value)}
+              placeholder="decorations.pathmorphing, patterns"
+              aria-label="TikZ libraries"
+            />
+          </section>
+
+          <section className="preamble-section">
+            <h3>Shell Escape</h3>
+            <label className="shell-escape-option">
+              <input
+                type="checkbox"
+                checked={allowShellEscape}
+                onChange={(e) => setAllowShellEscape(e.target.checked)}
+              />
+              Allow \write18 to run programs
+            </label>
+            <p className="preamble-description">
+              Needed by packages such as minted. Only enable it for documents you trust: they can run any command.
+            </p>
+          </section>
+
+          {errors.length > 0 && (
+            <ul className="preamble-errors" role="alert">
+              {errors.map((error, index) => (
+                <li key={index}>{error}</li>
+              ))}
+            </ul>
+          )}
+
+          {generatedLatex && (
+            <pre className="preamble-preview" aria-label="Generated preamble">{generatedLatex}</pre>
+          )}
+        </div>
+
+        <footer className="preamble-editor-footer">
+          <button className="secondary-button" onClick={onClose} type="button">
+            Cancel
+          </button>
+          <button
+            className="primary-button"
+            onClick={handleSave}
+            disabled={errors.length > 0}
+            type="button"
+          >
+            Save
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default PreambleEditor;
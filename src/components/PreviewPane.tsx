@@ -1,7 +1,11 @@
-import React, { useRef } from 'react';
-import { useSelector } from 'react-redux';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useSelector, useDispatch } from 'react-redux';
 import { RootState } from '../store';
+import { selectSlide } from '../store/slices/presentationSlice';
+import { selectElements } from '../store/slices/uiSlice';
 import { usePreview } from '../hooks/usePreview';
+import { SpeakerNotesMode } from '../services/latexGenerator';
+import { PAGE_IMAGE_RESOLUTION, findBoxAt, getBoundingBox } from '../utils/synctex';
 import './PreviewPane.css';
 
 interface PreviewPaneProps {
@@ -13,7 +17,14 @@ const PreviewPane: React.FC<PreviewPaneProps> = ({ className = '' }) => {
   console.log('🖼️ [PreviewPane] Component props:', { className });
   
   const presentation = useSelector((state: RootState) => state.presentation.currentPresentation);
+  const currentSlideId = useSelector((state: RootState) => state.presentation.currentSlideId);
+  const selectedElementIds = useSelector((state: RootState) => state.ui.selectedElementIds);
+  const dispatch = useDispatch();
   const iframeRef = useRef<HTMLIFrameElement>(null);
+  const highlightRef = useRef<HTMLDivElement>(null);
+  const [notesMode, setNotesMode] = useState<SpeakerNotesMode>('hidden');
+  // Page sizes in PDF points, known once the page images load
+  const [pageSizes, setPageSizes] = useState<Record<number, { width: number; height: number }>>({});
   
   console.log('📊 [PreviewPane] Redux state:', {
     hasPresentation: !!presentation,
@@ -33,6 +44,7 @@ const PreviewPane: React.FC<PreviewPaneProps> = ({ className = '' }) => {
   } = usePreview({
     autoCompile: true,
     debounceMs: 500,
+    notesMode,
   });
   
   console.log('🔍 [PreviewPane] Preview hook state:', {
@@ -49,6 +61,45 @@ const PreviewPane: React.FC<PreviewPaneProps> = ({ className = '' }) => {
     currentSlideIndex: previewState.currentSlideIndex
   });
 
+  const { pageImageUrls, syncBoxes } = previewState;
+
+  // The box of the selected element in the preview
+  const highlightBox = useMemo(() => {
+    if (!syncBoxes?.length || !currentSlideId || selectedElementIds.length !== 1) return undefined;
+
+    return getBoundingBox(syncBoxes.filter(box =>
+      box.slideId === currentSlideId && box.elementId === selectedElementIds[0]
+    ));
+  }, [syncBoxes, currentSlideId, selectedElementIds]);
+
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView?.({ block: 'center', behavior: 'smooth' });
+  }, [highlightBox, pageSizes]);
+
+  const handlePageLoad = (page: number, event: React.SyntheticEvent<HTMLImageElement>) => {
+    const { naturalWidth, naturalHeight } = event.currentTarget;
+    const pointsPerPixel = 72 / PAGE_IMAGE_RESOLUTION;
+    setPageSizes(prev => ({
+      ...prev,
+      [page]: { width: naturalWidth * pointsPerPixel, height: naturalHeight * pointsPerPixel },
+    }));
+  };
+
+  // Select the slide and element typeset at the clicked point
+  const handlePageClick = (page: number, event: React.MouseEvent<HTMLImageElement>) => {
+    const size = pageSizes[page];
+    if (!size || !syncBoxes) return;
+
+    const rect = event.currentTarget.getBoundingClientRect();
+    const x = ((event.clientX - rect.left) / rect.width) * size.width;
+    const y = ((event.clientY - rect.top) / rect.height) * size.height;
+    const box = findBoxAt(syncBoxes, page, x, y);
+    if (!box) return;
+
+    dispatch(selectSlide(box.slideId));
+    dispatch(selectElements(box.elementId ? [box.elementId] : []));
+  };
+
   const handleRefresh = async () => {
     if (presentation) {
       try {
@@ -74,6 +125,18 @@ const PreviewPane: React.FC<PreviewPaneProps> = ({ className = '' }) => {
       <div className="preview-header">
         <h3>Preview</h3>
         <div className="preview-controls">
+          <select
+            value={notesMode}
+            onChange={(e) => setNotesMode(e.target.value as SpeakerNotesMode)}
+            className="notes-mode-select"
+            title="Speaker notes in the PDF"
+            aria-label="Speaker notes in the PDF"
+          >
+            <option value="hidden">No notes</option>
+            <option value="notes-only">Notes only</option>
+            <option value="second-screen">Notes on second screen</option>
+            <option value="notes-under-slide">Notes under slides</option>
+          </select>
           <button 
             onClick={handleRefresh}
             disabled={previewState.isCompiling}
@@ -115,6 +178,13 @@ const PreviewPane: React.FC<PreviewPaneProps> = ({ className = '' }) => {
           </div>
         )}
         
+        {previewState.fontWarning && (
+          <div className="compilation-warning">
+            <span className="warning-icon">🔤</span>
+            <span className="warning-message">{previewState.fontWarning}</span>
+          </div>
+        )}
+        
         {!previewState.isCompiling && !previewState.error && previewState.lastCompiled && (
           <div className="compilation-success">
             <span className="success-icon">✅</span>
@@ -136,7 +206,37 @@ const PreviewPane: React.FC<PreviewPaneProps> = ({ className = '' }) => {
       </div>
 
       <div className="preview-content">
-        {previewState.pdfUrl ? (
+        {pageImageUrls && pageImageUrls.length > 0 ? (
+          <div className="pdf-pages" role="document" aria-label="PDF Preview">
+            {pageImageUrls.map((url, index) => {
+              const page = index + 1;
+              const size = pageSizes[page];
+              return (
+                <div key={url} className="pdf-page">
+                  <img
+                    src={url}
+                    alt={`Page ${page}`}
+                    onLoad={(e) => handlePageLoad(page, e)}
+                    onClick={(e) => handlePageClick(page, e)}
+                  />
+                  {size && highlightBox?.page === page && (
+                    <div
+                      ref={highlightRef}
+                      className="sync-highlight"
+                      aria-label="Selected element"
+                      style={{
+                        left: `${(highlightBox.x / size.width) * 100}%`,
+                        top: `${(highlightBox.y / size.height) * 100}%`,
+                        width: `${(highlightBox.width / size.width) * 100}%`,
+                        height: `${(highlightBox.height / size.height) * 100}%`,
+                      }}
+                    />
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        ) : previewState.pdfUrl ? (
           <iframe
             ref={iframeRef}
             src={previewState.pdfUrl}
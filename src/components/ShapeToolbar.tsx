@@ -27,6 +27,9 @@ const ShapeToolbar: React.FC<ShapeToolbarProps> = ({
   const shapeTypes = [
     { type: 'rectangle' as const, icon: '▭', label: 'Rectangle' },
     { type: 'circle' as const, icon: '○', label: 'Circle' },
+    { type: 'ellipse' as const, icon: '⬭', label: 'Ellipse' },
+    { type: 'triangle' as const, icon: '△', label: 'Triangle' },
+    { type: 'diamond' as const, icon: '◇', label: 'Diamond' },
     { type: 'line' as const, icon: '─', label: 'Line' },
     { type: 'arrow' as const, icon: '→', label: 'Arrow' },
   ];
@@ -50,6 +53,14 @@ const ShapeToolbar: React.FC<ShapeToolbarProps> = ({
   // Stroke width options
   const strokeWidths = [1, 2, 3, 4, 5, 8, 10, 12, 16, 20];
 
+  // Dash patterns as Fabric.js dash arrays
+  const dashStyles: { value: string; icon: string; label: string; dashArray?: number[] }[] = [
+    { value: 'solid', icon: '───', label: 'Solid' },
+    { value: 'dashed', icon: '╌╌', label: 'Dashed', dashArray: [8, 4] },
+    { value: 'dotted', icon: '┈┈', label: 'Dotted', dashArray: [2, 4] },
+    { value: 'dash-dot', icon: '─·─', label: 'Dash Dot', dashArray: [8, 4, 2, 4] },
+  ];
+
   const handleShapeTypeSelect = (shapeType: typeof activeShapeType) => {
     dispatch(setActiveShapeType(shapeType));
   };
@@ -85,6 +96,25 @@ const ShapeToolbar: React.FC<ShapeToolbarProps> = ({
     handlePropertyChange({ opacity });
   };
 
+  const handleDashStyleChange = (value: string) => {
+    const style = dashStyles.find(dashStyle => dashStyle.value === value);
+    handlePropertyChange({ strokeDashArray: style?.dashArray });
+  };
+
+  const handleRotationChange = (rotation: number) => {
+    if (Number.isNaN(rotation)) return;
+    handlePropertyChange({ rotation: ((rotation % 360) + 360) % 360 });
+  };
+
+  const handleCornerRadiusChange = (cornerRadius: number) => {
+    if (Number.isNaN(cornerRadius)) return;
+    handlePropertyChange({ cornerRadius: Math.max(0, cornerRadius) });
+  };
+
+  const currentDashStyle = dashStyles.find(style =>
+    (style.dashArray || []).join(',') === (currentProperties.strokeDashArray || []).join(',')
+  )?.value || 'solid';
+
   const colorToHex = (color: Color): string => {
     const toHex = (n: number) => n.toString(16).padStart(2, '0');
     return `#${toHex(color.r)}${toHex(color.g)}${toHex(color.b)}`;
@@ -225,6 +255,54 @@ const ShapeToolbar: React.FC<ShapeToolbarProps> = ({
             </select>
           </div>
 
+          {/* Dash Pattern */}
+          <div className="toolbar-group">
+            <span className="toolbar-label">Dash</span>
+            <div className="dash-style-buttons">
+              {dashStyles.map(style => (
+                <button
+                  key={style.value}
+                  className={`dash-style-button ${currentDashStyle === style.value ? 'active' : ''}`}
+                  onClick={() => handleDashStyleChange(style.value)}
+                  title={style.label}
+                >
+                  {style.icon}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Rotation */}
+          <div className="toolbar-group">
+            <span className="toolbar-label">Rotate</span>
+            <input
+              type="number"
+              className="rotation-input"
+              aria-label="Rotation in degrees"
+              min="0"
+              max="359"
+              value={Math.round(currentProperties.rotation || 0)}
+              onChange={(e) => handleRotationChange(parseInt(e.target.value))}
+            />
+            <span className="rotation-unit">°</span>
+          </div>
+
+          {/* Corner Radius - rectangles only */}
+          {(currentProperties.shapeType || 'rectangle') === 'rectangle' && (
+            <div className="toolbar-group">
+              <span className="toolbar-label">Corners</span>
+              <input
+                type="number"
+                className="corner-radius-input"
+                aria-label="Corner radius"
+                min="0"
+                max="100"
+                value={currentProperties.cornerRadius || 0}
+                onChange={(e) => handleCornerRadiusChange(parseInt(e.target.value))}
+              />
+            </div>
+          )}
+
           {/* Opacity Control */}
           <div className="toolbar-group">
             <span className="toolbar-label">Opacity</span>
@@ -3,7 +3,15 @@ import { fabric } from 'fabric';
 import { useSelector, useDispatch } from 'react-redux';
 import { RootState } from '../store';
 import { addElement, updateElement, deleteElement } from '../store/slices/presentationSlice';
-import { SlideElement } from '../types/presentation';
+import { selectElements } from '../store/slices/uiSlice';
+import { SlideElement, ChartType, CodeLanguage, ElementProperties, createDefaultChartData } from '../types/presentation';
+import { createFabricChart } from '../utils/chartPreview';
+import { createFabricCodeListing } from '../utils/codePreview';
+import { CODE_LANGUAGES, parseLineRanges, formatLineRanges } from '../utils/codeHighlighting';
+import { getSlideDimensions, CANVAS_BASE_WIDTH } from '../utils/slideGeometry';
+import { hasBibliography, parseBibEntries } from '../utils/bibliography';
+import { rawLatexPreviewService } from '../services/rawLatexPreviewService';
+import CitationPicker from './CitationPicker';
 
 interface SimpleTextCanvasProps {
   slideId: string;
@@ -24,15 +32,44 @@ const SimpleTextCanvas: React.FC<SimpleTextCanvasProps> = ({
   const fabricCanvasRef = useRef<fabric.Canvas | null>(null);
   const [isCanvasReady, setIsCanvasReady] = useState(false);
   const [selectedObject, setSelectedObject] = useState<fabric.Object | null>(null);
+  const [showCitationPicker, setShowCitationPicker] = useState(false);
   const [selectedElementId, setSelectedElementId] = useState<string | null>(null);
   const [fontSizeInput, setFontSizeInput] = useState<string>('16');
   const [currentTextColor, setCurrentTextColor] = useState<string>('#000000');
   const [showOutOfBoundsWarning, setShowOutOfBoundsWarning] = useState<boolean>(false);
   const fontSizeDebounceRef = useRef<NodeJS.Timeout | null>(null);
+  const editedChartIdRef = useRef<string | null>(null);
+  const editedRawLatexIdRef = useRef<string | null>(null);
+  const [rawLatexDraft, setRawLatexDraft] = useState<string>('');
+  const editedCodeIdRef = useRef<string | null>(null);
+  // Element selected from outside the canvas, e.g. by jumping to a compilation error, until it is on the canvas
+  const focusElementIdRef = useRef<string | null>(null);
+  const [codeDraft, setCodeDraft] = useState<string>('');
+  const [highlightedLinesDraft, setHighlightedLinesDraft] = useState<string>('');
 
   // Get current slide data from Redux store
   const presentation = useSelector((state: RootState) => state.presentation.currentPresentation);
   const currentSlide = presentation?.slides.find(slide => slide.id === slideId);
+  const aspectRatio = presentation?.settings.slideSize.aspectRatio;
+  const bibliography = presentation?.settings.bibliography;
+  const selectedElementIds = useSelector((state: RootState) => state.ui.selectedElementIds);
+  const selectedChartData = currentSlide?.elements.find(element => element.id === selectedElementId)?.properties.chartData;
+  const selectedRawLatex = currentSlide?.elements.find(element => element.id === selectedElementId && element.type === 'latex');
+
+  // Start editing from the stored code whenever another raw LaTeX element is selected
+  useEffect(() => {
+    setRawLatexDraft(selectedRawLatex?.content || '');
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedRawLatex?.id]);
+
+  const selectedCode = currentSlide?.elements.find(element => element.id === selectedElementId && element.type === 'code');
+
+  // Same for the code and highlighted lines of code elements
+  useEffect(() => {
+    setCodeDraft(selectedCode?.content || '');
+    setHighlightedLinesDraft(formatLineRanges(selectedCode?.properties.highlightedLines || []));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedCode?.id]);
 
   console.log('🔥 [SimpleTextCanvas] Redux state:', {
     hasPresentation: !!presentation,
@@ -52,9 +89,8 @@ const SimpleTextCanvas: React.FC<SimpleTextCanvasProps> = ({
       const availableWidth = containerRect.width - 40; // 20px padding on each side
       const availableHeight = containerRect.height - 200; // Space for toolbars and padding
       
-      // EXACT PDF DIMENSIONS - LaTeX usable area: 15.3cm x 7.3cm
-      const PDF_WIDTH_CM = 15.3;
-      const PDF_HEIGHT_CM = 7.3;
+      // EXACT PDF DIMENSIONS - LaTeX usable area for the aspect ratio (15.3cm x 7.3cm for 16:9)
+      const { usableWidthCm: PDF_WIDTH_CM, usableHeightCm: PDF_HEIGHT_CM } = getSlideDimensions(aspectRatio);
       const PDF_ASPECT_RATIO = PDF_WIDTH_CM / PDF_HEIGHT_CM; // ~2.096
       
       // Calculate canvas pixel dimensions that maintain EXACT 1:1 PDF coordinate mapping
@@ -62,7 +98,7 @@ const SimpleTextCanvas: React.FC<SimpleTextCanvasProps> = ({
       let canvasWidth, canvasHeight;
       
       // Calculate ideal canvas size for perfect PDF mapping (larger size = better precision)
-      const IDEAL_CANVAS_WIDTH = 800; // Base size for good resolution
+      const IDEAL_CANVAS_WIDTH = CANVAS_BASE_WIDTH; // Base size for good resolution
       const IDEAL_CANVAS_HEIGHT = IDEAL_CANVAS_WIDTH / PDF_ASPECT_RATIO;
       
       // Scale to fit available space while maintaining exact PDF aspect ratio and mapping
@@ -125,7 +161,7 @@ const SimpleTextCanvas: React.FC<SimpleTextCanvasProps> = ({
       resizeObserver.disconnect();
       window.removeEventListener('resize', calculateCanvasSize);
     };
-  }, []);
+  }, [aspectRatio]);
 
   // Initialize Fabric.js canvas
   useEffect(() => {
@@ -280,6 +316,8 @@ const SimpleTextCanvas: React.FC<SimpleTextCanvasProps> = ({
         if (selectedObject && selectedObject.data?.elementId) {
           setSelectedObject(selectedObject);
           setSelectedElementId(selectedObject.data.elementId);
+          // Shared with the preview, which highlights the selected element
+          dispatch(selectElements([selectedObject.data.elementId]));
 
           // Update font size input and color if it's a textbox
           if (selectedObject.type === 'textbox') {
@@ -299,6 +337,8 @@ const SimpleTextCanvas: React.FC<SimpleTextCanvasProps> = ({
         if (selectedObject && selectedObject.data?.elementId) {
           setSelectedObject(selectedObject);
           setSelectedElementId(selectedObject.data.elementId);
+          // Shared with the preview, which highlights the selected element
+          dispatch(selectElements([selectedObject.data.elementId]));
 
           // Update font size input and color if it's a textbox
           if (selectedObject.type === 'textbox') {
@@ -315,6 +355,7 @@ const SimpleTextCanvas: React.FC<SimpleTextCanvasProps> = ({
         console.log('🚫 [SimpleTextCanvas] ===== SELECTION CLEARED =====');
         setSelectedObject(null);
         setSelectedElementId(null);
+        dispatch(selectElements([]));
         console.log('✅ [SimpleTextCanvas] Selection cleared');
       });
 
@@ -499,6 +540,25 @@ const SimpleTextCanvas: React.FC<SimpleTextCanvasProps> = ({
           console.log('✅ [SimpleTextCanvas] Image size updated in Redux');
           
           // Check for out of bounds warning after image scaling
+          checkOutOfBoundsWarning(canvas);
+        } else if (obj && obj.type === 'group' && obj.data?.elementId) {
+          console.log('📊 [SimpleTextCanvas] ===== CHART SCALED COMPLETE =====');
+
+          // Charts are redrawn at their new size when the slide reloads
+          dispatch(updateElement({
+            slideId,
+            elementId: obj.data.elementId,
+            updates: {
+              size: {
+                width: obj.getScaledWidth(),
+                height: obj.getScaledHeight()
+              },
+              position: { x: obj.left || 0, y: obj.top || 0 }
+            }
+          }));
+
+          console.log('✅ [SimpleTextCanvas] Chart size updated in Redux');
+
           checkOutOfBoundsWarning(canvas);
         } else {
           console.log('⚠️ [SimpleTextCanvas] Object scaled but no Redux update:', {
@@ -826,14 +886,42 @@ const SimpleTextCanvas: React.FC<SimpleTextCanvasProps> = ({
         createTextElement(element, canvas);
       } else if (element.type === 'image') {
         createImageElement(element, canvas);
+      } else if (element.type === 'chart') {
+        createChartElement(element, canvas);
+      } else if (element.type === 'latex') {
+        createRawLatexElement(element, canvas);
+      } else if (element.type === 'code') {
+        createCodeElement(element, canvas);
       }
     });
 
     canvas.renderAll();
+    focusPendingElement();
     console.log('✅ [SimpleTextCanvas] All elements loaded');
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [isCanvasReady, currentSlide, slideId, dispatch]);
 
+  // Select an element chosen outside the canvas, once its slide is loaded
+  useEffect(() => {
+    if (selectedElementIds.length !== 1) return;
+    focusElementIdRef.current = selectedElementIds[0];
+    focusPendingElement();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedElementIds]);
+
+  const focusPendingElement = () => {
+    const canvas = fabricCanvasRef.current;
+    const elementId = focusElementIdRef.current;
+    if (!canvas || !elementId) return;
+
+    const target = canvas.getObjects().find(obj => obj.data?.elementId === elementId);
+    if (!target) return;
+
+    focusElementIdRef.current = null;
+    canvas.setActiveObject(target);
+    canvas.requestRenderAll();
+  };
+
   // Create a text element on the canvas
   const createTextElement = (element: SlideElement, canvas: fabric.Canvas) => {
     console.log('📝 [SimpleTextCanvas] ===== CREATING TEXT ELEMENT =====');
@@ -924,6 +1012,19 @@ const SimpleTextCanvas: React.FC<SimpleTextCanvasProps> = ({
           return;
         }
 
+        // Show only the cropped part; crops are in percent of the original image
+        const { crop, flipX, flipY, rotation } = element.properties;
+        if (crop) {
+          const naturalWidth = img.width || 1;
+          const naturalHeight = img.height || 1;
+          img.set({
+            cropX: (crop.x / 100) * naturalWidth,
+            cropY: (crop.y / 100) * naturalHeight,
+            width: (crop.width / 100) * naturalWidth,
+            height: (crop.height / 100) * naturalHeight,
+          });
+        }
+
         // Calculate scale to maintain aspect ratio
         const imageAspectRatio = (img.width || 1) / (img.height || 1);
         const targetAspectRatio = element.size.width / element.size.height;
@@ -979,11 +1080,36 @@ const SimpleTextCanvas: React.FC<SimpleTextCanvasProps> = ({
           // Enable controls
           hasControls: true,
           hasBorders: true,
+          flipX: !!flipX,
+          flipY: !!flipY,
         });
 
+        // Turn about the center, as the LaTeX output does
+        if (rotation) {
+          img.rotate(rotation);
+        }
+
         // Store element ID for reference
         img.data = { elementId: element.id };
 
+        // Keep the rotation, with the position of the unrotated image
+        img.on('modified', (e: fabric.IEvent) => {
+          if (e.transform?.action !== 'rotate' || !img.data?.elementId) return;
+
+          const center = img.getCenterPoint();
+          dispatch(updateElement({
+            slideId,
+            elementId: img.data.elementId,
+            updates: {
+              position: {
+                x: center.x - img.getScaledWidth() / 2,
+                y: center.y - img.getScaledHeight() / 2
+              },
+              properties: { rotation: img.angle || 0 }
+            }
+          }));
+        });
+
         // Add event listeners for image transformations
         img.on('scaling', () => {
           console.log('🔥 [SimpleTextCanvas] IMAGE OBJECT SCALING EVENT FIRED!');
@@ -1035,6 +1161,164 @@ const SimpleTextCanvas: React.FC<SimpleTextCanvasProps> = ({
     }
   };
 
+  // Create a chart element on the canvas as a preview of the pgfplots output
+  const createChartElement = (element: SlideElement, canvas: fabric.Canvas) => {
+    console.log('📊 [SimpleTextCanvas] ===== CREATING CHART ELEMENT =====');
+
+    if (!element.properties.chartData || !presentation) {
+      console.error('❌ [SimpleTextCanvas] No chart data provided');
+      return;
+    }
+
+    try {
+      const chart = createFabricChart(element.properties.chartData, presentation.theme, element.position, element.size);
+
+      chart.set({
+        selectable: true,
+        evented: true,
+        lockScalingFlip: true,
+        borderColor: '#007bff',
+        cornerColor: '#007bff',
+        cornerSize: 6,
+        transparentCorners: false,
+        minScaleLimit: 0.1,
+      });
+
+      // Store element ID for reference
+      chart.data = { elementId: element.id };
+
+      canvas.add(chart);
+
+      // Keep the chart selected while its toolbar is being used
+      if (editedChartIdRef.current === element.id) {
+        canvas.setActiveObject(chart);
+        editedChartIdRef.current = null;
+      }
+
+      console.log('✅ [SimpleTextCanvas] Chart added to canvas');
+    } catch (error) {
+      console.error('❌ [SimpleTextCanvas] Error creating chart:', error);
+    }
+  };
+
+  // Create code element on canvas
+  const createCodeElement = (element: SlideElement, canvas: fabric.Canvas) => {
+    console.log('💻 [SimpleTextCanvas] ===== CREATING CODE ELEMENT =====');
+
+    try {
+      const listing = createFabricCodeListing(element.content || '', element.properties, element.position, element.size);
+
+      listing.set({
+        selectable: true,
+        evented: true,
+        lockScalingFlip: true,
+        borderColor: '#007bff',
+        cornerColor: '#007bff',
+        cornerSize: 6,
+        transparentCorners: false,
+        minScaleLimit: 0.1,
+      });
+
+      // Store element ID for reference
+      listing.data = { elementId: element.id };
+
+      canvas.add(listing);
+
+      // Keep the listing selected while its toolbar is being used
+      if (editedCodeIdRef.current === element.id) {
+        canvas.setActiveObject(listing);
+        editedCodeIdRef.current = null;
+      }
+
+      console.log('✅ [SimpleTextCanvas] Code listing added to canvas');
+    } catch (error) {
+      console.error('❌ [SimpleTextCanvas] Error creating code listing:', error);
+    }
+  };
+
+  // Create a raw LaTeX element on the canvas, swapping in the snippet compiled on its own once it is ready
+  const createRawLatexElement = (element: SlideElement, canvas: fabric.Canvas) => {
+    console.log('🧾 [SimpleTextCanvas] ===== CREATING RAW LATEX ELEMENT =====');
+
+    if (!presentation) return;
+
+    const createFrame = (dashed: boolean) => new fabric.Rect({
+      left: 0,
+      top: 0,
+      width: element.size.width,
+      height: element.size.height,
+      fill: dashed ? 'rgba(248, 249, 250, 0.8)' : 'transparent',
+      stroke: '#adb5bd',
+      strokeWidth: 1,
+      strokeDashArray: dashed ? [4, 4] : undefined,
+    });
+
+    const createElementGroup = (objects: fabric.Object[]) => {
+      const group = new fabric.Group(objects, {
+        left: element.position.x,
+        top: element.position.y,
+        selectable: true,
+        evented: true,
+        lockScalingFlip: true,
+        borderColor: '#007bff',
+        cornerColor: '#007bff',
+        cornerSize: 6,
+        transparentCorners: false,
+        minScaleLimit: 0.1,
+      });
+      // Store element ID for reference
+      group.data = { elementId: element.id };
+      return group;
+    };
+
+    const label = new fabric.Text('Compiling LaTeX…', {
+      left: 6,
+      top: 6,
+      fontSize: 12,
+      fontFamily: 'monospace',
+      fill: '#6c757d',
+    });
+    const placeholder = createElementGroup([createFrame(true), label]);
+    canvas.add(placeholder);
+
+    // Keep the element selected while its code is being edited
+    if (editedRawLatexIdRef.current === element.id) {
+      canvas.setActiveObject(placeholder);
+      editedRawLatexIdRef.current = null;
+    }
+
+    rawLatexPreviewService.renderPreview(element, slideId, presentation).then(preview => {
+      // The slide may have been redrawn while the snippet compiled
+      if (!canvas.getObjects().includes(placeholder)) return;
+
+      if (!preview.imageUrl) {
+        label.set('text', preview.errors.length > 0 ? '⚠ LaTeX error, see compilation errors' : 'No preview available');
+        placeholder.set('dirty', true);
+        canvas.requestRenderAll();
+        return;
+      }
+
+      fabric.Image.fromURL(preview.imageUrl, (img) => {
+        if (!img || !canvas.getObjects().includes(placeholder)) return;
+
+        const scale = Math.min(element.size.width / (img.width || 1), element.size.height / (img.height || 1));
+        img.set({ left: 0, top: 0, scaleX: scale, scaleY: scale });
+
+        const wasActive = canvas.getActiveObject() === placeholder;
+        const index = canvas.getObjects().indexOf(placeholder);
+        const rendered = createElementGroup([createFrame(false), img]);
+
+        canvas.remove(placeholder);
+        canvas.insertAt(rendered, index, false);
+        if (wasActive) {
+          canvas.setActiveObject(rendered);
+        }
+        canvas.requestRenderAll();
+        console.log('✅ [SimpleTextCanvas] Raw LaTeX preview rendered');
+      });
+    });
+  };
+
   // Add text element function
   const addTextElement = () => {
     console.log('🔘 [SimpleTextCanvas] ===== TEXT BUTTON CLICKED =====');
@@ -1080,6 +1364,140 @@ const SimpleTextCanvas: React.FC<SimpleTextCanvasProps> = ({
   };
 
   // Add image element function
+  // Add chart element function
+  const addChartElement = () => {
+    console.log('📊 [SimpleTextCanvas] ===== CHART BUTTON CLICKED =====');
+
+    if (!slideId) {
+      console.error('❌ [SimpleTextCanvas] No slide ID available');
+      return;
+    }
+
+    const newElement: Omit<SlideElement, 'id' | 'createdAt' | 'updatedAt'> = {
+      type: 'chart',
+      position: { x: 100, y: 60 },
+      size: { width: 360, height: 220 },
+      properties: {
+        opacity: 1,
+        chartData: createDefaultChartData(),
+      },
+    };
+
+    dispatch(addElement({ slideId, element: newElement }));
+  };
+
+  // Add raw LaTeX element function
+  const addRawLatexElement = () => {
+    console.log('🧾 [SimpleTextCanvas] ===== RAW LATEX BUTTON CLICKED =====');
+
+    if (!slideId) {
+      console.error('❌ [SimpleTextCanvas] No slide ID available');
+      return;
+    }
+
+    const newElement: Omit<SlideElement, 'id' | 'createdAt' | 'updatedAt'> = {
+      type: 'latex',
+      position: { x: 100, y: 60 },
+      size: { width: 300, height: 150 },
+      properties: {
+        opacity: 1,
+      },
+      content: '\\begin{tikzpicture}\n  \\draw[->] (0,0) -- (2,1);\n\\end{tikzpicture}',
+    };
+
+    dispatch(addElement({ slideId, element: newElement }));
+  };
+
+  // Save the edited code of the selected raw LaTeX element, which recompiles its preview
+  const applyRawLatexDraft = () => {
+    if (!selectedRawLatex || selectedRawLatex.content === rawLatexDraft) return;
+
+    editedRawLatexIdRef.current = selectedRawLatex.id;
+    dispatch(updateElement({
+      slideId,
+      elementId: selectedRawLatex.id,
+      updates: { content: rawLatexDraft }
+    }));
+  };
+
+  // Add code element function
+  const addCodeElement = () => {
+    console.log('💻 [SimpleTextCanvas] ===== CODE BUTTON CLICKED =====');
+
+    if (!slideId) {
+      console.error('❌ [SimpleTextCanvas] No slide ID available');
+      return;
+    }
+
+    const newElement: Omit<SlideElement, 'id' | 'createdAt' | 'updatedAt'> = {
+      type: 'code',
+      position: { x: 100, y: 60 },
+      size: { width: 400, height: 160 },
+      properties: {
+        opacity: 1,
+        fontSize: 14,
+        codeLanguage: 'python',
+        showLineNumbers: true,
+        highlightedLines: [],
+      },
+      content: 'def greet(name):\n    # Say hello\n    return f"Hello, {name}!"\n\nprint(greet("world"))',
+    };
+
+    dispatch(addElement({ slideId, element: newElement }));
+  };
+
+  // Update the code or properties of the selected code element
+  const updateSelectedCode = (updates: { content?: string; properties?: Partial<ElementProperties> }) => {
+    if (!selectedCode) return;
+
+    editedCodeIdRef.current = selectedCode.id;
+    dispatch(updateElement({
+      slideId,
+      elementId: selectedCode.id,
+      updates: {
+        ...(updates.content !== undefined ? { content: updates.content } : {}),
+        properties: { ...selectedCode.properties, ...updates.properties }
+      }
+    }));
+  };
+
+  // Update the chart data of the selected chart element
+  const updateSelectedChart = (changes: Partial<NonNullable<SlideElement['properties']['chartData']>>) => {
+    const element = currentSlide?.elements.find(el => el.id === selectedElementId);
+    if (!element || element.type !== 'chart' || !element.properties.chartData) return;
+
+    editedChartIdRef.current = element.id;
+    dispatch(updateElement({
+      slideId,
+      elementId: element.id,
+      updates: {
+        properties: {
+          ...element.properties,
+          chartData: { ...element.properties.chartData, ...changes }
+        }
+      }
+    }));
+  };
+
+  // Attach a CSV file as the data source of the selected chart
+  const attachChartCsv = () => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.csv,text/csv';
+    input.onchange = (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (!file) return;
+
+      const reader = new FileReader();
+      reader.onload = (event) => {
+        console.log('📊 [SimpleTextCanvas] Attached CSV to chart:', file.name);
+        updateSelectedChart({ csvData: event.target?.result as string });
+      };
+      reader.readAsText(file);
+    };
+    input.click();
+  };
+
   const addImageElement = () => {
     console.log('🖼️ [SimpleTextCanvas] ===== IMAGE BUTTON CLICKED =====');
 
@@ -1248,6 +1666,28 @@ const SimpleTextCanvas: React.FC<SimpleTextCanvasProps> = ({
     console.log('✅ [SimpleTextCanvas] Formatting applied and Redux updated');
   };
 
+  const insertCitation = (citation: string) => {
+    setShowCitationPicker(false);
+    if (!selectedObject || !selectedElementId || selectedObject.type !== 'textbox') return;
+
+    const textbox = selectedObject as fabric.Textbox;
+    const text = textbox.text || '';
+    // Insert at the cursor while editing, otherwise append to the text
+    const position = textbox.isEditing ? textbox.selectionEnd ?? text.length : text.length;
+    const before = text.slice(0, position);
+    const separator = textbox.isEditing || !before || /\s$/.test(before) ? '' : ' ';
+    const newText = before + separator + citation + text.slice(position);
+
+    textbox.set('text', newText);
+    fabricCanvasRef.current?.requestRenderAll();
+
+    dispatch(updateElement({
+      slideId,
+      elementId: selectedElementId,
+      updates: { content: newText }
+    }));
+  };
+
   const toggleBold = () => {
     console.log('🔤 [SimpleTextCanvas] ===== TOGGLE BOLD =====');
     if (!selectedObject || selectedObject.type !== 'textbox') return;
@@ -1437,6 +1877,53 @@ const SimpleTextCanvas: React.FC<SimpleTextCanvasProps> = ({
         >
           🖼️ Add Image
         </button>
+
+        <button
+          onClick={addChartElement}
+          style={{
+            padding: '10px 20px',
+            backgroundColor: '#6f42c1',
+            color: 'white',
+            border: 'none',
+            borderRadius: '4px',
+            cursor: 'pointer',
+            fontSize: '16px'
+          }}
+        >
+          📊 Add Chart
+        </button>
+
+        <button
+          onClick={addRawLatexElement}
+          style={{
+            padding: '10px 20px',
+            backgroundColor: '#495057',
+            color: 'white',
+            border: 'none',
+            borderRadius: '4px',
+            cursor: 'pointer',
+            fontSize: '16px'
+          }}
+          title="Insert LaTeX code that is copied as-is into the slide"
+        >
+          🧾 Add LaTeX
+        </button>
+
+        <button
+          onClick={addCodeElement}
+          style={{
+            padding: '10px 20px',
+            backgroundColor: '#343a40',
+            color: 'white',
+            border: 'none',
+            borderRadius: '4px',
+            cursor: 'pointer',
+            fontSize: '16px'
+          }}
+          title="Insert a syntax highlighted code listing"
+        >
+          💻 Add Code
+        </button>
       </div>
 
       {/* Text formatting toolbar - only show when text is selected */}
@@ -1582,6 +2069,244 @@ const SimpleTextCanvas: React.FC<SimpleTextCanvasProps> = ({
               title="Text color"
             />
           </div>
+
+          {/* Citation */}
+          <button
+            onClick={() => setShowCitationPicker(true)}
+            disabled={!hasBibliography(bibliography)}
+            style={{
+              padding: '5px 10px',
+              border: '1px solid #ccc',
+              borderRadius: '3px',
+              cursor: hasBibliography(bibliography) ? 'pointer' : 'not-allowed',
+              backgroundColor: 'white'
+            }}
+            title={hasBibliography(bibliography)
+              ? 'Insert citation'
+              : 'Attach a .bib file to insert citations'}
+          >
+            Cite
+          </button>
+        </div>
+      )}
+
+      {showCitationPicker && hasBibliography(bibliography) && (
+        <CitationPicker
+          entries={parseBibEntries(bibliography.content)}
+          onInsert={insertCitation}
+          onClose={() => setShowCitationPicker(false)}
+        />
+      )}
+
+      {/* Chart editing toolbar - only show when a chart is selected */}
+      {selectedObject && selectedObject.type === 'group' && selectedChartData && (
+        <div style={{
+          marginBottom: '10px',
+          padding: '10px',
+          backgroundColor: '#e9ecef',
+          borderRadius: '4px',
+          display: 'flex',
+          gap: '10px',
+          alignItems: 'center',
+          flexWrap: 'wrap'
+        }}>
+          <span style={{ fontWeight: 'bold', marginRight: '10px' }}>Edit Chart:</span>
+
+          <div style={{ display: 'flex', alignItems: 'center', gap: '5px' }}>
+            <label style={{ fontSize: '12px', fontWeight: 'bold' }}>Type:</label>
+            <select
+              value={selectedChartData.chartType}
+              onChange={(e) => updateSelectedChart({ chartType: e.target.value as ChartType })}
+              style={{ padding: '3px 5px', border: '1px solid #ccc', borderRadius: '3px', fontSize: '12px' }}
+              title="Chart type"
+            >
+              <option value="bar">Bar</option>
+              <option value="line">Line</option>
+              <option value="scatter">Scatter</option>
+              <option value="pie">Pie</option>
+            </select>
+          </div>
+
+          <div style={{ display: 'flex', alignItems: 'center', gap: '5px' }}>
+            <label style={{ fontSize: '12px', fontWeight: 'bold' }}>Title:</label>
+            <input
+              type="text"
+              value={selectedChartData.title || ''}
+              onChange={(e) => updateSelectedChart({ title: e.target.value })}
+              style={{ width: '120px', padding: '3px 5px', border: '1px solid #ccc', borderRadius: '3px', fontSize: '12px' }}
+              title="Chart title"
+            />
+          </div>
+
+          {!selectedChartData.csvData && (
+            <div style={{ display: 'flex', alignItems: 'center', gap: '5px' }}>
+              <label style={{ fontSize: '12px', fontWeight: 'bold' }}>Labels:</label>
+              <input
+                type="text"
+                value={selectedChartData.labels.join(', ')}
+                onChange={(e) => updateSelectedChart({ labels: e.target.value.split(',').map(label => label.trim()) })}
+                style={{ width: '120px', padding: '3px 5px', border: '1px solid #ccc', borderRadius: '3px', fontSize: '12px' }}
+                title="Comma-separated category labels"
+              />
+              <label style={{ fontSize: '12px', fontWeight: 'bold' }}>Values:</label>
+              <input
+                type="text"
+                value={(selectedChartData.series[0]?.values || []).join(', ')}
+                onChange={(e) => updateSelectedChart({
+                  series: [
+                    {
+                      ...(selectedChartData.series[0] || { name: 'Series 1' }),
+                      values: e.target.value.split(',').map(value => parseFloat(value)).filter(value => Number.isFinite(value))
+                    },
+                    ...selectedChartData.series.slice(1)
+                  ]
+                })}
+                style={{ width: '120px', padding: '3px 5px', border: '1px solid #ccc', borderRadius: '3px', fontSize: '12px' }}
+                title="Comma-separated values of the first series"
+              />
+            </div>
+          )}
+
+          <button
+            onClick={attachChartCsv}
+            style={{ padding: '5px 10px', border: '1px solid #ccc', borderRadius: '3px', cursor: 'pointer', backgroundColor: 'white' }}
+            title="Use a CSV file as chart data (first column: labels, header row: series names)"
+          >
+            📎 {selectedChartData.csvData ? 'Replace CSV' : 'Attach CSV'}
+          </button>
+
+          {selectedChartData.csvData && (
+            <button
+              onClick={() => updateSelectedChart({ csvData: undefined })}
+              style={{ padding: '5px 10px', border: '1px solid #ccc', borderRadius: '3px', cursor: 'pointer', backgroundColor: 'white' }}
+              title="Go back to inline chart data"
+            >
+              ✖ Remove CSV
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Raw LaTeX editor - only show when a raw LaTeX element is selected */}
+      {selectedObject && selectedObject.type === 'group' && selectedRawLatex && (
+        <div style={{
+          marginBottom: '10px',
+          padding: '10px',
+          backgroundColor: '#e9ecef',
+          borderRadius: '4px',
+          display: 'flex',
+          gap: '10px',
+          alignItems: 'flex-start',
+          flexWrap: 'wrap'
+        }}>
+          <span style={{ fontWeight: 'bold', marginRight: '10px' }}>Edit LaTeX:</span>
+
+          <textarea
+            value={rawLatexDraft}
+            onChange={(e) => setRawLatexDraft(e.target.value)}
+            onBlur={applyRawLatexDraft}
+            rows={6}
+            spellCheck={false}
+            style={{ flex: 1, minWidth: '300px', padding: '5px', border: '1px solid #ccc', borderRadius: '3px', fontFamily: 'monospace', fontSize: '12px' }}
+            aria-label="Raw LaTeX code"
+          />
+
+          <button
+            onClick={applyRawLatexDraft}
+            disabled={rawLatexDraft === selectedRawLatex.content}
+            style={{ padding: '5px 10px', border: '1px solid #ccc', borderRadius: '3px', cursor: 'pointer', backgroundColor: 'white' }}
+            title="Save the code and recompile the preview"
+          >
+            ▶ Apply
+          </button>
+        </div>
+      )}
+
+      {/* Code editing toolbar - only show when a code element is selected */}
+      {selectedObject && selectedObject.type === 'group' && selectedCode && (
+        <div style={{
+          marginBottom: '10px',
+          padding: '10px',
+          backgroundColor: '#e9ecef',
+          borderRadius: '4px',
+          display: 'flex',
+          gap: '10px',
+          alignItems: 'flex-start',
+          flexWrap: 'wrap'
+        }}>
+          <span style={{ fontWeight: 'bold', marginRight: '10px' }}>Edit Code:</span>
+
+          <textarea
+            value={codeDraft}
+            onChange={(e) => setCodeDraft(e.target.value)}
+            onBlur={() => codeDraft !== selectedCode.content && updateSelectedCode({ content: codeDraft })}
+            rows={6}
+            spellCheck={false}
+            style={{ flex: 1, minWidth: '300px', padding: '5px', border: '1px solid #ccc', borderRadius: '3px', fontFamily: 'monospace', fontSize: '12px' }}
+            aria-label="Code"
+          />
+
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '5px' }}>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '5px' }}>
+              <label style={{ fontSize: '12px', fontWeight: 'bold' }}>Language:</label>
+              <select
+                value={selectedCode.properties.codeLanguage || 'plain'}
+                onChange={(e) => updateSelectedCode({ properties: { codeLanguage: e.target.value as CodeLanguage } })}
+                style={{ padding: '3px 5px', border: '1px solid #ccc', borderRadius: '3px', fontSize: '12px' }}
+                title="Code language"
+              >
+                {(Object.keys(CODE_LANGUAGES) as CodeLanguage[]).map(language => (
+                  <option key={language} value={language}>{CODE_LANGUAGES[language].label}</option>
+                ))}
+              </select>
+            </div>
+
+            <div style={{ display: 'flex', alignItems: 'center', gap: '5px' }}>
+              <label style={{ fontSize: '12px', fontWeight: 'bold' }}>Size:</label>
+              <input
+                type="number"
+                min="6"
+                max="48"
+                value={selectedCode.properties.fontSize || 14}
+                onChange={(e) => {
+                  const fontSize = parseInt(e.target.value);
+                  if (fontSize >= 6 && fontSize <= 48) {
+                    updateSelectedCode({ properties: { fontSize } });
+                  }
+                }}
+                style={{ width: '50px', padding: '3px 5px', border: '1px solid #ccc', borderRadius: '3px', fontSize: '12px' }}
+                title="Font size"
+              />
+            </div>
+
+            <label style={{ display: 'flex', alignItems: 'center', gap: '5px', fontSize: '12px', fontWeight: 'bold' }}>
+              <input
+                type="checkbox"
+                checked={!!selectedCode.properties.showLineNumbers}
+                onChange={(e) => updateSelectedCode({ properties: { showLineNumbers: e.target.checked } })}
+              />
+              Line numbers
+            </label>
+
+            <div style={{ display: 'flex', alignItems: 'center', gap: '5px' }}>
+              <label style={{ fontSize: '12px', fontWeight: 'bold' }}>Highlight:</label>
+              <input
+                type="text"
+                value={highlightedLinesDraft}
+                onChange={(e) => setHighlightedLinesDraft(e.target.value)}
+                onBlur={() => {
+                  const highlightedLines = parseLineRanges(highlightedLinesDraft);
+                  setHighlightedLinesDraft(formatLineRanges(highlightedLines));
+                  if (formatLineRanges(highlightedLines) !== formatLineRanges(selectedCode.properties.highlightedLines || [])) {
+                    updateSelectedCode({ properties: { highlightedLines } });
+                  }
+                }}
+                placeholder="2, 4-6"
+                style={{ width: '80px', padding: '3px 5px', border: '1px solid #ccc', borderRadius: '3px', fontSize: '12px' }}
+                title="Lines to highlight, e.g. 2, 4-6"
+              />
+            </div>
+          </div>
         </div>
       )}
 
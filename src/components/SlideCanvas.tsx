@@ -4,7 +4,7 @@ import { useSelector, useDispatch } from 'react-redux';
 import { RootState } from '../store';
 import { addElement, deleteElement, moveElement, resizeElement, updateElement, updateElementProperties } from '../store/slices/presentationSlice';
 import { setActiveTool } from '../store/slices/uiSlice';
-import { SlideElement, Position, Size, ElementProperties } from '../types/presentation';
+import { SlideElement, Position, Size, ElementProperties, TextRun } from '../types/presentation';
 import TextFormattingToolbar from './TextFormattingToolbar';
 import ImageImportDialog from './ImageImportDialog';
 import ImageEditingToolbar from './ImageEditingToolbar';
@@ -12,6 +12,8 @@ import MainToolbar from './MainToolbar';
 import { parseMathContent, renderMathToHTML, containsMath } from '../utils/mathRenderer';
 import { validateImageFile, convertImageForLatex, getImageInfo, ImageInfo } from '../utils/imageUtils';
 import { createFabricShape, fabricObjectToSlideElement, ShapeDrawingState } from '../utils/shapeUtils';
+import { getTextRuns } from '../utils/richText';
+import { getKatexMacros } from '../utils/customPreamble';
 import ShapeToolbar from './ShapeToolbar';
 import { dragDropService, DragDropService } from '../services/dragDropService';
 import { canvasVirtualizationService } from '../services/canvasVirtualizationService';
@@ -26,6 +28,30 @@ interface SlideCanvasProps {
   height?: number;
 }
 
+/**
+ * Show inline formatting runs as Fabric.js character styles
+ */
+const applyTextRunStyles = (textbox: fabric.Textbox, runs: TextRun[] | undefined) => {
+  textbox.set('styles', {});
+  let offset = 0;
+
+  getTextRuns(textbox.text || '', runs).forEach(run => {
+    const end = offset + run.text.length;
+    const style: Record<string, any> = {};
+    if (run.bold) style.fontWeight = 'bold';
+    if (run.italic) style.fontStyle = 'italic';
+    if (run.underline || run.link) style.underline = true;
+    if (run.color) style.fill = `rgb(${run.color.r}, ${run.color.g}, ${run.color.b})`;
+    if (run.link && !run.color) style.fill = '#2563eb';
+    if (run.code) style.fontFamily = 'Courier New';
+
+    if (Object.keys(style).length > 0) textbox.setSelectionStyles(style, offset, end);
+    if (run.script === 'superscript') textbox.setSuperscript(offset, end);
+    if (run.script === 'subscript') textbox.setSubscript(offset, end);
+    offset = end;
+  });
+};
+
 const SlideCanvas: React.FC<SlideCanvasProps> = ({
   slideId,
   width = 800,
@@ -62,6 +88,7 @@ const SlideCanvas: React.FC<SlideCanvasProps> = ({
     }
   }, [isTextEditing]);
   const [selectedElementProperties, setSelectedElementProperties] = useState<ElementProperties>({});
+  const [selectedTextRange, setSelectedTextRange] = useState<{ start: number; end: number } | null>(null);
 
   const [showImageImportDialog, setShowImageImportDialog] = useState(false);
   const [shapeDrawingState, setShapeDrawingState] = useState<ShapeDrawingState>({
@@ -75,6 +102,10 @@ const SlideCanvas: React.FC<SlideCanvasProps> = ({
   const currentSlide = presentation?.slides.find(slide => slide.id === slideId);
   const { activeTool, activeShapeType } = useSelector((state: RootState) => state.ui);
 
+  // Preamble macros for KaTeX, read through a ref by the memoized element factories
+  const mathMacrosRef = useRef<Record<string, string>>({});
+  mathMacrosRef.current = getKatexMacros(presentation?.settings.customPreamble?.macros);
+
   // Accessibility hooks
   const { announceAction, announceSelection, announceError } = useScreenReader();
 
@@ -447,6 +478,7 @@ const SlideCanvas: React.FC<SlideCanvasProps> = ({
       });
       if (selectedObject && selectedObject.data?.elementId) {
         setSelectedElementId(selectedObject.data.elementId);
+        setSelectedTextRange(null);
 
         // Get element properties from Redux store
         const element = currentSlide?.elements.find(el => el.id === selectedObject.data.elementId);
@@ -464,9 +496,18 @@ const SlideCanvas: React.FC<SlideCanvasProps> = ({
       console.log('🚫 [SlideCanvas] Clearing selection state');
       setSelectedElementId(null);
       setSelectedElementProperties({});
+      setSelectedTextRange(null);
       setIsTextEditing(false);
     });
 
+    // Track the selected characters so inline formatting applies to them
+    canvas.on('text:selection:changed', (e) => {
+      const textbox = e.target as fabric.Textbox;
+      if (textbox) {
+        setSelectedTextRange({ start: textbox.selectionStart || 0, end: textbox.selectionEnd || 0 });
+      }
+    });
+
     // Double-click to enter text editing mode
     canvas.on('mouse:dblclick', (e) => {
       console.log('🖱️ [SlideCanvas] ===== DOUBLE CLICK EVENT =====');
@@ -937,6 +978,7 @@ const SlideCanvas: React.FC<SlideCanvasProps> = ({
             // Add a subtle background for better visibility during testing
             backgroundColor: element.content === 'Type your text here' ? 'rgba(255, 255, 0, 0.1)' : 'transparent',
           });
+          applyTextRunStyles(fabricObject as fabric.Textbox, element.properties.richText);
 
           console.log('✅ [SlideCanvas] Textbox created successfully:', {
             elementId: element.id,
@@ -1003,8 +1045,12 @@ const SlideCanvas: React.FC<SlideCanvasProps> = ({
       if (element.properties.opacity !== undefined) {
         fabricObject.opacity = element.properties.opacity;
       }
+      if (element.properties.strokeDashArray) {
+        fabricObject.strokeDashArray = element.properties.strokeDashArray;
+      }
       if (element.properties.rotation !== undefined) {
-        fabricObject.angle = element.properties.rotation;
+        // Rotate about the center, as the LaTeX output does
+        fabricObject.rotate(element.properties.rotation);
       }
 
       console.log('➕ [SlideCanvas] Adding fabric object to canvas:', {
@@ -1112,7 +1158,7 @@ const SlideCanvas: React.FC<SlideCanvasProps> = ({
   // Create a text element with math expressions using HTML rendering
   const createMathTextElement = (element: SlideElement, canvas: fabric.Canvas) => {
     const textContent = element.content || 'Text';
-    const segments = parseMathContent(textContent);
+    const segments = parseMathContent(textContent, mathMacrosRef.current);
 
     // Create a group to hold both text and math elements
     const elements: fabric.Object[] = [];
@@ -1238,6 +1284,10 @@ const SlideCanvas: React.FC<SlideCanvasProps> = ({
         }
       }
 
+      if (properties.richText !== undefined) {
+        applyTextRunStyles(textbox, properties.richText);
+      }
+
       // Handle line height (custom property)
       if ((properties as any).lineHeight !== undefined) {
         textbox.set('lineHeight', (properties as any).lineHeight);
@@ -1321,6 +1371,9 @@ const SlideCanvas: React.FC<SlideCanvasProps> = ({
       if (properties.strokeWidth !== undefined) {
         fabricObject.set('strokeWidth', properties.strokeWidth);
       }
+      if ('strokeDashArray' in properties) {
+        fabricObject.set('strokeDashArray', properties.strokeDashArray || []);
+      }
 
       // Handle corner radius for rectangles
       if (fabricObject.type === 'rect' && properties.cornerRadius !== undefined) {
@@ -1334,7 +1387,7 @@ const SlideCanvas: React.FC<SlideCanvasProps> = ({
       fabricObject.set('opacity', properties.opacity);
     }
     if (properties.rotation !== undefined) {
-      fabricObject.set('angle', properties.rotation);
+      fabricObject.rotate(properties.rotation);
     }
   };
 
@@ -1644,6 +1697,7 @@ const SlideCanvas: React.FC<SlideCanvasProps> = ({
           slideId={slideId}
           elementId={selectedElementId}
           currentProperties={selectedElementProperties}
+          selectionRange={selectedTextRange}
           onPropertyChange={(properties) => {
             setSelectedElementProperties(prev => ({ ...prev, ...properties }));
             // Also update the Fabric.js object immediately for visual feedback
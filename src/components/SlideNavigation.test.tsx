@@ -12,6 +12,16 @@ import {
   createDefaultPresentationSettings
 } from '../types/presentation';
 
+// Mock DOM APIs
+Object.defineProperty(global, 'IntersectionObserver', {
+  writable: true,
+  value: class {
+    observe() {}
+    unobserve() {}
+    disconnect() {}
+  },
+});
+
 const createTestStore = (initialPresentation?: Presentation) => {
   return configureStore({
     reducer: {
@@ -186,6 +196,39 @@ describe('SlideNavigation', () => {
     expect(state.presentation.currentPresentation?.slides[1].id).toBe('slide-1');
   });
 
+  test('starts a section at the current slide', () => {
+    const store = createTestStore();
+    renderWithProvider(store);
+
+    fireEvent.click(screen.getByText('+ Section'));
+
+    const state = store.getState();
+    expect(state.presentation.currentPresentation?.slides[0].section).toBe('New Section');
+    expect(screen.getByLabelText('Section title')).toHaveValue('New Section');
+  });
+
+  test('renames and removes a section', () => {
+    const store = createTestStore();
+    renderWithProvider(store);
+
+    fireEvent.click(screen.getByText('+ Section'));
+    fireEvent.change(screen.getByLabelText('Section title'), { target: { value: 'Results' } });
+    expect(store.getState().presentation.currentPresentation?.slides[0].section).toBe('Results');
+
+    fireEvent.click(screen.getByLabelText('Remove section Results'));
+    expect(store.getState().presentation.currentPresentation?.slides[0].section).toBeUndefined();
+    expect(screen.queryByLabelText('Section title')).not.toBeInTheDocument();
+  });
+
+  test('toggles agenda frames at section starts', () => {
+    const store = createTestStore();
+    renderWithProvider(store);
+
+    fireEvent.click(screen.getByLabelText('Agenda'));
+
+    expect(store.getState().presentation.currentPresentation?.settings.sectionAgenda).toBe(true);
+  });
+
   test('renders nothing when no presentation exists', () => {
     const store = configureStore({
       reducer: {
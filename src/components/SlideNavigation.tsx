@@ -1,7 +1,14 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useSelector, useDispatch } from 'react-redux';
 import { RootState } from '../store';
-import { addSlide, deleteSlide, selectSlide, reorderSlides } from '../store/slices/presentationSlice';
+import {
+  addSlide,
+  deleteSlide,
+  selectSlide,
+  reorderSlides,
+  updateSlideSection,
+  updatePresentationSettings
+} from '../store/slices/presentationSlice';
 import { lazyLoadingService } from '../services/lazyLoadingService';
 import './SlideNavigation.css';
 
@@ -100,6 +107,48 @@ const SlideNavigation: React.FC = () => {
     dispatch(selectSlide(slideId));
   };
 
+  // Start a section or subsection at the current slide
+  const handleAddSection = (level: 'section' | 'subsection') => {
+    if (!currentSlideId) return;
+    dispatch(updateSlideSection({
+      slideId: currentSlideId,
+      [level]: level === 'section' ? 'New Section' : 'New Subsection'
+    }));
+  };
+
+  const handleRenameSection = (slideId: string, level: 'section' | 'subsection', title: string) => {
+    dispatch(updateSlideSection({ slideId, [level]: title }));
+  };
+
+  const handleRemoveSection = (slideId: string, level: 'section' | 'subsection') => {
+    dispatch(updateSlideSection({ slideId, [level]: null }));
+  };
+
+  const handleToggleAgenda = (event: React.ChangeEvent<HTMLInputElement>) => {
+    dispatch(updatePresentationSettings({ sectionAgenda: event.target.checked }));
+  };
+
+  const renderSectionHeader = (slideId: string, level: 'section' | 'subsection', title: string) => (
+    <div className={`slide-${level}-header`}>
+      <input
+        className="slide-section-title"
+        value={title}
+        onChange={(e) => handleRenameSection(slideId, level, e.target.value)}
+        placeholder={level === 'section' ? 'Section title' : 'Subsection title'}
+        aria-label={`${level === 'section' ? 'Section' : 'Subsection'} title`}
+      />
+      <button
+        className="remove-section-btn"
+        onClick={() => handleRemoveSection(slideId, level)}
+        title={`Remove ${level}`}
+        aria-label={`Remove ${level} ${title}`}
+        type="button"
+      >
+        ×
+      </button>
+    </div>
+  );
+
   const handleDragStart = (event: React.DragEvent, index: number) => {
     event.dataTransfer.effectAllowed = 'move';
     event.dataTransfer.setData('text/html', '');
@@ -169,6 +218,35 @@ const SlideNavigation: React.FC = () => {
           +
         </button>
       </div>
+
+      <div className="slide-section-controls">
+        <button
+          className="add-section-btn"
+          onClick={() => handleAddSection('section')}
+          title="Start a section at the current slide"
+          type="button"
+          disabled={!currentSlideId}
+        >
+          + Section
+        </button>
+        <button
+          className="add-section-btn"
+          onClick={() => handleAddSection('subsection')}
+          title="Start a subsection at the current slide"
+          type="button"
+          disabled={!currentSlideId}
+        >
+          + Subsection
+        </button>
+        <label className="section-agenda-toggle" title="Show an outline frame at the start of each section">
+          <input
+            type="checkbox"
+            checked={!!presentation.settings.sectionAgenda}
+            onChange={handleToggleAgenda}
+          />
+          Agenda
+        </label>
+      </div>
       
       <div 
         className="slide-list" 
@@ -177,73 +255,76 @@ const SlideNavigation: React.FC = () => {
         aria-live="polite"
       >
         {presentation.slides.map((slide, index) => (
-          <div
-            key={slide.id}
-            className={`slide-thumbnail ${
-              slide.id === currentSlideId ? 'selected' : ''
-            } ${
-              dragState.draggedIndex === index ? 'dragging' : ''
-            } ${
-              dragState.dragOverIndex === index ? 'drag-over' : ''
-            }`}
-            role="listitem"
-            tabIndex={0}
-            draggable
-            onClick={() => handleSelectSlide(slide.id)}
-            onKeyDown={(e) => {
-              if (e.key === 'Enter' || e.key === ' ') {
-                e.preventDefault();
-                handleSelectSlide(slide.id);
-              }
-            }}
-            onDragStart={(e) => handleDragStart(e, index)}
-            onDragOver={(e) => handleDragOver(e, index)}
-            onDragLeave={handleDragLeave}
-            onDrop={(e) => handleDrop(e, index)}
-            onDragEnd={handleDragEnd}
-            aria-label={`Slide ${index + 1}: ${slide.title}${slide.id === currentSlideId ? ' (current)' : ''}`}
-            aria-selected={slide.id === currentSlideId}
-            aria-describedby={`slide-${slide.id}-desc`}
-          >
-            <div className="slide-number">{index + 1}</div>
-            <div 
-              className="slide-preview"
-              ref={(el) => {
-                if (el) {
-                  thumbnailRefs.current.set(slide.id, el);
-                } else {
-                  thumbnailRefs.current.delete(slide.id);
+          <React.Fragment key={slide.id}>
+            {slide.section !== undefined && renderSectionHeader(slide.id, 'section', slide.section)}
+            {slide.subsection !== undefined && renderSectionHeader(slide.id, 'subsection', slide.subsection)}
+            <div
+              className={`slide-thumbnail ${
+                slide.id === currentSlideId ? 'selected' : ''
+              } ${
+                dragState.draggedIndex === index ? 'dragging' : ''
+              } ${
+                dragState.dragOverIndex === index ? 'drag-over' : ''
+              }`}
+              role="listitem"
+              tabIndex={0}
+              draggable
+              onClick={() => handleSelectSlide(slide.id)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' || e.key === ' ') {
+                  e.preventDefault();
+                  handleSelectSlide(slide.id);
                 }
               }}
+              onDragStart={(e) => handleDragStart(e, index)}
+              onDragOver={(e) => handleDragOver(e, index)}
+              onDragLeave={handleDragLeave}
+              onDrop={(e) => handleDrop(e, index)}
+              onDragEnd={handleDragEnd}
+              aria-label={`Slide ${index + 1}: ${slide.title}${slide.id === currentSlideId ? ' (current)' : ''}`}
+              aria-selected={slide.id === currentSlideId}
+              aria-describedby={`slide-${slide.id}-desc`}
             >
-              {thumbnails.has(slide.id) ? (
-                <img 
-                  src={thumbnails.get(slide.id)} 
-                  alt={`Slide ${index + 1} thumbnail`}
-                  className="slide-thumbnail-image"
-                />
-              ) : (
-                <div className="slide-content">
-                  {slide.title}
-                </div>
+              <div className="slide-number">{index + 1}</div>
+              <div 
+                className="slide-preview"
+                ref={(el) => {
+                  if (el) {
+                    thumbnailRefs.current.set(slide.id, el);
+                  } else {
+                    thumbnailRefs.current.delete(slide.id);
+                  }
+                }}
+              >
+                {thumbnails.has(slide.id) ? (
+                  <img 
+                    src={thumbnails.get(slide.id)} 
+                    alt={`Slide ${index + 1} thumbnail`}
+                    className="slide-thumbnail-image"
+                  />
+                ) : (
+                  <div className="slide-content">
+                    {slide.title}
+                  </div>
+                )}
+              </div>
+              <div className="slide-title" id={`slide-${slide.id}-desc`}>
+                {slide.title}
+              </div>
+              {presentation.slides.length > 1 && (
+                <button
+                  className="delete-slide-btn"
+                  onClick={(e) => handleDeleteSlide(slide.id, e)}
+                  title={`Delete slide ${index + 1}: ${slide.title}`}
+                  aria-label={`Delete slide ${index + 1}: ${slide.title}`}
+                  type="button"
+                  tabIndex={-1}
+                >
+                  ×
+                </button>
               )}
             </div>
-            <div className="slide-title" id={`slide-${slide.id}-desc`}>
-              {slide.title}
-            </div>
-            {presentation.slides.length > 1 && (
-              <button
-                className="delete-slide-btn"
-                onClick={(e) => handleDeleteSlide(slide.id, e)}
-                title={`Delete slide ${index + 1}: ${slide.title}`}
-                aria-label={`Delete slide ${index + 1}: ${slide.title}`}
-                type="button"
-                tabIndex={-1}
-              >
-                ×
-              </button>
-            )}
-          </div>
+          </React.Fragment>
         ))}
       </div>
     </nav>
@@ -3,7 +3,11 @@ import { useDispatch, useSelector } from 'react-redux';
 import { RootState } from '../store';
 import { updateElement } from '../store/slices/presentationSlice';
 import { ElementProperties, Color } from '../types/presentation';
+import { TextRunFormat, applyTextRunFormat, getTextRunFormatInRange } from '../utils/richText';
+import { hasBibliography, parseBibEntries } from '../utils/bibliography';
+import { getKatexMacros } from '../utils/customPreamble';
 import MathInput from './MathInput';
+import CitationPicker from './CitationPicker';
 import './TextFormattingToolbar.css';
 
 interface TextFormattingToolbarProps {
@@ -11,6 +15,7 @@ interface TextFormattingToolbarProps {
   elementId: string | null;
   currentProperties: ElementProperties;
   onPropertyChange: (properties: Partial<ElementProperties>) => void;
+  selectionRange?: { start: number; end: number } | null; // Selected characters in the text being edited
 }
 
 const TextFormattingToolbar: React.FC<TextFormattingToolbarProps> = ({
@@ -18,11 +23,14 @@ const TextFormattingToolbar: React.FC<TextFormattingToolbarProps> = ({
   elementId,
   currentProperties,
   onPropertyChange,
+  selectionRange,
 }) => {
   const dispatch = useDispatch();
   const [showColorPicker, setShowColorPicker] = useState<'text' | 'background' | null>(null);
   const [showMathInput, setShowMathInput] = useState(false);
   const [showCustomBulletInput, setShowCustomBulletInput] = useState(false);
+  const [showLinkInput, setShowLinkInput] = useState(false);
+  const [showCitationPicker, setShowCitationPicker] = useState(false);
 
   // Handle keyboard shortcuts
   const handleKeyDown = useCallback((event: KeyboardEvent) => {
@@ -64,6 +72,17 @@ const TextFormattingToolbar: React.FC<TextFormattingToolbarProps> = ({
   // Get current slide data from Redux store
   const presentation = useSelector((state: RootState) => state.presentation.currentPresentation);
   const currentSlide = presentation?.slides.find(slide => slide.id === slideId);
+  const currentElement = currentSlide?.elements.find(el => el.id === elementId);
+  const elementContent = currentElement?.content || '';
+  const richText = currentElement?.properties.richText;
+  const bibliography = presentation?.settings?.bibliography;
+
+  // Inline formatting applies to the selected characters, or the whole text when nothing is selected
+  const hasRangeSelection = !!selectionRange && selectionRange.start !== selectionRange.end;
+  const formatRange = hasRangeSelection && selectionRange
+    ? selectionRange
+    : { start: 0, end: elementContent.length };
+  const rangeFormat = getTextRunFormatInRange(elementContent, richText, formatRange.start, formatRange.end);
 
   // Font families available in the editor
   const fontFamilies = [
@@ -126,17 +145,44 @@ const TextFormattingToolbar: React.FC<TextFormattingToolbarProps> = ({
     handlePropertyChange({ lineHeight } as any);
   };
 
+  const applyRangeFormat = (format: Partial<TextRunFormat>) => {
+    handlePropertyChange({
+      richText: applyTextRunFormat(elementContent, richText, formatRange.start, formatRange.end, format),
+    });
+  };
+
+  const toggleScript = (script: 'subscript' | 'superscript') => {
+    applyRangeFormat({ script: rangeFormat.script === script ? undefined : script });
+  };
+
+  const handleLinkChange = (link: string) => {
+    applyRangeFormat({ link: link.trim() || undefined });
+    setShowLinkInput(false);
+  };
+
   const toggleBold = () => {
+    if (hasRangeSelection) {
+      applyRangeFormat({ bold: !rangeFormat.bold });
+      return;
+    }
     const newWeight = currentProperties.fontWeight === 'bold' ? 'normal' : 'bold';
     handlePropertyChange({ fontWeight: newWeight });
   };
 
   const toggleItalic = () => {
+    if (hasRangeSelection) {
+      applyRangeFormat({ italic: !rangeFormat.italic });
+      return;
+    }
     const newStyle = currentProperties.fontStyle === 'italic' ? 'normal' : 'italic';
     handlePropertyChange({ fontStyle: newStyle });
   };
 
   const toggleTextDecoration = (decoration: string) => {
+    if (hasRangeSelection && decoration === 'underline') {
+      applyRangeFormat({ underline: !rangeFormat.underline });
+      return;
+    }
     const currentDecorations = (currentProperties as any).textDecorations || [];
     const newDecorations = currentDecorations.includes(decoration)
       ? currentDecorations.filter((d: string) => d !== decoration)
@@ -186,7 +232,9 @@ const TextFormattingToolbar: React.FC<TextFormattingToolbarProps> = ({
   };
 
   const handleColorChange = (color: Color, type: 'text' | 'background') => {
-    if (type === 'text') {
+    if (type === 'text' && hasRangeSelection) {
+      applyRangeFormat({ color });
+    } else if (type === 'text') {
       handlePropertyChange({ textColor: color });
     } else {
       handlePropertyChange({ backgroundColor: color });
@@ -262,6 +310,23 @@ const TextFormattingToolbar: React.FC<TextFormattingToolbarProps> = ({
     setShowMathInput(false);
   };
 
+  const handleCitationInsert = (citation: string) => {
+    setShowCitationPicker(false);
+    if (!elementId) return;
+
+    // Insert at the cursor when editing, otherwise append to the text
+    const position = selectionRange ? selectionRange.end : elementContent.length;
+    const before = elementContent.slice(0, position);
+    const separator = selectionRange || !before || /\s$/.test(before) ? '' : ' ';
+    const newContent = before + separator + citation + elementContent.slice(position);
+
+    dispatch(updateElement({
+      slideId,
+      elementId,
+      updates: { content: newContent },
+    }));
+  };
+
   const colorToHex = (color: Color): string => {
     const toHex = (n: number) => n.toString(16).padStart(2, '0');
     return `#${toHex(color.r)}${toHex(color.g)}${toHex(color.b)}`;
@@ -320,7 +385,7 @@ const TextFormattingToolbar: React.FC<TextFormattingToolbarProps> = ({
         <div className="toolbar-group">
           <span className="toolbar-label">Style</span>
           <button
-            className={`toolbar-button ${currentProperties.fontWeight === 'bold' ? 'active' : ''}`}
+            className={`toolbar-button ${(hasRangeSelection ? rangeFormat.bold : currentProperties.fontWeight === 'bold') ? 'active' : ''}`}
             onClick={toggleBold}
             title="Bold (Ctrl+B)"
           >
@@ -328,7 +393,7 @@ const TextFormattingToolbar: React.FC<TextFormattingToolbarProps> = ({
           </button>
           
           <button
-            className={`toolbar-button ${currentProperties.fontStyle === 'italic' ? 'active' : ''}`}
+            className={`toolbar-button ${(hasRangeSelection ? rangeFormat.italic : currentProperties.fontStyle === 'italic') ? 'active' : ''}`}
             onClick={toggleItalic}
             title="Italic (Ctrl+I)"
           >
@@ -336,7 +401,7 @@ const TextFormattingToolbar: React.FC<TextFormattingToolbarProps> = ({
           </button>
           
           <button
-            className={`toolbar-button ${((currentProperties as any).textDecorations || []).includes('underline') ? 'active' : ''}`}
+            className={`toolbar-button ${(hasRangeSelection ? rangeFormat.underline : ((currentProperties as any).textDecorations || []).includes('underline')) ? 'active' : ''}`}
             onClick={() => toggleTextDecoration('underline')}
             title="Underline (Ctrl+U)"
           >
@@ -352,6 +417,42 @@ const TextFormattingToolbar: React.FC<TextFormattingToolbarProps> = ({
           </button>
         </div>
 
+        {/* Inline Formatting Controls */}
+        <div className="toolbar-group">
+          <span className="toolbar-label">{hasRangeSelection ? 'Selection' : 'Inline'}</span>
+          <button
+            className={`toolbar-button ${rangeFormat.code ? 'active' : ''}`}
+            onClick={() => applyRangeFormat({ code: !rangeFormat.code })}
+            title="Inline Code"
+          >
+            <code>{'</>'}</code>
+          </button>
+
+          <button
+            className={`toolbar-button ${rangeFormat.script === 'subscript' ? 'active' : ''}`}
+            onClick={() => toggleScript('subscript')}
+            title="Subscript"
+          >
+            x<sub>2</sub>
+          </button>
+
+          <button
+            className={`toolbar-button ${rangeFormat.script === 'superscript' ? 'active' : ''}`}
+            onClick={() => toggleScript('superscript')}
+            title="Superscript"
+          >
+            x<sup>2</sup>
+          </button>
+
+          <button
+            className={`toolbar-button ${rangeFormat.link ? 'active' : ''}`}
+            onClick={() => setShowLinkInput(true)}
+            title="Link"
+          >
+            🔗
+          </button>
+        </div>
+
         {/* Alignment Controls */}
         <div className="toolbar-group">
           <span className="toolbar-label">Align</span>
@@ -506,6 +607,21 @@ const TextFormattingToolbar: React.FC<TextFormattingToolbarProps> = ({
           )}
         </div>
 
+        {/* Citations */}
+        <div className="toolbar-group">
+          <span className="toolbar-label">Cite</span>
+          <button
+            className="toolbar-button"
+            onClick={() => setShowCitationPicker(true)}
+            disabled={!hasBibliography(bibliography)}
+            title={hasBibliography(bibliography)
+              ? 'Insert Citation'
+              : 'Attach a .bib file to insert citations'}
+          >
+            [1]
+          </button>
+        </div>
+
         {/* Color Controls */}
         <div className="toolbar-group">
           <span className="toolbar-label">Color</span>
@@ -659,9 +775,69 @@ const TextFormattingToolbar: React.FC<TextFormattingToolbarProps> = ({
           onChange={handleMathInsert}
           onClose={() => setShowMathInput(false)}
           placeholder="Enter LaTeX math expression..."
+          macros={getKatexMacros(presentation?.settings.customPreamble?.macros)}
         />
       )}
 
+      {/* Citation Picker */}
+      {showCitationPicker && hasBibliography(bibliography) && (
+        <CitationPicker
+          entries={parseBibEntries(bibliography.content)}
+          onInsert={handleCitationInsert}
+          onClose={() => setShowCitationPicker(false)}
+        />
+      )}
+
+      {/* Link Input Modal */}
+      {showLinkInput && (
+        <div className="modal-overlay">
+          <div className="link-modal">
+            <h3>Link</h3>
+            <p>{hasRangeSelection ? 'Link the selected text to:' : 'Link the whole text to:'}</p>
+            <input
+              type="url"
+              className="link-url-input"
+              aria-label="Link URL"
+              placeholder="https://example.com"
+              defaultValue={rangeFormat.link || ''}
+              autoFocus
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  handleLinkChange((e.target as HTMLInputElement).value);
+                } else if (e.key === 'Escape') {
+                  setShowLinkInput(false);
+                }
+              }}
+            />
+            <div className="modal-buttons">
+              {rangeFormat.link && (
+                <button
+                  className="modal-button cancel"
+                  onClick={() => handleLinkChange('')}
+                >
+                  Remove Link
+                </button>
+              )}
+              <button
+                className="modal-button cancel"
+                onClick={() => setShowLinkInput(false)}
+              >
+                Cancel
+              </button>
+              <button
+                className="modal-button confirm"
+                onClick={() => {
+                  const input = document.querySelector('.link-url-input') as HTMLInputElement;
+                  handleLinkChange(input?.value || '');
+                }}
+              >
+                Apply
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Custom Bullet Input Modal */}
       {showCustomBulletInput && (
         <div className="modal-overlay">
@@ -0,0 +1,96 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { Provider } from 'react-redux';
+import { configureStore } from '@reduxjs/toolkit';
+import BuildOrderPanel from '../BuildOrderPanel';
+import presentationSlice, { addElement } from '../../store/slices/presentationSlice';
+
+// Mock CSS imports
+jest.mock('../BuildOrderPanel.css', () => ({}));
+
+describe('BuildOrderPanel', () => {
+  let store: any;
+
+  beforeEach(() => {
+    store = configureStore({
+      reducer: {
+        presentation: presentationSlice,
+      },
+      middleware: (getDefaultMiddleware) =>
+        getDefaultMiddleware({
+          serializableCheck: false,
+        }),
+    });
+
+    store.dispatch({
+      type: 'presentation/createPresentation',
+      payload: { title: 'Test Presentation' }
+    });
+  });
+
+  const getSlide = () => store.getState().presentation.currentPresentation.slides[0];
+
+  const addTextElement = (content: string, listType: 'none' | 'bullet' = 'none') => {
+    store.dispatch(addElement({
+      slideId: getSlide().id,
+      element: {
+        type: 'text',
+        position: { x: 0, y: 0 },
+        size: { width: 200, height: 50 },
+        properties: { listType },
+        content,
+      },
+    }));
+  };
+
+  const renderPanel = () => {
+    render(
+      <Provider store={store}>
+        <BuildOrderPanel slideId={getSlide().id} />
+      </Provider>
+    );
+    fireEvent.click(screen.getByText(/Build Order/));
+  };
+
+  test('lists slide elements and the number of steps', () => {
+    addTextElement('Introduction');
+    renderPanel();
+
+    expect(screen.getByText('Introduction')).toBeInTheDocument();
+    expect(screen.getByText('1 step')).toBeInTheDocument();
+  });
+
+  test('updates the step an element appears on', () => {
+    addTextElement('Conclusion');
+    renderPanel();
+
+    fireEvent.change(screen.getByLabelText('Step Conclusion appears on'), { target: { value: '3' } });
+
+    expect(getSlide().elements[0].properties.overlay).toEqual({ appearOnStep: 3 });
+    expect(screen.getByText('3 steps')).toBeInTheDocument();
+    expect(screen.getByText('<3->')).toBeInTheDocument();
+  });
+
+  test('offers incremental reveal only for lists', () => {
+    addTextElement('Plain text');
+    addTextElement('First\nSecond', 'bullet');
+    renderPanel();
+
+    const checkbox = screen.getByLabelText('One item per step');
+    fireEvent.click(checkbox);
+
+    expect(screen.getAllByLabelText('One item per step')).toHaveLength(1);
+    expect(getSlide().elements[1].properties.overlay).toEqual({ revealListItems: true });
+    expect(screen.getByText('2 steps')).toBeInTheDocument();
+  });
+
+  test('resets all builds', () => {
+    addTextElement('Later');
+    renderPanel();
+
+    fireEvent.change(screen.getByLabelText('Step Later appears on'), { target: { value: '2' } });
+    fireEvent.click(screen.getByText('Show all at once'));
+
+    expect(getSlide().elements[0].properties.overlay).toBeUndefined();
+  });
+});
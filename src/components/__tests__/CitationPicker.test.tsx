@@ -0,0 +1,46 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import CitationPicker from '../CitationPicker';
+import { BibEntry } from '../../utils/bibliography';
+
+// Mock CSS imports
+jest.mock('../CitationPicker.css', () => ({}));
+
+describe('CitationPicker', () => {
+  const entries: BibEntry[] = [
+    { key: 'smith2020', type: 'article', title: 'Examples', author: 'Smith, John', year: '2020' },
+    { key: 'knuth84', type: 'book', title: 'The TeXbook', author: 'Donald Knuth', year: '1984' },
+  ];
+
+  it('inserts the selected keys with the chosen command', () => {
+    const onInsert = jest.fn();
+    render(<CitationPicker entries={entries} onInsert={onInsert} onClose={jest.fn()} />);
+
+    expect(screen.getByRole('button', { name: 'Insert' })).toBeDisabled();
+
+    fireEvent.click(screen.getByText('smith2020'));
+    fireEvent.click(screen.getByText('knuth84'));
+    fireEvent.change(screen.getByLabelText('Citation command'), { target: { value: 'parencite' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Insert' }));
+
+    expect(onInsert).toHaveBeenCalledWith('\\parencite{smith2020,knuth84}');
+  });
+
+  it('filters entries by the search text', () => {
+    render(<CitationPicker entries={entries} onInsert={jest.fn()} onClose={jest.fn()} />);
+
+    fireEvent.change(screen.getByLabelText('Search references'), { target: { value: 'knuth' } });
+
+    expect(screen.queryByText('smith2020')).not.toBeInTheDocument();
+    expect(screen.getByText('knuth84')).toBeInTheDocument();
+  });
+
+  it('closes on cancel', () => {
+    const onClose = jest.fn();
+    render(<CitationPicker entries={entries} onInsert={jest.fn()} onClose={onClose} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Cancel' }));
+
+    expect(onClose).toHaveBeenCalled();
+  });
+});
@@ -87,6 +87,42 @@ describe('CompilationErrorDisplay', () => {
     expect(mockOnErrorClick).toHaveBeenCalledWith(mockErrors[0]);
   });
 
+  it('offers to jump to the element an error came from', () => {
+    const mockOnErrorClick = jest.fn();
+    const located: CompilationError = {
+      id: 'preview-0',
+      type: 'error',
+      message: 'Missing $ inserted',
+      line: 120,
+      slideId: 'slide-2',
+      elementId: 'element-7',
+      sourceLabel: 'Slide 2 · text',
+    };
+    render(<CompilationErrorDisplay errors={[located]} onErrorClick={mockOnErrorClick} />);
+
+    expect(screen.getByText('Slide 2 · text')).toBeInTheDocument();
+    expect(screen.queryByTitle('Go to error location')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Jump to element'));
+
+    expect(mockOnErrorClick).toHaveBeenCalledWith(located);
+  });
+
+  it('names the TeX Live package providing a missing file and the element needing it', () => {
+    render(<CompilationErrorDisplay errors={[{
+      id: 'preview-0',
+      type: 'error',
+      message: 'File `pgfplots.sty\' not found.',
+      slideId: 'slide-3',
+      elementId: 'chart-1',
+      sourceLabel: 'Slide 3 · chart',
+      missingPackage: 'pgfplots',
+    }]} />);
+
+    expect(screen.getByText('pgfplots')).toBeInTheDocument();
+    expect(screen.getByText(', needed by Slide 3 · chart')).toBeInTheDocument();
+  });
+
   it('calls onDismiss when dismiss button is clicked', () => {
     const mockOnDismiss = jest.fn();
     render(<CompilationErrorDisplay errors={mockErrors} onDismiss={mockOnDismiss} />);
@@ -0,0 +1,86 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { Provider } from 'react-redux';
+import { configureStore } from '@reduxjs/toolkit';
+import PreambleEditor from '../PreambleEditor';
+import presentationSlice from '../../store/slices/presentationSlice';
+
+describe('PreambleEditor', () => {
+  let store: any;
+  const mockOnClose = jest.fn();
+
+  beforeEach(() => {
+    store = configureStore({
+      reducer: { presentation: presentationSlice },
+      middleware: (getDefaultMiddleware) =>
+        getDefaultMiddleware({
+          serializableCheck: false,
+        }),
+    });
+
+    store.dispatch({
+      type: 'presentation/createPresentation',
+      payload: { title: 'Test Presentation' }
+    });
+
+    mockOnClose.mockClear();
+  });
+
+  const renderPreambleEditor = (isOpen: boolean = true) =>
+    render(
+      <Provider store={store}>
+        <PreambleEditor isOpen={isOpen} onClose={mockOnClose} />
+      </Provider>
+    );
+
+  test('renders nothing when closed', () => {
+    renderPreambleEditor(false);
+
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+  });
+
+  test('saves macros, packages and libraries to the presentation settings', () => {
+    renderPreambleEditor();
+
+    fireEvent.click(screen.getByText('+ Add Macro'));
+    fireEvent.change(screen.getByLabelText('Macro 1 name'), { target: { value: 'vect' } });
+    fireEvent.change(screen.getByLabelText('Macro 1 arguments'), { target: { value: '1' } });
+    fireEvent.change(screen.getByLabelText('Macro 1 definition'), { target: { value: '\\mathbf{#1}' } });
+    fireEvent.change(screen.getByLabelText('Package lines'), { target: { value: '\\usepackage{siunitx}\n' } });
+    fireEvent.change(screen.getByLabelText('TikZ libraries'), { target: { value: 'patterns, calc' } });
+
+    expect(screen.getByLabelText('Generated preamble')).toHaveTextContent('\\newcommand{\\vect}[1]{\\mathbf{#1}}');
+
+    fireEvent.click(screen.getByText('Save'));
+
+    expect(store.getState().presentation.currentPresentation.settings.customPreamble).toEqual({
+      macros: [{ name: 'vect', argumentCount: 1, definition: '\\mathbf{#1}' }],
+      packages: ['\\usepackage{siunitx}'],
+      tikzLibraries: ['patterns', 'calc'],
+    });
+    expect(mockOnClose).toHaveBeenCalled();
+  });
+
+  test('keeps shell escape off until it is allowed', () => {
+    renderPreambleEditor();
+
+    const checkbox = screen.getByLabelText('Allow \\write18 to run programs');
+    expect(checkbox).not.toBeChecked();
+
+    fireEvent.click(checkbox);
+    fireEvent.click(screen.getByText('Save'));
+
+    expect(store.getState().presentation.currentPresentation.settings.allowShellEscape).toBe(true);
+  });
+
+  test('blocks saving while the preamble is invalid', () => {
+    renderPreambleEditor();
+
+    fireEvent.click(screen.getByText('+ Add Macro'));
+    fireEvent.change(screen.getByLabelText('Macro 1 name'), { target: { value: 'half' } });
+    fireEvent.change(screen.getByLabelText('Macro 1 definition'), { target: { value: '\\frac{1}{2' } });
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Unbalanced braces');
+    expect(screen.getByText('Save')).toBeDisabled();
+  });
+});
@@ -84,6 +84,7 @@ const createMockStore = (initialState = {}) => {
         showRulers: false,
         sidebarCollapsed: false,
         previewCollapsed: false,
+        selectedElementIds: [],
       },
       ...initialState,
     },
@@ -440,4 +441,90 @@ describe('PreviewPane', () => {
       expect(mockCheckLatexAvailability).toHaveBeenCalledTimes(1);
     });
   });
+
+  describe('SyncTeX', () => {
+    const mockPagePreview = () => mockUsePreview.mockReturnValue({
+      previewState: {
+        isCompiling: false,
+        progress: 100,
+        stage: 'completed',
+        message: 'Compilation successful',
+        lastCompiled: new Date(),
+        error: null,
+        pdfUrl: 'mock-blob-url',
+        currentSlideIndex: 0,
+        pageImageUrls: ['page-1-url', 'page-2-url'],
+        syncBoxes: [
+          { page: 2, x: 36, y: 27, width: 72, height: 27, slideId: 'slide-1', elementId: 'element-1' },
+          { page: 2, x: 36, y: 108, width: 144, height: 27, slideId: 'slide-1', elementId: 'element-2' },
+        ],
+      },
+      compilePresentation: jest.fn(),
+      cancelCompilation: jest.fn(),
+      downloadPdf: jest.fn(),
+      navigateToSlide: jest.fn(),
+      isLatexAvailable: true,
+      checkLatexAvailability: jest.fn(),
+    });
+
+    // A 360x270pt page rendered at 96 dpi, shown at twice its size
+    const loadPage = (page: HTMLImageElement) => {
+      Object.defineProperty(page, 'naturalWidth', { value: 480 });
+      Object.defineProperty(page, 'naturalHeight', { value: 360 });
+      page.getBoundingClientRect = () => ({ left: 0, top: 0, width: 720, height: 540 } as DOMRect);
+      fireEvent.load(page);
+    };
+
+    it('shows the PDF pages as images', () => {
+      mockPagePreview();
+
+      render(
+        <Provider store={createMockStore()}>
+          <PreviewPane />
+        </Provider>
+      );
+
+      expect(screen.getByAltText('Page 1')).toHaveAttribute('src', 'page-1-url');
+      expect(screen.getByAltText('Page 2')).toBeInTheDocument();
+    });
+
+    it('selects the element typeset where the preview is clicked', () => {
+      mockPagePreview();
+      const store = createMockStore();
+
+      render(
+        <Provider store={store}>
+          <PreviewPane />
+        </Provider>
+      );
+
+      const page = screen.getByAltText('Page 2') as HTMLImageElement;
+      loadPage(page);
+      // (120, 240) on screen is (60, 120)pt on the page
+      fireEvent.click(page, { clientX: 120, clientY: 240 });
+
+      expect(store.getState().presentation.currentSlideId).toBe('slide-1');
+      expect(store.getState().ui.selectedElementIds).toEqual(['element-2']);
+    });
+
+    it('highlights the box of the selected element', () => {
+      mockPagePreview();
+      const store = createMockStore({ ui: { selectedElementIds: ['element-1'] } });
+
+      render(
+        <Provider store={store}>
+          <PreviewPane />
+        </Provider>
+      );
+
+      loadPage(screen.getByAltText('Page 2') as HTMLImageElement);
+
+      expect(screen.getByLabelText('Selected element')).toHaveStyle({
+        left: '10%',
+        top: '10%',
+        width: '20%',
+        height: '10%',
+      });
+    });
+  });
 });
\ No newline at end of file
@@ -191,4 +191,39 @@ describe('ShapeToolbar', () => {
 
     expect(mockOnPropertyChange).toHaveBeenCalledWith({ strokeWidth: 5 });
   });
-});
\ No newline at end of file
+
+  test('renders triangle, diamond and ellipse buttons', () => {
+    renderShapeToolbar();
+
+    fireEvent.click(screen.getByTitle('Diamond'));
+
+    expect(screen.getByTitle('Triangle')).toBeInTheDocument();
+    expect(screen.getByTitle('Ellipse')).toBeInTheDocument();
+    expect(store.getState().ui.activeShapeType).toBe('diamond');
+  });
+
+  test('handles dash pattern and rotation changes', () => {
+    const slideId = store.getState().presentation.currentPresentation.slides[0].id;
+    store.dispatch({
+      type: 'presentation/addElement',
+      payload: {
+        slideId,
+        element: {
+          type: 'shape',
+          position: { x: 100, y: 100 },
+          size: { width: 100, height: 100 },
+          properties: { shapeType: 'triangle' },
+        },
+      },
+    });
+
+    const elementId = store.getState().presentation.currentPresentation.slides[0].elements[0].id;
+    renderShapeToolbar(elementId);
+
+    fireEvent.click(screen.getByTitle('Dashed'));
+    expect(mockOnPropertyChange).toHaveBeenCalledWith({ strokeDashArray: [8, 4] });
+
+    fireEvent.change(screen.getByLabelText('Rotation in degrees'), { target: { value: '-90' } });
+    expect(mockOnPropertyChange).toHaveBeenCalledWith({ rotation: 270 });
+  });
+});
@@ -0,0 +1,115 @@
+import React from 'react';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import { Provider } from 'react-redux';
+import { configureStore } from '@reduxjs/toolkit';
+import SimpleTextCanvas from '../SimpleTextCanvas';
+import PreviewPane from '../PreviewPane';
+import presentationReducer from '../../store/slices/presentationSlice';
+import uiReducer from '../../store/slices/uiSlice';
+import { usePreview } from '../../hooks/usePreview';
+
+jest.mock('../../hooks/usePreview');
+const mockUsePreview = usePreview as jest.MockedFunction<typeof usePreview>;
+
+// Handlers the canvas registers, by event name
+const canvasHandlers: Record<string, ((event?: any) => void)[]> = {};
+const fireCanvasEvent = (name: string, event?: any) => act(() => {
+  (canvasHandlers[name] || []).forEach(handler => handler(event));
+});
+
+// Mock fabric.js
+jest.mock('fabric', () => ({
+  fabric: {
+    Canvas: function Canvas() {
+      return {
+        on: (event: string, handler: (event?: any) => void) => {
+          canvasHandlers[event] = [...(canvasHandlers[event] || []), handler];
+        },
+        off: () => {},
+        dispose: () => {},
+        clear: () => {},
+        add: () => {},
+        remove: () => {},
+        renderAll: () => {},
+        requestRenderAll: () => {},
+        forEachObject: () => {},
+        getObjects: () => [],
+        getActiveObject: () => null,
+        setActiveObject: () => {},
+        discardActiveObject: () => {},
+        setDimensions: () => {},
+        getWidth: () => 800,
+        getHeight: () => 600,
+      };
+    },
+  },
+}));
+
+global.ResizeObserver = class {
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+};
+
+const createTestStore = () => {
+  const store = configureStore({
+    reducer: {
+      presentation: presentationReducer,
+      ui: uiReducer,
+    },
+  });
+  store.dispatch({ type: 'presentation/createPresentation', payload: { title: 'Test Presentation' } });
+  return store;
+};
+
+describe('SimpleTextCanvas - Preview Selection Sync', () => {
+  it('highlights the element selected on the canvas in the preview', () => {
+    const store = createTestStore();
+    const slideId = store.getState().presentation.currentSlideId!;
+    mockUsePreview.mockReturnValue({
+      previewState: {
+        isCompiling: false,
+        progress: 100,
+        stage: 'completed',
+        message: 'Compilation successful',
+        lastCompiled: new Date(),
+        error: null,
+        pdfUrl: 'mock-blob-url',
+        currentSlideIndex: 0,
+        pageImageUrls: ['page-1-url'],
+        syncBoxes: [
+          { page: 1, x: 36, y: 27, width: 72, height: 27, slideId, elementId: 'element-1' },
+          { page: 1, x: 36, y: 108, width: 144, height: 27, slideId, elementId: 'element-2' },
+        ],
+      },
+      compilePresentation: jest.fn(),
+      cancelCompilation: jest.fn(),
+      downloadPdf: jest.fn(),
+      navigateToSlide: jest.fn(),
+      isLatexAvailable: true,
+      checkLatexAvailability: jest.fn(),
+    });
+
+    render(
+      <Provider store={store}>
+        <SimpleTextCanvas slideId={slideId} />
+        <PreviewPane />
+      </Provider>
+    );
+
+    // A 360x270pt page rendered at 96 dpi
+    const page = screen.getByAltText('Page 1') as HTMLImageElement;
+    Object.defineProperty(page, 'naturalWidth', { value: 480 });
+    Object.defineProperty(page, 'naturalHeight', { value: 360 });
+    fireEvent.load(page);
+
+    fireCanvasEvent('selection:created', { selected: [{ type: 'rect', data: { elementId: 'element-1' } }] });
+    expect(screen.getByLabelText('Selected element')).toHaveStyle({ top: '10%', width: '20%' });
+
+    fireCanvasEvent('selection:updated', { selected: [{ type: 'rect', data: { elementId: 'element-2' } }] });
+    expect(screen.getByLabelText('Selected element')).toHaveStyle({ top: '40%', width: '40%' });
+
+    fireCanvasEvent('selection:cleared', {});
+    expect(screen.queryByLabelText('Selected element')).not.toBeInTheDocument();
+  });
+});
@@ -3,7 +3,7 @@ import { render, screen, fireEvent } from '@testing-library/react';
 import { Provider } from 'react-redux';
 import { configureStore } from '@reduxjs/toolkit';
 import TextFormattingToolbar from '../TextFormattingToolbar';
-import presentationReducer from '../../store/slices/presentationSlice';
+import presentationReducer, { createPresentation, addElement } from '../../store/slices/presentationSlice';
 import uiReducer from '../../store/slices/uiSlice';
 import { ElementProperties } from '../../types/presentation';
 
@@ -379,4 +379,74 @@ describe('TextFormattingToolbar', () => {
     const mathButton = screen.getByTitle(/Insert Math Expression \(Ctrl\+M\)/);
     expect(mathButton).toBeInTheDocument();
   });
+
+  describe('inline formatting', () => {
+    const getStoredElement = () => store.getState().presentation.currentPresentation!.slides[0].elements[0];
+
+    const renderWithText = (selectionRange: { start: number; end: number } | null) => {
+      store.dispatch(createPresentation({ title: 'Rich Text' }));
+      const slideId = store.getState().presentation.currentPresentation!.slides[0].id;
+      store.dispatch(addElement({
+        slideId,
+        element: {
+          type: 'text',
+          position: { x: 0, y: 0 },
+          size: { width: 200, height: 50 },
+          properties: {},
+          content: 'Hello world',
+        },
+      }));
+      const elementId = store.getState().presentation.currentPresentation!.slides[0].elements[0].id;
+
+      render(
+        <Provider store={store}>
+          <TextFormattingToolbar
+            slideId={slideId}
+            elementId={elementId}
+            currentProperties={{}}
+            onPropertyChange={mockOnPropertyChange}
+            selectionRange={selectionRange}
+          />
+        </Provider>
+      );
+    };
+
+    test('bolds only the selected range', () => {
+      renderWithText({ start: 6, end: 11 });
+
+      fireEvent.click(screen.getByTitle(/Bold/));
+
+      expect(mockOnPropertyChange).toHaveBeenCalledWith({
+        richText: [{ text: 'Hello ' }, { text: 'world', bold: true }],
+      });
+      expect(getStoredElement().properties.richText).toEqual([{ text: 'Hello ' }, { text: 'world', bold: true }]);
+    });
+
+    test('applies inline code and superscript to the whole text without a selection', () => {
+      renderWithText(null);
+
+      fireEvent.click(screen.getByTitle('Inline Code'));
+      expect(mockOnPropertyChange).toHaveBeenLastCalledWith({
+        richText: [{ text: 'Hello world', code: true }],
+      });
+
+      fireEvent.click(screen.getByTitle('Superscript'));
+      expect(mockOnPropertyChange).toHaveBeenLastCalledWith({
+        richText: [{ text: 'Hello world', code: true, script: 'superscript' }],
+      });
+    });
+
+    test('links the selected range', () => {
+      renderWithText({ start: 0, end: 5 });
+
+      fireEvent.click(screen.getByTitle('Link'));
+      fireEvent.change(screen.getByLabelText('Link URL'), { target: { value: 'https://example.com' } });
+      fireEvent.click(screen.getByText('Apply'));
+
+      expect(getStoredElement().properties.richText).toEqual([
+        { text: 'Hello', link: 'https://example.com' },
+        { text: ' world' },
+      ]);
+    });
+  });
 });
\ No newline at end of file
@@ -1,13 +1,17 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
 import { useSelector } from 'react-redux';
 import { RootState } from '../store';
-import { previewService, PreviewState } from '../services/previewService';
+import { previewService, PreviewState, PreviewSyncBox } from '../services/previewService';
 import { CompilationProgress } from '../services/latexCompiler';
 import { latexGenerationService } from '../services/latexGenerationService';
+import { findTexLivePackage } from '../services/latexDiagnostics';
+import { getFontFallbackWarning } from '../services/fontAvailability';
+import { SpeakerNotesMode } from '../services/latexGenerator';
 
 interface UsePreviewOptions {
   autoCompile?: boolean;
   debounceMs?: number;
+  notesMode?: SpeakerNotesMode;
 }
 
 interface UsePreviewReturn {
@@ -34,6 +38,7 @@ export const usePreview = (options: UsePreviewOptions = {}): UsePreviewReturn =>
     error: null,
     pdfUrl: null,
     currentSlideIndex: 0,
+    fontWarning: null,
   });
   
   const [isLatexAvailable, setIsLatexAvailable] = useState(false);
@@ -49,6 +54,21 @@ export const usePreview = (options: UsePreviewOptions = {}): UsePreviewReturn =>
     }
   }, [options.autoCompile, options.debounceMs]);
 
+  // Recompile with the new speaker notes layout when it changes
+  const notesModeRef = useRef(options.notesMode);
+  useEffect(() => {
+    if (options.notesMode === undefined) return;
+
+    previewService.updateOptions({ notesMode: options.notesMode });
+    if (notesModeRef.current !== options.notesMode) {
+      notesModeRef.current = options.notesMode;
+      if (presentation && isLatexAvailable) {
+        previewService.updatePreview(presentation, true);
+      }
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [options.notesMode]);
+
   // Setup event listeners
   useEffect(() => {
     const handleCompilationStarted = () => {
@@ -71,8 +91,10 @@ export const usePreview = (options: UsePreviewOptions = {}): UsePreviewReturn =>
       }));
     };
 
-    const handleCompilationSuccess = ({ pdfUrl, duration, warnings }: {
+    const handleCompilationSuccess = ({ pdfUrl, pageImageUrls, syncBoxes, duration, warnings }: {
       pdfUrl: string;
+      pageImageUrls: string[];
+      syncBoxes: PreviewSyncBox[];
       duration: number;
       warnings: any[];
     }) => {
@@ -85,6 +107,8 @@ export const usePreview = (options: UsePreviewOptions = {}): UsePreviewReturn =>
         lastCompiled: new Date(),
         error: null,
         pdfUrl,
+        pageImageUrls,
+        syncBoxes,
       }));
     };
 
@@ -120,8 +144,16 @@ export const usePreview = (options: UsePreviewOptions = {}): UsePreviewReturn =>
       }));
     };
 
+    const handleFontFallback = ({ fonts }: { fonts: string[] }) => {
+      setPreviewState(prev => ({
+        ...prev,
+        fontWarning: fonts.length > 0 ? getFontFallbackWarning(fonts) : null,
+      }));
+    };
+
     // Add event listeners
     previewService.on('compilation-started', handleCompilationStarted);
+    previewService.on('font-fallback', handleFontFallback);
     previewService.on('compilation-progress', handleCompilationProgress);
     previewService.on('compilation-success', handleCompilationSuccess);
     previewService.on('compilation-error', handleCompilationError);
@@ -131,6 +163,7 @@ export const usePreview = (options: UsePreviewOptions = {}): UsePreviewReturn =>
     return () => {
       // Remove event listeners
       previewService.off('compilation-started', handleCompilationStarted);
+      previewService.off('font-fallback', handleFontFallback);
       previewService.off('compilation-progress', handleCompilationProgress);
       previewService.off('compilation-success', handleCompilationSuccess);
       previewService.off('compilation-error', handleCompilationError);
@@ -174,7 +207,16 @@ export const usePreview = (options: UsePreviewOptions = {}): UsePreviewReturn =>
         }));
       } else {
         console.log('✅ [usePreview] LaTeX is available with compilers:', availability.compilers);
-        const message = `LaTeX available (${availability.compilers.join(', ')})${availability.version ? ` v${availability.version}` : ''}`;
+        // Direct engine runs are implied by the compilers
+        const tools = [...availability.compilers, ...(availability.backends || []).filter(backend => backend !== 'engine')];
+        let message = `LaTeX available (${tools.join(', ')})${availability.version ? ` v${availability.version}` : ''}`;
+        // Name the TeX Live packages to install, before a compile fails on them
+        const missingPackages = Array.from(new Set((availability.missingFiles || []).map(findTexLivePackage)));
+        if (missingPackages.length > 0) {
+          message += `; missing packages: ${missingPackages.join(', ')} (tlmgr install ${missingPackages.join(' ')})`;
+        } else if (availability.compilers.length > 0 && !availability.missingFiles) {
+          message += '; packages not checked (kpsewhich not found)';
+        }
         setPreviewState(prev => ({
           ...prev,
           error: null,
@@ -0,0 +1,286 @@
+import { BeamerImportService } from '../beamerImportService';
+
+describe('BeamerImportService', () => {
+  let service: BeamerImportService;
+
+  beforeEach(() => {
+    service = new BeamerImportService();
+  });
+
+  const document = (body: string, preamble: string = '') =>
+    `\\documentclass[aspectratio=169]{beamer}\n${preamble}\n\\begin{document}\n${body}\n\\end{document}\n`;
+
+  it('reads the aspect ratio, title metadata, theme and custom preamble', async () => {
+    const result = await service.parseBeamerSource(document(
+      '\\begin{frame}\\titlepage\\end{frame}\n\\begin{frame}{Intro}Hello\\end{frame}',
+      [
+        '\\usetheme{Madrid}',
+        '\\usepackage[utf8]{inputenc}',
+        '\\usepackage{siunitx,booktabs}',
+        '\\usetikzlibrary{positioning}',
+        '\\newcommand{\\R}{\\mathbb{R}}',
+        '\\newcommand\\vect[1]{\\mathbf{#1}}',
+        '\\title{Results \\& Outlook}',
+        '\\author{Ada \\and Grace}',
+        '\\institute{University}',
+      ].join('\n')
+    ));
+
+    expect(result.success).toBe(true);
+    const presentation = result.presentation!;
+    expect(presentation.settings.slideSize.aspectRatio).toBe('16:9');
+    expect(presentation.theme.beamerThemeTemplate).toBe('madrid');
+    expect(presentation.metadata).toMatchObject({
+      title: 'Results & Outlook',
+      author: 'Ada, Grace',
+      institution: 'University',
+    });
+    expect(presentation.settings.customPreamble).toEqual({
+      packages: ['\\usepackage{siunitx}'],
+      tikzLibraries: ['positioning'],
+      macros: [
+        { name: 'R', definition: '\\mathbb{R}' },
+        { name: 'vect', argumentCount: 1, definition: '\\mathbf{#1}' },
+      ],
+    });
+
+    // The title page frame is recreated from the metadata
+    expect(presentation.slides.map(slide => slide.title)).toEqual(['Intro']);
+  });
+
+  it('imports frame titles, sections and notes', async () => {
+    const result = await service.parseBeamerSource(document([
+      '\\section{Background}',
+      '\\begin{frame}',
+      '  \\frametitle{Motivation}',
+      '  Why this matters. % a comment',
+      '  \\note{Mention the \\textbf{budget}.}',
+      '\\end{frame}',
+      '\\note{Pause for questions.}',
+      '\\subsection{Details}',
+      '\\begin{frame}[fragile]{Second}',
+      '  More text.',
+      '\\end{frame}',
+    ].join('\n')));
+
+    const [first, second] = result.presentation!.slides;
+    expect(first.title).toBe('Motivation');
+    expect(first.section).toBe('Background');
+    expect(first.notes).toBe('Mention the budget.\n\nPause for questions.');
+    expect(first.elements).toHaveLength(1);
+    expect(first.elements[0].content).toBe('Why this matters.');
+    expect(second.title).toBe('Second');
+    expect(second.section).toBeUndefined();
+    expect(second.subsection).toBe('Details');
+  });
+
+  it('moves the section and notes of the title page frame to the next slide', async () => {
+    const result = await service.parseBeamerSource(document([
+      '\\section{Intro}',
+      '\\begin{frame}',
+      '  \\titlepage',
+      '  \\note{Welcome everyone.}',
+      '\\end{frame}',
+      '\\begin{frame}{Agenda}',
+      '  Topics.',
+      '\\end{frame}',
+    ].join('\n')));
+
+    const [first] = result.presentation!.slides;
+    expect(result.presentation!.slides).toHaveLength(1);
+    expect(first.title).toBe('Agenda');
+    expect(first.section).toBe('Intro');
+    expect(first.notes).toBe('Welcome everyone.');
+  });
+
+  it('turns lists into list elements with formatting and reveals', async () => {
+    const result = await service.parseBeamerSource(document([
+      '\\begin{frame}{Lists}',
+      '\\begin{itemize}[<+->]',
+      '  \\item First \\textbf{bold} point',
+      '  \\item Second point',
+      '\\end{itemize}',
+      '\\begin{enumerate}',
+      '  \\item One',
+      '  \\item Two',
+      '\\end{enumerate}',
+      '\\end{frame}',
+    ].join('\n')));
+
+    const [bullets, numbers] = result.presentation!.slides[0].elements;
+    expect(bullets.content).toBe('First bold point\nSecond point');
+    expect(bullets.properties.listType).toBe('bullet');
+    expect(bullets.properties.overlay).toEqual({ revealListItems: true });
+    expect(bullets.properties.richText).toEqual([
+      { text: 'First ' },
+      { text: 'bold', bold: true },
+      { text: ' point\nSecond point' },
+    ]);
+    expect(numbers.properties.listType).toBe('numbered');
+    expect(numbers.position.y).toBeGreaterThan(bullets.position.y + bullets.size.height - 1);
+  });
+
+  it('keeps math as written and \\pause as overlay steps', async () => {
+    const result = await service.parseBeamerSource(document([
+      '\\begin{frame}{Math}',
+      'Let $x \\in \\mathbb{R}$ be given.',
+      '\\pause',
+      '\\[ e^{i\\pi} + 1 = 0 \\]',
+      '\\end{frame}',
+    ].join('\n')));
+
+    const [inline, display] = result.presentation!.slides[0].elements;
+    expect(inline).toMatchObject({ type: 'text', content: 'Let $x \\in \\mathbb{R}$ be given.' });
+    expect(inline.properties.hasMath).toBe(true);
+    expect(inline.properties.overlay).toBeUndefined();
+    expect(display).toMatchObject({ type: 'text', content: '\\[ e^{i\\pi} + 1 = 0 \\]' });
+    expect(display.properties.overlay).toEqual({ appearOnStep: 2 });
+  });
+
+  it('imports images relative to the document', async () => {
+    const result = await service.parseBeamerSource(document([
+      '\\begin{frame}{Figure}',
+      '\\begin{center}',
+      '  \\includegraphics[width=0.5\\textwidth]{figures/plot.png}',
+      '\\end{center}',
+      '\\end{frame}',
+    ].join('\n')), { baseDirectory: '/home/ada/talk' });
+
+    const [image] = result.presentation!.slides[0].elements;
+    expect(image.type).toBe('image');
+    expect(image.content).toBe('/home/ada/talk/figures/plot.png');
+    expect(image.size.width).toBe(380);
+    expect(image.position.x).toBe(210);
+  });
+
+  it('finds images named without an extension in the order graphicx tries extensions', async () => {
+    const files = new Set(['/home/ada/talk/figures/plot.png', '/home/ada/talk/figures/plot.eps']);
+    const result = await service.parseBeamerSource(document([
+      '\\begin{frame}{Figures}',
+      '\\includegraphics{figures/plot}',
+      '\\includegraphics{figures/missing}',
+      '\\end{frame}',
+    ].join('\n')), { baseDirectory: '/home/ada/talk', fileExists: async path => files.has(path) });
+
+    expect(result.presentation!.slides[0].elements.map(element => element.content)).toEqual([
+      '/home/ada/talk/figures/plot.png',
+      'example-image',
+    ]);
+    expect(result.warnings).toContain('Image figures/missing was not found; a placeholder image is shown instead');
+  });
+
+  it('looks up images in the \\graphicspath directories after the document folder', async () => {
+    const files = new Set(['/home/ada/talk/images/logo.pdf', '/home/ada/talk/plots/plot.jpg']);
+    const result = await service.parseBeamerSource(document([
+      '\\begin{frame}{Figures}',
+      '\\includegraphics{logo}',
+      '\\includegraphics{plot.jpg}',
+      '\\includegraphics{secret}',
+      '\\end{frame}',
+    ].join('\n'), '\\graphicspath{{figures/}{images/}{plots/}{../../.ssh/}}'), {
+      baseDirectory: '/home/ada/talk',
+      fileExists: async path => files.has(path),
+    });
+
+    expect(result.presentation!.slides[0].elements.map(element => element.content)).toEqual([
+      '/home/ada/talk/images/logo.pdf',
+      '/home/ada/talk/plots/plot.jpg',
+      'example-image',
+    ]);
+    expect(result.warnings.some(warning => warning.includes('\\graphicspath'))).toBe(false);
+  });
+
+  it('shows a placeholder for images named without an extension when files cannot be looked up', async () => {
+    const result = await service.parseBeamerSource(document(
+      '\\begin{frame}{Figure}\\includegraphics{figures/plot}\\end{frame}'
+    ), { baseDirectory: '/home/ada/talk' });
+
+    expect(result.presentation!.slides[0].elements[0].content).toBe('example-image');
+    expect(result.warnings).toContain('Image figures/plot was not found; a placeholder image is shown instead');
+  });
+
+  it('does not import images outside the document folder', async () => {
+    const result = await service.parseBeamerSource(document([
+      '\\begin{frame}{Figures}',
+      '\\includegraphics{./figures/../logo.pdf}',
+      '\\includegraphics{../../.ssh/id_rsa}',
+      '\\includegraphics{/home/ada/.ssh/id_rsa}',
+      '\\includegraphics{/home/ada/talk/figures/plot.png}',
+      '\\end{frame}',
+    ].join('\n')), { baseDirectory: '/home/ada/talk' });
+
+    expect(result.presentation!.slides[0].elements.map(element => element.content)).toEqual([
+      '/home/ada/talk/logo.pdf',
+      'example-image',
+      'example-image',
+      '/home/ada/talk/figures/plot.png',
+    ]);
+    expect(result.warnings).toContain('Image ../../.ssh/id_rsa is outside the document\'s folder and was not imported');
+  });
+
+  it('converts simple TikZ pictures into shapes and text', async () => {
+    const result = await service.parseBeamerSource(document([
+      '\\begin{frame}{Diagram}',
+      '\\begin{tikzpicture}',
+      '  \\draw[thick, blue] (0,0) rectangle (2,1);',
+      '  \\draw[->] (2,0.5) -- (4,0.5);',
+      '  \\node at (1,0.5) {Input};',
+      '\\end{tikzpicture}',
+      '\\end{frame}',
+    ].join('\n')));
+
+    const [rectangle, arrow, label] = result.presentation!.slides[0].elements;
+    expect(rectangle.properties).toMatchObject({
+      shapeType: 'rectangle',
+      strokeColor: { r: 0, g: 0, b: 255 },
+      strokeWidth: 0.8,
+    });
+    expect(rectangle.properties.fillColor).toBeUndefined();
+    expect(arrow.properties).toMatchObject({ shapeType: 'arrow', arrowStart: false, arrowEnd: true });
+    expect(arrow.position.x).toBe(rectangle.position.x + rectangle.size.width);
+    expect(label).toMatchObject({ type: 'text', content: 'Input' });
+    expect(result.rawLatexBlocks).toBe(0);
+  });
+
+  it('keeps unrecognized content as raw LaTeX', async () => {
+    const result = await service.parseBeamerSource(document([
+      '\\begin{frame}{Mixed}',
+      '\\begin{block}{Definition}',
+      '  A block.',
+      '\\end{block}',
+      '\\begin{tikzpicture}[scale=2]',
+      '  \\draw (0,0) to[bend left] (1,1);',
+      '\\end{tikzpicture}',
+      '\\small Smaller text',
+      '\\end{frame}',
+    ].join('\n')));
+
+    const elements = result.presentation!.slides[0].elements;
+    expect(elements.map(element => element.type)).toEqual(['latex', 'latex', 'latex']);
+    expect(elements[0].content).toBe('\\begin{block}{Definition}\n  A block.\n\\end{block}');
+    expect(elements[2].content).toBe('\\small Smaller text');
+    expect(result.rawLatexBlocks).toBe(3);
+  });
+
+  it('imports verbatim listings as code elements', async () => {
+    const result = await service.parseBeamerSource(document([
+      '\\begin{frame}[fragile]{Code}',
+      '\\begin{lstlisting}[language=Python, numbers=left]',
+      'print("100%")',
+      '\\end{lstlisting}',
+      '\\end{frame}',
+    ].join('\n')));
+
+    const [code] = result.presentation!.slides[0].elements;
+    expect(code).toMatchObject({ type: 'code', content: 'print("100%")' });
+    expect(code.properties).toMatchObject({ codeLanguage: 'python', showLineNumbers: true });
+  });
+
+  it('reports documents it cannot import', async () => {
+    expect((await service.parseBeamerSource('\\section{Nothing}')).errors).toHaveLength(1);
+
+    const empty = await service.parseBeamerSource(document('Just text'));
+    expect(empty.success).toBe(false);
+    expect(empty.errors).toEqual(['The document has no frames to import']);
+  });
+});
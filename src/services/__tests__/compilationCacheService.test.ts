@@ -320,6 +320,38 @@ describe('CompilationCacheService', () => {
       expect(service.getStats().totalEntries).toBe(1);
     });
 
+    it('should leave PDFs and page images out of exported data', () => {
+      service.cacheResult(mockSlide, mockPresentation, 'latex', {
+        ...mockCompilationResult,
+        imageBuffer: Buffer.from('png'),
+        pageImages: [Buffer.from('page 1')],
+      });
+
+      const [[, entry]] = JSON.parse(service.exportCache()).entries;
+
+      expect(entry.compilationResult).not.toHaveProperty('pdfBuffer');
+      expect(entry.compilationResult).not.toHaveProperty('imageBuffer');
+      expect(entry.compilationResult).not.toHaveProperty('pageImages');
+      expect(entry.compilationResult.log).toBe('Compilation successful');
+      // The cached result itself keeps them
+      expect(service.getCachedResult(mockSlide, mockPresentation, 'latex')?.pdfBuffer).toBeDefined();
+    });
+
+    it('should persist several cached results at once', () => {
+      const persistentService = new CompilationCacheService({ enablePersistence: true });
+      const otherSlide = { ...mockSlide, id: 'slide-2' };
+      localStorageMock.setItem.mockClear();
+
+      persistentService.cacheResults(mockPresentation, [
+        { slide: mockSlide, latexCode: 'latex 1', result: mockCompilationResult },
+        { slide: otherSlide, latexCode: 'latex 2', result: mockCompilationResult },
+      ]);
+
+      expect(persistentService.getStats().totalEntries).toBe(2);
+      expect(localStorageMock.setItem).toHaveBeenCalledTimes(1);
+      persistentService.cleanup();
+    });
+
     it('should handle invalid import data gracefully', () => {
       const success = service.importCache('invalid json');
       
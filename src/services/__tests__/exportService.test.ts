@@ -225,6 +225,35 @@ describe('ExportService', () => {
       expect(result.success).toBe(true);
       expect(result.metadata?.quality).toBe('low');
     });
+
+    it('compiles with fallback fonts for theme fonts that are not installed', async () => {
+      const { latexGenerator } = require('../latexGenerator');
+      latexGenerator.getFontspecFonts.mockReturnValue(['Fira Sans', 'Inter']);
+
+      const mockLatexCompiler = require('../latexCompiler');
+      mockLatexCompiler.latexCompiler = {
+        compile: jest.fn().mockResolvedValue('job-789'),
+        checkFontAvailability: jest.fn().mockResolvedValue({ 'Fira Sans': false, Inter: true }),
+        on: jest.fn(),
+        off: jest.fn()
+      };
+
+      setTimeout(() => {
+        const completionHandler = mockLatexCompiler.latexCompiler.on.mock.calls
+          .find((call: unknown[]) => call[0] === 'job-completed')?.[1];
+        completionHandler?.({ jobId: 'job-789', success: true, pdfPath: '/test/output.pdf', fileSize: 1024 });
+      }, 10);
+
+      const result = await exportService.exportPresentation(mockPresentation, { format: 'pdf', outputPath: '/test/output.pdf' });
+
+      expect(mockLatexCompiler.latexCompiler.checkFontAvailability).toHaveBeenCalledWith(['Fira Sans', 'Inter']);
+      expect(latexGenerator.generateDocument).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ unavailableFonts: ['Fira Sans'] })
+      );
+      expect(result.success).toBe(true);
+      expect(result.warnings).toEqual(['Not installed, using default fonts instead: Fira Sans']);
+    });
   });
 
   describe('LaTeX Export', () => {
@@ -254,6 +283,28 @@ describe('ExportService', () => {
       );
     });
 
+    it('should pass the speaker notes mode to the LaTeX generator', async () => {
+      const mockLatexGenerator = require('../latexGenerator');
+      mockLatexGenerator.latexGenerator = {
+        generateDocument: jest.fn().mockReturnValue('\\documentclass{beamer}\n\\begin{document}\n\\end{document}')
+      };
+
+      await exportService.exportPresentation(mockPresentation, {
+        format: 'latex',
+        notesMode: 'second-screen',
+        outputPath: '/test/notes.tex'
+      });
+      await exportService.exportPresentation(mockPresentation, {
+        format: 'latex',
+        includeNotes: true,
+        outputPath: '/test/handout.tex'
+      });
+
+      const calls = mockLatexGenerator.latexGenerator.generateDocument.mock.calls;
+      expect(calls[0][1]).toEqual(expect.objectContaining({ notesMode: 'second-screen' }));
+      expect(calls[1][1]).toEqual(expect.objectContaining({ notesMode: 'notes-under-slide' }));
+    });
+
     it('should format LaTeX source code properly', async () => {
       const options: ExportOptions = {
         format: 'latex',
@@ -391,6 +442,127 @@ describe('ExportService', () => {
     });
   });
 
+  describe('Rich Text', () => {
+    beforeEach(() => {
+      mockPresentation.slides[0].elements[0] = {
+        ...mockPresentation.slides[0].elements[0],
+        content: 'Hello World',
+        properties: {
+          fontSize: 18,
+          richText: [
+            { text: 'Hello ', bold: true },
+            { text: 'World', link: 'https://example.com', italic: true },
+          ],
+        },
+      };
+    });
+
+    it('emits runs as inline HTML', async () => {
+      await exportService.exportPresentation(mockPresentation, { format: 'html', outputPath: '/test/rich.html' });
+
+      expect(mockElectronAPI.exportWriteFile).toHaveBeenCalledWith(
+        '/test/rich.html',
+        expect.stringContaining('<strong>Hello </strong><a href="https://example.com"><em>World</em></a>')
+      );
+    });
+
+    it('emits runs as inline Markdown', async () => {
+      await exportService.exportPresentation(mockPresentation, { format: 'markdown', outputPath: '/test/rich.md' });
+
+      expect(mockElectronAPI.exportWriteFile).toHaveBeenCalledWith(
+        '/test/rich.md',
+        expect.stringContaining('**Hello** [*World*](https://example.com)')
+      );
+    });
+
+    it('drops links other than web, mail and relative links', async () => {
+      mockPresentation.slides[0].elements[0].properties.richText = [
+        { text: 'Run', link: 'java\tscript:alert(1)' },
+        { text: ' docs', link: 'docs/intro.html' },
+        { text: ' mail', link: 'mailto:ada@example.com' },
+      ];
+      mockPresentation.slides[0].elements[0].content = 'Run docs mail';
+
+      await exportService.exportPresentation(mockPresentation, { format: 'html', outputPath: '/test/links.html' });
+
+      const html = mockElectronAPI.exportWriteFile.mock.calls[0][1];
+      expect(html).not.toContain('script:');
+      expect(html).toContain('Run<a href="docs/intro.html"> docs</a><a href="mailto:ada@example.com"> mail</a>');
+    });
+
+    it('escapes spaces and parentheses in Markdown link destinations', async () => {
+      mockPresentation.slides[0].elements[0].properties.richText = [
+        { text: 'Wiki', link: 'https://en.wikipedia.org/wiki/Set_(mathematics) page' },
+        { text: ' bad', link: 'data:text/html,<script>alert(1)</script>' },
+      ];
+      mockPresentation.slides[0].elements[0].content = 'Wiki bad';
+
+      await exportService.exportPresentation(mockPresentation, { format: 'markdown', outputPath: '/test/links.md' });
+
+      const markdown = mockElectronAPI.exportWriteFile.mock.calls[0][1];
+      expect(markdown).toContain('[Wiki](https://en.wikipedia.org/wiki/Set_%28mathematics%29%20page) bad');
+      expect(markdown).not.toContain('data:');
+    });
+
+    it('adds runs to PowerPoint as text objects', async () => {
+      const element = mockPresentation.slides[0].elements[0];
+      await (exportService as any).convertTextElementToPowerPoint(mockSlide, element, 1, 1, 4, 1);
+
+      expect(mockSlide.addText).toHaveBeenCalledWith(
+        [
+          { text: 'Hello ', options: { bold: true } },
+          { text: 'World', options: { italic: true, hyperlink: { url: 'https://example.com' } } },
+        ],
+        expect.objectContaining({ fontSize: 18 })
+      );
+    });
+  });
+
+  describe('Code Listings', () => {
+    beforeEach(() => {
+      mockPresentation.slides[0].elements[0] = {
+        ...mockPresentation.slides[0].elements[0],
+        type: 'code',
+        content: 'x = 1 # one\nprint(x)',
+        properties: {
+          fontSize: 12,
+          codeLanguage: 'python',
+          showLineNumbers: true,
+          highlightedLines: [2],
+        },
+      };
+    });
+
+    it('emits a highlighted pre block in HTML', async () => {
+      await exportService.exportPresentation(mockPresentation, { format: 'html', outputPath: '/test/code.html' });
+
+      const html = mockElectronAPI.exportWriteFile.mock.calls[0][1];
+      expect(html).toContain('<pre class="code-listing" data-language="python"');
+      expect(html).toContain('<span class="code-line"><span class="line-number">1</span>x = <span class="token-number" style="color: rgb(9, 134, 88)">1</span> <span class="token-comment" style="color: rgb(0, 128, 0)"># one</span></span>');
+      expect(html).toContain('<span class="code-line highlighted"><span class="line-number">2</span>print(x)</span>');
+    });
+
+    it('emits a fenced code block in Markdown', async () => {
+      await exportService.exportPresentation(mockPresentation, { format: 'markdown', outputPath: '/test/code.md' });
+
+      expect(mockElectronAPI.exportWriteFile).toHaveBeenCalledWith(
+        '/test/code.md',
+        expect.stringContaining('```python\nx = 1 # one\nprint(x)\n```')
+      );
+    });
+
+    it('adds monospace runs to PowerPoint, one paragraph per line', async () => {
+      const element = mockPresentation.slides[0].elements[0];
+      await (exportService as any).convertCodeElementToPowerPoint(mockSlide, element, 1, 1, 4, 1);
+
+      const [runs, options] = mockSlide.addText.mock.calls[0];
+      expect(options).toEqual(expect.objectContaining({ fontFace: 'Courier New', fontSize: 12 }));
+      expect(runs.map((run: any) => run.text)).toEqual(['1  ', 'x = ', '1', ' ', '# one', '2  ', 'print(x)']);
+      expect(runs[4].options).toEqual({ color: '008000', breakLine: true });
+      expect(runs[6].options).toEqual({ color: '212529', highlight: 'fff3b0' });
+    });
+  });
+
   describe('Export Range', () => {
     it('should export only specified slide range', async () => {
       const presentationWithMultipleSlides = {
@@ -443,6 +615,16 @@ describe('ExportService', () => {
       expect(validation.valid).toBe(false);
       expect(validation.errors.length).toBeGreaterThan(0);
     });
+
+    it('should reject unknown speaker notes modes', () => {
+      const validation = exportService.validateExportOptions({
+        format: 'pdf',
+        notesMode: 'sideways' as any
+      });
+
+      expect(validation.valid).toBe(false);
+      expect(validation.errors[0]).toContain('Notes mode');
+    });
   });
 
   describe('Supported Formats', () => {
@@ -0,0 +1,86 @@
+import { EngineBackend, LatexBackendContext, LatexmkBackend, TectonicBackend, getLatexBackend } from '../latexBackends';
+import { CompilationOptions } from '../latexCompiler';
+
+describe('LaTeX backends', () => {
+  let runs: { command: string; args: string[] }[];
+
+  // A working directory whose files and command output are scripted per test
+  const createContext = (
+    options: CompilationOptions,
+    stdouts: string[] = [],
+    files: Record<string, string> = {}
+  ): LatexBackendContext => ({
+    workingDir: '/tmp/job',
+    texFilePath: '/tmp/job/document.tex',
+    options,
+    runCommand: async (command, args) => {
+      runs.push({ command, args });
+      return { success: true, stdout: stdouts.shift() || '', stderr: '' };
+    },
+    resolveCommand: command => command,
+    readFile: async name => files[name] || '',
+    reportProgress: () => undefined,
+  });
+
+  beforeEach(() => {
+    runs = [];
+  });
+
+  it('runs the engine again while cross-references change', async () => {
+    const backend = new EngineBackend();
+
+    await backend.compile(createContext({ compiler: 'xelatex', synctex: true }, ['Rerun to get cross-references right', 'Done']));
+
+    expect(runs.map(run => run.command)).toEqual(['xelatex', 'xelatex']);
+    expect(runs[0].args).toEqual([
+      '-interaction=nonstopmode',
+      '-file-line-error',
+      '-output-directory=/tmp/job',
+      '-synctex=1',
+      '-no-shell-escape',
+      '/tmp/job/document.tex',
+    ]);
+  });
+
+  it('runs bibtex between engine passes when the document cites', async () => {
+    const backend = new EngineBackend();
+    const aux = '\\citation{knuth84}\n\\bibdata{references}';
+
+    // The pass after bibtex still has undefined citations until the one after it
+    await backend.compile(createContext({}, ['', '', 'There were undefined references', ''], { 'document.aux': aux }));
+
+    expect(runs.map(run => run.command)).toEqual(['pdflatex', 'bibtex', 'pdflatex', 'pdflatex']);
+  });
+
+  it('leaves reruns to latexmk, with the engine as a flag', async () => {
+    const backend = new LatexmkBackend();
+
+    await backend.compile(createContext({ compiler: 'lualatex', shell: true }));
+
+    expect(runs).toEqual([{
+      command: 'latexmk',
+      args: ['-pdflua', '-interaction=nonstopmode', '-file-line-error', '-outdir=/tmp/job', '-shell-escape', '/tmp/job/document.tex'],
+    }]);
+  });
+
+  it('compiles with Tectonic and reports the kept log', async () => {
+    const backend = new TectonicBackend();
+
+    const result = await backend.compile(createContext(
+      { compiler: 'pdflatex', synctex: true },
+      ['note: writing document.pdf'],
+      { 'document.log': '! Undefined control sequence.' }
+    ));
+
+    expect(runs).toEqual([{
+      command: 'tectonic',
+      args: ['--keep-logs', '--outdir', '/tmp/job', '--synctex', '--untrusted', '/tmp/job/document.tex'],
+    }]);
+    expect(result.stdout).toBe('! Undefined control sequence.\nnote: writing document.pdf');
+  });
+
+  it('defaults to direct engine runs', () => {
+    expect(getLatexBackend().id).toBe('engine');
+    expect(getLatexBackend('tectonic').id).toBe('tectonic');
+  });
+});
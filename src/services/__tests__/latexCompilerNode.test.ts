@@ -0,0 +1,71 @@
+import * as fs from 'fs';
+import { LaTeXCompilerNode } from '../latexCompilerNode';
+import { LATEX_PACKAGE_FILES } from '../latexDiagnostics';
+
+describe('LaTeXCompilerNode', () => {
+  let compiler: any;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    compiler = new LaTeXCompilerNode();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  describe('getCompilerPath', () => {
+    it('looks tools up on PATH when /Library/TeX does not exist', () => {
+      jest.spyOn(fs, 'existsSync').mockReturnValue(false);
+
+      expect(compiler.getCompilerPath('pdflatex')).toBe('pdflatex');
+      expect(compiler.getCompilerPath('latexmk')).toBe('latexmk');
+      expect(compiler.getCompilerPath('biber')).toBe('biber');
+      expect(compiler.getCompilerPath('kpsewhich')).toBe('kpsewhich');
+    });
+
+    it('finds tools next to the engine the availability check found', () => {
+      const binDirectory = '/usr/local/texlive/2024/bin/x86_64-linux';
+      compiler.compilerPaths.set('pdflatex', `${binDirectory}/pdflatex`);
+      jest.spyOn(fs, 'existsSync').mockImplementation(file => file === `${binDirectory}/bibtex`);
+
+      expect(compiler.getCompilerPath('pdflatex')).toBe(`${binDirectory}/pdflatex`);
+      expect(compiler.getCompilerPath('bibtex')).toBe(`${binDirectory}/bibtex`);
+      expect(compiler.getCompilerPath('latexmk')).toBe('latexmk');
+    });
+
+    it('uses MacTeX when it is installed', () => {
+      jest.spyOn(fs, 'existsSync').mockImplementation(file => file === '/Library/TeX/texbin/latexmk');
+
+      expect(compiler.getCompilerPath('latexmk')).toBe('/Library/TeX/texbin/latexmk');
+    });
+  });
+
+  describe('findMissingPackageFiles', () => {
+    beforeEach(() => {
+      jest.spyOn(fs, 'existsSync').mockReturnValue(false);
+    });
+
+    it('lists the files kpsewhich from PATH does not find', async () => {
+      const found = LATEX_PACKAGE_FILES.filter(file => file !== 'textpos.sty').map(file => `/usr/share/texmf/tex/${file}`);
+      const runCommand = jest.spyOn(compiler, 'runCommand').mockResolvedValue({
+        success: false,
+        stdout: `${found.join('\n')}\n`,
+        stderr: '',
+      });
+
+      await expect(compiler.findMissingPackageFiles()).resolves.toEqual(['textpos.sty']);
+      expect(runCommand).toHaveBeenCalledWith('kpsewhich', LATEX_PACKAGE_FILES, { timeout: 10000 });
+    });
+
+    it('reports nothing known when kpsewhich is missing or fails', async () => {
+      const runCommand = jest.spyOn(compiler, 'runCommand')
+        .mockRejectedValueOnce(Object.assign(new Error('spawn kpsewhich ENOENT'), { code: 'ENOENT' }));
+      await expect(compiler.findMissingPackageFiles()).resolves.toBeUndefined();
+
+      runCommand.mockResolvedValueOnce({ success: false, stdout: '', stderr: 'kpathsea: configuration file texmf.cnf not found' });
+      await expect(compiler.findMissingPackageFiles()).resolves.toBeUndefined();
+    });
+  });
+});
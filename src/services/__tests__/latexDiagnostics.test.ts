@@ -0,0 +1,61 @@
+import {
+  LATEX_PACKAGE_FILES,
+  describeDiagnostic,
+  findTexLivePackage,
+  getErrorDiagnostic,
+  getWarningDiagnostic,
+} from '../latexDiagnostics';
+
+describe('LaTeX diagnostics', () => {
+  it('names the TeX Live package providing a missing file', () => {
+    expect(getErrorDiagnostic('./document.tex:12: LaTeX Error: File `tikz.sty\' not found.')).toEqual({
+      kind: 'missing-file',
+      file: 'tikz.sty',
+      package: 'pgf',
+    });
+    expect(findTexLivePackage('amssymb.sty')).toBe('amsfonts');
+    expect(findTexLivePackage('siunitx.sty')).toBe('siunitx');
+    expect(LATEX_PACKAGE_FILES).toEqual(expect.arrayContaining(['beamer.cls', 'textpos.sty', 'pgfplots.sty']));
+  });
+
+  it('finds the undefined command on the input line TeX stopped at', () => {
+    const followingLines = ['', 'l.42 Some text with \\foo', '                        {bar}'];
+
+    expect(getErrorDiagnostic('./document.tex:42: Undefined control sequence.', followingLines)).toEqual({
+      kind: 'undefined-control-sequence',
+      command: '\\foo',
+    });
+    expect(getErrorDiagnostic('Undefined control sequence.')).toEqual({ kind: 'undefined-control-sequence', command: undefined });
+  });
+
+  it('recognizes fonts pdflatex and fontspec cannot load', () => {
+    expect(getErrorDiagnostic('Font T1/xyz/m/n/10.95=xyzr8t at 10.95pt not loadable: Metric (TFM) file not found.'))
+      .toEqual({ kind: 'font', font: 'xyzr8t' });
+    expect(getErrorDiagnostic('Package fontspec Error: The font "Fira Sans" cannot be found.'))
+      .toEqual({ kind: 'font', font: 'Fira Sans' });
+    expect(getErrorDiagnostic('Missing $ inserted.')).toBeUndefined();
+  });
+
+  it('reads the size and lines of overfull boxes', () => {
+    expect(getWarningDiagnostic('Overfull \\hbox (12.5pt too wide) in paragraph at lines 40--41')).toEqual({
+      kind: 'overfull-box',
+      box: 'hbox',
+      amount: 12.5,
+      startLine: 40,
+      endLine: 41,
+    });
+    expect(getWarningDiagnostic('Overfull \\vbox (3.0pt too high) has occurred while \\output is active')).toEqual({
+      kind: 'overfull-box',
+      box: 'vbox',
+      amount: 3,
+      startLine: undefined,
+      endLine: undefined,
+    });
+    expect(getWarningDiagnostic('Underfull \\hbox (badness 10000) in paragraph at lines 3--4')).toBeUndefined();
+  });
+
+  it('suggests installing the package a missing file belongs to', () => {
+    expect(describeDiagnostic({ kind: 'missing-file', file: 'textpos.sty', package: 'textpos' }))
+      .toContain('tlmgr install textpos');
+  });
+});
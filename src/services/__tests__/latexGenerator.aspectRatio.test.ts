@@ -0,0 +1,93 @@
+import { LaTeXGenerator } from '../latexGenerator';
+import {
+  Presentation,
+  SlideElement,
+  createDefaultTheme,
+  createDefaultSlideLayout,
+  createDefaultBackground,
+  createDefaultPresentationSettings,
+  createDefaultPresentationMetadata,
+} from '../../types/presentation';
+
+describe('LaTeXGenerator - Aspect Ratio', () => {
+  let generator: LaTeXGenerator;
+
+  beforeEach(() => {
+    generator = new LaTeXGenerator();
+  });
+
+  const createMockTextElement = (x: number, width: number): SlideElement => ({
+    id: 'text-1',
+    type: 'text',
+    position: { x, y: 0 },
+    size: { width, height: 50 },
+    properties: { fontSize: 16 },
+    content: 'Right aligned content that is long enough to need a wide text block',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  const createMockPresentation = (
+    aspectRatio: '16:9' | '4:3' | '16:10',
+    elements: SlideElement[] = []
+  ): Presentation => {
+    const settings = createDefaultPresentationSettings();
+    return {
+      id: 'presentation-1',
+      title: 'Aspect Ratio',
+      slides: [{
+        id: 'slide-1',
+        title: 'Slide',
+        elements,
+        connections: [],
+        layout: createDefaultSlideLayout(),
+        background: createDefaultBackground(),
+        notes: '',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      }],
+      theme: createDefaultTheme(),
+      metadata: createDefaultPresentationMetadata(),
+      settings: { ...settings, slideSize: { ...settings.slideSize, aspectRatio } },
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      version: '1.0.0',
+    };
+  };
+
+  const getTextBlock = (latex: string) => {
+    const match = latex.match(/\\begin\{textblock\*\}\{([\d.]+)cm\}\(([\d.]+)cm,([\d.]+)cm\)/);
+    expect(match).not.toBeNull();
+    return { width: parseFloat(match![1]), x: parseFloat(match![2]), y: parseFloat(match![3]) };
+  };
+
+  it('emits the document class aspect ratio from the presentation settings', () => {
+    expect(generator.generateDocument(createMockPresentation('4:3'))).toContain('\\documentclass[aspectratio=43,');
+    expect(generator.generateDocument(createMockPresentation('16:9'))).toContain('\\documentclass[aspectratio=169,');
+    expect(generator.generateDocument(createMockPresentation('16:10'))).toContain('\\documentclass[aspectratio=1610,');
+  });
+
+  it('maps the canvas onto the narrower 4:3 content area', () => {
+    const latex = generator.generateDocument(createMockPresentation('4:3', [createMockTextElement(400, 100)]));
+    const block = getTextBlock(latex);
+
+    // Canvas center lands on the center of the 12.1cm wide content area
+    expect(block.x).toBeCloseTo(0.2 + 12.1 / 2, 2);
+  });
+
+  it('keeps text blocks inside the 4:3 right boundary', () => {
+    const latex = generator.generateDocument(createMockPresentation('4:3', [createMockTextElement(600, 400)]));
+    const block = getTextBlock(latex);
+
+    expect(block.x + block.width).toBeLessThanOrEqual(12.3 - 0.3 + 0.01);
+  });
+
+  it('scales fonts to the content width', () => {
+    const wide = generator.generateDocument(createMockPresentation('16:9', [createMockTextElement(0, 200)]));
+    const standard = generator.generateDocument(createMockPresentation('4:3', [createMockTextElement(0, 200)]));
+
+    // 16px on an 800px canvas spanning 15.3cm vs 12.1cm
+    expect(wide).toContain('\\fontsize{8.7}{10.4}');
+    expect(standard).toContain('\\fontsize{6.9}{8.2}');
+  });
+});
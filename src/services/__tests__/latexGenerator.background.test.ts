@@ -0,0 +1,152 @@
+import { LaTeXGenerator } from '../latexGenerator';
+import { latexOptimizer } from '../latexOptimizer';
+import {
+  Presentation,
+  Slide,
+  Background,
+  Theme,
+  createDefaultTheme,
+  createDefaultSlideLayout,
+  createDefaultBackground,
+  createDefaultPresentationSettings,
+  createDefaultPresentationMetadata,
+} from '../../types/presentation';
+
+describe('LaTeXGenerator - Background Functionality', () => {
+  let generator: LaTeXGenerator;
+  let mockTheme: Theme;
+
+  beforeEach(() => {
+    generator = new LaTeXGenerator();
+    mockTheme = createDefaultTheme();
+  });
+
+  const createMockSlide = (background: Background): Slide => ({
+    id: 'slide-1',
+    title: 'Background',
+    elements: [],
+    connections: [],
+    layout: createDefaultSlideLayout(),
+    background,
+    notes: '',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  describe('Colors', () => {
+    it('sets the background canvas color in a group around the frame', () => {
+      const latex = generator.generateSlide(
+        createMockSlide({ type: 'color', color: { r: 10, g: 20, b: 30 } }),
+        mockTheme
+      );
+
+      expect(latex).toContain('\\definecolor{slidebackground}{RGB}{10,20,30}');
+      expect(latex).toContain('\\setbeamercolor{background canvas}{bg=slidebackground}');
+      expect(latex.indexOf('{\n')).toBeLessThan(latex.indexOf('\\begin{frame}'));
+      expect(latex.trim().endsWith('\\end{frame}\n}')).toBe(true);
+    });
+
+    it('leaves default white backgrounds alone', () => {
+      const latex = generator.generateSlide(createMockSlide(createDefaultBackground()), mockTheme);
+
+      expect(latex).not.toContain('background canvas');
+      expect(latex.trim().endsWith('\\end{frame}')).toBe(true);
+    });
+  });
+
+  describe('Gradients', () => {
+    it('declares a horizontal shading with every color stop', () => {
+      const latex = generator.generateSlide(createMockSlide({
+        type: 'gradient',
+        gradient: {
+          type: 'linear',
+          colors: [{ r: 255, g: 0, b: 0 }, { r: 0, g: 255, b: 0 }, { r: 0, g: 0, b: 255 }],
+          angle: 90,
+        },
+      }), mockTheme);
+
+      expect(latex).toContain('\\pgfdeclarehorizontalshading{slidebackgroundslide1}{100bp}');
+      expect(latex).toContain('rgb(0.0bp)=(1.000,0.000,0.000); rgb(50.0bp)=(0.000,1.000,0.000); rgb(100.0bp)=(0.000,0.000,1.000)');
+      expect(latex).toContain('\\setbeamertemplate{background canvas}');
+      expect(latex).toContain('\\shade[shading=slidebackgroundslide1, shading angle=0] (0,0) rectangle (\\paperwidth,\\paperheight);');
+    });
+
+    it('runs top to bottom when no angle is given', () => {
+      const latex = generator.generateSlide(createMockSlide({
+        type: 'gradient',
+        gradient: { type: 'linear', colors: [{ r: 255, g: 255, b: 255 }, { r: 0, g: 0, b: 0 }] },
+      }), mockTheme);
+
+      expect(latex).toContain('shading angle=-90');
+    });
+
+    it('declares radial shadings from the center', () => {
+      const latex = generator.generateSlide(createMockSlide({
+        type: 'gradient',
+        gradient: { type: 'radial', colors: [{ r: 255, g: 255, b: 255 }, { r: 0, g: 0, b: 0 }] },
+      }), mockTheme);
+
+      expect(latex).toContain('\\pgfdeclareradialshading{slidebackgroundslide1}{\\pgfpoint{0bp}{0bp}}');
+      expect(latex).toContain('rgb(50.0bp)=(0.000,0.000,0.000)');
+      expect(latex).not.toContain('shading angle');
+    });
+
+    it('falls back to a solid color for single-color gradients', () => {
+      const latex = generator.generateSlide(createMockSlide({
+        type: 'gradient',
+        gradient: { type: 'linear', colors: [{ r: 1, g: 2, b: 3 }] },
+      }), mockTheme);
+
+      expect(latex).toContain('\\definecolor{slidebackground}{RGB}{1,2,3}');
+      expect(latex).not.toContain('shading');
+    });
+  });
+
+  describe('Images', () => {
+    const createImageSlide = (fit: 'cover' | 'contain' | 'fill') =>
+      createMockSlide({ type: 'image', image: { src: '/tmp/bg.png', fit } });
+
+    it('clips cover images to the page', () => {
+      const latex = generator.generateSlide(createImageSlide('cover'), mockTheme);
+
+      expect(latex).toContain('\\clip (0,0) rectangle (\\paperwidth,\\paperheight);');
+      expect(latex).toContain('\\adjustbox{width=\\paperwidth,min height=\\paperheight}{\\includegraphics{/tmp/bg.png}}');
+    });
+
+    it('keeps the aspect ratio for contain images', () => {
+      const latex = generator.generateSlide(createImageSlide('contain'), mockTheme);
+
+      expect(latex).toContain('\\includegraphics[width=\\paperwidth,height=\\paperheight,keepaspectratio]{/tmp/bg.png}');
+    });
+
+    it('stretches fill images to the page', () => {
+      const latex = generator.generateSlide(createImageSlide('fill'), mockTheme);
+
+      expect(latex).toContain('\\includegraphics[width=\\paperwidth,height=\\paperheight]{/tmp/bg.png}');
+    });
+  });
+
+  describe('Document integration', () => {
+    it('loads adjustbox for background images and produces valid LaTeX', () => {
+      const presentation: Presentation = {
+        id: 'presentation-1',
+        title: 'Backgrounds',
+        slides: [
+          createMockSlide({ type: 'image', image: { src: '/tmp/bg.png', fit: 'cover' } }),
+          { ...createMockSlide({ type: 'color', color: { r: 0, g: 0, b: 0 } }), id: 'slide-2' },
+        ],
+        theme: mockTheme,
+        metadata: createDefaultPresentationMetadata(),
+        settings: createDefaultPresentationSettings(),
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        version: '1.0.0',
+      };
+
+      const latex = generator.generateDocument(presentation);
+
+      expect(latex).toContain('\\usepackage{adjustbox}');
+      expect(latexOptimizer.validateSyntax(latex).isValid).toBe(true);
+    });
+  });
+});
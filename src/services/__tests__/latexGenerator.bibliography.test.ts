@@ -0,0 +1,101 @@
+import { LaTeXGenerator } from '../latexGenerator';
+import {
+  Presentation,
+  SlideElement,
+  Bibliography,
+  createDefaultTheme,
+  createDefaultSlideLayout,
+  createDefaultBackground,
+  createDefaultPresentationSettings,
+  createDefaultPresentationMetadata,
+} from '../../types/presentation';
+
+describe('LaTeXGenerator - Bibliography', () => {
+  let generator: LaTeXGenerator;
+
+  beforeEach(() => {
+    generator = new LaTeXGenerator();
+  });
+
+  const bibContent = '@article{smith2020,\n  author = {Smith, John},\n  title = {Examples},\n  year = 2020\n}';
+
+  const createTextElement = (content: string): SlideElement => ({
+    id: 'text-1',
+    type: 'text',
+    position: { x: 100, y: 60 },
+    size: { width: 300, height: 80 },
+    properties: {},
+    content,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  const createMockPresentation = (elements: SlideElement[], bibliography?: Bibliography): Presentation => ({
+    id: 'presentation-1',
+    title: 'Citations',
+    slides: [{
+      id: 'slide-1',
+      title: 'Slide',
+      elements,
+      connections: [],
+      layout: createDefaultSlideLayout(),
+      background: createDefaultBackground(),
+      notes: '',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }],
+    theme: createDefaultTheme(),
+    metadata: createDefaultPresentationMetadata(),
+    settings: { ...createDefaultPresentationSettings(), bibliography },
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    version: '1.0.0',
+  });
+
+  it('loads biblatex and embeds the attached .bib file', () => {
+    const latex = generator.generateDocument(createMockPresentation([], {
+      fileName: 'refs.bib',
+      content: bibContent,
+      style: 'authoryear',
+      backend: 'bibtex',
+    }));
+
+    expect(latex).toContain('\\usepackage[backend=bibtex,style=authoryear]{biblatex}');
+    expect(latex).toContain(`\\begin{filecontents*}[overwrite]{references.bib}\n${bibContent}\n\\end{filecontents*}`);
+    expect(latex).toContain('\\addbibresource{references.bib}');
+    expect(latex.indexOf('\\addbibresource')).toBeLessThan(latex.indexOf('\\begin{document}'));
+    expect(latex).not.toContain('\\printbibliography');
+  });
+
+  it('adds a references frame at the end when requested', () => {
+    const latex = generator.generateDocument(createMockPresentation([], {
+      fileName: 'refs.bib',
+      content: bibContent,
+      referencesFrame: true,
+      referencesTitle: 'Further Reading',
+    }));
+
+    expect(latex).toContain('\\usepackage[backend=biber,style=numeric]{biblatex}');
+    expect(latex).toContain('\\begin{frame}[allowframebreaks]{Further Reading}\n\\printbibliography[heading=none]\n\\end{frame}');
+    expect(latex.lastIndexOf('\\begin{frame}')).toBe(latex.indexOf('\\begin{frame}[allowframebreaks]'));
+    expect(latex.trim().endsWith('\\end{document}')).toBe(true);
+  });
+
+  it('keeps citations in text unescaped when a bibliography is attached', () => {
+    const element = createTextElement('Prior work 100% agrees \\parencite[p.~4]{smith2020}.');
+    const latex = generator.generateDocument(createMockPresentation([element], {
+      fileName: 'refs.bib',
+      content: bibContent,
+    }));
+
+    expect(latex).toContain('Prior work 100\\% agrees \\parencite[p.~4]{smith2020}.');
+  });
+
+  it('escapes citation commands when no bibliography is attached', () => {
+    const latex = generator.generateDocument(createMockPresentation([createTextElement('See \\cite{smith2020}')]));
+
+    expect(latex).not.toContain('biblatex');
+    expect(latex).not.toContain('\\cite{smith2020}');
+    expect(latex).toContain('\\textbackslash');
+  });
+});
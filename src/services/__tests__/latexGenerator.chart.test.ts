@@ -0,0 +1,221 @@
+import { LaTeXGenerator } from '../latexGenerator';
+import { latexOptimizer } from '../latexOptimizer';
+import {
+  Presentation,
+  SlideElement,
+  Theme,
+  ChartData,
+  createDefaultTheme,
+  createDefaultChartData,
+  createDefaultSlideLayout,
+  createDefaultBackground,
+  createDefaultPresentationSettings,
+  createDefaultPresentationMetadata,
+} from '../../types/presentation';
+
+describe('LaTeXGenerator - Chart Functionality', () => {
+  let generator: LaTeXGenerator;
+  let mockTheme: Theme;
+
+  beforeEach(() => {
+    generator = new LaTeXGenerator();
+    mockTheme = createDefaultTheme();
+  });
+
+  const createMockChartElement = (chartData?: ChartData): SlideElement => ({
+    id: 'chart-element',
+    type: 'chart',
+    position: { x: 100, y: 80 },
+    size: { width: 400, height: 240 },
+    properties: {
+      chartData,
+    },
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  describe('Axis charts', () => {
+    it('generates a pgfplots bar chart inside a textblock', () => {
+      const element = createMockChartElement({
+        ...createDefaultChartData('bar'),
+        labels: ['Q1', 'Q2', 'Q3'],
+        series: [{ name: 'Revenue', values: [3, 5, 2] }],
+      });
+
+      const latex = generator.generateElement(element, mockTheme);
+
+      expect(latex).toContain('% Chart Element');
+      expect(latex).toContain('\\begin{textblock*}');
+      expect(latex).toContain('\\begin{axis}[');
+      expect(latex).toContain('ybar');
+      expect(latex).toContain('xtick={0,1,2}');
+      expect(latex).toContain('xticklabels={{Q1},{Q2},{Q3}}');
+      expect(latex).toContain('\\addplot[draw=primary, fill=primary] coordinates {(0,3) (1,5) (2,2)};');
+      expect(latex).toContain('\\end{axis}');
+      expect(latex).toContain('\\end{textblock*}');
+      expect(latex).toContain('ymin=0');
+    });
+
+    it('plots negative bar values below the baseline', () => {
+      const element = createMockChartElement({
+        ...createDefaultChartData('bar'),
+        labels: ['Q1', 'Q2'],
+        series: [{ name: 'Profit', values: [4, -2] }],
+      });
+
+      const latex = generator.generateElement(element, mockTheme);
+
+      expect(latex).not.toContain('ymin=0');
+      expect(latex).toContain('coordinates {(0,4) (1,-2)};');
+    });
+
+    it('generates line charts with marks and one plot per series', () => {
+      const element = createMockChartElement({
+        ...createDefaultChartData('line'),
+        labels: ['a', 'b'],
+        series: [
+          { name: 'First', values: [1, 2] },
+          { name: 'Second', values: [3, 4] },
+        ],
+      });
+
+      const latex = generator.generateElement(element, mockTheme);
+
+      expect(latex).not.toContain('ybar');
+      expect(latex).toContain('\\addplot[color=primary, mark=*] coordinates {(0,1) (1,2)};');
+      expect(latex).toContain('\\addplot[color=accent, mark=*] coordinates {(0,3) (1,4)};');
+    });
+
+    it('plots scatter charts against explicit x values', () => {
+      const element = createMockChartElement({
+        ...createDefaultChartData('scatter'),
+        labels: [],
+        series: [{ name: 'Samples', values: [2, 4], xValues: [0.5, 1.5] }],
+      });
+
+      const latex = generator.generateElement(element, mockTheme);
+
+      expect(latex).toContain('only marks');
+      expect(latex).toContain('coordinates {(0.5,2) (1.5,4)}');
+      expect(latex).not.toContain('xticklabels');
+    });
+
+    it('emits titles, axis labels, legend entries and custom colors', () => {
+      const element = createMockChartElement({
+        ...createDefaultChartData('line'),
+        title: 'Growth & Loss',
+        xLabel: 'Year',
+        yLabel: 'Users',
+        showLegend: true,
+        series: [{ name: 'Users_total', values: [1, 2, 3], color: { r: 10, g: 20, b: 30 } }],
+      });
+
+      const latex = generator.generateElement(element, mockTheme);
+
+      expect(latex).toContain('title={Growth \\& Loss}');
+      expect(latex).toContain('xlabel={Year}');
+      expect(latex).toContain('ylabel={Users}');
+      expect(latex).toContain('color={rgb,255:red,10;green,20;blue,30}');
+      expect(latex).toContain('\\addlegendentry{Users\\_total}');
+    });
+
+    it('uses attached CSV data over inline series', () => {
+      const element = createMockChartElement({
+        ...createDefaultChartData('bar'),
+        csvData: 'Month,Visitors\nJan,100\nFeb,150\n',
+      });
+
+      const latex = generator.generateElement(element, mockTheme);
+
+      expect(latex).toContain('xticklabels={{Jan},{Feb}}');
+      expect(latex).toContain('coordinates {(0,100) (1,150)}');
+    });
+
+    it('handles missing chart data gracefully', () => {
+      const latex = generator.generateElement(createMockChartElement(undefined), mockTheme);
+
+      expect(latex).toContain('% Empty chart element');
+    });
+  });
+
+  describe('Pie charts', () => {
+    it('draws one TikZ slice per value with labels', () => {
+      const element = createMockChartElement({
+        ...createDefaultChartData('pie'),
+        labels: ['Yes', 'No'],
+        series: [{ name: 'Votes', values: [3, 1] }],
+      });
+
+      const latex = generator.generateElement(element, mockTheme);
+
+      expect(latex).not.toContain('\\begin{axis}');
+      expect(latex.match(/\\fill\[/g)).toHaveLength(2);
+      expect(latex).toContain('\\fill[primary, draw=white] (0,0) -- (90.00:');
+      expect(latex).toContain('arc (90.00:-180.00:');
+      expect(latex).toContain('arc (-180.00:-270.00:');
+      expect(latex).toContain('{Yes};');
+      expect(latex).toContain('{No};');
+    });
+
+    it('fills slices with their point colors and falls back to the theme colors', () => {
+      const element = createMockChartElement({
+        ...createDefaultChartData('pie'),
+        labels: ['Yes', 'No'],
+        series: [{ name: 'Votes', values: [3, 1], pointColors: [{ r: 10, g: 20, b: 30 }] }],
+      });
+
+      const latex = generator.generateElement(element, mockTheme);
+
+      expect(latex).toContain('\\fill[{rgb,255:red,10;green,20;blue,30}, draw=white] (0,0) -- (90.00:');
+      expect(latex).toContain('\\fill[accent, draw=white] (0,0) -- (-180.00:');
+    });
+  });
+
+  describe('Document integration', () => {
+    it('loads pgfplots and produces valid LaTeX', () => {
+      const presentation: Presentation = {
+        id: 'presentation-1',
+        title: 'Charts',
+        slides: [{
+          id: 'slide-1',
+          title: 'Results',
+          elements: [createMockChartElement(createDefaultChartData())],
+          connections: [],
+          layout: createDefaultSlideLayout(),
+          background: createDefaultBackground(),
+          notes: '',
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        }],
+        theme: mockTheme,
+        metadata: createDefaultPresentationMetadata(),
+        settings: createDefaultPresentationSettings(),
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        version: '1.0.0',
+      };
+
+      const latex = generator.generateDocument(presentation);
+
+      expect(latex).toContain('\\usepackage{pgfplots}');
+      expect(latex).toContain('\\pgfplotsset{compat=1.18}');
+      expect(latexOptimizer.validateSyntax(latex).isValid).toBe(true);
+    });
+
+    it('does not load pgfplots without charts', () => {
+      const presentation: Presentation = {
+        id: 'presentation-2',
+        title: 'No charts',
+        slides: [],
+        theme: mockTheme,
+        metadata: createDefaultPresentationMetadata(),
+        settings: createDefaultPresentationSettings(),
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        version: '1.0.0',
+      };
+
+      expect(generator.generateDocument(presentation)).not.toContain('pgfplots');
+    });
+  });
+});
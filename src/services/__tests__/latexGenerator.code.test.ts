@@ -0,0 +1,111 @@
+import { LaTeXGenerator } from '../latexGenerator';
+import {
+  Presentation,
+  SlideElement,
+  ElementProperties,
+  createDefaultTheme,
+  createDefaultSlideLayout,
+  createDefaultBackground,
+  createDefaultPresentationSettings,
+  createDefaultPresentationMetadata,
+} from '../../types/presentation';
+
+describe('LaTeXGenerator - Code Elements', () => {
+  let generator: LaTeXGenerator;
+
+  beforeEach(() => {
+    generator = new LaTeXGenerator();
+  });
+
+  const createCodeElement = (content: string, properties: ElementProperties = {}): SlideElement => ({
+    id: 'code-1',
+    type: 'code',
+    position: { x: 100, y: 60 },
+    size: { width: 400, height: 160 },
+    properties: { fontSize: 14, ...properties },
+    content,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  const createMockPresentation = (elements: SlideElement[]): Presentation => ({
+    id: 'presentation-1',
+    title: 'Code',
+    slides: [{
+      id: 'slide-1',
+      title: 'Slide',
+      elements,
+      connections: [],
+      layout: createDefaultSlideLayout(),
+      background: createDefaultBackground(),
+      notes: '',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }],
+    theme: createDefaultTheme(),
+    metadata: createDefaultPresentationMetadata(),
+    settings: createDefaultPresentationSettings(),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    version: '1.0.0',
+  });
+
+  it('generates a listing in a fragile frame', () => {
+    const latex = generator.generateDocument(createMockPresentation([
+      createCodeElement('def f(x):\n    return x % 2\n', { codeLanguage: 'python' }),
+    ]));
+
+    expect(latex).toContain('\\usepackage{listings}');
+    expect(latex).toContain('\\definecolor{codekeyword}{RGB}{0,0,204}');
+    expect(latex).toContain('\\begin{frame}[fragile]{Slide}');
+    expect(latex).toMatch(/\\lstset\{basicstyle=\\ttfamily\\color\{codeplain\}\\fontsize\{[\d.]+\}\{[\d.]+\}\\selectfont, language=Python\}/);
+    expect(latex).toContain('\\begin{lstlisting}[firstnumber=1]\ndef f(x):\n    return x % 2\n\\end{lstlisting}\n\\end{textblock*}');
+  });
+
+  it('leaves frames and the preamble alone without code elements', () => {
+    const latex = generator.generateDocument(createMockPresentation([]));
+
+    expect(latex).not.toContain('listings');
+    expect(latex).not.toContain('[fragile]');
+  });
+
+  it('splits highlighted lines into their own listings, continuing the numbering', () => {
+    const latex = generator.generateDocument(createMockPresentation([
+      createCodeElement('a\nb\nc\nd', { showLineNumbers: true, highlightedLines: [2, 3] }),
+    ]));
+
+    expect(latex).toContain('numbers=left');
+    expect(latex).toContain(
+      '\\begin{lstlisting}[firstnumber=1]\na\n\\end{lstlisting}\n' +
+      '\\begin{lstlisting}[firstnumber=2, backgroundcolor=\\color{codehighlight}]\nb\nc\n\\end{lstlisting}\n' +
+      '\\begin{lstlisting}[firstnumber=4]\nd\n\\end{lstlisting}\n'
+    );
+  });
+
+  it('defines languages listings does not ship with', () => {
+    const latex = generator.generateDocument(createMockPresentation([
+      createCodeElement('const x = 1;', { codeLanguage: 'typescript' }),
+      createCodeElement('print(1)', { codeLanguage: 'python' }),
+    ]));
+
+    expect(latex).toMatch(/\\lstdefinelanguage\{TypeScript\}\{morekeywords=\{[^}]*interface[^}]*\}, sensitive=true, morecomment=\[l\]\{\/\/\}/);
+    expect(latex).not.toContain('\\lstdefinelanguage{Python}');
+    expect(latex).toContain('language=TypeScript');
+  });
+
+  it('keeps blank and indented lines of the code when optimizing the document', () => {
+    const code = 'def f(x):\n    y = x\n\n\n    \n    return y';
+    const presentation = createMockPresentation([createCodeElement(code, { codeLanguage: 'python' })]);
+    const listing = `\\begin{lstlisting}[firstnumber=1]\n${code}\n\\end{lstlisting}\n`;
+
+    expect(generator.generateDocument(presentation, { optimizeCode: true })).toContain(listing);
+    expect(generator.generateDocumentWithSourceMap(presentation).latex).toContain(listing);
+  });
+
+  it('skips elements without code', () => {
+    const latex = generator.generateDocument(createMockPresentation([createCodeElement('\n  \n')]));
+
+    expect(latex).toContain('% Empty code element');
+    expect(latex).not.toContain('\\begin{lstlisting}');
+  });
+});
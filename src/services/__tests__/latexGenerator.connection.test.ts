@@ -0,0 +1,102 @@
+import { LaTeXGenerator } from '../latexGenerator';
+import { latexOptimizer } from '../latexOptimizer';
+import {
+  Slide,
+  SlideElement,
+  ShapeConnection,
+  ConnectionPoint,
+  createDefaultTheme,
+  createDefaultSlideLayout,
+  createDefaultBackground,
+} from '../../types/presentation';
+
+describe('LaTeXGenerator - Shape Connections', () => {
+  let generator: LaTeXGenerator;
+
+  beforeEach(() => {
+    generator = new LaTeXGenerator();
+  });
+
+  const boxPoints: ConnectionPoint[] = [
+    { id: 'top', x: 0.5, y: 0, type: 'bidirectional' },
+    { id: 'right', x: 1, y: 0.5, type: 'bidirectional' },
+    { id: 'bottom', x: 0.5, y: 1, type: 'bidirectional' },
+    { id: 'left', x: 0, y: 0.5, type: 'bidirectional' },
+  ];
+
+  // 200x100px boxes whose side anchors sit at y=191px (4.65cm on a 16:9 slide)
+  const createBox = (id: string, x: number): SlideElement => ({
+    id,
+    type: 'shape',
+    position: { x, y: 141 },
+    size: { width: 200, height: 100 },
+    properties: { shapeType: 'rectangle', connectionPoints: boxPoints },
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  const createSlide = (
+    style: ShapeConnection['style'],
+    fromPoint: string = 'right',
+    toPoint: string = 'left'
+  ): Slide => ({
+    id: 'slide-1',
+    title: 'Diagram',
+    elements: [createBox('a', 0), createBox('b', 600)],
+    connections: [{
+      id: 'connection-1',
+      fromElementId: 'a',
+      fromConnectionPointId: fromPoint,
+      toElementId: 'b',
+      toConnectionPointId: toPoint,
+      style,
+    }],
+    layout: createDefaultSlideLayout(),
+    background: createDefaultBackground(),
+    notes: '',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  it('anchors connections at their connection points in page coordinates', () => {
+    const latex = generator.generateSlide(createSlide({}), createDefaultTheme());
+
+    expect(latex).toContain('\\begin{tikzpicture}[remember picture,overlay,shift={(current page.north west)}]');
+    expect(latex).toContain('\\draw (4.025cm,-4.65cm) -- (11.675cm,-4.65cm);');
+    expect(latexOptimizer.validateSyntax(latex).isValid).toBe(true);
+  });
+
+  it('falls back to the element center for unknown connection points', () => {
+    const latex = generator.generateSlide(createSlide({}, 'missing', 'left'), createDefaultTheme());
+
+    expect(latex).toContain('\\draw (2.112cm,-4.65cm) -- (11.675cm,-4.65cm);');
+  });
+
+  it('routes orthogonal connections along the anchor sides', () => {
+    const sideToSide = generator.generateSlide(createSlide({ routing: 'orthogonal' }), createDefaultTheme());
+    const bottomToLeft = generator.generateSlide(createSlide({ routing: 'orthogonal' }, 'bottom', 'left'), createDefaultTheme());
+
+    expect(sideToSide).toContain('(4.025cm,-4.65cm) -- (7.85cm,-4.65cm) -- (7.85cm,-4.65cm) -- (11.675cm,-4.65cm)');
+    expect(bottomToLeft).toContain('(2.112cm,-5.605cm) |- (11.675cm,-4.65cm)');
+  });
+
+  it('bends curved connections out of and into their anchors', () => {
+    const latex = generator.generateSlide(createSlide({ routing: 'curved' }, 'top', 'top'), createDefaultTheme());
+
+    expect(latex).toContain('to[out=90,in=90]');
+  });
+
+  it('emits arrow heads at both ends', () => {
+    const latex = generator.generateSlide(createSlide({
+      arrowType: 'arrow',
+      startArrowType: 'diamond',
+      strokeColor: { r: 10, g: 20, b: 30 },
+      strokeWidth: 2,
+      strokeDashArray: [4, 2],
+    }), createDefaultTheme());
+    const startOnly = generator.generateSlide(createSlide({ startArrowType: 'circle', arrowType: 'none' }), createDefaultTheme());
+
+    expect(latex).toContain('\\draw[draw={rgb,255:red,10;green,20;blue,30},line width=2pt,dash pattern=on 4pt off 2pt,{Diamond}-{Stealth}]');
+    expect(startOnly).toContain('\\draw[{Circle}-]');
+  });
+});
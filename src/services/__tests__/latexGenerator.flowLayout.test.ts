@@ -0,0 +1,130 @@
+import { LaTeXGenerator } from '../latexGenerator';
+import {
+  Presentation,
+  Slide,
+  SlideElement,
+  ElementProperties,
+  createDefaultTheme,
+  createDefaultSlideLayout,
+  createDefaultBackground,
+  createDefaultPresentationSettings,
+  createDefaultPresentationMetadata,
+} from '../../types/presentation';
+import { createFlowRegions } from '../../utils/flowLayout';
+import { findSourceMapEntry } from '../../utils/latexSourceMap';
+
+describe('LaTeXGenerator - Flow Layout', () => {
+  let generator: LaTeXGenerator;
+
+  beforeEach(() => {
+    generator = new LaTeXGenerator();
+  });
+
+  const createElement = (
+    id: string,
+    type: SlideElement['type'],
+    position: { x: number; y: number },
+    content: string,
+    properties: ElementProperties = {}
+  ): SlideElement => ({
+    id,
+    type,
+    position,
+    size: { width: 300, height: 80 },
+    properties,
+    content,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  const createPresentation = (elements: SlideElement[], columns: boolean): Presentation => {
+    const settings = createDefaultPresentationSettings();
+    settings.slideSize = { ...settings.slideSize, aspectRatio: '16:9' };
+    const slide: Slide = {
+      id: 'slide-1',
+      title: 'Flow',
+      elements,
+      connections: [],
+      layout: { ...createDefaultSlideLayout(), mode: 'flow', regions: createFlowRegions(450, columns) },
+      background: createDefaultBackground(),
+      notes: '',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    return {
+      id: 'presentation-1',
+      title: 'Flow Layout',
+      slides: [slide],
+      theme: createDefaultTheme(),
+      metadata: createDefaultPresentationMetadata(),
+      settings,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      version: '1.0.0',
+    };
+  };
+
+  const getFrame = (latex: string): string =>
+    latex.slice(latex.lastIndexOf('\\begin{frame}'), latex.lastIndexOf('\\end{frame}'));
+
+  it('generates text as paragraphs in reading order without absolute positions', () => {
+    const latex = generator.generateDocument(createPresentation([
+      createElement('second', 'text', { x: 100, y: 250 }, 'Second paragraph'),
+      createElement('first', 'text', { x: 100, y: 100 }, 'First paragraph', { fontWeight: 'bold', textAlign: 'center' }),
+    ], false));
+    const frame = getFrame(latex);
+
+    expect(frame).not.toContain('textblock');
+    expect(frame).toContain('\\begin{center}\n{\\bfseries First paragraph\\par}\n\\end{center}');
+    expect(frame.indexOf('First paragraph')).toBeLessThan(frame.indexOf('Second paragraph'));
+    expect(frame).not.toContain('\\begin{columns}');
+  });
+
+  it('maps canvas font sizes to standard size commands', () => {
+    const frame = getFrame(generator.generateDocument(createPresentation([
+      createElement('heading', 'text', { x: 100, y: 80 }, 'Heading', { fontSize: 32 }),
+      createElement('body', 'text', { x: 100, y: 200 }, 'Body', { fontSize: 20 }),
+    ], false)));
+
+    expect(frame).toContain('{\\LARGE Heading\\par}');
+    expect(frame).toContain('Body\n');
+    expect(frame).not.toContain('\\fontsize');
+  });
+
+  it('generates column regions as Beamer columns', () => {
+    const frame = getFrame(generator.generateDocument(createPresentation([
+      createElement('right', 'text', { x: 450, y: 150 }, 'Right side'),
+      createElement('left', 'latex', { x: 50, y: 150 }, '\\begin{block}{Left}Block\\end{block}'),
+      createElement('title', 'text', { x: 50, y: 5 }, 'Subtitle'),
+    ], true)));
+
+    expect(frame).toContain('\\begin{columns}[T]');
+    expect(frame.match(/\\begin\{column\}\{0\.48\\textwidth\}/g)).toHaveLength(2);
+    expect(frame.indexOf('Subtitle')).toBeLessThan(frame.indexOf('\\begin{columns}'));
+    expect(frame.indexOf('\\begin{block}')).toBeLessThan(frame.indexOf('Right side'));
+    expect(frame).not.toContain('textblock');
+  });
+
+  it('sizes images relative to their region', () => {
+    const image = createElement('image', 'image', { x: 50, y: 150 }, 'figures/plot.png');
+    image.size = { width: 200, height: 150 };
+    const frame = getFrame(generator.generateDocument(createPresentation([image], true)));
+
+    expect(frame).toContain('\\includegraphics[width=0.5\\linewidth]{figures/plot.png}');
+  });
+
+  it('keeps overlays and the source map', () => {
+    const presentation = createPresentation([
+      createElement('first', 'text', { x: 100, y: 100 }, 'Always shown'),
+      createElement('second', 'text', { x: 100, y: 250 }, 'Shown later', { overlay: { appearOnStep: 2 } }),
+    ], false);
+    const { latex, sourceMap } = generator.generateDocumentWithSourceMap(presentation);
+
+    expect(latex).toContain('\\begin{onlyenv}<2->Shown later\n');
+    const line = latex.slice(0, latex.indexOf('Shown later')).split('\n').length;
+    expect(findSourceMapEntry(sourceMap, line)).toEqual(
+      expect.objectContaining({ slideId: 'slide-1', elementId: 'second' })
+    );
+  });
+});
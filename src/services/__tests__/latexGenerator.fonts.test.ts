@@ -0,0 +1,97 @@
+import { LaTeXGenerator } from '../latexGenerator';
+import {
+  Presentation,
+  PresentationSettings,
+  SlideElement,
+  createDefaultTheme,
+  createDefaultSlideLayout,
+  createDefaultBackground,
+  createDefaultPresentationSettings,
+  createDefaultPresentationMetadata,
+} from '../../types/presentation';
+
+describe('LaTeXGenerator - Engine-aware Fonts', () => {
+  let generator: LaTeXGenerator;
+
+  beforeEach(() => {
+    generator = new LaTeXGenerator();
+  });
+
+  const mathElement: SlideElement = {
+    id: 'math-1',
+    type: 'text',
+    position: { x: 100, y: 100 },
+    size: { width: 200, height: 50 },
+    properties: { hasMath: true },
+    content: '$x^2$',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  const createMockPresentation = (latexEngine: PresentationSettings['latexEngine']): Presentation => ({
+    id: 'presentation-1',
+    title: 'Fonts',
+    slides: [{
+      id: 'slide-1',
+      title: 'Slide',
+      elements: [mathElement],
+      connections: [],
+      layout: createDefaultSlideLayout(),
+      background: createDefaultBackground(),
+      notes: '',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }],
+    theme: {
+      ...createDefaultTheme(),
+      fonts: { heading: 'Fira Sans', body: 'Inter', monospace: 'JetBrains Mono' },
+    },
+    metadata: createDefaultPresentationMetadata(),
+    settings: { ...createDefaultPresentationSettings(), latexEngine },
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    version: '1.0.0',
+  });
+
+  it('keeps inputenc/fontenc and family switches for pdfLaTeX', () => {
+    const latex = generator.generateDocument(createMockPresentation('pdflatex'));
+
+    expect(latex).toContain('\\usepackage[utf8]{inputenc}');
+    expect(latex).toContain('\\usepackage[T1]{fontenc}');
+    expect(latex).not.toContain('fontspec');
+    expect(latex).not.toContain('unicode-math');
+    expect(latex).toContain('\\setbeamerfont{normal text}{family=\\sffamily}');
+  });
+
+  it.each(['xelatex', 'lualatex'] as const)('loads the theme fonts through fontspec for %s', (engine) => {
+    const latex = generator.generateDocument(createMockPresentation(engine));
+
+    expect(latex).toContain('\\usepackage{fontspec}');
+    expect(latex).not.toContain('inputenc');
+    expect(latex).not.toContain('fontenc}');
+    expect(latex).toContain('\\usepackage{unicode-math}');
+    expect(latex).toContain('\\setmainfont{Inter}');
+    expect(latex).toContain('\\setsansfont{Inter}');
+    expect(latex).toContain('\\setmonofont{JetBrains Mono}');
+    expect(latex).toContain('\\newfontfamily\\headingfont{Fira Sans}');
+    expect(latex).toContain('\\setbeamerfont{frametitle}{family=\\headingfont}');
+  });
+
+  it('falls back to the default font for fonts that are not installed', () => {
+    const latex = generator.generateDocument(createMockPresentation('xelatex'), {
+      unavailableFonts: ['Fira Sans'],
+    });
+
+    expect(latex).toContain('% Font "Fira Sans" is not installed; using the default font instead');
+    expect(latex).not.toContain('\\headingfont');
+    expect(latex).toContain('\\setmainfont{Inter}');
+  });
+
+  it('lists the fonts to check only for fontspec engines', () => {
+    const presentation = createMockPresentation('lualatex');
+    presentation.theme.fonts.heading = 'Inter';
+
+    expect(generator.getFontspecFonts(presentation)).toEqual(['Inter', 'JetBrains Mono']);
+    expect(generator.getFontspecFonts(createMockPresentation('pdflatex'))).toEqual([]);
+  });
+});
@@ -0,0 +1,81 @@
+import { LaTeXGenerator } from '../latexGenerator';
+import { SlideElement, ElementProperties, createDefaultTheme } from '../../types/presentation';
+
+describe('LaTeXGenerator - Image Elements', () => {
+  let generator: LaTeXGenerator;
+  const theme = createDefaultTheme();
+
+  beforeEach(() => {
+    generator = new LaTeXGenerator();
+  });
+
+  const createImageElement = (properties: ElementProperties = {}): SlideElement => ({
+    id: 'image-1',
+    type: 'image',
+    position: { x: 100, y: 100 },
+    size: { width: 200, height: 100 },
+    properties,
+    content: '/tmp/photo.png',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  it('only scales images without crop, flip or rotation', () => {
+    const latex = generator.generateElement(createImageElement(), theme);
+
+    expect(latex).toMatch(/\\begin\{textblock\*\}\{[\d.]+cm\}\([\d.]+cm,[\d.]+cm\)\n\\includegraphics\[(?:width|height)=[\d.]+cm,keepaspectratio\]\{\/tmp\/photo\.png\}\n\\end\{textblock\*\}/);
+    expect(latex).not.toContain('trim=');
+    expect(latex).not.toContain('angle=');
+  });
+
+  it('trims crops relative to the natural image size and clips', () => {
+    const latex = generator.generateElement(
+      createImageElement({ crop: { x: 10, y: 20, width: 50, height: 60 } }),
+      theme
+    );
+
+    expect(latex).toContain('\\sbox0{\\includegraphics{/tmp/photo.png}}%\n');
+    expect(latex).toContain('trim={0.100\\wd0} {0.200\\ht0} {0.400\\wd0} {0.200\\ht0},clip]{/tmp/photo.png}');
+    expect(latex.indexOf('\\sbox0')).toBeLessThan(latex.indexOf('clip]'));
+  });
+
+  it('ignores crops that keep the whole image', () => {
+    const latex = generator.generateElement(
+      createImageElement({ crop: { x: 0, y: 0, width: 100, height: 100 } }),
+      theme
+    );
+
+    expect(latex).not.toContain('trim=');
+    expect(latex).not.toContain('\\sbox0');
+  });
+
+  it('mirrors flipped images', () => {
+    expect(generator.generateElement(createImageElement({ flipX: true }), theme))
+      .toMatch(/\\reflectbox\{\\includegraphics\[[^\]]+\]\{\/tmp\/photo\.png\}\}/);
+    expect(generator.generateElement(createImageElement({ flipY: true }), theme))
+      .toMatch(/\\scalebox\{1\}\[-1\]\{\\includegraphics\[[^\]]+\]\{\/tmp\/photo\.png\}\}/);
+    expect(generator.generateElement(createImageElement({ flipX: true, flipY: true }), theme))
+      .toMatch(/\\scalebox\{-1\}\[-1\]\{\\includegraphics\[[^\]]+\]\{\/tmp\/photo\.png\}\}/);
+  });
+
+  it('rotates counter-clockwise about the element center', () => {
+    const plain = generator.generateElement(createImageElement(), theme);
+    const rotated = generator.generateElement(createImageElement({ rotation: 90 }), theme);
+
+    const [, width, x, y] = plain.match(/\\begin\{textblock\*\}\{([\d.]+)cm\}\(([\d.]+)cm,([\d.]+)cm\)/) || [];
+    const [, boundsWidth, centerX, centerY] = rotated.match(/\\begin\{textblock\*\}\{([\d.]+)cm\}\[0\.5,0\.5\]\(([\d.]+)cm,([\d.]+)cm\)/) || [];
+
+    expect(rotated).toContain('keepaspectratio,angle=-90]');
+    expect(rotated).toContain('\\centering\n');
+    // A quarter turn swaps the bounds, so the block is as wide as the image is tall
+    expect(parseFloat(boundsWidth)).toBeCloseTo(parseFloat(width) / 2, 2);
+    expect(parseFloat(centerX)).toBeCloseTo(parseFloat(x) + parseFloat(width) / 2, 2);
+    expect(parseFloat(centerY)).toBeGreaterThan(parseFloat(y));
+  });
+
+  it('turns the other way inside a single flip so the result matches the canvas', () => {
+    const latex = generator.generateElement(createImageElement({ rotation: 30, flipX: true }), theme);
+
+    expect(latex).toMatch(/\\reflectbox\{\\includegraphics\[[^\]]*angle=30\]\{\/tmp\/photo\.png\}\}/);
+  });
+});
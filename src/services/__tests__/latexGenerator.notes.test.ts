@@ -0,0 +1,91 @@
+import { LaTeXGenerator } from '../latexGenerator';
+import { latexOptimizer } from '../latexOptimizer';
+import {
+  Presentation,
+  Slide,
+  createDefaultTheme,
+  createDefaultSlideLayout,
+  createDefaultBackground,
+  createDefaultPresentationSettings,
+  createDefaultPresentationMetadata,
+} from '../../types/presentation';
+
+describe('LaTeXGenerator - Speaker Notes', () => {
+  let generator: LaTeXGenerator;
+
+  beforeEach(() => {
+    generator = new LaTeXGenerator();
+  });
+
+  const createMockSlide = (notes: string): Slide => ({
+    id: 'slide-1',
+    title: 'Notes',
+    elements: [],
+    connections: [],
+    layout: createDefaultSlideLayout(),
+    background: createDefaultBackground(),
+    notes,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  const createMockPresentation = (notes: string): Presentation => ({
+    id: 'presentation-1',
+    title: 'Speaker Notes',
+    slides: [createMockSlide(notes)],
+    theme: createDefaultTheme(),
+    metadata: createDefaultPresentationMetadata(),
+    settings: createDefaultPresentationSettings(),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    version: '1.0.0',
+  });
+
+  describe('Frames', () => {
+    it('adds an escaped note inside the frame', () => {
+      const latex = generator.generateSlide(createMockSlide('Mention the 50% growth\n\nThen take questions'), createDefaultTheme());
+
+      expect(latex).toContain('\\note{Mention the 50\\% growth\n\nThen take questions}');
+      expect(latex.indexOf('\\note{')).toBeLessThan(latex.indexOf('\\end{frame}'));
+    });
+
+    it('omits empty notes', () => {
+      const latex = generator.generateSlide(createMockSlide('  \n '), createDefaultTheme());
+
+      expect(latex).not.toContain('\\note');
+    });
+  });
+
+  describe('Notes modes', () => {
+    it('keeps notes hidden by default', () => {
+      const latex = generator.generateDocument(createMockPresentation('Hello'));
+
+      expect(latex).toContain('\\note{Hello}');
+      expect(latex).not.toContain('\\setbeameroption');
+      expect(latex).not.toContain('pgfpages');
+    });
+
+    it('shows only notes', () => {
+      const latex = generator.generateDocument(createMockPresentation('Hello'), { notesMode: 'notes-only' });
+
+      expect(latex).toContain('\\setbeameroption{show only notes}');
+    });
+
+    it('puts notes on a second screen with pgfpages', () => {
+      const latex = generator.generateDocument(createMockPresentation('Hello'), { notesMode: 'second-screen' });
+
+      expect(latex).toContain('\\usepackage{pgfpages}');
+      expect(latex).toContain('\\setbeameroption{show notes on second screen=right}');
+      expect(latex.indexOf('\\setbeameroption')).toBeLessThan(latex.indexOf('\\begin{document}'));
+    });
+
+    it('lays out handouts with notes under each slide', () => {
+      const latex = generator.generateDocument(createMockPresentation('Hello'), { notesMode: 'notes-under-slide' });
+
+      expect(latex).toMatch(/\\documentclass\[[^\]]*handout/);
+      expect(latex).toContain('\\setbeameroption{show notes}');
+      expect(latex).toContain('\\pgfpagesuselayout{2 on 1}[a4paper,border shrink=5mm]');
+      expect(latexOptimizer.validateSyntax(latex).isValid).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import { LaTeXGenerator } from '../latexGenerator';
+import { latexOptimizer } from '../latexOptimizer';
+import {
+  Slide,
+  SlideElement,
+  Theme,
+  ElementProperties,
+  createDefaultTheme,
+  createDefaultSlideLayout,
+  createDefaultBackground,
+} from '../../types/presentation';
+
+describe('LaTeXGenerator - Overlay Functionality', () => {
+  let generator: LaTeXGenerator;
+  let mockTheme: Theme;
+
+  beforeEach(() => {
+    generator = new LaTeXGenerator();
+    mockTheme = createDefaultTheme();
+  });
+
+  const createMockTextElement = (
+    id: string,
+    properties: Partial<ElementProperties>,
+    content: string = 'Item 1\nItem 2\nItem 3'
+  ): SlideElement => ({
+    id,
+    type: 'text',
+    position: { x: 100, y: 100 },
+    size: { width: 300, height: 200 },
+    properties: {
+      fontSize: 16,
+      ...properties,
+    },
+    content,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  const createMockSlide = (elements: SlideElement[]): Slide => ({
+    id: 'slide-1',
+    title: 'Builds',
+    elements,
+    connections: [],
+    layout: createDefaultSlideLayout(),
+    background: createDefaultBackground(),
+    notes: '',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  describe('Overlay specifications', () => {
+    it('returns no specification for elements shown on every step', () => {
+      expect(generator.getOverlaySpecification(undefined)).toBe('');
+      expect(generator.getOverlaySpecification({})).toBe('');
+      expect(generator.getOverlaySpecification({ appearOnStep: 1 })).toBe('');
+    });
+
+    it('builds open and closed step ranges', () => {
+      expect(generator.getOverlaySpecification({ appearOnStep: 2 })).toBe('<2->');
+      expect(generator.getOverlaySpecification({ appearOnStep: 2, disappearAfterStep: 4 })).toBe('<2-4>');
+      expect(generator.getOverlaySpecification({ disappearAfterStep: 3 })).toBe('<1-3>');
+    });
+
+    it('never ends a range before it starts', () => {
+      expect(generator.getOverlaySpecification({ appearOnStep: 3, disappearAfterStep: 1 })).toBe('<3-3>');
+    });
+  });
+
+  describe('Slide generation', () => {
+    it('wraps elements in onlyenv with their overlay specification', () => {
+      const slide = createMockSlide([
+        createMockTextElement('always', {}, 'Always visible'),
+        createMockTextElement('later', { overlay: { appearOnStep: 2, disappearAfterStep: 3 } }, 'Later'),
+      ]);
+
+      const latex = generator.generateSlide(slide, mockTheme);
+
+      expect(latex.match(/\\begin\{onlyenv\}/g)).toHaveLength(1);
+      expect(latex.indexOf('\\begin{onlyenv}<2-3>')).toBeLessThan(latex.indexOf('Later'));
+      expect(latex.indexOf('\\end{onlyenv}')).toBeGreaterThan(latex.indexOf('\\end{textblock*}', latex.indexOf('Later')));
+      expect(latexOptimizer.validateSyntax(latex).isValid).toBe(true);
+    });
+
+    it('leaves slides without overlays unchanged', () => {
+      const slide = createMockSlide([createMockTextElement('plain', {}, 'Plain')]);
+
+      expect(generator.generateSlide(slide, mockTheme)).not.toContain('onlyenv');
+    });
+  });
+
+  describe('Incremental lists', () => {
+    it('reveals one bullet per step starting at the appear step', () => {
+      const element = createMockTextElement('list', {
+        listType: 'bullet',
+        listStyle: 'disc',
+        overlay: { appearOnStep: 2, revealListItems: true },
+      });
+
+      const latex = generator.generateElement(element, mockTheme);
+
+      expect(latex).toContain('\\item<2-> Item 1');
+      expect(latex).toContain('\\item<3-> Item 2');
+      expect(latex).toContain('\\item<4-> Item 3');
+    });
+
+    it('reveals numbered items from the first step by default', () => {
+      const element = createMockTextElement('list', {
+        listType: 'numbered',
+        listStyle: 'decimal',
+        overlay: { revealListItems: true },
+      });
+
+      const latex = generator.generateElement(element, mockTheme);
+
+      expect(latex).toContain('\\item<1-> Item 1');
+      expect(latex).toContain('\\item<3-> Item 3');
+    });
+
+    it('reveals items only until the list disappears', () => {
+      const element = createMockTextElement('list', {
+        listType: 'bullet',
+        listStyle: 'disc',
+        overlay: { appearOnStep: 2, disappearAfterStep: 3, revealListItems: true },
+      }, 'Item 1\nItem 2\nItem 3\nItem 4');
+
+      const latex = generator.generateElement(element, mockTheme);
+
+      expect(latex).toContain('\\item<2-3> Item 1');
+      expect(latex).toContain('\\item<3-3> Item 2');
+      expect(latex).toContain('\\item<3-3> Item 4');
+      expect(latex).not.toMatch(/\\item<[4-9]/);
+    });
+
+    it('keeps plain items when incremental reveal is off', () => {
+      const element = createMockTextElement('list', {
+        listType: 'bullet',
+        listStyle: 'disc',
+        overlay: { appearOnStep: 2 },
+      });
+
+      const latex = generator.generateElement(element, mockTheme);
+
+      expect(latex).toContain('\\item Item 1');
+      expect(latex).not.toContain('\\item<');
+    });
+  });
+});
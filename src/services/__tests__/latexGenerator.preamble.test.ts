@@ -0,0 +1,63 @@
+import { LaTeXGenerator } from '../latexGenerator';
+import { latexOptimizer } from '../latexOptimizer';
+import {
+  Presentation,
+  CustomPreamble,
+  createDefaultTheme,
+  createDefaultSlideLayout,
+  createDefaultBackground,
+  createDefaultPresentationSettings,
+  createDefaultPresentationMetadata,
+} from '../../types/presentation';
+
+describe('LaTeXGenerator - Custom Preamble', () => {
+  let generator: LaTeXGenerator;
+
+  beforeEach(() => {
+    generator = new LaTeXGenerator();
+  });
+
+  const createMockPresentation = (customPreamble?: CustomPreamble): Presentation => ({
+    id: 'presentation-1',
+    title: 'Preamble',
+    slides: [{
+      id: 'slide-1',
+      title: 'Slide',
+      elements: [],
+      connections: [],
+      layout: createDefaultSlideLayout(),
+      background: createDefaultBackground(),
+      notes: '',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }],
+    theme: createDefaultTheme(),
+    metadata: createDefaultPresentationMetadata(),
+    settings: { ...createDefaultPresentationSettings(), customPreamble },
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    version: '1.0.0',
+  });
+
+  it('injects packages, TikZ libraries and macros before the document', () => {
+    const latex = generator.generateDocument(createMockPresentation({
+      macros: [{ name: 'vect', argumentCount: 1, definition: '\\mathbf{#1}' }],
+      packages: ['\\usepackage{siunitx}'],
+      tikzLibraries: ['patterns'],
+    }));
+
+    const preambleStart = latex.indexOf('% Custom preamble');
+    expect(preambleStart).toBeGreaterThan(latex.indexOf('\\usetikzlibrary{shapes.geometric'));
+    expect(preambleStart).toBeLessThan(latex.indexOf('\\begin{document}'));
+    expect(latex).toContain('% Custom preamble\n\\usepackage{siunitx}\n\\usetikzlibrary{patterns}\n\\newcommand{\\vect}[1]{\\mathbf{#1}}\n');
+    expect(latexOptimizer.validateSyntax(latex).isValid).toBe(true);
+  });
+
+  it('omits the block when the preamble is empty', () => {
+    const empty = generator.generateDocument(createMockPresentation({ macros: [], packages: [], tikzLibraries: [] }));
+    const missing = generator.generateDocument(createMockPresentation());
+
+    expect(empty).not.toContain('% Custom preamble');
+    expect(missing).not.toContain('% Custom preamble');
+  });
+});
@@ -0,0 +1,92 @@
+import { LaTeXGenerator } from '../latexGenerator';
+import {
+  Presentation,
+  SlideElement,
+  CustomPreamble,
+  createDefaultTheme,
+  createDefaultSlideLayout,
+  createDefaultBackground,
+  createDefaultPresentationSettings,
+  createDefaultPresentationMetadata,
+} from '../../types/presentation';
+
+describe('LaTeXGenerator - Raw LaTeX Elements', () => {
+  let generator: LaTeXGenerator;
+
+  beforeEach(() => {
+    generator = new LaTeXGenerator();
+  });
+
+  const createRawLatexElement = (content: string): SlideElement => ({
+    id: 'raw-1',
+    type: 'latex',
+    position: { x: 100, y: 60 },
+    size: { width: 300, height: 150 },
+    properties: {},
+    content,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  const createMockPresentation = (elements: SlideElement[], customPreamble?: CustomPreamble): Presentation => ({
+    id: 'presentation-1',
+    title: 'Raw LaTeX',
+    slides: [{
+      id: 'slide-1',
+      title: 'Slide',
+      elements,
+      connections: [],
+      layout: createDefaultSlideLayout(),
+      background: createDefaultBackground(),
+      notes: '',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }],
+    theme: createDefaultTheme(),
+    metadata: createDefaultPresentationMetadata(),
+    settings: { ...createDefaultPresentationSettings(), customPreamble },
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    version: '1.0.0',
+  });
+
+  it('emits the content verbatim inside a positioned textblock', () => {
+    const content = '\\begin{tabular}{c|c}\n  a & b \\\\ % 50% done\n\\end{tabular}';
+    const latex = generator.generateDocument(createMockPresentation([createRawLatexElement(`${content}\n\n`)]));
+
+    expect(latex).toMatch(/% Raw LaTeX Element\n\\begin\{textblock\*\}\{[\d.]+cm\}\([\d.]+cm,[\d.]+cm\)\n/);
+    expect(latex).toContain(`${content}\n\\end{textblock*}`);
+  });
+
+  it('skips elements without content', () => {
+    const latex = generator.generateDocument(createMockPresentation([createRawLatexElement('  \n')]));
+
+    expect(latex).toContain('% Empty raw LaTeX element');
+    expect(latex).not.toContain('% Raw LaTeX Element');
+  });
+
+  it('builds a standalone Beamer document with the deck theme for the snippet alone', () => {
+    const element = createRawLatexElement('\\tikz \\draw (0,0) -- (1,1);');
+    const presentation = createMockPresentation([element], {
+      macros: [{ name: 'R', definition: '\\mathbb{R}' }],
+      packages: [],
+      tikzLibraries: [],
+    });
+
+    const { source, snippetStartLine } = generator.generateSnippetDocument(element, presentation);
+    const lines = source.split('\n');
+
+    expect(lines[0]).toBe('\\documentclass[beamer,border=2pt,xcolor=dvipsnames]{standalone}');
+    expect(source).not.toContain('textpos');
+    expect(source).toContain('\\usetheme{');
+    expect(source).toContain('\\definecolor{primary}');
+    expect(source).toContain('\\usepackage{tikz}');
+    expect(source).toContain('\\newcommand{\\R}{\\mathbb{R}}');
+    expect(lines[snippetStartLine - 4]).toBe('\\begin{document}');
+    expect(lines[snippetStartLine - 3]).toBe('\\begin{standaloneframe}');
+    expect(lines[snippetStartLine - 2]).toMatch(/^\\begin\{minipage\}\{[\d.]+cm\}$/);
+    expect(lines[snippetStartLine - 1]).toBe('\\tikz \\draw (0,0) -- (1,1);');
+    expect(lines[snippetStartLine]).toBe('\\end{minipage}');
+    expect(lines.slice(snippetStartLine + 1)).toEqual(['\\end{standaloneframe}', '\\end{document}', '']);
+  });
+});
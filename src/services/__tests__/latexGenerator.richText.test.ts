@@ -0,0 +1,96 @@
+import { LaTeXGenerator } from '../latexGenerator';
+import { latexOptimizer } from '../latexOptimizer';
+import {
+  SlideElement,
+  Theme,
+  ElementProperties,
+  TextRun,
+  createDefaultTheme,
+} from '../../types/presentation';
+
+describe('LaTeXGenerator - Rich Text Functionality', () => {
+  let generator: LaTeXGenerator;
+  let mockTheme: Theme;
+
+  beforeEach(() => {
+    generator = new LaTeXGenerator();
+    mockTheme = createDefaultTheme();
+  });
+
+  const createMockTextElement = (richText: TextRun[], properties: Partial<ElementProperties> = {}): SlideElement => ({
+    id: 'text-1',
+    type: 'text',
+    position: { x: 100, y: 100 },
+    size: { width: 300, height: 100 },
+    properties: {
+      fontSize: 16,
+      richText,
+      ...properties,
+    },
+    content: richText.map(run => run.text).join(''),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  it('wraps each run in its inline formatting commands', () => {
+    const latex = generator.generateElement(createMockTextElement([
+      { text: 'Plain ' },
+      { text: 'bold', bold: true },
+      { text: ' and ' },
+      { text: 'italic', italic: true, underline: true },
+      { text: ' ' },
+      { text: 'code_1', code: true },
+    ]), mockTheme);
+
+    expect(latex).toContain('Plain \\textbf{bold} and \\underline{\\textit{italic}} \\texttt{code\\_1}');
+    expect(latexOptimizer.validateSyntax(latex).isValid).toBe(true);
+  });
+
+  it('emits colors, links and scripts', () => {
+    const latex = generator.generateElement(createMockTextElement([
+      { text: 'H' },
+      { text: '2', script: 'subscript' },
+      { text: 'O x' },
+      { text: 'n', script: 'superscript' },
+      { text: ' ' },
+      { text: 'red', color: { r: 200, g: 10, b: 20 } },
+      { text: ' ' },
+      { text: 'docs', link: 'https://example.com/a#b' },
+    ]), mockTheme);
+
+    expect(latex).toContain('H\\textsubscript{2}O x\\textsuperscript{n}');
+    expect(latex).toContain('\\textcolor[RGB]{200,10,20}{red}');
+    expect(latex).toContain('\\href{https://example.com/a\\#b}{docs}');
+  });
+
+  it('breaks lines between runs', () => {
+    const latex = generator.generateElement(createMockTextElement([
+      { text: 'First ', bold: true },
+      { text: 'line\nSecond line' },
+    ]), mockTheme);
+
+    expect(latex).toContain('\\textbf{First }line\\\\Second line');
+    expect(latex).toContain('\\begin{minipage}');
+  });
+
+  it('keeps formatting inside list items', () => {
+    const latex = generator.generateElement(createMockTextElement([
+      { text: 'Item ' },
+      { text: 'one', bold: true },
+      { text: '\n  Item two  ' },
+    ], { listType: 'bullet', listStyle: 'disc' }), mockTheme);
+
+    expect(latex).toContain('\\item Item \\textbf{one}');
+    expect(latex).toContain('\\item Item two\n');
+  });
+
+  it('ignores runs that no longer match the content', () => {
+    const element = createMockTextElement([{ text: 'Old', bold: true }]);
+    element.content = 'New text';
+
+    const latex = generator.generateElement(element, mockTheme);
+
+    expect(latex).toContain('New text');
+    expect(latex).not.toContain('\\textbf');
+  });
+});
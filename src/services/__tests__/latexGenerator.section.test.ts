@@ -0,0 +1,86 @@
+import { LaTeXGenerator } from '../latexGenerator';
+import { latexOptimizer } from '../latexOptimizer';
+import {
+  Presentation,
+  Slide,
+  createDefaultTheme,
+  createDefaultSlideLayout,
+  createDefaultBackground,
+  createDefaultPresentationSettings,
+  createDefaultPresentationMetadata,
+} from '../../types/presentation';
+
+describe('LaTeXGenerator - Section Functionality', () => {
+  let generator: LaTeXGenerator;
+
+  beforeEach(() => {
+    generator = new LaTeXGenerator();
+  });
+
+  const createMockSlide = (id: string, markers: Partial<Slide> = {}): Slide => ({
+    id,
+    title: `Slide ${id}`,
+    elements: [],
+    connections: [],
+    layout: createDefaultSlideLayout(),
+    background: createDefaultBackground(),
+    notes: '',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...markers,
+  });
+
+  const createMockPresentation = (slides: Slide[], sectionAgenda?: boolean): Presentation => ({
+    id: 'presentation-1',
+    title: 'Sections',
+    slides,
+    theme: createDefaultTheme(),
+    metadata: createDefaultPresentationMetadata(),
+    settings: { ...createDefaultPresentationSettings(), sectionAgenda },
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    version: '1.0.0',
+  });
+
+  it('emits sections and subsections before the slides that start them', () => {
+    const latex = generator.generateDocument(createMockPresentation([
+      createMockSlide('1', { section: 'Introduction' }),
+      createMockSlide('2', { subsection: 'Motivation' }),
+      createMockSlide('3', { section: 'Results', subsection: 'Data' }),
+    ]));
+
+    const introduction = latex.indexOf('\\section{Introduction}');
+    const motivation = latex.indexOf('\\subsection{Motivation}');
+    const results = latex.indexOf('\\section{Results}');
+
+    expect(introduction).toBeGreaterThan(-1);
+    expect(introduction).toBeLessThan(latex.indexOf('% Slide: Slide 1'));
+    expect(motivation).toBeLessThan(latex.indexOf('% Slide: Slide 2'));
+    expect(results).toBeLessThan(latex.indexOf('\\subsection{Data}'));
+    expect(latex.match(/\\section\{/g)).toHaveLength(2);
+    expect(latex).not.toContain('\\tableofcontents');
+  });
+
+  it('escapes section titles and ignores blank ones', () => {
+    const latex = generator.generateDocument(createMockPresentation([
+      createMockSlide('1', { section: 'Costs & Benefits' }),
+      createMockSlide('2', { section: '   ' }),
+    ]));
+
+    expect(latex).toContain('\\section{Costs \\& Benefits}');
+    expect(latex.match(/\\section\{/g)).toHaveLength(1);
+  });
+
+  it('adds an agenda frame at each section start when enabled', () => {
+    const latex = generator.generateDocument(createMockPresentation([
+      createMockSlide('1', { section: 'Introduction' }),
+      createMockSlide('2', { subsection: 'Details' }),
+      createMockSlide('3', { section: 'Conclusion' }),
+    ], true));
+
+    expect(latex.match(/\\tableofcontents\[currentsection\]/g)).toHaveLength(2);
+    expect(latex.indexOf('\\tableofcontents[currentsection]'))
+      .toBeGreaterThan(latex.indexOf('\\section{Introduction}'));
+    expect(latexOptimizer.validateSyntax(latex).isValid).toBe(true);
+  });
+});
@@ -0,0 +1,101 @@
+import { LaTeXGenerator } from '../latexGenerator';
+import { latexOptimizer } from '../latexOptimizer';
+import {
+  SlideElement,
+  Theme,
+  ElementProperties,
+  createDefaultTheme,
+} from '../../types/presentation';
+
+describe('LaTeXGenerator - Shape Functionality', () => {
+  let generator: LaTeXGenerator;
+  let mockTheme: Theme;
+
+  beforeEach(() => {
+    generator = new LaTeXGenerator();
+    mockTheme = createDefaultTheme();
+  });
+
+  // 200x100px at the canvas origin is 3.825cm x 1.911cm on a 16:9 slide
+  const createMockShape = (properties: Partial<ElementProperties>): SlideElement => ({
+    id: 'shape-1',
+    type: 'shape',
+    position: { x: 0, y: 0 },
+    size: { width: 200, height: 100 },
+    properties,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  it('positions shapes with textpos and draws in local coordinates', () => {
+    const latex = generator.generateElement(createMockShape({ shapeType: 'rectangle' }), mockTheme);
+
+    expect(latex).toContain('\\begin{textblock*}{3.825cm}(0.200cm,1.000cm)');
+    expect(latex).toContain('\\useasboundingbox (0,0) rectangle (3.825cm,1.911cm);');
+    expect(latex).toContain('\\draw (0,0) rectangle (3.825cm,1.911cm);');
+    expect(latexOptimizer.validateSyntax(latex).isValid).toBe(true);
+  });
+
+  it('draws triangles and diamonds as closed paths', () => {
+    const triangle = generator.generateElement(createMockShape({ shapeType: 'triangle' }), mockTheme);
+    const diamond = generator.generateElement(createMockShape({ shapeType: 'diamond' }), mockTheme);
+
+    expect(triangle).toContain('\\draw (1.912cm,1.911cm) -- (0,0) -- (3.825cm,0) -- cycle;');
+    expect(diamond).toContain('\\draw (1.912cm,1.911cm) -- (3.825cm,0.955cm) -- (1.912cm,0) -- (0,0.955cm) -- cycle;');
+  });
+
+  it('draws circles and ellipses around the box center', () => {
+    const circle = generator.generateElement(createMockShape({ shapeType: 'circle' }), mockTheme);
+    const ellipse = generator.generateElement(createMockShape({ shapeType: 'ellipse' }), mockTheme);
+
+    expect(circle).toContain('(1.912cm,0.955cm) circle (0.955cm)');
+    expect(ellipse).toContain('(1.912cm,0.955cm) ellipse (1.912cm and 0.955cm)');
+  });
+
+  it('rotates about the center, clockwise like the canvas', () => {
+    const latex = generator.generateElement(createMockShape({ shapeType: 'diamond', rotation: 45 }), mockTheme);
+
+    expect(latex).toContain('rotate around={-45:(1.912cm,0.955cm)}');
+  });
+
+  it('applies fill and stroke colors with their opacity', () => {
+    const latex = generator.generateElement(createMockShape({
+      shapeType: 'triangle',
+      fillColor: { r: 10, g: 20, b: 30, a: 0.5 },
+      strokeColor: { r: 0, g: 0, b: 255 },
+      opacity: 0.8,
+    }), mockTheme);
+
+    expect(latex).toContain('fill={rgb,255:red,10;green,20;blue,30}');
+    expect(latex).toContain('fill opacity=0.5');
+    expect(latex).toContain('draw=blue');
+    expect(latex).not.toContain('draw opacity');
+    expect(latex).toContain('opacity=0.8');
+  });
+
+  it('converts dash arrays to dash patterns', () => {
+    const dashed = generator.generateElement(createMockShape({ shapeType: 'rectangle', strokeDashArray: [8, 4] }), mockTheme);
+    const dotted = generator.generateElement(createMockShape({ shapeType: 'line', strokeDashArray: [2] }), mockTheme);
+
+    expect(dashed).toContain('dash pattern=on 8pt off 4pt');
+    expect(dotted).toContain('dash pattern=on 2pt off 2pt');
+  });
+
+  it('rounds only rectangle corners', () => {
+    const rectangle = generator.generateElement(createMockShape({ shapeType: 'rectangle', cornerRadius: 6 }), mockTheme);
+    const diamond = generator.generateElement(createMockShape({ shapeType: 'diamond', cornerRadius: 6 }), mockTheme);
+
+    expect(rectangle).toContain('rounded corners=6pt');
+    expect(diamond).not.toContain('rounded corners');
+  });
+
+  it('draws lines and arrows from the top left without fills', () => {
+    const line = generator.generateElement(createMockShape({ shapeType: 'line', fillColor: { r: 255, g: 0, b: 0 } }), mockTheme);
+    const arrow = generator.generateElement(createMockShape({ shapeType: 'arrow' }), mockTheme);
+    const doubleArrow = generator.generateElement(createMockShape({ shapeType: 'arrow', arrowStart: true }), mockTheme);
+
+    expect(line).toContain('\\draw (0,1.911cm) -- (3.825cm,0);');
+    expect(arrow).toContain('\\draw[-{Stealth}] (0,1.911cm) -- (3.825cm,0);');
+    expect(doubleArrow).toContain('\\draw[{Stealth}-{Stealth}]');
+  });
+});
@@ -0,0 +1,115 @@
+import { LaTeXGenerator } from '../latexGenerator';
+import {
+  Presentation,
+  Slide,
+  createDefaultTheme,
+  createDefaultSlideLayout,
+  createDefaultBackground,
+  createDefaultPresentationSettings,
+  createDefaultPresentationMetadata,
+} from '../../types/presentation';
+import { findSourceMapEntry } from '../../utils/latexSourceMap';
+
+describe('LaTeXGenerator - Slide Documents', () => {
+  let generator: LaTeXGenerator;
+
+  beforeEach(() => {
+    generator = new LaTeXGenerator();
+  });
+
+  const createMockSlide = (id: string, markers: Partial<Slide> = {}): Slide => ({
+    id,
+    title: `Slide ${id}`,
+    elements: [{
+      id: `text-${id}`,
+      type: 'text',
+      position: { x: 100, y: 100 },
+      size: { width: 300, height: 80 },
+      properties: {},
+      content: `Text of slide ${id}`,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }],
+    connections: [],
+    layout: createDefaultSlideLayout(),
+    background: createDefaultBackground(),
+    notes: '',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...markers,
+  });
+
+  const createMockPresentation = (slides: Slide[]): Presentation => ({
+    id: 'presentation-1',
+    title: 'Slide Documents',
+    slides,
+    theme: createDefaultTheme(),
+    metadata: createDefaultPresentationMetadata(),
+    settings: createDefaultPresentationSettings(),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    version: '1.0.0',
+  });
+
+  const presentation = createMockPresentation([
+    createMockSlide('1', { section: 'Introduction' }),
+    createMockSlide('2', { subsection: 'Motivation' }),
+    createMockSlide('3'),
+  ]);
+
+  it('generates a complete document with only the given slide', () => {
+    const { latex } = generator.generateSlideDocumentWithSourceMap(presentation, 1);
+
+    expect(latex).toContain('\\documentclass');
+    expect(latex).toContain('\\usepackage[absolute,overlay]{textpos}');
+    expect(latex).toContain('Text of slide 2');
+    expect(latex).not.toContain('Text of slide 1');
+    expect(latex).not.toContain('Text of slide 3');
+    expect(latex).toMatch(/\\end\{document\}$/);
+  });
+
+  it('keeps the title page with the first slide', () => {
+    expect(generator.generateSlideDocumentWithSourceMap(presentation, 0).latex).toContain('\\titlepage');
+    expect(generator.generateSlideDocumentWithSourceMap(presentation, 2).latex).not.toContain('\\titlepage');
+  });
+
+  it('continues the frame numbers and sections of the slides before', () => {
+    const { latex } = generator.generateSlideDocumentWithSourceMap(presentation, 2);
+
+    // The title page and two slides come before
+    expect(latex).toContain('\\setcounter{framenumber}{3}');
+    expect(latex).toContain('\\section{Introduction}\n\\subsection{Motivation}');
+    expect(latex.indexOf('\\subsection{Motivation}')).toBeLessThan(latex.indexOf('\\begin{frame}{Slide 3}'));
+  });
+
+  it('sets the total frame number of the whole presentation before the first frame', () => {
+    [0, 2].forEach(index => {
+      const { latex } = generator.generateSlideDocumentWithSourceMap(presentation, index);
+
+      // The title page and three slides
+      expect(latex).toContain('\\def\\inserttotalframenumber{4}');
+      expect(latex.indexOf('\\def\\inserttotalframenumber')).toBeGreaterThan(latex.indexOf('\\begin{document}'));
+      expect(latex.indexOf('\\def\\inserttotalframenumber')).toBeLessThan(latex.indexOf('\\begin{frame}'));
+    });
+    expect(generator.generateDocument(presentation)).not.toContain('\\inserttotalframenumber');
+  });
+
+  it("doesn't repeat a section the slide starts itself", () => {
+    const { latex } = generator.generateSlideDocumentWithSourceMap(createMockPresentation([
+      createMockSlide('1', { section: 'Introduction' }),
+      createMockSlide('2', { section: 'Results' }),
+    ]), 1);
+
+    expect(latex).not.toContain('\\section{Introduction}');
+    expect(latex).toContain('\\section{Results}');
+  });
+
+  it('maps lines of the slide document to the slide and its elements', () => {
+    const { latex, sourceMap } = generator.generateSlideDocumentWithSourceMap(presentation, 1);
+    const line = latex.slice(0, latex.indexOf('Text of slide 2')).split('\n').length;
+
+    expect(findSourceMapEntry(sourceMap, line)).toEqual(
+      expect.objectContaining({ slideId: '2', elementId: 'text-2' })
+    );
+  });
+});
@@ -0,0 +1,97 @@
+import { LaTeXGenerator } from '../latexGenerator';
+import {
+  Presentation,
+  Slide,
+  SlideElement,
+  createDefaultTheme,
+  createDefaultSlideLayout,
+  createDefaultBackground,
+  createDefaultPresentationSettings,
+  createDefaultPresentationMetadata,
+} from '../../types/presentation';
+import { findSourceMapEntry } from '../../utils/latexSourceMap';
+
+describe('LaTeXGenerator - Source Map', () => {
+  let generator: LaTeXGenerator;
+
+  beforeEach(() => {
+    generator = new LaTeXGenerator();
+  });
+
+  const createTextElement = (id: string, content: string): SlideElement => ({
+    id,
+    type: 'text',
+    position: { x: 100, y: 60 },
+    size: { width: 300, height: 80 },
+    properties: {},
+    content,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  const createSlide = (id: string, elements: SlideElement[]): Slide => ({
+    id,
+    title: `Slide ${id}`,
+    elements,
+    connections: [],
+    layout: createDefaultSlideLayout(),
+    background: createDefaultBackground(),
+    notes: '',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  const presentation: Presentation = {
+    id: 'presentation-1',
+    title: 'Source Map',
+    slides: [
+      createSlide('slide-a', [createTextElement('text-a', 'First slide text')]),
+      createSlide('slide-b', [
+        createTextElement('text-b1', 'Unrelated text'),
+        createTextElement('text-b2', 'Broken line here'),
+      ]),
+    ],
+    theme: createDefaultTheme(),
+    metadata: createDefaultPresentationMetadata(),
+    settings: createDefaultPresentationSettings(),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    version: '1.0.0',
+  };
+
+  const lineOf = (latex: string, text: string): number =>
+    latex.slice(0, latex.indexOf(text)).split('\n').length;
+
+  it('generates the same document as generateDocument', () => {
+    const { latex } = generator.generateDocumentWithSourceMap(presentation);
+
+    expect(latex).toBe(generator.generateDocument(presentation));
+  });
+
+  it('maps element lines to their slide and element', () => {
+    const { latex, sourceMap } = generator.generateDocumentWithSourceMap(presentation);
+
+    expect(findSourceMapEntry(sourceMap, lineOf(latex, 'Broken line here'))).toEqual(
+      expect.objectContaining({ slideId: 'slide-b', elementId: 'text-b2' })
+    );
+    expect(findSourceMapEntry(sourceMap, lineOf(latex, 'First slide text'))).toEqual(
+      expect.objectContaining({ slideId: 'slide-a', elementId: 'text-a' })
+    );
+  });
+
+  it('maps frame lines outside elements to the slide only', () => {
+    const { latex, sourceMap } = generator.generateDocumentWithSourceMap(presentation);
+
+    const entry = findSourceMapEntry(sourceMap, lineOf(latex, '\\begin{frame}{Slide slide-b}'));
+    expect(entry).toEqual(expect.objectContaining({ slideId: 'slide-b' }));
+    expect(entry?.elementId).toBeUndefined();
+    expect(findSourceMapEntry(sourceMap, lineOf(latex, '\\begin{document}'))).toBeUndefined();
+  });
+
+  it('keeps the map in line with minified output', () => {
+    const { latex, sourceMap } = generator.generateDocumentWithSourceMap(presentation, { minifyOutput: true });
+
+    expect(latex).toBe(generator.generateDocument(presentation, { minifyOutput: true }));
+    expect(findSourceMapEntry(sourceMap, lineOf(latex, 'Broken line here'))?.elementId).toBe('text-b2');
+  });
+});
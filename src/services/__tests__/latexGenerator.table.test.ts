@@ -0,0 +1,221 @@
+import { LaTeXGenerator } from '../latexGenerator';
+import { latexOptimizer } from '../latexOptimizer';
+import {
+  Presentation,
+  SlideElement,
+  Theme,
+  TableData,
+  createDefaultTheme,
+  createDefaultTableData,
+  createDefaultSlideLayout,
+  createDefaultBackground,
+  createDefaultPresentationSettings,
+  createDefaultPresentationMetadata,
+} from '../../types/presentation';
+
+describe('LaTeXGenerator - Table Functionality', () => {
+  let generator: LaTeXGenerator;
+  let mockTheme: Theme;
+
+  beforeEach(() => {
+    generator = new LaTeXGenerator();
+    mockTheme = createDefaultTheme();
+  });
+
+  const createTableData = (rows: string[][], overrides: Partial<TableData> = {}): TableData => ({
+    ...createDefaultTableData(rows.length, rows[0].length),
+    cells: rows.map(row => row.map(content => ({ content }))),
+    ...overrides,
+  });
+
+  const createMockTableElement = (tableData: TableData): SlideElement => ({
+    id: 'table-element',
+    type: 'table',
+    position: { x: 100, y: 100 },
+    size: { width: 400, height: 150 },
+    properties: {
+      tableData,
+    },
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  describe('Basic tables', () => {
+    it('generates a booktabs tabular inside a textblock', () => {
+      const element = createMockTableElement(createTableData([
+        ['Method', 'Accuracy'],
+        ['Baseline', '0.81'],
+      ]));
+
+      const latex = generator.generateElement(element, mockTheme);
+
+      expect(latex).toContain('% Table Element');
+      expect(latex).toContain('\\begin{textblock*}');
+      expect(latex).toContain('\\begin{tabular}{ll}');
+      expect(latex).toContain('\\toprule');
+      expect(latex).toContain('\\textbf{Method} & \\textbf{Accuracy} \\\\');
+      expect(latex).toContain('\\midrule');
+      expect(latex).toContain('Baseline & 0.81 \\\\');
+      expect(latex).toContain('\\bottomrule');
+      expect(latex).toContain('\\end{tabular}');
+      expect(latex).toContain('\\end{textblock*}');
+    });
+
+    it('uses column alignments in the column specification', () => {
+      const element = createMockTableElement(createTableData(
+        [['a', 'b', 'c']],
+        { columnAlignments: ['left', 'center', 'right'], headerRow: false }
+      ));
+
+      const latex = generator.generateElement(element, mockTheme);
+
+      expect(latex).toContain('\\begin{tabular}{lcr}');
+      expect(latex).not.toContain('\\textbf');
+    });
+
+    it('draws vertical and horizontal rules for the all border style', () => {
+      const element = createMockTableElement(createTableData(
+        [['a', 'b'], ['c', 'd'], ['e', 'f']],
+        { borderStyle: 'all', headerRow: false }
+      ));
+
+      const latex = generator.generateElement(element, mockTheme);
+
+      expect(latex).toContain('\\begin{tabular}{|l|l|}');
+      expect(latex.match(/\\hline/g)).toHaveLength(4);
+      expect(latex).not.toContain('\\toprule');
+    });
+
+    it('draws a rule between every row for the horizontal border style', () => {
+      const element = createMockTableElement(createTableData(
+        [['a', 'b'], ['c', 'd'], ['e', 'f']],
+        { borderStyle: 'horizontal', headerRow: false }
+      ));
+
+      const latex = generator.generateElement(element, mockTheme);
+
+      expect(latex).toContain('\\begin{tabular}{ll}');
+      expect(latex.match(/\\hline/g)).toHaveLength(4);
+      expect(latex).toContain('c & d \\\\\n\\hline\ne & f');
+    });
+
+    it('omits rules for the none border style', () => {
+      const element = createMockTableElement(createTableData(
+        [['a', 'b'], ['c', 'd']],
+        { borderStyle: 'none' }
+      ));
+
+      const latex = generator.generateElement(element, mockTheme);
+
+      expect(latex).not.toContain('\\hline');
+      expect(latex).not.toContain('rule');
+    });
+
+    it('handles missing table data gracefully', () => {
+      const element = createMockTableElement(createTableData([['a']]));
+      element.properties.tableData = undefined;
+
+      const latex = generator.generateElement(element, mockTheme);
+
+      expect(latex).toContain('% Empty table element');
+    });
+  });
+
+  describe('Cell content', () => {
+    it('escapes special characters in cells', () => {
+      const element = createMockTableElement(createTableData(
+        [['R&D', '50%']],
+        { headerRow: false }
+      ));
+
+      const latex = generator.generateElement(element, mockTheme);
+
+      expect(latex).toContain('R\\&D & 50\\% \\\\');
+    });
+
+    it('preserves inline math in cells', () => {
+      const tableData = createTableData([['Loss', '$\\mathcal{L}_2$ norm']], { headerRow: false });
+      tableData.cells[0][1].hasMath = true;
+
+      const latex = generator.generateElement(createMockTableElement(tableData), mockTheme);
+
+      expect(latex).toContain('Loss & $\\mathcal{L}_2$ norm \\\\');
+    });
+  });
+
+  describe('Merged cells', () => {
+    it('generates multicolumn for column spans', () => {
+      const tableData = createTableData([
+        ['Results', ''],
+        ['a', 'b'],
+      ], { columnAlignments: ['left', 'left'] });
+      tableData.cells[0][0] = { content: 'Results', colSpan: 2, align: 'center' };
+
+      const latex = generator.generateElement(createMockTableElement(tableData), mockTheme);
+
+      expect(latex).toContain('\\multicolumn{2}{c}{\\textbf{Results}} \\\\');
+      expect(latex).toContain('a & b \\\\');
+    });
+
+    it('generates multirow for row spans and leaves covered cells empty', () => {
+      const tableData = createTableData([
+        ['Group', 'x'],
+        ['', 'y'],
+      ], { headerRow: false });
+      tableData.cells[0][0] = { content: 'Group', rowSpan: 2 };
+
+      const latex = generator.generateElement(createMockTableElement(tableData), mockTheme);
+
+      expect(latex).toContain('\\multirow{2}{*}{Group} & x \\\\');
+      expect(latex).toContain(' & y \\\\');
+    });
+
+    it('uses cline below rows where a row span continues', () => {
+      const tableData = createTableData([
+        ['Group', 'x'],
+        ['', 'y'],
+      ], { headerRow: false, borderStyle: 'all' });
+      tableData.cells[0][0] = { content: 'Group', rowSpan: 2 };
+
+      const latex = generator.generateElement(createMockTableElement(tableData), mockTheme);
+
+      expect(latex).toContain('\\cline{2-2}');
+    });
+  });
+
+  describe('Document integration', () => {
+    it('loads table packages and produces valid LaTeX', () => {
+      const presentation: Presentation = {
+        id: 'presentation-1',
+        title: 'Tables',
+        slides: [{
+          id: 'slide-1',
+          title: 'Results',
+          elements: [createMockTableElement(createTableData([
+            ['Model', 'Score'],
+            ['A', '1'],
+          ]))],
+          connections: [],
+          layout: createDefaultSlideLayout(),
+          background: createDefaultBackground(),
+          notes: '',
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        }],
+        theme: mockTheme,
+        metadata: createDefaultPresentationMetadata(),
+        settings: createDefaultPresentationSettings(),
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        version: '1.0.0',
+      };
+
+      const latex = generator.generateDocument(presentation);
+
+      expect(latex).toContain('\\usepackage{booktabs}');
+      expect(latex).toContain('\\usepackage{multirow}');
+      expect(latex).toContain('\\usepackage{adjustbox}');
+      expect(latexOptimizer.validateSyntax(latex).isValid).toBe(true);
+    });
+  });
+});
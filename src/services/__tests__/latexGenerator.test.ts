@@ -89,6 +89,35 @@ describe('LaTeXGenerator', () => {
       
       expect(latexWithoutDocClass).not.toContain('\\documentclass');
     });
+
+    it('should use the default Beamer theme template when none is selected', () => {
+      const latex = generator.generateDocument(mockPresentation);
+
+      expect(latex).toContain('\\usetheme{default}');
+      expect(latex).toContain('\\definecolor{primary}{RGB}{59,130,246}');
+      expect(latex).toContain('\\setbeamercolor{structure}{fg=primary}');
+    });
+
+    it('should apply the selected Beamer theme template', () => {
+      mockPresentation.theme = { ...mockPresentation.theme, beamerThemeTemplate: 'academic' };
+
+      const latex = generator.generateDocument(mockPresentation);
+
+      expect(latex).toContain('\\usetheme{Warsaw}');
+      expect(latex).toContain('\\usecolortheme{seahorse}');
+      expect(latex).toContain('\\usefonttheme{serif}');
+      expect(latex).not.toContain('\\usetheme{default}');
+      // Font settings come after the theme so the theme doesn't override them
+      expect(latex.indexOf('\\setbeamerfont')).toBeGreaterThan(latex.indexOf('\\usetheme{Warsaw}'));
+    });
+
+    it('should fall back to the default template for unknown ids', () => {
+      mockPresentation.theme = { ...mockPresentation.theme, beamerThemeTemplate: 'missing' };
+
+      const latex = generator.generateDocument(mockPresentation);
+
+      expect(latex).toContain('\\usetheme{default}');
+    });
   });
 
   describe('generateSlide', () => {
@@ -181,7 +210,7 @@ describe('LaTeXGenerator', () => {
     it('should handle unsupported element types', () => {
       const unsupportedElement: SlideElement = {
         id: 'unsupported-1',
-        type: 'chart' as any,
+        type: 'video' as any,
         position: { x: 0, y: 0 },
         size: { width: 100, height: 100 },
         properties: {},
@@ -191,7 +220,7 @@ describe('LaTeXGenerator', () => {
 
       const latex = generator.generateElement(unsupportedElement, mockPresentation.theme);
       
-      expect(latex).toContain('% Unsupported element type: chart');
+      expect(latex).toContain('% Unsupported element type: video');
     });
   });
 
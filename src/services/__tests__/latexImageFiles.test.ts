@@ -0,0 +1,79 @@
+import { collectImageFiles } from '../latexImageFiles';
+import {
+  Presentation,
+  SlideElement,
+  createDefaultTheme,
+  createDefaultSlideLayout,
+  createDefaultBackground,
+  createDefaultPresentationSettings,
+  createDefaultPresentationMetadata,
+} from '../../types/presentation';
+
+describe('collectImageFiles', () => {
+  const createImageElement = (id: string, content: string): SlideElement => ({
+    id,
+    type: 'image',
+    position: { x: 100, y: 60 },
+    size: { width: 300, height: 200 },
+    properties: {},
+    content,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  const createMockPresentation = (elements: SlideElement[], backgroundSrc?: string): Presentation => ({
+    id: 'presentation-1',
+    title: 'Images',
+    slides: [{
+      id: 'slide-1',
+      title: 'Slide',
+      elements,
+      connections: [],
+      layout: createDefaultSlideLayout(),
+      background: backgroundSrc
+        ? { ...createDefaultBackground(), type: 'image', image: { src: backgroundSrc, fit: 'cover' } }
+        : createDefaultBackground(),
+      notes: '',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }],
+    theme: createDefaultTheme(),
+    metadata: createDefaultPresentationMetadata(),
+    settings: createDefaultPresentationSettings(),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    version: '1.0.0',
+  });
+
+  it('writes embedded images and backgrounds as files of the slide', () => {
+    const { presentation, files } = collectImageFiles(createMockPresentation(
+      [createImageElement('img:1', `data:image/png;base64,${btoa('png bytes')}`)],
+      `data:image/jpeg;base64,${btoa('jpeg bytes')}`
+    ));
+
+    expect(presentation.slides[0].elements[0].content).toBe('image-img-1.png');
+    expect(presentation.slides[0].background.image?.src).toBe('background-slide-1.jpeg');
+    expect(files['slide-1'].map(file => file.name)).toEqual(['image-img-1.png', 'background-slide-1.jpeg']);
+    expect(Buffer.from(files['slide-1'][0].content!).toString()).toBe('png bytes');
+  });
+
+  it('copies local images by path, leaving images LaTeX finds alone and refusing other files', () => {
+    const { presentation, files } = collectImageFiles(createMockPresentation([
+      createImageElement('imported', '/home/user/talk/figures/Plot.PDF'),
+      createImageElement('placeholder', 'example-image'),
+      createImageElement('key', 'file:///home/user/.ssh/id_rsa'),
+    ]));
+
+    expect(presentation.slides[0].elements.map(element => element.content))
+      .toEqual(['image-imported.pdf', 'example-image', 'example-image']);
+    expect(files['slide-1']).toEqual([{ name: 'image-imported.pdf', path: '/home/user/talk/figures/Plot.PDF' }]);
+  });
+
+  it('shows the placeholder for images too large to write', () => {
+    const content = `data:image/png;base64,${'A'.repeat(28 * 1024 * 1024)}`;
+    const { presentation, files } = collectImageFiles(createMockPresentation([createImageElement('big', content)]));
+
+    expect(presentation.slides[0].elements[0].content).toBe('example-image');
+    expect(files['slide-1']).toBeUndefined();
+  });
+});
@@ -0,0 +1,94 @@
+import {
+  DEFAULT_COMPILATION_LIMITS,
+  checkPageLimit,
+  countPdfPages,
+  detectLimitViolation,
+  getSandboxEnvironment,
+  getSandboxTimeout,
+  getSandboxedCommand,
+  resolveCompilationLimits,
+} from '../latexSandbox';
+
+describe('LaTeX sandbox', () => {
+  const limits = resolveCompilationLimits({ cpuSeconds: 10, memoryMB: 512, outputMB: 1, maxPages: 50 });
+
+  it('keeps file access in the job directory and shell escape off by default', () => {
+    const env = getSandboxEnvironment('/tmp/job', false, { PATH: '/usr/bin', shell_escape: 't' });
+
+    expect(env).toEqual({
+      PATH: '/usr/bin',
+      openin_any: 'p',
+      openout_any: 'p',
+      TEXMFOUTPUT: '/tmp/job',
+      shell_escape: 'f',
+    });
+    expect(getSandboxEnvironment('/tmp/job', true).shell_escape).toBe('t');
+  });
+
+  it('applies CPU, memory and file size limits before running the command', () => {
+    const { command, args } = getSandboxedCommand('pdflatex', ['-no-shell-escape', 'document.tex'], limits, 'linux');
+
+    expect(command).toBe('/bin/sh');
+    expect(args[1]).toBe(
+      'ulimit -H -t 15 2>/dev/null; ulimit -S -t 10 2>/dev/null; ulimit -v 524288 2>/dev/null; ulimit -f 2048 2>/dev/null; exec "$0" "$@"'
+    );
+    expect(args.slice(2)).toEqual(['pdflatex', '-no-shell-escape', 'document.tex']);
+    expect(getSandboxedCommand('pdflatex', ['document.tex'], limits, 'win32')).toEqual({
+      command: 'pdflatex',
+      args: ['document.tex'],
+    });
+  });
+
+  it('gives runs more wall-clock time than the CPU limit allows them', () => {
+    expect(getSandboxTimeout(limits, 5000)).toBe(25000);
+    expect(getSandboxTimeout(limits, 90000)).toBe(90000);
+    expect(getSandboxTimeout(DEFAULT_COMPILATION_LIMITS, 30000)).toBeGreaterThan((DEFAULT_COMPILATION_LIMITS.cpuSeconds + 5) * 1000);
+  });
+
+  it('reports the limit a stopped run exceeded', () => {
+    const run = { stdout: '', stderr: '' };
+
+    expect(detectLimitViolation({ ...run, signal: 'SIGXCPU' }, limits, '/usr/bin/pdflatex')).toEqual({
+      message: 'pdflatex used more than 10 seconds of CPU time and was stopped',
+      type: 'fatal',
+      limit: 'cpu-time',
+    });
+    expect(detectLimitViolation({ ...run, signal: 'SIGTERM', timedOut: true }, limits, 'pdflatex')).toEqual({
+      message: 'pdflatex did not finish within its time limit and was stopped',
+      type: 'fatal',
+      limit: 'cpu-time',
+    });
+    expect(detectLimitViolation({ ...run, signal: 'SIGXFSZ' }, limits, 'pdflatex')?.limit).toBe('output-size');
+    expect(detectLimitViolation({ ...run, outputLimitExceeded: true }, limits, 'pdflatex')?.limit).toBe('output-size');
+    expect(detectLimitViolation({ ...run, stderr: 'lualatex: out of memory' }, limits, 'lualatex')?.limit).toBe('memory');
+    expect(detectLimitViolation(
+      { ...run, stdout: '! TeX capacity exceeded, sorry [main memory size=5000000].' },
+      limits,
+      'pdflatex'
+    )?.limit).toBe('memory');
+    expect(detectLimitViolation({ ...run, signal: null }, limits, 'pdflatex')).toBeUndefined();
+  });
+
+  it('ignores memory errors quoted from the document in the log', () => {
+    const stdout = './document.tex:12: Undefined control sequence.\nl.12 The server ran out of memory \\oops\n';
+
+    expect(detectLimitViolation({ stdout, stderr: '' }, limits, 'pdflatex')).toBeUndefined();
+    expect(detectLimitViolation({ stdout: 'memory exhausted', stderr: '' }, limits, 'pdflatex')).toBeUndefined();
+  });
+
+  it('counts pages from the log, or the PDF when the log has no summary', () => {
+    expect(countPdfPages('Output written on document.pdf (12 pages, 34567 bytes).')).toBe(12);
+    expect(countPdfPages('', Buffer.from('<< /Type /Pages /Count 2 >> << /Type /Page >> << /Type/Page >>'))).toBe(2);
+    expect(countPdfPages('')).toBeUndefined();
+  });
+
+  it('rejects documents with more pages than allowed', () => {
+    expect(checkPageLimit(50, limits)).toBeUndefined();
+    expect(checkPageLimit(51, limits)).toEqual({
+      message: 'The document has 51 pages, more than the limit of 50',
+      type: 'fatal',
+      limit: 'page-count',
+    });
+    expect(checkPageLimit(undefined, DEFAULT_COMPILATION_LIMITS)).toBeUndefined();
+  });
+});
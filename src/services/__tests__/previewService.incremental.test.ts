@@ -0,0 +1,177 @@
+import { EventEmitter } from 'events';
+import { PreviewService } from '../previewService';
+import { latexCompiler } from '../latexCompilerFactory';
+import { compilationCacheService } from '../compilationCacheService';
+import { CompilationOptions } from '../latexCompiler';
+import {
+  Presentation,
+  Slide,
+  createDefaultTheme,
+  createDefaultSlideLayout,
+  createDefaultBackground,
+  createDefaultPresentationSettings,
+  createDefaultPresentationMetadata,
+} from '../../types/presentation';
+
+// A compiler that succeeds with the source as the PDF, recording what it compiled
+jest.mock('../latexCompilerFactory', () => {
+  const { EventEmitter: Emitter } = jest.requireActual('events');
+  const compiler = new Emitter();
+  let jobCounter = 0;
+  compiler.compiled = [];
+  compiler.compile = async (source: string, options: any) => {
+    const jobId = `job_${++jobCounter}`;
+    compiler.compiled.push({ source, options });
+    setTimeout(() => compiler.emit('job-completed', {
+      success: !source.includes('\\undefinedcommand'),
+      pdfBuffer: Buffer.from(source),
+      log: '',
+      errors: source.includes('\\undefinedcommand')
+        ? [{ message: 'Undefined control sequence', type: 'error', line: source.split('\n').findIndex((line: string) => line.includes('\\undefinedcommand')) + 1, file: './document.tex' }]
+        : [],
+      warnings: [],
+      duration: 10,
+      jobId,
+      // One page per document, with a box for every line
+      pageImages: options.pageImages ? [Buffer.from(`page of ${jobId}`)] : undefined,
+      synctex: options.synctex
+        ? { pageCount: 1, boxes: source.split('\n').map((_: string, index: number) => ({ page: 1, line: index + 1, x: 0, y: 0, width: 10, height: 10 })) }
+        : undefined,
+    }), 0);
+    return jobId;
+  };
+  // Plain functions, as CRA resets jest.fn implementations before each test
+  compiler.cancelJob = () => true;
+  compiler.checkFontAvailability = async () => ({});
+  return { latexCompiler: compiler };
+});
+
+const mockCompiler = latexCompiler as unknown as EventEmitter & {
+  compiled: { source: string; options: CompilationOptions }[];
+};
+
+global.URL.createObjectURL = () => 'mock-blob-url';
+global.URL.revokeObjectURL = () => undefined;
+
+describe('PreviewService - Incremental Compilation', () => {
+  let service: PreviewService;
+
+  const createSlide = (id: string, text: string): Slide => ({
+    id,
+    title: `Slide ${id}`,
+    elements: [{
+      id: `text-${id}`,
+      type: 'text',
+      position: { x: 100, y: 100 },
+      size: { width: 300, height: 80 },
+      properties: {},
+      content: text,
+      createdAt: new Date(0),
+      updatedAt: new Date(0),
+    }],
+    connections: [],
+    layout: createDefaultSlideLayout(),
+    background: createDefaultBackground(),
+    notes: '',
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+  });
+
+  const createPresentation = (slides: Slide[]): Presentation => ({
+    id: 'presentation-1',
+    title: 'Incremental',
+    slides,
+    theme: createDefaultTheme(),
+    metadata: { ...createDefaultPresentationMetadata(), date: new Date(0) },
+    settings: createDefaultPresentationSettings(),
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+    version: '1.0.0',
+  });
+
+  beforeEach(() => {
+    compilationCacheService.clearCache();
+    mockCompiler.compiled = [];
+    service = new PreviewService({ debounceMs: 0 });
+  });
+
+  afterEach(() => {
+    service.cleanup();
+  });
+
+  it('compiles each slide separately and combines the PDFs', async () => {
+    const presentation = createPresentation([createSlide('1', 'One'), createSlide('2', 'Two'), createSlide('3', 'Three')]);
+    const pdfUrl = new Promise(resolve => service.on('compilation-success', ({ pdfUrl: url }) => resolve(url)));
+
+    await service.compilePresentation(presentation);
+
+    const [first, second, third, stitch] = mockCompiler.compiled;
+    expect(mockCompiler.compiled).toHaveLength(4);
+    expect(first.source).toContain('One');
+    expect(second.source).toContain('Two');
+    expect(second.source).not.toContain('One');
+    expect(third.source).toContain('Three');
+    expect(stitch.source).toContain('\\includepdf[pages=-,fitpaper]{slide-2.pdf}');
+    expect(stitch.options.files?.map(file => file.name)).toEqual(['slide-1.pdf', 'slide-2.pdf', 'slide-3.pdf']);
+    expect(Buffer.from(stitch.options.files![1].content!).toString()).toBe(second.source);
+    await expect(pdfUrl).resolves.toBe('mock-blob-url');
+  });
+
+  it('only recompiles slides that changed', async () => {
+    const slides = [createSlide('1', 'One'), createSlide('2', 'Two'), createSlide('3', 'Three')];
+    await service.compilePresentation(createPresentation(slides));
+    mockCompiler.compiled = [];
+
+    const editedSlides = [slides[0], createSlide('2', 'Two, edited'), slides[2]];
+    await service.compilePresentation(createPresentation(editedSlides));
+
+    expect(mockCompiler.compiled).toHaveLength(2);
+    expect(mockCompiler.compiled[0].source).toContain('Two, edited');
+    expect(mockCompiler.compiled[1].options.files).toHaveLength(3);
+  });
+
+  it('reports errors against the slide they came from', async () => {
+    const presentation = createPresentation([createSlide('1', 'One'), createSlide('2', 'Two')]);
+    presentation.slides[1].elements[0].type = 'latex';
+    presentation.slides[1].elements[0].content = '\\undefinedcommand';
+    const errors = new Promise<any[]>(resolve => service.on('compilation-error', ({ errors: reported }) => resolve(reported)));
+
+    await expect(service.compilePresentation(presentation)).rejects.toThrow('Undefined control sequence (slide 2)');
+
+    expect(await errors).toEqual([expect.objectContaining({ slideId: '2', elementId: 'text-2' })]);
+    // Nothing to combine until every slide compiles
+    expect(mockCompiler.compiled).toHaveLength(2);
+  });
+
+  it('combines the page images and SyncTeX boxes of the slides', async () => {
+    const presentation = createPresentation([createSlide('1', 'One'), createSlide('2', 'Two')]);
+    const success = new Promise<any>(resolve => service.on('compilation-success', resolve));
+
+    await service.compilePresentation(presentation);
+
+    const { pageImageUrls, syncBoxes } = await success;
+    expect(pageImageUrls).toHaveLength(2);
+    expect(syncBoxes).toContainEqual(expect.objectContaining({ page: 1, slideId: '1', elementId: 'text-1' }));
+    expect(syncBoxes).toContainEqual(expect.objectContaining({ page: 2, slideId: '2', elementId: 'text-2' }));
+    expect(syncBoxes).not.toContainEqual(expect.objectContaining({ page: 1, slideId: '2' }));
+  });
+
+  it('compiles sections as one document when the theme lists them in a navigation bar', async () => {
+    const presentation = createPresentation([createSlide('1', 'One'), createSlide('2', 'Two')]);
+    presentation.theme.beamerThemeTemplate = 'academic';
+    presentation.slides[1].section = 'Results';
+
+    await service.compilePresentation(presentation);
+
+    expect(mockCompiler.compiled).toHaveLength(1);
+    expect(mockCompiler.compiled[0].source).toContain('\\usetheme{Warsaw}');
+    expect(mockCompiler.compiled[0].source).toContain('\\section{Results}');
+  });
+
+  it('compiles a single slide as one document', async () => {
+    await service.compilePresentation(createPresentation([createSlide('1', 'One')]));
+
+    expect(mockCompiler.compiled).toHaveLength(1);
+    expect(mockCompiler.compiled[0].options.files).toBeUndefined();
+  });
+});
@@ -18,7 +18,7 @@ jest.mock('../latexCompiler', () => ({
 
 jest.mock('../latexGenerator', () => ({
   latexGenerator: {
-    generateDocument: jest.fn(),
+    generateDocumentWithSourceMap: jest.fn(),
   },
 }));
 
@@ -117,7 +117,7 @@ describe('PreviewService', () => {
       const mockLatexSource = '\\documentclass{beamer}\\begin{document}\\end{document}';
       const mockJobId = 'job-123';
 
-      mockLatexGenerator.generateDocument.mockReturnValue(mockLatexSource);
+      mockLatexGenerator.generateDocumentWithSourceMap.mockReturnValue({ latex: mockLatexSource, sourceMap: [] });
       mockLatexCompiler.compile.mockResolvedValue(mockJobId);
 
       // Start compilation and wait for debounce
@@ -126,7 +126,7 @@ describe('PreviewService', () => {
       // Wait for debounce timeout
       await new Promise(resolve => setTimeout(resolve, 150));
 
-      expect(mockLatexGenerator.generateDocument).toHaveBeenCalledWith(mockPresentation, {
+      expect(mockLatexGenerator.generateDocumentWithSourceMap).toHaveBeenCalledWith(mockPresentation, {
         includePackages: true,
         includeDocumentClass: true,
         optimizeCode: true,
@@ -143,7 +143,7 @@ describe('PreviewService', () => {
       const mockPresentation = createMockPresentation();
       const mockLatexSource = '\\documentclass{beamer}\\begin{document}\\end{document}';
 
-      mockLatexGenerator.generateDocument.mockReturnValue(mockLatexSource);
+      mockLatexGenerator.generateDocumentWithSourceMap.mockReturnValue({ latex: mockLatexSource, sourceMap: [] });
       mockLatexCompiler.compile.mockRejectedValue(new Error('LaTeX compilation failed'));
 
       await expect(previewService.compilePresentation(mockPresentation)).rejects.toThrow('LaTeX compilation failed');
@@ -151,7 +151,7 @@ describe('PreviewService', () => {
 
     it('should debounce multiple compilation requests', async () => {
       const mockPresentation = createMockPresentation();
-      mockLatexGenerator.generateDocument.mockReturnValue('\\documentclass{beamer}');
+      mockLatexGenerator.generateDocumentWithSourceMap.mockReturnValue({ latex: '\\documentclass{beamer}', sourceMap: [] });
       mockLatexCompiler.compile.mockResolvedValue('job-123');
 
       // Make multiple rapid calls
@@ -168,7 +168,7 @@ describe('PreviewService', () => {
 
     it('should handle multiple compilation requests', async () => {
       const mockPresentation = createMockPresentation();
-      mockLatexGenerator.generateDocument.mockReturnValue('\\documentclass{beamer}');
+      mockLatexGenerator.generateDocumentWithSourceMap.mockReturnValue({ latex: '\\documentclass{beamer}', sourceMap: [] });
       mockLatexCompiler.compile.mockResolvedValue('job-123');
       mockLatexCompiler.cancelJob.mockReturnValue(true);
 
@@ -189,7 +189,7 @@ describe('PreviewService', () => {
   describe('updatePreview', () => {
     it('should not compile if presentation hash is unchanged', () => {
       const mockPresentation = createMockPresentation();
-      mockLatexGenerator.generateDocument.mockReturnValue('\\documentclass{beamer}');
+      mockLatexGenerator.generateDocumentWithSourceMap.mockReturnValue({ latex: '\\documentclass{beamer}', sourceMap: [] });
 
       // First update should trigger compilation
       previewService.updatePreview(mockPresentation);
@@ -202,7 +202,7 @@ describe('PreviewService', () => {
 
     it('should compile if forceCompile is true even with unchanged hash', async () => {
       const mockPresentation = createMockPresentation();
-      mockLatexGenerator.generateDocument.mockReturnValue('\\documentclass{beamer}');
+      mockLatexGenerator.generateDocumentWithSourceMap.mockReturnValue({ latex: '\\documentclass{beamer}', sourceMap: [] });
       mockLatexCompiler.compile.mockResolvedValue('job-123');
 
       // First update
@@ -218,7 +218,7 @@ describe('PreviewService', () => {
 
     it('should compile when presentation content changes', async () => {
       const mockPresentation = createMockPresentation();
-      mockLatexGenerator.generateDocument.mockReturnValue('\\documentclass{beamer}');
+      mockLatexGenerator.generateDocumentWithSourceMap.mockReturnValue({ latex: '\\documentclass{beamer}', sourceMap: [] });
       mockLatexCompiler.compile.mockResolvedValue('job-123');
 
       // First update
@@ -242,7 +242,7 @@ describe('PreviewService', () => {
   describe('event handling', () => {
     it('should emit compilation-started event', (done) => {
       const mockPresentation = createMockPresentation();
-      mockLatexGenerator.generateDocument.mockReturnValue('\\documentclass{beamer}');
+      mockLatexGenerator.generateDocumentWithSourceMap.mockReturnValue({ latex: '\\documentclass{beamer}', sourceMap: [] });
       mockLatexCompiler.compile.mockResolvedValue('job-123');
 
       previewService.on('compilation-started', () => {
@@ -0,0 +1,107 @@
+import { RawLatexPreviewService, RawLatexPreviewEvent } from '../rawLatexPreviewService';
+import { latexCompiler } from '../latexCompilerFactory';
+import { CompilationResult } from '../latexCompiler';
+import { latexGenerator } from '../latexGenerator';
+import {
+  Presentation,
+  SlideElement,
+  createDefaultTheme,
+  createDefaultPresentationSettings,
+  createDefaultPresentationMetadata,
+} from '../../types/presentation';
+
+// A compiler that completes each job with the next queued result
+jest.mock('../latexCompilerFactory', () => {
+  const { EventEmitter } = require('events');
+  const compiler = new EventEmitter();
+  compiler.results = [];
+  compiler.sources = [];
+  compiler.compile = (source: string) => {
+    const jobId = `job-${compiler.sources.length + 1}`;
+    compiler.sources.push(source);
+    const result = compiler.results.shift();
+    setTimeout(() => compiler.emit('job-completed', { ...result, jobId }), 0);
+    return Promise.resolve(jobId);
+  };
+  return { latexCompiler: compiler };
+});
+
+const mockCompiler = latexCompiler as unknown as {
+  results: Partial<CompilationResult>[];
+  sources: string[];
+};
+
+const element: SlideElement = {
+  id: 'raw-1',
+  type: 'latex',
+  position: { x: 100, y: 60 },
+  size: { width: 300, height: 150 },
+  properties: {},
+  content: '\\tikz \\draw (0,0) -- (1,1);\n\\undefinedmacro',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const presentation: Presentation = {
+  id: 'presentation-1',
+  title: 'Raw LaTeX',
+  slides: [],
+  theme: createDefaultTheme(),
+  metadata: createDefaultPresentationMetadata(),
+  settings: createDefaultPresentationSettings(),
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  version: '1.0.0',
+};
+
+describe('RawLatexPreviewService', () => {
+  let service: RawLatexPreviewService;
+
+  beforeEach(() => {
+    service = new RawLatexPreviewService();
+    mockCompiler.results = [];
+    mockCompiler.sources = [];
+    global.URL.createObjectURL = () => 'blob:preview';
+    global.URL.revokeObjectURL = () => undefined;
+  });
+
+  it('reports errors with line numbers counted from the start of the snippet', async () => {
+    const events: RawLatexPreviewEvent[] = [];
+    service.on('preview-updated', event => events.push(event));
+
+    const { snippetStartLine } = latexGenerator.generateSnippetDocument(element, presentation);
+    mockCompiler.results.push({
+      success: false,
+      errors: [{ message: 'Undefined control sequence', type: 'error', line: snippetStartLine + 1 }],
+      warnings: [],
+      log: '',
+    });
+
+    const { imageUrl, errors } = await service.renderPreview(element, 'slide-1', presentation);
+
+    expect(imageUrl).toBeNull();
+    expect(errors).toEqual([{ message: 'Undefined control sequence', type: 'error', line: 2 }]);
+    expect(events).toEqual([{ imageUrl, errors, elementId: 'raw-1', slideId: 'slide-1' }]);
+  });
+
+  it('reports a generic error when a failed compilation has no parsed errors', async () => {
+    mockCompiler.results.push({ success: false, errors: [], warnings: [], log: '' });
+
+    const { imageUrl, errors } = await service.renderPreview(element, 'slide-1', presentation);
+
+    expect(imageUrl).toBeNull();
+    expect(errors).toEqual([{ message: 'Compilation failed', type: 'error' }]);
+  });
+
+  it('turns the rendered page into an image and reuses it while the source is unchanged', async () => {
+    mockCompiler.results.push({ success: true, errors: [], warnings: [], log: '', imageBuffer: Buffer.from('png') });
+
+    const { imageUrl, errors } = await service.renderPreview(element, 'slide-1', presentation);
+    const { imageUrl: cachedImageUrl } = await service.renderPreview({ ...element }, 'slide-1', presentation);
+
+    expect(imageUrl).toBe('blob:preview');
+    expect(errors).toEqual([]);
+    expect(cachedImageUrl).toBe(imageUrl);
+    expect(mockCompiler.sources).toHaveLength(1);
+  });
+});
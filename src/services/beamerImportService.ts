@@ -0,0 +1,1612 @@
+import {
+  Presentation,
+  Slide,
+  SlideElement,
+  ElementProperties,
+  CodeLanguage,
+  Color,
+  ShapeType,
+  Size,
+  TextRun,
+  LatexMacro,
+  PresentationMetadata,
+  createDefaultTheme,
+  createDefaultPresentationSettings,
+  createDefaultPresentationMetadata,
+  createDefaultSlideLayout,
+  createDefaultBackground
+} from '../types/presentation';
+import { TextRunFormat, hasRichText, normalizeTextRuns } from '../utils/richText';
+import { generateConnectionPoints } from '../utils/shapeUtils';
+import { createEmptyCustomPreamble, hasCustomPreamble } from '../utils/customPreamble';
+import {
+  CANVAS_BASE_WIDTH,
+  SlideAspectRatio,
+  SlideDimensions,
+  getCanvasBaseHeight,
+  getSlideDimensions
+} from '../utils/slideGeometry';
+import { latexTemplateManager } from './latexTemplates';
+
+export interface BeamerImportOptions {
+  baseDirectory?: string; // Directory of the .tex file; relative image paths are resolved against it
+  fileExists?: (path: string) => Promise<boolean>; // Looks up images named without extension or in \graphicspath
+}
+
+export interface BeamerImportResult {
+  success: boolean;
+  presentation?: Presentation;
+  warnings: string[];
+  errors: string[];
+  importedSlides: number;
+  rawLatexBlocks: number; // Pieces of content kept as raw LaTeX elements
+}
+
+type ElementDraft = Omit<SlideElement, 'id' | 'createdAt' | 'updatedAt'>;
+
+type ContentBlock =
+  | { kind: 'paragraph'; source: string }
+  | { kind: 'displayMath'; source: string }
+  | { kind: 'environment'; name: string; source: string; body: string }
+  | { kind: 'command'; name: string; source: string };
+
+interface FrameSource {
+  title?: string;
+  body: string;
+  section?: string;
+  subsection?: string;
+}
+
+interface LayoutState {
+  elements: SlideElement[];
+  y: number; // Top of the next element, in canvas pixels
+  step: number; // Overlay step new elements appear on; \pause advances it
+  align: 'left' | 'center';
+}
+
+// Layout of imported content on the canvas, in canvas pixels
+const CONTENT_MARGIN = 20;
+const CONTENT_TOP = 10;
+const ELEMENT_GAP = 10;
+const BODY_FONT_SIZE = 20; // Close to Beamer's 11pt body text
+const CODE_FONT_SIZE = 14;
+
+// Packages the generator loads on its own
+const GENERATED_PACKAGES = new Set([
+  'inputenc', 'fontenc', 'fontspec', 'babel', 'amsmath', 'amsfonts', 'amssymb', 'graphicx', 'tikz',
+  'xcolor', 'hyperref', 'textpos', 'adjustbox', 'booktabs', 'multirow', 'pgfplots', 'listings', 'biblatex'
+]);
+
+// Preamble commands the importer reads or can safely leave out
+const HANDLED_PREAMBLE_COMMANDS = new Set([
+  'documentclass', 'usepackage', 'usetikzlibrary', 'usetheme', 'title', 'subtitle', 'author', 'institute',
+  'date', 'newcommand', 'providecommand', 'graphicspath'
+]);
+
+// Extensions graphicx tries, in this order, for images named without one
+const GRAPHICS_EXTENSIONS = ['.pdf', '.png', '.jpg', '.jpeg', '.eps'];
+
+// Image of the mwe package, shown in place of images that can't be imported
+const PLACEHOLDER_IMAGE = 'example-image';
+
+// Layout commands between blocks that have no counterpart on the canvas
+const IGNORED_LAYOUT_COMMANDS = new Set([
+  'vspace', 'vfill', 'medskip', 'bigskip', 'smallskip', 'centering', 'noindent', 'par', 'hfill'
+]);
+
+const MATH_ENVIRONMENTS = new Set([
+  'equation', 'equation*', 'align', 'align*', 'gather', 'gather*', 'multline', 'multline*', 'displaymath'
+]);
+
+const CODE_ENVIRONMENTS = new Set(['verbatim', 'lstlisting']);
+
+const CODE_LANGUAGES: Record<string, CodeLanguage> = {
+  python: 'python',
+  javascript: 'javascript',
+  typescript: 'typescript',
+  java: 'java',
+  c: 'c',
+  'c++': 'cpp',
+  bash: 'bash',
+  sh: 'bash',
+  sql: 'sql',
+};
+
+// Characters LaTeX escapes with a backslash
+const ESCAPED_CHARACTERS = new Set(['&', '%', '$', '#', '_', '{', '}']);
+
+// Commands that stand for a piece of text
+const TEXT_SYMBOLS: Record<string, string> = {
+  ldots: '…',
+  dots: '…',
+  LaTeX: 'LaTeX',
+  TeX: 'TeX',
+  textbackslash: '\\',
+  textasciitilde: '~',
+  textendash: '–',
+  textemdash: '—',
+  newline: '\n',
+  ' ': ' ',
+  ',': ' ',
+  ';': ' ',
+};
+
+// Commands that format their argument
+const FORMAT_COMMANDS: Record<string, TextRunFormat> = {
+  textbf: { bold: true },
+  textit: { italic: true },
+  textsl: { italic: true },
+  emph: { italic: true },
+  underline: { underline: true },
+  texttt: { code: true },
+  alert: { color: { r: 255, g: 0, b: 0 } }, // Beamer's default alerted text color
+  textsuperscript: { script: 'superscript' },
+  textsubscript: { script: 'subscript' },
+};
+
+// Declarations that format the rest of their group, e.g. {\bfseries ...}
+const FORMAT_DECLARATIONS: Record<string, TextRunFormat> = {
+  bfseries: { bold: true },
+  bf: { bold: true },
+  itshape: { italic: true },
+  it: { italic: true },
+  em: { italic: true },
+  ttfamily: { code: true },
+  tt: { code: true },
+};
+
+// Base colors of xcolor
+const NAMED_COLORS: Record<string, Color> = {
+  black: { r: 0, g: 0, b: 0 },
+  white: { r: 255, g: 255, b: 255 },
+  red: { r: 255, g: 0, b: 0 },
+  green: { r: 0, g: 255, b: 0 },
+  blue: { r: 0, g: 0, b: 255 },
+  cyan: { r: 0, g: 255, b: 255 },
+  magenta: { r: 255, g: 0, b: 255 },
+  yellow: { r: 255, g: 255, b: 0 },
+  gray: { r: 128, g: 128, b: 128 },
+  darkgray: { r: 64, g: 64, b: 64 },
+  lightgray: { r: 191, g: 191, b: 191 },
+  brown: { r: 191, g: 128, b: 64 },
+  lime: { r: 191, g: 255, b: 0 },
+  olive: { r: 128, g: 128, b: 0 },
+  orange: { r: 255, g: 128, b: 0 },
+  pink: { r: 255, g: 191, b: 191 },
+  purple: { r: 191, g: 0, b: 64 },
+  teal: { r: 0, g: 128, b: 128 },
+  violet: { r: 128, g: 0, b: 128 },
+};
+
+// TikZ line widths, in points
+const TIKZ_LINE_WIDTHS: Record<string, number> = {
+  'ultra thin': 0.1,
+  'very thin': 0.2,
+  thin: 0.4,
+  semithick: 0.6,
+  thick: 0.8,
+  'very thick': 1.2,
+  'ultra thick': 1.6,
+};
+
+const TIKZ_ARROW_TIPS = new Set(['', '<', '>', 'stealth', 'Stealth', 'latex', 'Latex', '{Stealth}', '{Latex}', 'to']);
+
+const NUMBER = '(-?\\d*\\.?\\d+)';
+const COORDINATE = `\\(\\s*${NUMBER}(?:cm)?\\s*,\\s*${NUMBER}(?:cm)?\\s*\\)`;
+const TIKZ_RECTANGLE = new RegExp(`^${COORDINATE}\\s*rectangle\\s*${COORDINATE}$`);
+const TIKZ_CIRCLE = new RegExp(`^${COORDINATE}\\s*circle\\s*(?:\\(\\s*${NUMBER}(?:cm)?\\s*\\)|\\[\\s*radius\\s*=\\s*${NUMBER}(?:cm)?\\s*\\])$`);
+const TIKZ_ELLIPSE = new RegExp(`^${COORDINATE}\\s*ellipse\\s*\\(\\s*${NUMBER}(?:cm)?\\s+and\\s+${NUMBER}(?:cm)?\\s*\\)$`);
+const TIKZ_LINE = new RegExp(`^${COORDINATE}\\s*--\\s*${COORDINATE}$`);
+const TIKZ_NODE = new RegExp(`^(?:\\([^()]*\\)\\s*)?at\\s*${COORDINATE}\\s*\\{([\\s\\S]*)\\}$`);
+
+/**
+ * Skip spaces and at most one line break, as TeX does between a command and its arguments
+ */
+const skipArgumentSpace = (source: string, index: number): number => {
+  let i = index;
+  while (source[i] === ' ' || source[i] === '\t') i++;
+  if (source[i] === '\n') {
+    i++;
+    while (source[i] === ' ' || source[i] === '\t') i++;
+  }
+  return i;
+};
+
+/**
+ * Read a {...}, [...] or <...> argument starting at index, returning its content and the index after it
+ */
+const readArgument = (
+  source: string,
+  index: number,
+  open: '{' | '[' | '<' = '{'
+): { content: string; end: number } | null => {
+  const start = skipArgumentSpace(source, index);
+  if (source[start] !== open) return null;
+
+  const close = open === '{' ? '}' : open === '[' ? ']' : '>';
+  let depth = 0;
+  for (let i = start; i < source.length; i++) {
+    const char = source[i];
+    if (char === '\\') {
+      i++;
+      continue;
+    }
+    if (char === '{') depth++;
+    if (char === '}') depth--;
+    if (char === close && depth === 0) {
+      return { content: source.slice(start + 1, i), end: i + 1 };
+    }
+    if (depth < 0) return null;
+  }
+  return null;
+};
+
+/**
+ * Read the name of the command whose backslash is at index
+ */
+const readCommandName = (source: string, index: number): { name: string; end: number } => {
+  const match = /^\\(?:([a-zA-Z@]+)(\*?)|([\s\S]))/.exec(source.slice(index, index + 64));
+  if (!match) return { name: '', end: index + 1 };
+  return match[1]
+    ? { name: match[1] + match[2], end: index + match[0].length }
+    : { name: match[3], end: index + 2 };
+};
+
+/**
+ * Find the \end matching a \begin of the same environment, starting after the \begin
+ */
+const findEnvironmentEnd = (source: string, name: string, from: number): { bodyEnd: number; end: number } | null => {
+  const escapedName = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const pattern = new RegExp(`\\\\(begin|end)\\{${escapedName}\\}`, 'g');
+  pattern.lastIndex = from;
+
+  let depth = 1;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source))) {
+    depth += match[1] === 'begin' ? 1 : -1;
+    if (depth === 0) {
+      return { bodyEnd: match.index, end: match.index + match[0].length };
+    }
+  }
+  return null;
+};
+
+/**
+ * Find every use of a command with its overlay specification, options and arguments
+ */
+const findCommands = (
+  source: string,
+  name: string,
+  argumentCount: number = 1
+): { options?: string; args: string[]; start: number; end: number }[] => {
+  const commands: { options?: string; args: string[]; start: number; end: number }[] = [];
+  const pattern = new RegExp(`\\\\${name}(?![a-zA-Z])\\*?`, 'g');
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source))) {
+    let index = match.index + match[0].length;
+    const overlay = readArgument(source, index, '<');
+    if (overlay) index = overlay.end;
+    const options = readArgument(source, index, '[');
+    if (options) index = options.end;
+
+    const args: string[] = [];
+    for (let i = 0; i < argumentCount; i++) {
+      const arg = readArgument(source, index);
+      if (!arg) break;
+      args.push(arg.content);
+      index = arg.end;
+    }
+
+    if (args.length === argumentCount) {
+      commands.push({ options: options?.content, args, start: match.index, end: index });
+      pattern.lastIndex = index;
+    }
+  }
+
+  return commands;
+};
+
+/**
+ * Remove the spans of commands found by findCommands from the source
+ */
+const removeSpans = (source: string, spans: { start: number; end: number }[]): string =>
+  spans
+    .slice()
+    .sort((a, b) => b.start - a.start)
+    .reduce((result, span) => result.slice(0, span.start) + result.slice(span.end), source);
+
+/**
+ * Drop % comments, keeping verbatim environments as they are
+ */
+const stripComments = (source: string): string => {
+  let verbatimEnvironment: string | null = null;
+  const lines: string[] = [];
+
+  source.split('\n').forEach(line => {
+    if (verbatimEnvironment) {
+      if (line.includes(`\\end{${verbatimEnvironment}}`)) verbatimEnvironment = null;
+      lines.push(line);
+      return;
+    }
+
+    let commentStart = -1;
+    for (let i = 0; i < line.length; i++) {
+      if (line[i] === '\\') {
+        i++;
+      } else if (line[i] === '%') {
+        commentStart = i;
+        break;
+      }
+    }
+
+    // A line holding only a comment doesn't end a paragraph
+    if (commentStart >= 0 && !line.slice(0, commentStart).trim()) return;
+    const stripped = commentStart >= 0 ? line.slice(0, commentStart) : line;
+
+    const verbatimBegin = /\\begin\{(verbatim|lstlisting)\}/.exec(stripped);
+    if (verbatimBegin && !stripped.includes(`\\end{${verbatimBegin[1]}}`)) {
+      verbatimEnvironment = verbatimBegin[1];
+    }
+    lines.push(stripped);
+  });
+
+  return lines.join('\n');
+};
+
+/**
+ * Split a comma separated option list, keeping commas inside braces
+ */
+const splitOptions = (options: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of options) {
+    if (char === '{') depth++;
+    if (char === '}') depth--;
+    if (char === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current.trim());
+  return parts.filter(part => part);
+};
+
+/**
+ * Parse an xcolor expression such as 'red', 'blue!30' or 'red!50!blue'
+ */
+const parseColor = (expression: string): Color | null => {
+  const [name, percent, mixName] = expression.trim().split('!');
+  const color = NAMED_COLORS[name];
+  if (!color) return null;
+  if (percent === undefined) return { ...color };
+
+  const amount = Number(percent) / 100;
+  const other = NAMED_COLORS[mixName || 'white'];
+  if (isNaN(amount) || amount < 0 || amount > 1 || !other) return null;
+
+  const mix = (a: number, b: number) => Math.round(a * amount + b * (1 - amount));
+  return { r: mix(color.r, other.r), g: mix(color.g, other.g), b: mix(color.b, other.b) };
+};
+
+/**
+ * Move the section and notes of a frame that isn't imported, such as the title page, to the frame after it
+ */
+const carryFrameMarkers = (skipped: FrameSource, frame: FrameSource): FrameSource => ({
+  ...frame,
+  section: frame.section ?? skipped.section,
+  subsection: frame.section ? frame.subsection : frame.subsection ?? skipped.subsection,
+  body: findCommands(skipped.body, 'note').map(note => `\\note{${note.args[0]}}`).join('') + frame.body,
+});
+
+/**
+ * Resolve an image path of an imported document inside the document's directory, or null for paths outside it:
+ * the compiler copies the images it is given, so an untrusted document must not name any file it likes
+ */
+const resolveImagePath = (file: string, baseDirectory?: string): string | null => {
+  let relativePath = file;
+  if (/^([a-zA-Z]:)?[\\/]/.test(file)) {
+    if (!baseDirectory || !file.startsWith(baseDirectory) || !/^[\\/]/.test(file.slice(baseDirectory.length))) return null;
+    relativePath = file.slice(baseDirectory.length + 1);
+  }
+
+  const segments: string[] = [];
+  for (const segment of relativePath.split(/[\\/]/)) {
+    if (segment === '..') {
+      if (segments.length === 0) return null;
+      segments.pop();
+    } else if (segment && segment !== '.') {
+      segments.push(segment);
+    }
+  }
+  if (segments.length === 0) return null;
+  return baseDirectory ? `${baseDirectory}/${segments.join('/')}` : segments.join('/');
+};
+
+/**
+ * Read the directories of \graphicspath{{dir1/}{dir2/}}, which graphicx searches after the document's directory
+ */
+const parseGraphicsPaths = (preamble: string): string[] =>
+  findCommands(preamble, 'graphicspath').flatMap(({ args }) =>
+    Array.from(args[0].matchAll(/\{([^{}]*)\}/g), match => match[1].trim()).filter(Boolean)
+  );
+
+/**
+ * Imports Beamer .tex sources into presentations
+ */
+export class BeamerImportService {
+  private dimensions: SlideDimensions = getSlideDimensions('4:3');
+  private baseDirectory?: string;
+  private graphicsPaths: string[] = [];
+  // Image elements with the path they were included with, to find their files once the document is parsed
+  private imageLookups: { element: SlideElement; file: string }[] = [];
+  private result: BeamerImportResult = this.createResult();
+  private elementCount = 0;
+
+  /**
+   * Import a .tex file chosen by the user
+   */
+  public async importTex(file: File): Promise<BeamerImportResult> {
+    if (!file.name.toLowerCase().endsWith('.tex')) {
+      return { ...this.createResult(), errors: ['File must be a LaTeX (.tex) file'] };
+    }
+
+    try {
+      const source = file.text
+        ? await file.text()
+        : await new Promise<string>((resolve, reject) => {
+          const reader = new FileReader();
+          reader.onload = () => resolve(reader.result as string);
+          reader.onerror = () => reject(new Error('Failed to read file'));
+          reader.readAsText(file);
+        });
+
+      // Electron exposes the file's location, which relative image paths depend on
+      const filePath = (file as File & { path?: string }).path;
+      const baseDirectory = filePath ? filePath.replace(/[\\/][^\\/]*$/, '') : undefined;
+
+      const electronAPI = window.electronAPI;
+      const fileExists = electronAPI
+        ? async (path: string) => (await electronAPI.exportGetFileStats(path)).success
+        : undefined;
+
+      return await this.parseBeamerSource(source, { baseDirectory, fileExists });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      return { ...this.createResult(), errors: [`Import failed: ${errorMessage}`] };
+    }
+  }
+
+  /**
+   * Convert Beamer source into a presentation. Content the importer doesn't recognize is kept as raw LaTeX elements.
+   */
+  public async parseBeamerSource(source: string, options: BeamerImportOptions = {}): Promise<BeamerImportResult> {
+    const result = this.convertSource(source, options);
+    await this.findImageFiles(options.fileExists);
+    return result;
+  }
+
+  private convertSource(source: string, options: BeamerImportOptions): BeamerImportResult {
+    this.result = this.createResult();
+    this.baseDirectory = options.baseDirectory;
+    this.graphicsPaths = [];
+    this.imageLookups = [];
+    this.elementCount = 0;
+
+    const cleanSource = stripComments(source.replace(/\r\n?/g, '\n'));
+    const documentStart = cleanSource.indexOf('\\begin{document}');
+    if (documentStart < 0) {
+      this.result.errors.push('No \\begin{document} found; is this a complete Beamer document?');
+      return this.result;
+    }
+
+    const preamble = cleanSource.slice(0, documentStart);
+    const bodyStart = documentStart + '\\begin{document}'.length;
+    const documentEnd = cleanSource.indexOf('\\end{document}', bodyStart);
+    const body = cleanSource.slice(bodyStart, documentEnd < 0 ? undefined : documentEnd);
+
+    const now = new Date();
+    const settings = createDefaultPresentationSettings();
+    const aspectRatio = this.parseAspectRatio(preamble);
+    settings.slideSize = { ...settings.slideSize, aspectRatio };
+    this.dimensions = getSlideDimensions(aspectRatio);
+
+    const customPreamble = this.parseCustomPreamble(preamble);
+    if (hasCustomPreamble(customPreamble)) {
+      settings.customPreamble = customPreamble;
+    }
+
+    const theme = createDefaultTheme();
+    const themeName = findCommands(preamble, 'usetheme')[0]?.args[0].trim();
+    if (themeName) {
+      const templateId = themeName.toLowerCase();
+      if (latexTemplateManager.getThemeTemplate(templateId)) {
+        theme.beamerThemeTemplate = templateId;
+      } else {
+        this.result.warnings.push(`Beamer theme "${themeName}" is not available; the default theme is used instead`);
+      }
+    }
+
+    this.graphicsPaths = parseGraphicsPaths(preamble);
+    const metadata = this.parseMetadata(preamble);
+    this.warnAboutPreambleCommands(preamble);
+
+    const slides: Slide[] = [];
+    let skippedFrame: FrameSource | undefined;
+    this.collectFrames(body).forEach((frame, index) => {
+      const slideFrame = skippedFrame ? carryFrameMarkers(skippedFrame, frame) : frame;
+      const slide = this.convertFrame(slideFrame, index, now);
+      if (slide) slides.push(slide);
+      skippedFrame = slide ? undefined : slideFrame;
+    });
+
+    if (slides.length === 0) {
+      this.result.errors.push('The document has no frames to import');
+      return this.result;
+    }
+
+    this.result.success = true;
+    this.result.importedSlides = slides.length;
+    this.result.presentation = {
+      id: `presentation-${Date.now()}`,
+      title: metadata.title || 'Imported Presentation',
+      slides,
+      theme,
+      metadata,
+      settings,
+      createdAt: now,
+      updatedAt: now,
+      version: '1.0.0'
+    };
+
+    return this.result;
+  }
+
+  /**
+   * Find the files of imported images the way graphicx does: in the document's directory, then in the
+   * \graphicspath directories, adding the extensions it tries to names without one. Images that aren't
+   * found, or can't be looked up, show the placeholder image.
+   */
+  private async findImageFiles(fileExists?: (path: string) => Promise<boolean>): Promise<void> {
+    for (const { element, file } of this.imageLookups) {
+      const hasExtension = /\.[a-zA-Z0-9]+$/.test(file.split(/[\\/]/).pop() || '');
+      // Without a way to look files up, named files are taken to be in the document's directory
+      if (hasExtension && (!fileExists || this.graphicsPaths.length === 0)) continue;
+
+      const names = hasExtension ? [file] : GRAPHICS_EXTENSIONS.map(extension => `${file}${extension}`);
+      const directories = /^([a-zA-Z]:)?[\\/]/.test(file) ? [''] : ['', ...this.graphicsPaths];
+      const candidates = directories.flatMap(directory =>
+        names.flatMap(name => resolveImagePath(`${directory}${name}`, this.baseDirectory) || [])
+      );
+
+      let imagePath: string | undefined;
+      if (fileExists) {
+        for (const candidate of candidates) {
+          if (await fileExists(candidate)) {
+            imagePath = candidate;
+            break;
+          }
+        }
+      }
+
+      if (imagePath) {
+        element.content = imagePath;
+      } else if (!hasExtension) {
+        element.content = PLACEHOLDER_IMAGE;
+        this.result.warnings.push(`Image ${file} was not found; a placeholder image is shown instead`);
+      }
+    }
+  }
+
+  private createResult(): BeamerImportResult {
+    return {
+      success: false,
+      warnings: [],
+      errors: [],
+      importedSlides: 0,
+      rawLatexBlocks: 0
+    };
+  }
+
+  /**
+   * Read the aspect ratio from the document class options; Beamer defaults to 4:3
+   */
+  private parseAspectRatio(preamble: string): SlideAspectRatio {
+    const options = findCommands(preamble, 'documentclass')[0]?.options || '';
+    const aspectOption = /aspectratio\s*=\s*(\d+)/.exec(options)?.[1];
+    const aspectRatios: Record<string, SlideAspectRatio> = { '169': '16:9', '1610': '16:10', '43': '4:3' };
+
+    if (aspectOption && !aspectRatios[aspectOption]) {
+      this.result.warnings.push(`Aspect ratio ${aspectOption} is not supported; slides use 16:9 instead`);
+      return '16:9';
+    }
+    return aspectOption ? aspectRatios[aspectOption] : '4:3';
+  }
+
+  /**
+   * Collect packages, TikZ libraries and macros the generated preamble doesn't already provide
+   */
+  private parseCustomPreamble(preamble: string) {
+    const customPreamble = createEmptyCustomPreamble();
+
+    findCommands(preamble, 'usepackage').forEach(({ options, args }) => {
+      args[0].split(',').map(name => name.trim()).filter(name => name && !GENERATED_PACKAGES.has(name))
+        .forEach(name => customPreamble.packages.push(`\\usepackage${options !== undefined ? `[${options}]` : ''}{${name}}`));
+    });
+
+    findCommands(preamble, 'usetikzlibrary').forEach(({ args }) => {
+      args[0].split(',').map(name => name.trim()).filter(Boolean)
+        .forEach(name => {
+          if (!customPreamble.tikzLibraries.includes(name)) customPreamble.tikzLibraries.push(name);
+        });
+    });
+
+    const macroPattern = /\\(?:newcommand|providecommand)\*?\s*(?:\{\s*\\([a-zA-Z]+)\s*\}|\\([a-zA-Z]+))/g;
+    let match: RegExpExecArray | null;
+    while ((match = macroPattern.exec(preamble))) {
+      const name = match[1] || match[2];
+      let index = match.index + match[0].length;
+      const argumentCount = readArgument(preamble, index, '[');
+      if (argumentCount) index = argumentCount.end;
+      const defaultArgument = readArgument(preamble, index, '[');
+      const definition = readArgument(preamble, defaultArgument ? defaultArgument.end : index);
+
+      if (!definition || defaultArgument) {
+        this.result.warnings.push(`Macro \\${name} could not be imported`);
+        continue;
+      }
+
+      const macro: LatexMacro = { name, definition: definition.content.trim() };
+      const count = argumentCount ? Number(argumentCount.content) : 0;
+      if (count) macro.argumentCount = count;
+      customPreamble.macros.push(macro);
+    }
+
+    return customPreamble;
+  }
+
+  /**
+   * Read the title page metadata
+   */
+  private parseMetadata(preamble: string): PresentationMetadata {
+    const read = (name: string): string | undefined => {
+      const command = findCommands(preamble, name).pop();
+      return command ? this.toPlainText(command.args[0]) : undefined;
+    };
+
+    const metadata: PresentationMetadata = {
+      ...createDefaultPresentationMetadata(),
+      title: read('title') || '',
+      author: read('author') || '',
+      date: undefined
+    };
+
+    const subtitle = read('subtitle');
+    if (subtitle) metadata.subtitle = subtitle;
+    const institution = read('institute');
+    if (institution) metadata.institution = institution;
+
+    const dateCommand = findCommands(preamble, 'date').pop();
+    // Beamer dates the title page \today unless told otherwise
+    if (!dateCommand || dateCommand.args[0].trim() === '\\today') {
+      metadata.date = new Date();
+    } else if (dateCommand.args[0].trim()) {
+      const date = new Date(this.toPlainText(dateCommand.args[0]));
+      if (isNaN(date.getTime())) {
+        this.result.warnings.push(`Date "${dateCommand.args[0].trim()}" could not be imported`);
+      } else {
+        metadata.date = date;
+      }
+    }
+
+    return metadata;
+  }
+
+  /**
+   * Warn about top level preamble commands the presentation model has no place for
+   */
+  private warnAboutPreambleCommands(preamble: string): void {
+    const skipped = new Set<string>();
+    let depth = 0;
+
+    for (let i = 0; i < preamble.length; i++) {
+      const char = preamble[i];
+      if (char === '{') depth++;
+      if (char === '}') depth--;
+      if (char !== '\\') continue;
+
+      const { name, end } = readCommandName(preamble, i);
+      const baseName = name.replace(/\*$/, '');
+      if (depth === 0 && /^[a-zA-Z]+$/.test(baseName) && !HANDLED_PREAMBLE_COMMANDS.has(baseName)) {
+        skipped.add(`\\${baseName}`);
+      }
+      // The name a macro definition introduces is not a command in use
+      if (baseName === 'newcommand' || baseName === 'providecommand') {
+        const definedName = /^\s*\\[a-zA-Z]+/.exec(preamble.slice(end));
+        i = end + (definedName ? definedName[0].length : 0) - 1;
+        continue;
+      }
+      i = end - 1;
+    }
+
+    if (skipped.size > 0) {
+      this.result.warnings.push(`Preamble commands not imported: ${Array.from(skipped).join(', ')}`);
+    }
+  }
+
+  /**
+   * Find the frames of the document body along with the section they start
+   */
+  private collectFrames(body: string): FrameSource[] {
+    const frames: FrameSource[] = [];
+    const pattern = /\\(begin\{frame\}|frame(?![a-zA-Z])|section(?![a-zA-Z])\*?|subsection(?![a-zA-Z])\*?|note(?![a-zA-Z]))/g;
+    let section: string | undefined;
+    let subsection: string | undefined;
+    let skippedContent = false;
+    let index = 0;
+    let match: RegExpExecArray | null;
+
+    const checkSkipped = (text: string) => {
+      if (text.replace(/\\(titlepage|maketitle)(?![a-zA-Z])/g, '').trim()) skippedContent = true;
+    };
+
+    while ((match = pattern.exec(body))) {
+      checkSkipped(body.slice(index, match.index));
+      let end = match.index + match[0].length;
+      const command = match[1];
+
+      if (command === 'begin{frame}') {
+        const environmentEnd = findEnvironmentEnd(body, 'frame', end);
+        if (!environmentEnd) {
+          this.result.warnings.push('A frame is missing its \\end{frame} and was not imported');
+          break;
+        }
+
+        // Overlay specification, options, title and subtitle
+        let contentStart = end;
+        const overlay = readArgument(body, contentStart, '<');
+        if (overlay) contentStart = overlay.end;
+        const options = readArgument(body, contentStart, '[');
+        if (options) contentStart = options.end;
+        const title = readArgument(body, contentStart);
+        if (title) contentStart = title.end;
+        const subtitle = title && readArgument(body, contentStart);
+        if (subtitle) contentStart = subtitle.end;
+
+        const frameBody = subtitle
+          ? `\\framesubtitle{${subtitle.content}}${body.slice(contentStart, environmentEnd.bodyEnd)}`
+          : body.slice(contentStart, environmentEnd.bodyEnd);
+        frames.push({ title: title?.content, body: frameBody, section, subsection });
+        section = undefined;
+        subsection = undefined;
+        end = environmentEnd.end;
+      } else if (command === 'frame') {
+        const overlay = readArgument(body, end, '<');
+        const options = readArgument(body, overlay ? overlay.end : end, '[');
+        const frameBody = readArgument(body, options ? options.end : overlay ? overlay.end : end);
+        if (frameBody) {
+          frames.push({ body: frameBody.content, section, subsection });
+          section = undefined;
+          subsection = undefined;
+          end = frameBody.end;
+        }
+      } else if (command === 'note') {
+        const note = findCommands(body.slice(match.index), 'note')[0];
+        if (note && note.start === 0) {
+          const previous = frames[frames.length - 1];
+          if (previous) previous.body += `\\note{${note.args[0]}}`;
+          end = match.index + note.end;
+        }
+      } else {
+        const shortTitle = readArgument(body, end, '[');
+        const heading = readArgument(body, shortTitle ? shortTitle.end : end);
+        if (heading) {
+          if (command.startsWith('sub')) {
+            subsection = this.toPlainText(heading.content);
+          } else {
+            section = this.toPlainText(heading.content);
+            subsection = undefined;
+          }
+          end = heading.end;
+        }
+      }
+
+      index = end;
+      pattern.lastIndex = end;
+    }
+    checkSkipped(body.slice(index));
+
+    if (skippedContent) {
+      this.result.warnings.push('Content outside of frames was not imported');
+    }
+
+    return frames;
+  }
+
+  /**
+   * Convert a frame into a slide, or return null for the title page frame the generator recreates
+   */
+  private convertFrame(frame: FrameSource, index: number, now: Date): Slide | null {
+    let body = frame.body;
+    let title = frame.title;
+
+    const frameTitle = findCommands(body, 'frametitle')[0];
+    if (frameTitle) title = frameTitle.args[0];
+    const subtitles = findCommands(body, 'framesubtitle');
+    const notes = findCommands(body, 'note');
+    body = removeSpans(body, [...(frameTitle ? [frameTitle] : []), ...subtitles, ...notes]);
+
+    if (/^\\(titlepage|maketitle)$/.test(body.trim()) && !title) {
+      return null;
+    }
+
+    const layout: LayoutState = { elements: [], y: CONTENT_TOP, step: 1, align: 'left' };
+
+    subtitles.forEach(subtitle => {
+      const runs = this.parseInlineText(subtitle.args[0], { italic: true });
+      if (runs) {
+        this.addTextElement(layout, runs);
+      } else {
+        this.addRawElement(layout, `\\textit{${subtitle.args[0].trim()}}`);
+      }
+    });
+
+    this.convertBlocks(this.splitBlocks(body), layout);
+
+    const slide: Slide = {
+      id: `slide-${index + 1}-${Date.now()}`,
+      title: title ? this.toPlainText(title) : '',
+      elements: layout.elements,
+      connections: [],
+      layout: createDefaultSlideLayout(),
+      background: createDefaultBackground(),
+      notes: notes.map(note => this.toPlainText(note.args[0], true)).join('\n\n'),
+      createdAt: now,
+      updatedAt: now
+    };
+    if (frame.section) slide.section = frame.section;
+    if (frame.subsection) slide.subsection = frame.subsection;
+
+    if (layout.y > getCanvasBaseHeight(this.dimensions)) {
+      this.result.warnings.push(`Slide "${slide.title || index + 1}" holds more content than fits; check its layout`);
+    }
+
+    return slide;
+  }
+
+  /**
+   * Split frame content into paragraphs, display math, environments and standalone commands
+   */
+  private splitBlocks(source: string): ContentBlock[] {
+    const blocks: ContentBlock[] = [];
+    let paragraph = '';
+
+    const flush = () => {
+      if (paragraph.trim()) blocks.push({ kind: 'paragraph', source: paragraph.trim() });
+      paragraph = '';
+    };
+
+    let i = 0;
+    while (i < source.length) {
+      const blankLine = /^\n[ \t]*\n/.exec(source.slice(i, i + 64));
+      if (blankLine) {
+        flush();
+        i += blankLine[0].length;
+        continue;
+      }
+
+      const char = source[i];
+      if (char === '{') {
+        const group = readArgument(source, i);
+        const end = group ? group.end : source.length;
+        paragraph += source.slice(i, end);
+        i = end;
+        continue;
+      }
+
+      if (source.startsWith('$$', i) || source.startsWith('\\[', i)) {
+        const closing = source.startsWith('$$', i) ? '$$' : '\\]';
+        const close = source.indexOf(closing, i + 2);
+        const end = close < 0 ? source.length : close + 2;
+        flush();
+        blocks.push({ kind: 'displayMath', source: source.slice(i, end) });
+        i = end;
+        continue;
+      }
+
+      if (char !== '\\') {
+        paragraph += char;
+        i++;
+        continue;
+      }
+
+      const { name, end } = readCommandName(source, i);
+      const baseName = name.replace(/\*$/, '');
+
+      if (name === 'begin') {
+        const environment = readArgument(source, end);
+        const environmentEnd = environment && findEnvironmentEnd(source, environment.content, environment.end);
+        if (environment && environmentEnd) {
+          flush();
+          blocks.push({
+            kind: 'environment',
+            name: environment.content,
+            source: source.slice(i, environmentEnd.end),
+            body: source.slice(environment.end, environmentEnd.bodyEnd)
+          });
+          i = environmentEnd.end;
+          continue;
+        }
+      }
+
+      if (baseName === 'includegraphics' || baseName === 'pause' || IGNORED_LAYOUT_COMMANDS.has(baseName)) {
+        let commandEnd = end;
+        if (baseName === 'includegraphics') {
+          const options = readArgument(source, commandEnd, '[');
+          if (options) commandEnd = options.end;
+        }
+        if (baseName === 'includegraphics' || baseName === 'vspace') {
+          const argument = readArgument(source, commandEnd);
+          if (argument) commandEnd = argument.end;
+        }
+        flush();
+        blocks.push({ kind: 'command', name: baseName, source: source.slice(i, commandEnd) });
+        i = commandEnd;
+        continue;
+      }
+
+      paragraph += source.slice(i, end);
+      i = end;
+    }
+    flush();
+
+    return blocks;
+  }
+
+  /**
+   * Turn content blocks into elements stacked from the top of the slide
+   */
+  private convertBlocks(blocks: ContentBlock[], layout: LayoutState): void {
+    blocks.forEach(block => {
+      switch (block.kind) {
+        case 'paragraph':
+          this.convertParagraph(block.source, layout);
+          break;
+        case 'displayMath':
+          this.addMathElement(layout, block.source);
+          break;
+        case 'command':
+          if (block.name === 'pause') {
+            layout.step++;
+          } else if (block.name === 'includegraphics') {
+            this.convertImage(block.source, layout);
+          }
+          break;
+        case 'environment':
+          this.convertEnvironment(block, layout);
+          break;
+      }
+    });
+  }
+
+  private convertEnvironment(block: Extract<ContentBlock, { kind: 'environment' }>, layout: LayoutState): void {
+    const { name, body } = block;
+
+    if (name === 'itemize' || name === 'enumerate') {
+      if (!this.convertList(name, body, layout)) this.addRawElement(layout, block.source);
+    } else if (name === 'center' || name === 'figure') {
+      const align = layout.align;
+      layout.align = 'center';
+      this.convertBlocks(this.splitBlocks(body.replace(/^\s*\[[^\]]*\]/, '')), layout);
+      layout.align = align;
+    } else if (name === 'tikzpicture') {
+      if (!this.convertTikzPicture(body, layout)) this.addRawElement(layout, block.source);
+    } else if (MATH_ENVIRONMENTS.has(name)) {
+      this.addMathElement(layout, block.source);
+    } else if (CODE_ENVIRONMENTS.has(name)) {
+      this.convertCode(name, body, layout);
+    } else {
+      this.addRawElement(layout, block.source);
+    }
+  }
+
+  private convertParagraph(source: string, layout: LayoutState): void {
+    if (/(^|[^\\])\$|\\\(/.test(source)) {
+      this.addMathElement(layout, source);
+      return;
+    }
+
+    const runs = this.parseInlineText(source);
+    if (runs && runs.length > 0) {
+      this.addTextElement(layout, runs);
+    } else if (!runs) {
+      this.addRawElement(layout, source);
+    }
+  }
+
+  /**
+   * Convert a flat itemize or enumerate; returns false when it has to stay raw LaTeX
+   */
+  private convertList(name: string, body: string, layout: LayoutState): boolean {
+    let content = body;
+    let revealListItems = false;
+
+    const options = readArgument(content, 0, '[');
+    if (options) {
+      if (options.content.trim() !== '<+->') return false;
+      revealListItems = true;
+      content = content.slice(options.end);
+    }
+    if (/\\begin\{(itemize|enumerate|description)\}/.test(content)) return false;
+
+    const parts = content.split(/\\item(?![a-zA-Z])/);
+    if (parts[0].trim() || parts.length < 2) return false;
+
+    const lines: TextRun[][] = [];
+    const overlays: string[] = [];
+    for (const part of parts.slice(1)) {
+      let text = part;
+      const overlay = readArgument(text, 0, '<');
+      if (overlay) {
+        overlays.push(overlay.content.trim());
+        text = text.slice(overlay.end);
+      }
+      if (readArgument(text, 0, '[') || /(^|[^\\])\$|\\\(/.test(text)) return false;
+
+      const runs = this.parseInlineText(text);
+      if (!runs) return false;
+      lines.push(runs.map(run => ({ ...run, text: run.text.replace(/\n/g, ' ') })));
+    }
+
+    // Only a reveal of every item in turn has a counterpart on the canvas
+    if (overlays.length > 0) {
+      if (overlays.length !== lines.length || overlays.some(overlay => overlay !== '+-')) return false;
+      revealListItems = true;
+    }
+
+    const runs = normalizeTextRuns(lines.flatMap((line, index) => (index > 0 ? [{ text: '\n' }, ...line] : line)));
+    const element = this.addTextElement(layout, runs);
+    element.properties.listType = name === 'itemize' ? 'bullet' : 'numbered';
+    if (revealListItems) {
+      element.properties.overlay = { ...element.properties.overlay, revealListItems: true };
+      layout.step += lines.length - 1;
+    }
+    return true;
+  }
+
+  private convertImage(source: string, layout: LayoutState): void {
+    const options = readArgument(source, '\\includegraphics'.length, '[');
+    const path = readArgument(source, options ? options.end : '\\includegraphics'.length);
+    if (!path) {
+      this.addRawElement(layout, source);
+      return;
+    }
+
+    const contentWidth = CANVAS_BASE_WIDTH - 2 * CONTENT_MARGIN;
+    const canvasHeight = getCanvasBaseHeight(this.dimensions);
+    let width: number | undefined;
+    let height: number | undefined;
+    let rotation = 0;
+
+    splitOptions(options?.content || '').forEach(option => {
+      const [key, value = ''] = option.split('=').map(part => part.trim());
+      if (key === 'width') width = this.parseLength(value, contentWidth);
+      else if (key === 'height') height = this.parseLength(value, canvasHeight);
+      else if (key === 'angle') rotation = -Number(value) || 0; // graphicx angles run counter-clockwise
+    });
+
+    // The natural size is unknown here; keepaspectratio in the export keeps the image undistorted
+    if (width === undefined && height === undefined) width = contentWidth / 2;
+    width = Math.min(width ?? (height as number) * 4 / 3, contentWidth);
+    height = height ?? width * 3 / 4;
+
+    const file = path.content.trim();
+    const imagePath = resolveImagePath(file, this.baseDirectory);
+    if (!imagePath) {
+      this.result.warnings.push(`Image ${file} is outside the document's folder and was not imported`);
+    }
+    const element = this.placeElement(layout, {
+      type: 'image',
+      position: { x: 0, y: 0 },
+      size: { width, height },
+      properties: { opacity: 1, alt: file.split(/[\\/]/).pop(), ...(rotation ? { rotation } : {}) },
+      content: imagePath || PLACEHOLDER_IMAGE
+    });
+    if (imagePath) {
+      this.imageLookups.push({ element, file });
+    }
+  }
+
+  /**
+   * Parse a graphicx length into canvas pixels; relative widths are fractions of the given size
+   */
+  private parseLength(value: string, relativeTo: number): number | undefined {
+    const pixelsPerCm = CANVAS_BASE_WIDTH / this.dimensions.usableWidthCm;
+    const match = /^(-?\d*\.?\d*)\s*(cm|mm|in|pt|\\textwidth|\\linewidth|\\columnwidth|\\textheight|\\paperwidth|\\paperheight)$/.exec(value);
+    if (!match) return undefined;
+
+    const amount = match[1] === '' ? 1 : Number(match[1]);
+    const unitsPerCm: Record<string, number> = { cm: 1, mm: 10, in: 1 / 2.54, pt: 28.45 };
+    return unitsPerCm[match[2]]
+      ? (amount / unitsPerCm[match[2]]) * pixelsPerCm
+      : amount * relativeTo;
+  }
+
+  private convertCode(name: string, body: string, layout: LayoutState): void {
+    let code = body;
+    let codeLanguage: CodeLanguage = 'plain';
+    let showLineNumbers = false;
+
+    if (name === 'lstlisting') {
+      const options = readArgument(code, 0, '[');
+      if (options) {
+        code = code.slice(options.end);
+        splitOptions(options.content).forEach(option => {
+          const [key, value = ''] = option.split('=').map(part => part.trim());
+          if (key === 'language') codeLanguage = CODE_LANGUAGES[value.replace(/^\[[^\]]*\]/, '').toLowerCase()] || 'plain';
+          if (key === 'numbers') showLineNumbers = value === 'left' || value === 'right';
+        });
+      }
+    }
+
+    code = code.replace(/^[ \t]*\n/, '').replace(/\s+$/, '');
+    const lineCount = code.split('\n').length;
+
+    this.placeElement(layout, {
+      type: 'code',
+      position: { x: 0, y: 0 },
+      size: { width: CANVAS_BASE_WIDTH - 2 * CONTENT_MARGIN, height: Math.ceil(lineCount * CODE_FONT_SIZE * 1.3 + 16) },
+      properties: {
+        opacity: 1,
+        fontSize: CODE_FONT_SIZE,
+        codeLanguage,
+        showLineNumbers,
+        highlightedLines: []
+      },
+      content: code
+    });
+  }
+
+  /**
+   * Convert a picture of rectangles, circles, ellipses, straight lines and text nodes at absolute
+   * coordinates into shapes; returns false when the picture has to stay raw LaTeX
+   */
+  private convertTikzPicture(body: string, layout: LayoutState): boolean {
+    if (readArgument(body, 0, '[')) return false;
+
+    const drafts: { draft: ElementDraft; left: number; top: number; right: number; bottom: number }[] = [];
+    for (const rawStatement of body.split(';')) {
+      const statement = rawStatement.trim();
+      if (!statement) continue;
+
+      const command = /^\\(draw|fill|filldraw|node)(?![a-zA-Z])/.exec(statement);
+      if (!command) return false;
+      let rest = statement.slice(command[0].length);
+      const options = readArgument(rest, 0, '[');
+      if (options) rest = rest.slice(options.end);
+      rest = rest.trim();
+
+      const converted = command[1] === 'node'
+        ? this.convertTikzNode(options?.content || '', rest)
+        : this.convertTikzPath(command[1], options?.content || '', rest);
+      if (!converted) return false;
+      drafts.push(converted);
+    }
+
+    if (drafts.length === 0) return false;
+
+    // Place the picture's bounding box in the flow, flipping TikZ's upward y axis
+    const pixelsPerCm = CANVAS_BASE_WIDTH / this.dimensions.usableWidthCm;
+    const left = Math.min(...drafts.map(d => d.left));
+    const right = Math.max(...drafts.map(d => d.right));
+    const top = Math.max(...drafts.map(d => d.top));
+    const bottom = Math.min(...drafts.map(d => d.bottom));
+    const pictureWidth = (right - left) * pixelsPerCm;
+    const originX = layout.align === 'center' ? (CANVAS_BASE_WIDTH - pictureWidth) / 2 : CONTENT_MARGIN;
+
+    drafts.forEach(({ draft, left: x, top: y }) => {
+      const element = this.createElement(draft);
+      element.position = {
+        x: Math.round(originX + (x - left) * pixelsPerCm),
+        y: Math.round(layout.y + (top - y) * pixelsPerCm)
+      };
+      element.size = {
+        width: Math.max(1, Math.round(draft.size.width * pixelsPerCm)),
+        height: Math.max(1, Math.round(draft.size.height * pixelsPerCm))
+      };
+      this.applyOverlayStep(element, layout);
+      layout.elements.push(element);
+    });
+
+    layout.y += Math.round((top - bottom) * pixelsPerCm) + ELEMENT_GAP;
+    return true;
+  }
+
+  /**
+   * Convert a \draw, \fill or \filldraw path; sizes in the returned draft are in centimeters
+   */
+  private convertTikzPath(command: string, options: string, path: string) {
+    const style = this.parseTikzStyle(command, options);
+    if (!style) return null;
+
+    let shapeType: ShapeType;
+    let left: number, top: number, right: number, bottom: number;
+    let match: RegExpExecArray | null;
+
+    if ((match = TIKZ_RECTANGLE.exec(path))) {
+      const [x1, y1, x2, y2] = match.slice(1, 5).map(Number);
+      shapeType = 'rectangle';
+      [left, right, bottom, top] = [Math.min(x1, x2), Math.max(x1, x2), Math.min(y1, y2), Math.max(y1, y2)];
+    } else if ((match = TIKZ_CIRCLE.exec(path)) || (match = TIKZ_ELLIPSE.exec(path))) {
+      const [x, y] = match.slice(1, 3).map(Number);
+      const radiusX = Number(match[3] ?? match[4]);
+      const radiusY = TIKZ_ELLIPSE.test(path) ? Number(match[4]) : radiusX;
+      shapeType = radiusX === radiusY ? 'circle' : 'ellipse';
+      [left, right, bottom, top] = [x - radiusX, x + radiusX, y - radiusY, y + radiusY];
+    } else if ((match = TIKZ_LINE.exec(path))) {
+      let [x1, y1, x2, y2] = match.slice(1, 5).map(Number);
+      // Lines run from the top left to the bottom right of their box, so start at the upper left end
+      if (x1 > x2 || (x1 === x2 && y1 < y2)) {
+        [x1, y1, x2, y2] = [x2, y2, x1, y1];
+        [style.arrowStart, style.arrowEnd] = [style.arrowEnd, style.arrowStart];
+      }
+      if (y2 > y1) return null;
+      shapeType = style.arrowStart || style.arrowEnd ? 'arrow' : 'line';
+      [left, right, bottom, top] = [x1, x2, y2, y1];
+    } else {
+      return null;
+    }
+
+    if (shapeType !== 'line' && shapeType !== 'arrow') {
+      delete style.arrowStart;
+      delete style.arrowEnd;
+    } else {
+      delete style.fillColor;
+      style.arrowStart = !!style.arrowStart;
+      style.arrowEnd = !!style.arrowEnd;
+    }
+
+    const draft: ElementDraft = {
+      type: 'shape',
+      position: { x: 0, y: 0 },
+      size: { width: right - left, height: top - bottom },
+      properties: { ...style, shapeType, connectionPoints: generateConnectionPoints(shapeType) }
+    };
+    return { draft, left, top, right, bottom };
+  }
+
+  /**
+   * Read the style of a path; returns null for options without a counterpart in shape properties
+   */
+  private parseTikzStyle(command: string, options: string): ElementProperties | null {
+    const draws = command !== 'fill';
+    const fills = command !== 'draw';
+    const style: ElementProperties = { opacity: 1 };
+    if (draws) {
+      style.strokeColor = { r: 0, g: 0, b: 0 };
+      style.strokeWidth = TIKZ_LINE_WIDTHS.thin;
+    }
+    if (fills) style.fillColor = { r: 0, g: 0, b: 0 };
+
+    for (const option of splitOptions(options)) {
+      const [key, value = ''] = option.split('=').map(part => part.trim());
+      const color = parseColor(value || key);
+      const arrow = /^([^-=]*)-([^-=]*)$/.exec(option);
+
+      if (!value && color) {
+        if (draws) style.strokeColor = color;
+        if (fills) style.fillColor = { ...color };
+      } else if (key === 'draw' && !value) {
+        style.strokeColor = style.strokeColor || { r: 0, g: 0, b: 0 };
+        style.strokeWidth = style.strokeWidth || TIKZ_LINE_WIDTHS.thin;
+      } else if (key === 'fill' && !value) {
+        style.fillColor = style.fillColor || { r: 0, g: 0, b: 0 };
+      } else if ((key === 'draw' || key === 'color') && color) {
+        style.strokeColor = color;
+        if (!style.strokeWidth) style.strokeWidth = TIKZ_LINE_WIDTHS.thin;
+      } else if (key === 'fill' && color) {
+        style.fillColor = color;
+      } else if (TIKZ_LINE_WIDTHS[key] !== undefined) {
+        style.strokeWidth = TIKZ_LINE_WIDTHS[key];
+      } else if (key === 'line width' && /^\d*\.?\d+pt$/.test(value)) {
+        style.strokeWidth = parseFloat(value);
+      } else if (key === 'dashed') {
+        style.strokeDashArray = [3, 3];
+      } else if (key === 'dotted') {
+        style.strokeDashArray = [1, 2];
+      } else if (key === 'rounded corners') {
+        style.cornerRadius = value ? parseFloat(value) : 4;
+      } else if (key === 'opacity' && !isNaN(Number(value))) {
+        style.opacity = Number(value);
+      } else if (arrow && TIKZ_ARROW_TIPS.has(arrow[1]) && TIKZ_ARROW_TIPS.has(arrow[2])) {
+        style.arrowStart = arrow[1] !== '';
+        style.arrowEnd = arrow[2] !== '';
+      } else {
+        return null;
+      }
+    }
+
+    return style;
+  }
+
+  /**
+   * Convert a text node centered on a point; sizes in the returned draft are in centimeters
+   */
+  private convertTikzNode(options: string, rest: string) {
+    const match = TIKZ_NODE.exec(rest);
+    if (!match) return null;
+
+    let textColor: Color = { r: 0, g: 0, b: 0 };
+    for (const option of splitOptions(options)) {
+      const [key, value = ''] = option.split('=').map(part => part.trim());
+      const color = parseColor(value || key);
+      if (!color || (value && key !== 'text' && key !== 'color')) return null;
+      textColor = color;
+    }
+
+    const runs = this.parseInlineText(match[3]);
+    if (!runs || /(^|[^\\])\$/.test(match[3])) return null;
+
+    const fontSize = BODY_FONT_SIZE * 0.8;
+    const pixelsPerCm = CANVAS_BASE_WIDTH / this.dimensions.usableWidthCm;
+    const content = runs.map(run => run.text).join('');
+    const width = (content.length * fontSize * 0.55 + 10) / pixelsPerCm;
+    const height = (fontSize * 1.4) / pixelsPerCm;
+    const [x, y] = [Number(match[1]), Number(match[2])];
+
+    const draft: ElementDraft = {
+      type: 'text',
+      position: { x: 0, y: 0 },
+      size: { width, height },
+      properties: {
+        ...this.createTextProperties('center'),
+        fontSize,
+        textColor,
+        ...(hasRichText(content, runs) ? { richText: runs } : {})
+      },
+      content
+    };
+    return { draft, left: x - width / 2, top: y + height / 2, right: x + width / 2, bottom: y - height / 2 };
+  }
+
+  /**
+   * Convert inline LaTeX into text runs; returns null when it uses anything runs can't express
+   */
+  private parseInlineText(source: string, baseFormat: TextRunFormat = {}): TextRun[] | null {
+    const runs: TextRun[] = [];
+    let format = baseFormat;
+    let text = '';
+
+    const flush = () => {
+      if (text) runs.push({ ...format, text });
+      text = '';
+    };
+
+    for (let i = 0; i < source.length; i++) {
+      const char = source[i];
+
+      if (char === '\\') {
+        const { name, end } = readCommandName(source, i);
+        i = end - 1;
+
+        if (ESCAPED_CHARACTERS.has(name)) {
+          text += name;
+        } else if (name === '\\') {
+          text += '\n';
+          const spacing = readArgument(source, end, '[');
+          if (spacing) i = spacing.end - 1;
+        } else if (TEXT_SYMBOLS[name] !== undefined) {
+          text += TEXT_SYMBOLS[name];
+          // TeX drops the spaces after a command word
+          if (/^[a-zA-Z]/.test(name)) {
+            while (source[i + 1] === ' ') i++;
+            if (source.startsWith('{}', i + 1)) i += 2;
+          }
+        } else if (FORMAT_DECLARATIONS[name]) {
+          flush();
+          format = { ...format, ...FORMAT_DECLARATIONS[name] };
+          while (source[i + 1] === ' ') i++;
+        } else if (FORMAT_COMMANDS[name] || name === 'textcolor' || name === 'href' || name === 'url') {
+          let argumentStart = end;
+          let runFormat: TextRunFormat = FORMAT_COMMANDS[name] || {};
+
+          if (name === 'textcolor' || name === 'href') {
+            const first = readArgument(source, argumentStart);
+            if (!first) return null;
+            if (name === 'textcolor') {
+              const color = parseColor(first.content);
+              if (!color) return null;
+              runFormat = { color };
+            } else {
+              runFormat = { link: first.content.trim() };
+            }
+            argumentStart = first.end;
+          }
+
+          const argument = readArgument(source, argumentStart);
+          if (!argument) return null;
+          flush();
+          if (name === 'url') {
+            runs.push({ ...format, link: argument.content.trim(), text: argument.content.trim() });
+          } else {
+            const inner = this.parseInlineText(argument.content, { ...format, ...runFormat });
+            if (!inner) return null;
+            runs.push(...inner);
+          }
+          i = argument.end - 1;
+        } else {
+          return null;
+        }
+      } else if (char === '{') {
+        const group = readArgument(source, i);
+        if (!group) return null;
+        flush();
+        const inner = this.parseInlineText(group.content, format);
+        if (!inner) return null;
+        runs.push(...inner);
+        i = group.end - 1;
+      } else if ('}$&#^_'.includes(char)) {
+        return null;
+      } else if (/\s/.test(char)) {
+        let end = i;
+        while (end + 1 < source.length && /\s/.test(source[end + 1])) end++;
+        // A blank line starts a new paragraph
+        text += (source.slice(i, end + 1).match(/\n/g) || []).length > 1 ? '\n' : ' ';
+        i = end;
+      } else if (char === '~') {
+        text += ' ';
+      } else if (source.startsWith('---', i)) {
+        text += '—';
+        i += 2;
+      } else if (source.startsWith('--', i)) {
+        text += '–';
+        i += 1;
+      } else if (source.startsWith('``', i)) {
+        text += '“';
+        i += 1;
+      } else if (source.startsWith("''", i)) {
+        text += '”';
+        i += 1;
+      } else {
+        text += char;
+      }
+    }
+    flush();
+
+    // Trim spaces around line breaks and at the ends
+    const trimmed = normalizeTextRuns(runs).map(run => ({ ...run, text: run.text.replace(/ *\n */g, '\n') }));
+    if (trimmed.length > 0) {
+      trimmed[0].text = trimmed[0].text.replace(/^\s+/, '');
+      trimmed[trimmed.length - 1].text = trimmed[trimmed.length - 1].text.replace(/\s+$/, '');
+    }
+    return normalizeTextRuns(trimmed);
+  }
+
+  /**
+   * Convert inline LaTeX into plain text, dropping commands that plain text can't express
+   */
+  private toPlainText(source: string, keepLineBreaks: boolean = false): string {
+    const prepared = source.replace(/\\and(?![a-zA-Z])/g, ', ');
+    const runs = this.parseInlineText(prepared);
+    const text = runs
+      ? runs.map(run => run.text).join('')
+      : prepared.replace(/\\[a-zA-Z]+\*?(\[[^\]]*\])?/g, '').replace(/[{}]/g, '');
+
+    return keepLineBreaks
+      ? text.trim()
+      : text.replace(/\s*\n\s*/g, ' ').replace(/ ,/g, ',').replace(/\s+/g, ' ').trim();
+  }
+
+  private createTextProperties(textAlign: 'left' | 'center'): ElementProperties {
+    return {
+      fontSize: BODY_FONT_SIZE,
+      fontFamily: 'Arial',
+      textColor: { r: 0, g: 0, b: 0 },
+      fontWeight: 'normal',
+      fontStyle: 'normal',
+      textAlign,
+      opacity: 1
+    };
+  }
+
+  /**
+   * Estimate the height text takes when wrapped to a width
+   */
+  private estimateTextHeight(content: string, fontSize: number, width: number): number {
+    const charactersPerLine = Math.max(1, Math.floor(width / (fontSize * 0.5)));
+    const lineCount = content.split('\n')
+      .reduce((count, line) => count + Math.max(1, Math.ceil(line.length / charactersPerLine)), 0);
+    return Math.ceil(lineCount * fontSize * 1.4 + 10);
+  }
+
+  private addTextElement(layout: LayoutState, runs: TextRun[]): SlideElement {
+    const content = runs.map(run => run.text).join('');
+    const width = CANVAS_BASE_WIDTH - 2 * CONTENT_MARGIN;
+
+    return this.placeElement(layout, {
+      type: 'text',
+      position: { x: 0, y: 0 },
+      size: { width, height: this.estimateTextHeight(content, BODY_FONT_SIZE, width) },
+      properties: {
+        ...this.createTextProperties(layout.align),
+        ...(hasRichText(content, runs) ? { richText: runs } : {})
+      },
+      content
+    });
+  }
+
+  /**
+   * Add text with math, which the generator emits as written
+   */
+  private addMathElement(layout: LayoutState, source: string): void {
+    const content = source.trim();
+    const width = CANVAS_BASE_WIDTH - 2 * CONTENT_MARGIN;
+
+    this.placeElement(layout, {
+      type: 'text',
+      position: { x: 0, y: 0 },
+      size: { width, height: this.estimateTextHeight(content, BODY_FONT_SIZE, width) },
+      properties: { ...this.createTextProperties(layout.align), hasMath: true },
+      content
+    });
+  }
+
+  /**
+   * Keep content the importer doesn't understand as a raw LaTeX element
+   */
+  private addRawElement(layout: LayoutState, source: string): void {
+    const content = source.trim();
+    const lineCount = content.split('\n').length;
+
+    this.result.rawLatexBlocks++;
+    this.placeElement(layout, {
+      type: 'latex',
+      position: { x: 0, y: 0 },
+      size: { width: CANVAS_BASE_WIDTH - 2 * CONTENT_MARGIN, height: Math.max(40, lineCount * 20 + 10) },
+      properties: { opacity: 1 },
+      content
+    });
+  }
+
+  /**
+   * Add an element below the content placed so far
+   */
+  private placeElement(layout: LayoutState, draft: ElementDraft): SlideElement {
+    const element = this.createElement(draft);
+    const size: Size = { width: Math.round(draft.size.width), height: Math.round(draft.size.height) };
+    element.size = size;
+    element.position = {
+      x: layout.align === 'center' ? Math.round((CANVAS_BASE_WIDTH - size.width) / 2) : CONTENT_MARGIN,
+      y: layout.y
+    };
+    this.applyOverlayStep(element, layout);
+
+    layout.elements.push(element);
+    layout.y += size.height + ELEMENT_GAP;
+    return element;
+  }
+
+  private applyOverlayStep(element: SlideElement, layout: LayoutState): void {
+    if (layout.step > 1) {
+      element.properties.overlay = { ...element.properties.overlay, appearOnStep: layout.step };
+    }
+  }
+
+  private createElement(draft: ElementDraft): SlideElement {
+    const now = new Date();
+    this.elementCount++;
+    return {
+      ...draft,
+      properties: { ...draft.properties },
+      id: `element-${Date.now()}-${this.elementCount}-${Math.random().toString(36).substr(2, 9)}`,
+      createdAt: now,
+      updatedAt: now
+    };
+  }
+}
+
+// Export singleton instance
+export const beamerImportService = new BeamerImportService();
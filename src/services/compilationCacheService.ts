@@ -97,6 +97,31 @@ export class CompilationCacheService {
     presentation: Presentation,
     latexCode: string,
     result: CompilationResult
+  ): void {
+    this.addEntry(slide, presentation, latexCode, result);
+    this.enforceConstraints();
+    this.saveToPersistence();
+  }
+
+  /**
+   * Cache the compilation results of several slides, persisting the cache once for all of them
+   */
+  public cacheResults(
+    presentation: Presentation,
+    results: { slide: Slide; latexCode: string; result: CompilationResult }[]
+  ): void {
+    if (results.length === 0) return;
+
+    results.forEach(({ slide, latexCode, result }) => this.addEntry(slide, presentation, latexCode, result));
+    this.enforceConstraints();
+    this.saveToPersistence();
+  }
+
+  private addEntry(
+    slide: Slide,
+    presentation: Presentation,
+    latexCode: string,
+    result: CompilationResult
   ): void {
     const slideHash = this.hashSlide(slide);
     const presentationHash = this.hashPresentation(presentation);
@@ -115,8 +140,6 @@ export class CompilationCacheService {
     };
 
     this.cache.set(cacheKey, entry);
-    this.enforceConstraints();
-    this.saveToPersistence();
   }
 
   /**
@@ -226,8 +249,14 @@ export class CompilationCacheService {
    * Export cache data for backup
    */
   public exportCache(): string {
+    // PDFs and page images would quickly fill localStorage; results restored without them are compiled again
+    const entries = Array.from(this.cache.entries()).map(([key, entry]) => {
+      const { pdfBuffer, imageBuffer, pageImages, ...compilationResult } = entry.compilationResult;
+      return [key, { ...entry, compilationResult }];
+    });
+
     const cacheData = {
-      entries: Array.from(this.cache.entries()),
+      entries,
       stats: { hitCount: this.hitCount, missCount: this.missCount },
       timestamp: Date.now(),
     };
@@ -305,7 +334,7 @@ export class CompilationCacheService {
         author: presentation.metadata.author,
         subtitle: presentation.metadata.subtitle,
       },
-      updatedAt: presentation.updatedAt.getTime(),
+      // Not updatedAt: it changes with every slide edit, which would invalidate every other slide
     };
 
     return this.hashString(JSON.stringify(hashData));
@@ -370,6 +399,7 @@ export class CompilationCacheService {
     if (result.pdfBuffer) {
       size += result.pdfBuffer.length;
     }
+    size += (result.pageImages || []).reduce((sum, image) => sum + image.length, 0);
     
     // Base object overhead
     size += 1000;
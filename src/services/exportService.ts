@@ -1,12 +1,18 @@
-import { Presentation } from '../types/presentation';
-import { latexGenerator } from './latexGenerator';
+import { Presentation, ChartData, TextRun } from '../types/presentation';
+import { latexGenerator, SpeakerNotesMode } from './latexGenerator';
 import { latexCompiler } from './latexCompiler';
+import { collectImageFiles } from './latexImageFiles';
+import { findUnavailableFonts, getFontFallbackWarning } from './fontAvailability';
+import { resolveChartData, getChartPointX, getChartSeriesColor, getChartSliceColor } from '../utils/chartUtils';
+import { getTextRuns, hasRichText, isSafeLink, splitTextRunsByLine } from '../utils/richText';
+import { tokenizeCode, CODE_TOKEN_COLORS, CODE_HIGHLIGHT_COLOR, CODE_LINE_NUMBER_COLOR } from '../utils/codeHighlighting';
 
 export interface ExportOptions {
   format: 'pdf' | 'latex' | 'pptx' | 'html' | 'json' | 'markdown';
   outputPath?: string;
   quality?: 'low' | 'medium' | 'high';
   includeNotes?: boolean;
+  notesMode?: SpeakerNotesMode; // PDF/LaTeX layout for speaker notes, defaults to handouts when includeNotes is set
   embedFonts?: boolean;
   optimizeImages?: boolean;
   standalone?: boolean;
@@ -160,8 +166,16 @@ export class ExportService {
       message: 'Generating optimized LaTeX source...'
     });
 
+    // Images are compiled from files in the job directory, the only place the sandboxed engine may read
+    const { presentation: exportedPresentation, files: imageFiles } = collectImageFiles(presentation);
+    const files = Object.values(imageFiles).flat();
+
+    // Fonts fontspec can't find fall back to the engine defaults, as in the preview
+    const unavailableFonts = await findUnavailableFonts(exportedPresentation, latexCompiler);
+    const fontWarnings = unavailableFonts.length > 0 ? [getFontFallbackWarning(unavailableFonts)] : [];
+
     // Generate LaTeX source with quality-specific optimizations
-    const latexSource = latexGenerator.generateDocument(presentation, {
+    const latexSource = latexGenerator.generateDocument(exportedPresentation, {
       includePackages: true,
       includeDocumentClass: true,
       optimizeCode: true,
@@ -170,6 +184,8 @@ export class ExportService {
       embedFonts: options.embedFonts !== false, // Default to true for PDF
       optimizeImages: options.optimizeImages !== false, // Default to true
       includeNotes: options.includeNotes || false,
+      notesMode: this.getNotesMode(options),
+      unavailableFonts,
       ...latexOptions
     });
 
@@ -181,7 +197,10 @@ export class ExportService {
 
     // Enhanced compilation options
     const compilationOptions = {
-      compiler: this.selectOptimalCompiler(options.quality || 'high'),
+      compiler: presentation.settings?.latexEngine || this.selectOptimalCompiler(options.quality || 'high'),
+      backend: presentation.settings?.compilerBackend,
+      shell: !!presentation.settings?.allowShellEscape,
+      files: files.length > 0 ? files : undefined,
       timeout: this.getTimeoutForQuality(options.quality || 'high'),
       outputDir: options.outputPath ? require('path').dirname(options.outputPath) : undefined,
       embedFonts: options.embedFonts !== false,
@@ -232,6 +251,7 @@ export class ExportService {
                 resolve({
                   success: true,
                   outputPath: finalPath || result.pdfPath,
+                  warnings: fontWarnings.length > 0 ? fontWarnings : undefined,
                   metadata: {
                     fileSize: result.fileSize || 0,
                     duration: Date.now() - startTime,
@@ -248,7 +268,7 @@ export class ExportService {
                 resolve({
                   success: true,
                   outputPath: result.pdfPath,
-                  warnings: [`Post-processing failed: ${postProcessError.message}`],
+                  warnings: [...fontWarnings, `Post-processing failed: ${postProcessError.message}`],
                   metadata: {
                     fileSize: result.fileSize || 0,
                     duration: Date.now() - startTime,
@@ -263,7 +283,7 @@ export class ExportService {
               resolve({
                 success: false,
                 error: result.errors.map((e: any) => e.message).join('; '),
-                warnings: result.warnings.map((w: any) => w.message)
+                warnings: [...fontWarnings, ...result.warnings.map((w: any) => w.message)]
               });
             }
           }
@@ -280,6 +300,16 @@ export class ExportService {
     }
   }
 
+  /**
+   * Resolve how speaker notes are laid out in LaTeX-based exports
+   */
+  private getNotesMode(options: ExportOptions): SpeakerNotesMode {
+    if (options.notesMode) {
+      return options.notesMode;
+    }
+    return options.includeNotes ? 'notes-under-slide' : 'hidden';
+  }
+
   /**
    * Export to LaTeX source file with clean formatting
    */
@@ -307,6 +337,7 @@ export class ExportService {
         indentLevel: 2,
         quality: options.quality || 'high',
         includeNotes: options.includeNotes || false,
+        notesMode: this.getNotesMode(options),
         standalone: options.standalone !== false, // Default to true for LaTeX export
         embedFonts: options.embedFonts,
         optimizeImages: options.optimizeImages,
@@ -745,11 +776,64 @@ export class ExportService {
         return this.generateImageElementMarkdown(element);
       case 'shape':
         return '<!-- Shape elements not supported in Markdown -->\n\n';
+      case 'chart':
+        return this.generateChartElementMarkdown(element);
+      case 'code':
+        return this.generateCodeElementMarkdown(element);
       default:
         return `<!-- Unsupported element type: ${element.type} -->\n\n`;
     }
   }
 
+  /**
+   * Generate Markdown for code element as a fenced code block
+   */
+  private generateCodeElementMarkdown(element: any): string {
+    if (!element.content) return '';
+
+    const language = element.properties.codeLanguage && element.properties.codeLanguage !== 'plain'
+      ? element.properties.codeLanguage
+      : '';
+    return `\`\`\`${language}\n${element.content.replace(/\s+$/, '')}\n\`\`\`\n\n`;
+  }
+
+  /**
+   * Generate Markdown for chart element as a data table
+   */
+  private generateChartElementMarkdown(element: any): string {
+    if (!element.properties.chartData) return '';
+
+    const chart = resolveChartData(element.properties.chartData);
+    if (chart.series.length === 0) return '';
+
+    const rows = this.getChartTableRows(chart);
+    let markdown = chart.title ? `**${chart.title}**\n\n` : '';
+
+    markdown += `| ${rows[0].join(' | ')} |\n`;
+    markdown += `| ${rows[0].map(() => '---').join(' | ')} |\n`;
+    rows.slice(1).forEach(row => {
+      markdown += `| ${row.join(' | ')} |\n`;
+    });
+
+    return markdown + '\n';
+  }
+
+  /**
+   * Build chart data as table rows: a header of series names, then one row per label
+   */
+  private getChartTableRows(chart: ChartData): string[][] {
+    const pointCount = Math.max(chart.labels.length, ...chart.series.map(series => series.values.length));
+    const header = [chart.xLabel || '', ...chart.series.map(series => series.name)];
+    const rows = Array.from({ length: pointCount }, (_, index) => [
+      chart.chartType === 'scatter'
+        ? String(getChartPointX(chart.series[0], index))
+        : chart.labels[index] || '',
+      ...chart.series.map(series => series.values[index] !== undefined ? String(series.values[index]) : ''),
+    ]);
+
+    return [header, ...rows];
+  }
+
   /**
    * Generate Markdown for text element
    */
@@ -759,20 +843,26 @@ export class ExportService {
     if (!content) return '';
     
     let markdown = '';
+    const runs = hasRichText(content, properties.richText) ? getTextRuns(content, properties.richText) : null;
     
     // Handle lists
     if (properties.listType && properties.listType !== 'none') {
-      const lines = content.split('\n').filter((line: string) => line.trim());
-      if (lines.length > 0) {
+      const lines: string[] = runs
+        ? splitTextRunsByLine(runs).map(line => this.formatTextRunsMarkdown(line))
+        : content.split('\n');
+      const items = lines.filter((line: string) => line.trim());
+      if (items.length > 0) {
         const prefix = properties.listType === 'bullet' ? '- ' : '1. ';
-        markdown = lines.map((line: string, index: number) => {
+        markdown = items.map((line: string, index: number) => {
           const actualPrefix = properties.listType === 'numbered' ? `${index + 1}. ` : prefix;
           return `${actualPrefix}${line.trim()}`;
         }).join('\n') + '\n\n';
       }
     } else {
       // Regular text with formatting
-      let processedContent = content;
+      let processedContent = runs
+        ? splitTextRunsByLine(runs).map(line => this.formatTextRunsMarkdown(line)).join('\n')
+        : content;
       
       if (properties.fontWeight === 'bold') {
         processedContent = `**${processedContent}**`;
@@ -788,6 +878,31 @@ export class ExportService {
     return markdown;
   }
 
+  /**
+   * Format rich text runs as inline Markdown; text colors have no Markdown equivalent and are dropped
+   */
+  private formatTextRunsMarkdown(runs: TextRun[]): string {
+    return runs.map(run => {
+      // Keep surrounding whitespace outside the emphasis markers
+      const [, leading, core, trailing] = /^(\s*)(.*?)(\s*)$/s.exec(run.text) || ['', '', run.text, ''];
+      if (!core) return run.text;
+
+      let text = run.code ? `\`${core}\`` : core;
+      if (run.script === 'subscript') text = `<sub>${text}</sub>`;
+      if (run.script === 'superscript') text = `<sup>${text}</sup>`;
+      if (run.bold) text = `**${text}**`;
+      if (run.italic) text = `*${text}*`;
+      if (run.underline) text = `<u>${text}</u>`;
+      if (run.link && isSafeLink(run.link)) {
+        // Spaces and parentheses would end the link destination early
+        const url = run.link.replace(/[\s()<>]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`);
+        text = `[${text}](${url})`;
+      }
+
+      return `${leading}${text}${trailing}`;
+    }).join('');
+  }
+
   /**
    * Generate Markdown for image element
    */
@@ -1013,6 +1128,34 @@ export class ExportService {
             border-radius: 3px;
         }
         
+        .code-listing {
+            font-family: ${fonts.monospace || 'monospace'};
+            background: #f8f9fa;
+            color: rgb(${CODE_TOKEN_COLORS.plain.r}, ${CODE_TOKEN_COLORS.plain.g}, ${CODE_TOKEN_COLORS.plain.b});
+            padding: 12px 0;
+            border-radius: 4px;
+            line-height: 1.4;
+            overflow-x: auto;
+        }
+        
+        .code-listing .code-line {
+            display: block;
+            padding: 0 12px;
+        }
+        
+        .code-listing .code-line.highlighted {
+            background: rgb(${CODE_HIGHLIGHT_COLOR.r}, ${CODE_HIGHLIGHT_COLOR.g}, ${CODE_HIGHLIGHT_COLOR.b});
+        }
+        
+        .code-listing .line-number {
+            display: inline-block;
+            width: 2em;
+            margin-right: 1em;
+            text-align: right;
+            color: rgb(${CODE_LINE_NUMBER_COLOR.r}, ${CODE_LINE_NUMBER_COLOR.g}, ${CODE_LINE_NUMBER_COLOR.b});
+            user-select: none;
+        }
+        
         .slide-notes {
             margin-top: 30px;
             padding: 15px;
@@ -1110,6 +1253,10 @@ export class ExportService {
         return this.generateImageElementHTML(element);
       case 'shape':
         return this.generateShapeElementHTML(element);
+      case 'chart':
+        return this.generateChartElementHTML(element);
+      case 'code':
+        return this.generateCodeElementHTML(element);
       default:
         return `<!-- Unsupported element type: ${element.type} -->`;
     }
@@ -1149,13 +1296,19 @@ export class ExportService {
     
     const styleAttr = styles.length > 0 ? ` style="${styles.join('; ')}"` : '';
     
+    const runs = hasRichText(content, properties.richText) ? getTextRuns(content, properties.richText) : null;
+    
     // Handle lists
     if (properties.listType && properties.listType !== 'none') {
-      const lines = content.split('\n').filter((line: string) => line.trim());
+      const lines: string[] = runs
+        ? splitTextRunsByLine(runs)
+          .filter(line => line.some(run => run.text.trim()))
+          .map(line => this.formatTextRunsHTML(line).trim())
+        : content.split('\n').filter((line: string) => line.trim()).map((line: string) => this.escapeHtml(line.trim()));
       if (lines.length > 0) {
         const listTag = properties.listType === 'bullet' ? 'ul' : 'ol';
         const listItems = lines.map((line: string) => 
-          `<li>${this.escapeHtml(line.trim())}</li>`
+          `<li>${line}</li>`
         ).join('\n');
         
         html = `<${listTag}${styleAttr}>\n${listItems}\n</${listTag}>`;
@@ -1165,6 +1318,9 @@ export class ExportService {
       if (properties.hasMath) {
         const processedContent = this.processMathForHTML(content);
         html = `<div${styleAttr}>${processedContent}</div>`;
+      } else if (runs) {
+        const processedContent = splitTextRunsByLine(runs).map(line => this.formatTextRunsHTML(line)).join('<br>');
+        html = `<div${styleAttr}>${processedContent}</div>`;
       } else {
         const processedContent = this.escapeHtml(content).replace(/\n/g, '<br>');
         html = `<div${styleAttr}>${processedContent}</div>`;
@@ -1174,6 +1330,27 @@ export class ExportService {
     return html;
   }
 
+  /**
+   * Format rich text runs as inline HTML
+   */
+  private formatTextRunsHTML(runs: TextRun[]): string {
+    return runs.map(run => {
+      let text = this.escapeHtml(run.text);
+      if (run.code) text = `<code>${text}</code>`;
+      if (run.script === 'subscript') text = `<sub>${text}</sub>`;
+      if (run.script === 'superscript') text = `<sup>${text}</sup>`;
+      if (run.bold) text = `<strong>${text}</strong>`;
+      if (run.italic) text = `<em>${text}</em>`;
+      if (run.underline) text = `<u>${text}</u>`;
+      if (run.color) text = `<span style="color: rgb(${run.color.r}, ${run.color.g}, ${run.color.b})">${text}</span>`;
+      // Links to other schemes, e.g. javascript: from an imported file, are dropped
+      if (run.link && isSafeLink(run.link)) {
+        text = `<a href="${this.escapeHtml(run.link).replace(/"/g, '&quot;')}">${text}</a>`;
+      }
+      return text;
+    }).join('');
+  }
+
   /**
    * Generate HTML for image element
    */
@@ -1228,6 +1405,53 @@ export class ExportService {
     return `<div class="shape"${styleAttr}></div>`;
   }
 
+  /**
+   * Generate HTML for chart element as a data table
+   */
+  private generateChartElementHTML(element: any): string {
+    const { size, properties } = element;
+
+    if (!properties.chartData) return '';
+
+    const chart = resolveChartData(properties.chartData);
+    if (chart.series.length === 0) return '';
+
+    const [header, ...rows] = this.getChartTableRows(chart);
+    const caption = chart.title ? `<caption>${this.escapeHtml(chart.title)}</caption>\n` : '';
+    const headerRow = `<tr>${header.map(cell => `<th>${this.escapeHtml(cell)}</th>`).join('')}</tr>`;
+    const bodyRows = rows.map(row =>
+      `<tr>${row.map(cell => `<td>${this.escapeHtml(cell)}</td>`).join('')}</tr>`
+    ).join('\n');
+
+    return `<table class="chart" data-chart-type="${chart.chartType}" style="max-width: ${size.width}px">\n${caption}${headerRow}\n${bodyRows}\n</table>`;
+  }
+
+  /**
+   * Generate HTML for code element as a syntax highlighted pre block
+   */
+  private generateCodeElementHTML(element: any): string {
+    const { content, size, properties } = element;
+
+    if (!content) return '';
+
+    const highlighted = new Set<number>(properties.highlightedLines || []);
+    const lines = tokenizeCode(content.replace(/\s+$/, ''), properties.codeLanguage).map((tokens, index) => {
+      const lineNumber = properties.showLineNumbers ? `<span class="line-number">${index + 1}</span>` : '';
+      const code = tokens.map(token => {
+        const text = this.escapeHtml(token.text);
+        if (token.type === 'plain') return text;
+        const color = CODE_TOKEN_COLORS[token.type];
+        return `<span class="token-${token.type}" style="color: rgb(${color.r}, ${color.g}, ${color.b})">${text}</span>`;
+      }).join('');
+      const className = highlighted.has(index + 1) ? 'code-line highlighted' : 'code-line';
+      return `<span class="${className}">${lineNumber}${code}</span>`;
+    });
+
+    const language = properties.codeLanguage || 'plain';
+    const fontSize = properties.fontSize || 14;
+    return `<pre class="code-listing" data-language="${language}" style="font-size: ${fontSize}px; max-width: ${size.width}px"><code>${lines.join('\n')}</code></pre>`;
+  }
+
   /**
    * Generate JavaScript for HTML export
    */
@@ -1385,7 +1609,7 @@ export class ExportService {
 
     // Convert each element
     for (const element of sortedElements) {
-      await this.convertElementToPowerPoint(pptxSlide, element, options);
+      await this.convertElementToPowerPoint(pptxSlide, element, options, theme);
     }
 
     // Add slide notes if available
@@ -1397,7 +1621,7 @@ export class ExportService {
   /**
    * Convert a slide element to PowerPoint format
    */
-  private async convertElementToPowerPoint(pptxSlide: any, element: any, options: ExportOptions): Promise<void> {
+  private async convertElementToPowerPoint(pptxSlide: any, element: any, options: ExportOptions, theme: any): Promise<void> {
     const { position, size, properties } = element;
     
     // Convert position and size from pixels to inches (PowerPoint uses inches)
@@ -1416,6 +1640,12 @@ export class ExportService {
       case 'shape':
         await this.convertShapeElementToPowerPoint(pptxSlide, element, x, y, w, h);
         break;
+      case 'chart':
+        await this.convertChartElementToPowerPoint(pptxSlide, element, theme, x, y, w, h);
+        break;
+      case 'code':
+        await this.convertCodeElementToPowerPoint(pptxSlide, element, x, y, w, h);
+        break;
       default:
         // Skip unsupported elements
         break;
@@ -1456,6 +1686,17 @@ export class ExportService {
       textOptions.fontFace = properties.fontFamily;
     }
 
+    // Rich text is added as an array of runs, one paragraph per line
+    if (hasRichText(content, properties.richText) && !properties.hasMath) {
+      const isList = properties.listType && properties.listType !== 'none';
+      const bullet = isList ? (properties.listType === 'bullet' ? true : { type: 'number' }) : undefined;
+      const paragraphs = splitTextRunsByLine(getTextRuns(content, properties.richText))
+        .filter(line => !isList || line.some(run => run.text.trim()));
+
+      pptxSlide.addText(this.convertTextRunsToPowerPoint(paragraphs, bullet), textOptions);
+      return;
+    }
+
     // Handle lists
     if (properties.listType && properties.listType !== 'none') {
       const lines = content.split('\n').filter((line: string) => line.trim());
@@ -1476,6 +1717,78 @@ export class ExportService {
     }
   }
 
+  /**
+   * Convert lines of rich text runs to PowerPoint text objects, breaking after each line
+   */
+  private convertTextRunsToPowerPoint(lines: TextRun[][], bullet?: any): any[] {
+    const textObjects: any[] = [];
+
+    lines.forEach((line, lineIndex) => {
+      const runs = line.length > 0 ? line : [{ text: '' }];
+      runs.forEach((run, runIndex) => {
+        const options: any = {};
+        if (run.bold) options.bold = true;
+        if (run.italic) options.italic = true;
+        if (run.underline) options.underline = { style: 'sng' };
+        if (run.color) options.color = this.rgbToHex(run.color.r, run.color.g, run.color.b);
+        if (run.code) options.fontFace = 'Courier New';
+        if (run.link) options.hyperlink = { url: run.link };
+        if (run.script === 'subscript') options.subscript = true;
+        if (run.script === 'superscript') options.superscript = true;
+        if (bullet) options.bullet = bullet;
+        if (runIndex === runs.length - 1 && lineIndex < lines.length - 1) options.breakLine = true;
+
+        textObjects.push({ text: run.text, options });
+      });
+    });
+
+    return textObjects;
+  }
+
+  /**
+   * Convert code element to PowerPoint as colored monospace runs, one paragraph per line
+   */
+  private async convertCodeElementToPowerPoint(pptxSlide: any, element: any, x: number, y: number, w: number, h: number): Promise<void> {
+    const { content, properties } = element;
+
+    if (!content) return;
+
+    const highlighted = new Set<number>(properties.highlightedLines || []);
+    const lines = tokenizeCode(content.replace(/\s+$/, ''), properties.codeLanguage);
+    const textObjects: any[] = [];
+
+    lines.forEach((tokens, index) => {
+      const highlight = highlighted.has(index + 1)
+        ? this.rgbToHex(CODE_HIGHLIGHT_COLOR.r, CODE_HIGHLIGHT_COLOR.g, CODE_HIGHLIGHT_COLOR.b)
+        : undefined;
+      const lineNumber = String(index + 1);
+      const padding = ' '.repeat(String(lines.length).length - lineNumber.length);
+      const runs = properties.showLineNumbers
+        ? [{ text: `${padding}${lineNumber}  `, color: CODE_LINE_NUMBER_COLOR }]
+        : [];
+      runs.push(...tokens.map(token => ({ text: token.text, color: CODE_TOKEN_COLORS[token.type] })));
+      if (runs.length === 0) runs.push({ text: '', color: CODE_TOKEN_COLORS.plain });
+
+      runs.forEach((run, runIndex) => {
+        const options: any = { color: this.rgbToHex(run.color.r, run.color.g, run.color.b) };
+        if (highlight) options.highlight = highlight;
+        if (runIndex === runs.length - 1 && index < lines.length - 1) options.breakLine = true;
+        textObjects.push({ text: run.text, options });
+      });
+    });
+
+    pptxSlide.addText(textObjects, {
+      x,
+      y,
+      w,
+      h,
+      fontFace: 'Courier New',
+      fontSize: properties.fontSize || 14,
+      valign: 'top',
+      fill: { color: 'F8F9FA' },
+    });
+  }
+
   /**
    * Convert image element to PowerPoint
    */
@@ -1591,6 +1904,66 @@ export class ExportService {
     pptxSlide.addShape(shapeType, shapeOptions);
   }
 
+  /**
+   * Convert chart element to a native PowerPoint chart
+   */
+  private async convertChartElementToPowerPoint(pptxSlide: any, element: any, theme: any, x: number, y: number, w: number, h: number): Promise<void> {
+    if (!element.properties.chartData) return;
+
+    const chart = resolveChartData(element.properties.chartData);
+    if (chart.series.length === 0) return;
+
+    let data: any[];
+    if (chart.chartType === 'scatter') {
+      // PowerPoint scatter charts share the x values given by the first entry
+      const xValues = chart.series[0].values.map((_, index) => getChartPointX(chart.series[0], index));
+      data = [
+        { name: chart.xLabel || 'X', values: xValues },
+        ...chart.series.map(series => ({ name: series.name, values: series.values })),
+      ];
+    } else {
+      const series = chart.chartType === 'pie' ? chart.series.slice(0, 1) : chart.series;
+      data = series.map(entry => ({ name: entry.name, labels: chart.labels, values: entry.values }));
+    }
+
+    // Pie slices take their point colors or the series colors in order, like the LaTeX output
+    const colorCount = chart.chartType === 'pie' ? chart.labels.length : chart.series.length;
+    const chartColors = Array.from({ length: colorCount }, (_, index) => {
+      const color = chart.chartType === 'pie'
+        ? getChartSliceColor(chart, index, theme)
+        : getChartSeriesColor(chart.series[index], index, theme);
+      return this.rgbToHex(color.r, color.g, color.b);
+    });
+
+    const chartOptions: any = {
+      x: x,
+      y: y,
+      w: w,
+      h: h,
+      chartColors,
+      showLegend: !!chart.showLegend,
+      showTitle: !!chart.title,
+      title: chart.title,
+    };
+
+    if (chart.chartType === 'bar') {
+      chartOptions.barDir = 'col';
+    }
+    if (chart.chartType === 'scatter') {
+      chartOptions.lineSize = 0;
+    }
+    if (chart.xLabel && chart.chartType !== 'pie') {
+      chartOptions.showCatAxisTitle = true;
+      chartOptions.catAxisTitle = chart.xLabel;
+    }
+    if (chart.yLabel && chart.chartType !== 'pie') {
+      chartOptions.showValAxisTitle = true;
+      chartOptions.valAxisTitle = chart.yLabel;
+    }
+
+    pptxSlide.addChart(chart.chartType, data, chartOptions);
+  }
+
   /**
    * Convert RGB values to hex color
    */
@@ -1946,6 +2319,10 @@ ${presentation.metadata.author ? `% Author: ${presentation.metadata.author}` : '
       errors.push('Quality must be low, medium, or high');
     }
 
+    if (options.notesMode && !['hidden', 'notes-only', 'second-screen', 'notes-under-slide'].includes(options.notesMode)) {
+      errors.push('Notes mode must be hidden, notes-only, second-screen, or notes-under-slide');
+    }
+
     return {
       valid: errors.length === 0,
       errors
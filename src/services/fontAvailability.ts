@@ -0,0 +1,42 @@
+import { Presentation } from '../types/presentation';
+import { latexGenerator } from './latexGenerator';
+
+/**
+ * The part of a compiler backend that looks up installed fonts
+ */
+export interface FontAvailabilityChecker {
+  checkFontAvailability(fonts: string[]): Promise<Record<string, boolean>>;
+}
+
+/**
+ * Check the theme fonts fontspec loads with the compiler backend and return the ones that aren't installed.
+ * Results are kept in checkedFonts so repeated compilations only look up new fonts.
+ */
+export const findUnavailableFonts = async (
+  presentation: Presentation,
+  compiler: FontAvailabilityChecker,
+  checkedFonts: Map<string, boolean> = new Map()
+): Promise<string[]> => {
+  try {
+    const fonts = latexGenerator.getFontspecFonts(presentation);
+    const uncheckedFonts = fonts.filter(font => !checkedFonts.has(font));
+
+    if (uncheckedFonts.length > 0) {
+      const availability = await compiler.checkFontAvailability(uncheckedFonts);
+      uncheckedFonts.forEach(font => {
+        checkedFonts.set(font, availability[font] !== false);
+      });
+    }
+
+    return fonts.filter(font => checkedFonts.get(font) === false);
+  } catch (error) {
+    console.warn('Font availability check failed:', error);
+    return [];
+  }
+};
+
+/**
+ * Describe the fonts that fall back to the engine defaults
+ */
+export const getFontFallbackWarning = (unavailableFonts: string[]): string =>
+  `Not installed, using default fonts instead: ${unavailableFonts.join(', ')}`;
@@ -0,0 +1,246 @@
+import { CompilationOptions, CompilerBackend } from './latexCompiler';
+
+export interface LatexRunResult {
+  success: boolean;
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * What a backend gets from the compiler to build one job's document.tex in its working directory
+ */
+export interface LatexBackendContext {
+  workingDir: string;
+  texFilePath: string;
+  options: CompilationOptions;
+  runCommand(command: string, args: string[], options?: { cwd?: string; timeout?: number }): Promise<LatexRunResult>;
+  resolveCommand(command: string): string; // Full path of a TeX binary, or the name to look up on PATH
+  readFile(name: string): Promise<string>; // A file of the working directory, or '' when it wasn't written
+  reportProgress(progress: number, message: string): void;
+}
+
+/**
+ * A way of turning document.tex into document.pdf, with its own handling of reruns and bibliographies
+ */
+export interface LatexBackend {
+  id: CompilerBackend;
+  name: string;
+  command: string; // Executable that must be installed for the backend to work
+  versionArgs: string[];
+  compile(context: LatexBackendContext): Promise<LatexRunResult>;
+}
+
+/**
+ * Runs pdflatex, xelatex or lualatex directly, with biber or bibtex in between and reruns while labels change
+ */
+export class EngineBackend implements LatexBackend {
+  public readonly id = 'engine';
+  public readonly name = 'LaTeX engine';
+  public readonly command = 'pdflatex';
+  public readonly versionArgs = ['--version'];
+
+  public async compile(context: LatexBackendContext): Promise<LatexRunResult> {
+    const { options, workingDir } = context;
+    const compilerPath = context.resolveCommand(options.compiler || 'pdflatex');
+
+    const args = [
+      '-interaction=nonstopmode',
+      '-file-line-error',
+      '-output-directory=' + workingDir,
+    ];
+    if (options.synctex) {
+      args.push('-synctex=1');
+    }
+    args.push(options.shell ? '-shell-escape' : '-no-shell-escape');
+    args.push(context.texFilePath);
+
+    let lastResult: LatexRunResult = {
+      success: false,
+      stdout: '',
+      stderr: 'No compilation runs executed'
+    };
+    let maxRuns = 3;
+    let bibliographyProcessed = false;
+
+    for (let run = 1; run <= maxRuns; run++) {
+      context.reportProgress(30 + (run - 1) * 20, `Compilation pass ${run}/${maxRuns}`);
+
+      try {
+        lastResult = await context.runCommand(compilerPath, args, {
+          cwd: workingDir,
+          timeout: options.timeout || 30000,
+        });
+
+        // Citations need biber or bibtex between the first pass and two more passes
+        if (!bibliographyProcessed) {
+          bibliographyProcessed = true;
+          const tool = await this.runBibliographyTool(context);
+          if (tool) {
+            maxRuns = Math.max(maxRuns, run + 2);
+            continue;
+          }
+        }
+
+        if (run < maxRuns && this.needsAnotherRun(lastResult.stdout)) {
+          continue;
+        }
+        break;
+      } catch (error) {
+        lastResult = {
+          success: false,
+          stdout: '',
+          stderr: `Compilation pass ${run} failed: ${error instanceof Error ? error.message : String(error)}`
+        };
+        break;
+      }
+    }
+
+    return lastResult;
+  }
+
+  /**
+   * Run biber or bibtex when the first pass wrote citations for them, returning the tool that ran
+   */
+  private async runBibliographyTool(context: LatexBackendContext): Promise<'biber' | 'bibtex' | null> {
+    const auxContent = await context.readFile('document.aux');
+    const bcfContent = await context.readFile('document.bcf');
+
+    // biblatex with biber lists cited keys in the .bcf; bibtex reads \citation and \bibdata from the .aux
+    let tool: 'biber' | 'bibtex' | null = null;
+    if (bcfContent.includes('<bcf:citekey')) {
+      tool = 'biber';
+    } else if (auxContent.includes('\\bibdata') && auxContent.includes('\\citation')) {
+      tool = 'bibtex';
+    }
+    if (!tool) return null;
+
+    context.reportProgress(45, `Processing bibliography with ${tool}`);
+
+    try {
+      const result = await context.runCommand(context.resolveCommand(tool), ['document'], {
+        cwd: context.workingDir,
+        timeout: context.options.timeout || 30000,
+      });
+      if (!result.success) {
+        console.warn(`[LaTeX Backend] ${tool} reported problems:`, result.stdout.substring(0, 500));
+      }
+    } catch (error) {
+      // Missing tools leave citations undefined, which the log reports as warnings
+      console.error(`[LaTeX Backend] ${tool} failed:`, error);
+    }
+
+    return tool;
+  }
+
+  /**
+   * Check if another compilation run is needed
+   */
+  private needsAnotherRun(stdout: string): boolean {
+    return stdout.includes('Rerun to get cross-references right') ||
+           stdout.includes('There were undefined references') ||
+           stdout.includes('Label(s) may have changed');
+  }
+}
+
+/**
+ * Lets latexmk decide how many engine passes and which bibliography tools a document needs
+ */
+export class LatexmkBackend implements LatexBackend {
+  public readonly id = 'latexmk';
+  public readonly name = 'latexmk';
+  public readonly command = 'latexmk';
+  public readonly versionArgs = ['-v'];
+
+  public async compile(context: LatexBackendContext): Promise<LatexRunResult> {
+    const { options, workingDir } = context;
+    const engineFlags: Record<string, string> = {
+      pdflatex: '-pdf',
+      xelatex: '-pdfxe',
+      lualatex: '-pdflua',
+    };
+
+    // latexmk hands the other flags on to the engine
+    const args = [
+      engineFlags[options.compiler || 'pdflatex'],
+      '-interaction=nonstopmode',
+      '-file-line-error',
+      '-outdir=' + workingDir,
+    ];
+    if (options.synctex) {
+      args.push('-synctex=1');
+    }
+    args.push(options.shell ? '-shell-escape' : '-no-shell-escape');
+    args.push(context.texFilePath);
+
+    context.reportProgress(40, `Compiling with latexmk (${options.compiler || 'pdflatex'})`);
+
+    try {
+      return await context.runCommand(context.resolveCommand('latexmk'), args, {
+        cwd: workingDir,
+        // latexmk runs several passes within one command
+        timeout: (options.timeout || 30000) * 3,
+      });
+    } catch (error) {
+      return {
+        success: false,
+        stdout: '',
+        stderr: `latexmk failed: ${error instanceof Error ? error.message : String(error)}`
+      };
+    }
+  }
+}
+
+/**
+ * Compiles with Tectonic, a self-contained XeTeX-based engine that reruns and fetches packages itself.
+ * The compiler option is ignored: Tectonic is always XeTeX.
+ */
+export class TectonicBackend implements LatexBackend {
+  public readonly id = 'tectonic';
+  public readonly name = 'Tectonic';
+  public readonly command = 'tectonic';
+  public readonly versionArgs = ['--version'];
+
+  public async compile(context: LatexBackendContext): Promise<LatexRunResult> {
+    const { options, workingDir } = context;
+
+    const args = ['--keep-logs', '--outdir', workingDir];
+    if (options.synctex) {
+      args.push('--synctex');
+    }
+    // Untrusted mode turns off shell escape and other insecure features
+    args.push(...(options.shell ? ['-Z', 'shell-escape'] : ['--untrusted']));
+    args.push(context.texFilePath);
+
+    context.reportProgress(40, 'Compiling with Tectonic');
+
+    try {
+      const result = await context.runCommand(context.resolveCommand('tectonic'), args, {
+        cwd: workingDir,
+        // The first run downloads the package bundle
+        timeout: (options.timeout || 30000) * 3,
+      });
+
+      // Tectonic only summarizes errors on the console; the kept log has the TeX messages
+      const log = await context.readFile('document.log');
+      return { ...result, stdout: log ? `${log}\n${result.stdout}` : result.stdout };
+    } catch (error) {
+      return {
+        success: false,
+        stdout: '',
+        stderr: `Tectonic failed: ${error instanceof Error ? error.message : String(error)}`
+      };
+    }
+  }
+}
+
+export const latexBackends: Record<CompilerBackend, LatexBackend> = {
+  engine: new EngineBackend(),
+  latexmk: new LatexmkBackend(),
+  tectonic: new TectonicBackend(),
+};
+
+/**
+ * Get the backend for a compile job, defaulting to direct engine runs
+ */
+export const getLatexBackend = (id: CompilerBackend = 'engine'): LatexBackend =>
+  latexBackends[id] || latexBackends.engine;
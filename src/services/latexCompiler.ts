@@ -1,4 +1,5 @@
 import { EventEmitter } from 'events';
+import { SynctexData } from '../utils/synctex';
 
 export interface CompilationJob {
   id: string;
@@ -8,19 +9,63 @@ export interface CompilationJob {
   timestamp: number;
 }
 
+/**
+ * How a compile job drives the engine: direct engine runs, latexmk or Tectonic
+ */
+export type CompilerBackend = 'engine' | 'latexmk' | 'tectonic';
+
 export interface CompilationOptions {
   compiler?: 'pdflatex' | 'xelatex' | 'lualatex';
+  backend?: CompilerBackend;
   outputDir?: string;
   timeout?: number;
   includeAux?: boolean;
-  shell?: boolean;
+  shell?: boolean; // Allow \write18; off unless the presentation opts in
   synctex?: boolean;
+  previewImage?: boolean; // Also rasterize the first page to a PNG
+  pageImages?: boolean; // Also rasterize every page to a PNG at PAGE_IMAGE_RESOLUTION
+  files?: CompilationFile[]; // Written next to the document, e.g. PDFs and images it includes
+  limits?: Partial<CompilationLimits>;
+}
+
+/**
+ * A file of the job directory, from its content or copied from a local file the renderer can't read
+ */
+export interface CompilationFile {
+  name: string; // Plain file name the document refers to it by
+  content?: Uint8Array;
+  path?: string;
+}
+
+/**
+ * Resources a compile job may use before it is stopped
+ */
+export interface CompilationLimits {
+  cpuSeconds: number; // Per engine or tool run
+  memoryMB: number;
+  outputMB: number; // Largest file a run may write
+  logMB: number; // Console output of a run
+  maxPages: number;
 }
 
+export type CompilationLimitKind = 'cpu-time' | 'memory' | 'output-size' | 'page-count';
+
+/**
+ * What a log message is about, for the errors and warnings the log parser recognizes
+ */
+export type LatexDiagnostic =
+  | { kind: 'missing-file'; file: string; package: string } // package is the TeX Live package providing the file
+  | { kind: 'undefined-control-sequence'; command?: string }
+  | { kind: 'overfull-box'; box: 'hbox' | 'vbox'; amount: number; startLine?: number; endLine?: number } // amount in pt
+  | { kind: 'font'; font: string };
+
 export interface CompilationResult {
   success: boolean;
   pdfPath?: string;
   pdfBuffer?: Buffer;
+  imageBuffer?: Buffer; // PNG of the first page, when previewImage was requested
+  pageImages?: Buffer[]; // PNG of every page, when pageImages was requested
+  synctex?: SynctexData; // Boxes typeset from document.tex lines, when synctex was requested
   log: string;
   errors: CompilationError[];
   warnings: CompilationWarning[];
@@ -35,6 +80,10 @@ export interface CompilationError {
   type: 'error' | 'fatal';
   file?: string;
   context?: string;
+  slideId?: string; // Slide and element the line was generated from, when known
+  elementId?: string;
+  limit?: CompilationLimitKind; // Set when the job was stopped for exceeding a resource limit
+  diagnostic?: LatexDiagnostic;
 }
 
 export interface CompilationWarning {
@@ -42,6 +91,15 @@ export interface CompilationWarning {
   message: string;
   file?: string;
   type: 'warning' | 'info';
+  diagnostic?: LatexDiagnostic;
+}
+
+export interface LatexAvailability {
+  available: boolean;
+  compilers: string[];
+  backends?: CompilerBackend[]; // Backends whose tools are installed
+  missingFiles?: string[]; // Package and class files kpsewhich couldn't find
+  version?: string;
 }
 
 export interface CompilationProgress {
@@ -60,7 +118,8 @@ export interface ILatexCompiler extends EventEmitter {
   cancelJob(jobId: string): boolean;
   getQueueStatus(): { queued: number; active: number; total: number };
   clearQueue(): void;
-  checkLatexAvailability(): Promise<{ available: boolean; compilers: string[]; version?: string }>;
+  checkLatexAvailability(): Promise<LatexAvailability>;
+  checkFontAvailability(fonts: string[]): Promise<Record<string, boolean>>;
   cleanup(): Promise<void>;
 }
 
@@ -149,14 +208,22 @@ export class LaTeXCompiler extends EventEmitter implements ILatexCompiler {
   /**
    * Check if LaTeX is available on the system
    */
-  public async checkLatexAvailability(): Promise<{ available: boolean; compilers: string[]; version?: string }> {
+  public async checkLatexAvailability(): Promise<LatexAvailability> {
     return {
       available: false,
       compilers: [],
+      backends: [],
       version: undefined,
     };
   }
 
+  /**
+   * Check which fonts are installed (assumes all are, fonts can't be listed in the browser)
+   */
+  public async checkFontAvailability(fonts: string[]): Promise<Record<string, boolean>> {
+    return fonts.reduce((availability, font) => ({ ...availability, [font]: true }), {} as Record<string, boolean>);
+  }
+
   /**
    * Generate unique job ID
    */
@@ -6,6 +6,7 @@ import {
   CompilationError,
   CompilationWarning,
   CompilationProgress,
+  LatexAvailability,
 } from './latexCompiler';
 
 /**
@@ -97,14 +98,22 @@ export class LaTeXCompilerBrowser extends EventEmitter {
   /**
    * Check if LaTeX is available on the system
    */
-  public async checkLatexAvailability(): Promise<{ available: boolean; compilers: string[]; version?: string }> {
+  public async checkLatexAvailability(): Promise<LatexAvailability> {
     return {
       available: false,
       compilers: [],
+      backends: [],
       version: undefined,
     };
   }
 
+  /**
+   * Check which fonts are installed (assumes all are, fonts can't be listed in the browser)
+   */
+  public async checkFontAvailability(fonts: string[]): Promise<Record<string, boolean>> {
+    return fonts.reduce((availability, font) => ({ ...availability, [font]: true }), {} as Record<string, boolean>);
+  }
+
   /**
    * Generate unique job ID
    */
@@ -4,6 +4,7 @@ import {
   CompilationResult,
   CompilationProgress,
   ILatexCompiler,
+  LatexAvailability,
 } from './latexCompiler';
 
 /**
@@ -109,7 +110,7 @@ export class LaTeXCompilerElectron extends EventEmitter implements ILatexCompile
   /**
    * Check if LaTeX is available on the system
    */
-  public async checkLatexAvailability(): Promise<{ available: boolean; compilers: string[]; version?: string }> {
+  public async checkLatexAvailability(): Promise<LatexAvailability> {
     console.log('⚡ [LaTeX Compiler Electron] ===== STARTING LATEX AVAILABILITY CHECK =====');
     
     if (!window.electronAPI) {
@@ -118,6 +119,7 @@ export class LaTeXCompilerElectron extends EventEmitter implements ILatexCompile
       return {
         available: false,
         compilers: [],
+        backends: [],
         version: undefined,
       };
     }
@@ -139,6 +141,8 @@ export class LaTeXCompilerElectron extends EventEmitter implements ILatexCompile
         const finalResult = {
           available: result.available || false,
           compilers: result.compilers || [],
+          backends: result.backends || [],
+          missingFiles: result.missingFiles,
           version: result.version,
         };
         console.log('✅ [LaTeX Compiler Electron] LaTeX availability check successful:', finalResult);
@@ -148,6 +152,7 @@ export class LaTeXCompilerElectron extends EventEmitter implements ILatexCompile
         return {
           available: false,
           compilers: [],
+          backends: [],
           version: undefined,
         };
       }
@@ -161,6 +166,7 @@ export class LaTeXCompilerElectron extends EventEmitter implements ILatexCompile
       return {
         available: false,
         compilers: [],
+        backends: [],
         version: undefined,
       };
     } finally {
@@ -168,6 +174,26 @@ export class LaTeXCompilerElectron extends EventEmitter implements ILatexCompile
     }
   }
 
+  /**
+   * Check which fonts are installed using the main process compiler
+   */
+  public async checkFontAvailability(fonts: string[]): Promise<Record<string, boolean>> {
+    if (!window.electronAPI) {
+      return {};
+    }
+
+    try {
+      const result = await window.electronAPI.checkFontAvailability(fonts);
+      if (result.success && result.fonts) {
+        return result.fonts;
+      }
+      console.error('❌ [LaTeX Compiler Electron] Font availability check failed:', result.error);
+    } catch (error) {
+      console.error('❌ [LaTeX Compiler Electron] Exception during font availability check:', error);
+    }
+    return {};
+  }
+
   /**
    * Cleanup (no-op for Electron renderer)
    */
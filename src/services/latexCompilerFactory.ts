@@ -6,6 +6,7 @@ import {
   CompilationError,
   CompilationWarning,
   CompilationProgress,
+  LatexAvailability,
 } from './latexCompiler';
 
 /**
@@ -16,7 +17,8 @@ export interface ILatexCompiler extends EventEmitter {
   cancelJob(jobId: string): boolean;
   getQueueStatus(): { queued: number; active: number; total: number };
   clearQueue(): void;
-  checkLatexAvailability(): Promise<{ available: boolean; compilers: string[]; version?: string }>;
+  checkLatexAvailability(): Promise<LatexAvailability>;
+  checkFontAvailability(fonts: string[]): Promise<Record<string, boolean>>;
   cleanup(): Promise<void>;
 }
 
@@ -123,14 +125,22 @@ ${source.substring(0, 200)}${source.length > 200 ? '...' : ''}`,
   /**
    * Check if LaTeX is available on the system
    */
-  public async checkLatexAvailability(): Promise<{ available: boolean; compilers: string[]; version?: string }> {
+  public async checkLatexAvailability(): Promise<LatexAvailability> {
     return {
       available: false,
       compilers: [],
+      backends: [],
       version: undefined,
     };
   }
 
+  /**
+   * Check which fonts are installed (assumes all are, fonts can't be listed in the browser)
+   */
+  public async checkFontAvailability(fonts: string[]): Promise<Record<string, boolean>> {
+    return fonts.reduce((availability, font) => ({ ...availability, [font]: true }), {} as Record<string, boolean>);
+  }
+
   /**
    * Generate unique job ID
    */
@@ -2,6 +2,7 @@ import { spawn, ChildProcess } from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import * as zlib from 'zlib';
 import { EventEmitter } from 'events';
 import {
   CompilationJob,
@@ -10,7 +11,31 @@ import {
   CompilationError,
   CompilationWarning,
   CompilationProgress,
+  CompilerBackend,
+  LatexAvailability,
 } from './latexCompiler';
+import { getLatexBackend, latexBackends } from './latexBackends';
+import { LATEX_PACKAGE_FILES, getErrorDiagnostic, getWarningDiagnostic } from './latexDiagnostics';
+import {
+  checkPageLimit,
+  countPdfPages,
+  detectLimitViolation,
+  getSandboxEnvironment,
+  getSandboxTimeout,
+  getSandboxedCommand,
+  resolveCompilationLimits,
+} from './latexSandbox';
+import { PAGE_IMAGE_RESOLUTION, SynctexData, parseSynctex } from '../utils/synctex';
+import { MAX_IMAGE_BYTES, getImageExtension, isImageContent } from '../utils/imageFiles';
+
+interface CommandResult {
+  success: boolean;
+  stdout: string;
+  stderr: string;
+  signal?: NodeJS.Signals | null;
+  outputLimitExceeded?: boolean;
+  timedOut?: boolean;
+}
 
 /**
  * Node.js-specific LaTeX Compilation Service
@@ -18,11 +43,13 @@ import {
  */
 export class LaTeXCompilerNode extends EventEmitter {
   private queue: CompilationJob[] = [];
-  private activeJobs: Map<string, ChildProcess> = new Map();
+  private activeJobs: Map<string, ChildProcess | null> = new Map(); // null until the job starts a command
   private tempDir: string;
   private maxConcurrentJobs: number = 2;
   private isProcessing: boolean = false;
   private jobCounter: number = 0;
+  // Where checkLatexAvailability found each engine
+  private compilerPaths: Map<string, string> = new Map();
 
   constructor() {
     super();
@@ -45,6 +72,7 @@ export class LaTeXCompilerNode extends EventEmitter {
       source,
       options: {
         compiler: 'pdflatex',
+        backend: 'engine',
         timeout: 30000, // 30 seconds
         includeAux: false,
         shell: false,
@@ -78,12 +106,9 @@ export class LaTeXCompilerNode extends EventEmitter {
       return true;
     }
 
-    // Kill active process if running
-    const activeProcess = this.activeJobs.get(jobId);
-    if (activeProcess) {
-      if (activeProcess.kill) {
-        activeProcess.kill('SIGTERM');
-      }
+    // Kill active process if running; the job starts no further commands once it is gone from the active jobs
+    if (this.activeJobs.has(jobId)) {
+      this.activeJobs.get(jobId)?.kill('SIGTERM');
       this.activeJobs.delete(jobId);
       this.emit('job-cancelled', { jobId });
       return true;
@@ -128,7 +153,7 @@ export class LaTeXCompilerNode extends EventEmitter {
   /**
    * Check if LaTeX is available on the system
    */
-  public async checkLatexAvailability(): Promise<{ available: boolean; compilers: string[]; version?: string }> {
+  public async checkLatexAvailability(): Promise<LatexAvailability> {
     console.log('🔍 [LaTeX Compiler Node] ===== STARTING LATEX AVAILABILITY CHECK =====');
     console.log('🔍 [LaTeX Compiler Node] Process info:', {
       platform: process.platform,
@@ -241,6 +266,7 @@ export class LaTeXCompilerNode extends EventEmitter {
             availableCompilers.push(compiler);
             detailedResults[compiler].found = true;
             detailedResults[compiler].workingPath = fullPath;
+            this.compilerPaths.set(compiler, fullPath);
             console.log(`✅ [LaTeX Compiler Node] ${compiler} is AVAILABLE via: ${fullPath}`);
             
             if (!version && result.stdout) {
@@ -306,9 +332,16 @@ export class LaTeXCompilerNode extends EventEmitter {
       console.log('🔍 [LaTeX Compiler Node] ls /Library/TeX/texbin/ failed:', error);
     }
 
+    const backends = await this.checkBackendAvailability(availableCompilers);
+    // Tectonic fetches packages as it needs them, so only installed TeX distributions are checked
+    const missingFiles = availableCompilers.length > 0 ? await this.findMissingPackageFiles() : undefined;
+
     const result = {
-      available: availableCompilers.length > 0,
+      // Tectonic brings its own engine
+      available: availableCompilers.length > 0 || backends.includes('tectonic'),
       compilers: availableCompilers,
+      backends,
+      missingFiles,
       version,
     };
     
@@ -320,6 +353,96 @@ export class LaTeXCompilerNode extends EventEmitter {
     return result;
   }
 
+  /**
+   * Check which backends can run: direct engine runs need an engine, the others their own tool
+   */
+  private async checkBackendAvailability(availableCompilers: string[]): Promise<CompilerBackend[]> {
+    const backends: CompilerBackend[] = availableCompilers.length > 0 ? ['engine'] : [];
+
+    for (const backend of Object.values(latexBackends)) {
+      if (backend.id === 'engine') continue;
+
+      try {
+        const result = await this.runCommand(this.getCompilerPath(backend.command), backend.versionArgs, { timeout: 10000 });
+        if (result.success) {
+          backends.push(backend.id);
+        }
+      } catch (error) {
+        console.log(`🔍 [LaTeX Compiler Node] ${backend.name} is not available:`, error);
+      }
+    }
+
+    console.log('🔍 [LaTeX Compiler Node] Available backends:', backends);
+    return backends;
+  }
+
+  /**
+   * Find the package and class files generated documents load that kpsewhich can't find,
+   * or undefined when that is unknown because kpsewhich can't be run
+   */
+  private async findMissingPackageFiles(): Promise<string[] | undefined> {
+    try {
+      // kpsewhich prints the path of every file it finds, and exits with 1 when any is missing
+      const result = await this.runCommand(this.getCompilerPath('kpsewhich'), LATEX_PACKAGE_FILES, { timeout: 10000 });
+      const foundFiles = new Set(result.stdout.split('\n').filter(line => line.trim()).map(line => path.basename(line.trim())));
+
+      // A run that was stopped, complained, or found nothing at all (not even LaTeX's own files) says nothing about packages
+      if (!result.success && (result.signal || result.stderr.trim() || foundFiles.size === 0)) {
+        console.log('🔍 [LaTeX Compiler Node] kpsewhich failed:', result.stderr.substring(0, 300));
+        return undefined;
+      }
+
+      const missingFiles = LATEX_PACKAGE_FILES.filter(file => !foundFiles.has(file));
+
+      console.log('🔍 [LaTeX Compiler Node] Missing package files:', missingFiles);
+      return missingFiles;
+    } catch (error) {
+      console.log('🔍 [LaTeX Compiler Node] kpsewhich failed:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Check which font families fontspec can load, using fontconfig and luaotfload's font database
+   */
+  public async checkFontAvailability(fonts: string[]): Promise<Record<string, boolean>> {
+    const availability: Record<string, boolean> = {};
+    let installedFamilies: Set<string> | null = null;
+
+    try {
+      const result = await this.runCommand('fc-list', [':', 'family'], { timeout: 10000 });
+      if (result.success) {
+        installedFamilies = new Set(
+          result.stdout
+            .split(/[\n,]/)
+            .map(family => family.trim().toLowerCase())
+            .filter(family => family)
+        );
+      }
+    } catch (error) {
+      console.log('🔍 [LaTeX Compiler Node] fc-list failed:', error);
+    }
+
+    for (const font of fonts) {
+      if (installedFamilies?.has(font.trim().toLowerCase())) {
+        availability[font] = true;
+        continue;
+      }
+
+      // Fonts shipped with TeX (e.g. TeX Gyre) are not always registered with fontconfig
+      try {
+        const result = await this.runCommand('luaotfload-tool', [`--find=${font}`], { timeout: 10000 });
+        availability[font] = result.success;
+      } catch (error) {
+        // Neither lookup works on this system; don't warn about fonts we can't check
+        availability[font] = installedFamilies === null;
+      }
+    }
+
+    console.log('🔍 [LaTeX Compiler Node] Font availability:', availability);
+    return availability;
+  }
+
   /**
    * Process the compilation queue
    */
@@ -346,7 +469,7 @@ export class LaTeXCompilerNode extends EventEmitter {
     console.log(`[LaTeX Compiler Node] Starting job processing for ${job.id}`);
     
     // Add job to active jobs immediately
-    this.activeJobs.set(job.id, null as any); // Placeholder until actual process starts
+    this.activeJobs.set(job.id, null); // Placeholder until actual process starts
     console.log(`[LaTeX Compiler Node] Added job ${job.id} to active jobs. Active count: ${this.activeJobs.size}`);
     
     try {
@@ -363,7 +486,17 @@ export class LaTeXCompilerNode extends EventEmitter {
       await fs.promises.writeFile(texFilePath, job.source, 'utf-8');
       console.log(`[LaTeX Compiler Node] Successfully wrote ${job.source.length} characters to file`);
 
-      this.emitProgress(job.id, 'compiling', 30, `Compiling with ${job.options.compiler}`);
+      // Only plain file names, so files can't be written outside the job directory, which is all the sandbox can read
+      for (const file of job.options.files || []) {
+        const filePath = path.join(jobTempDir, path.basename(file.name));
+        if (file.content) {
+          await fs.promises.writeFile(filePath, file.content);
+        } else if (file.path) {
+          await this.copyImageFile(file.path, filePath);
+        }
+      }
+
+      this.emitProgress(job.id, 'compiling', 30, `Compiling with ${getLatexBackend(job.options.backend).name}`);
 
       // Compile LaTeX
       console.log(`[LaTeX Compiler Node] Starting LaTeX compilation with ${job.options.compiler}`);
@@ -410,96 +543,108 @@ export class LaTeXCompilerNode extends EventEmitter {
   }
 
   /**
-   * Run LaTeX compilation
+   * Copy a local image into the job directory. Its path comes from the renderer, possibly from an imported
+   * document, so only image files are copied; other files, such as a key named in an image's place, aren't.
+   * An image that isn't copied is reported by the engine as not found.
+   */
+  private async copyImageFile(sourcePath: string, targetPath: string): Promise<void> {
+    try {
+      const realPath = await fs.promises.realpath(sourcePath);
+      const stats = await fs.promises.stat(realPath);
+      if (!stats.isFile() || stats.size > MAX_IMAGE_BYTES || getImageExtension(realPath) !== getImageExtension(targetPath)) {
+        throw new Error('not an image file of the format it is included as');
+      }
+
+      const content = await fs.promises.readFile(realPath);
+      if (!isImageContent(targetPath, content)) {
+        throw new Error('content is not an image of its format');
+      }
+      await fs.promises.writeFile(targetPath, content);
+    } catch (error) {
+      console.warn(`[LaTeX Compiler Node] Image ${sourcePath} not copied:`, error);
+    }
+  }
+
+  /**
+   * Run LaTeX compilation with the job's backend
    */
   private async runLatexCompilation(
     job: CompilationJob,
     texFilePath: string,
     workingDir: string
-  ): Promise<{ success: boolean; stdout: string; stderr: string }> {
-    const compiler = job.options.compiler || 'pdflatex';
-    console.log(`[LaTeX Compiler Node] Running LaTeX compilation with ${compiler}`);
-    
-    // Get the full path to the compiler
-    const compilerPath = this.getCompilerPath(compiler);
-    console.log(`[LaTeX Compiler Node] Compiler path: ${compilerPath}`);
-    
-    const args = [
-      '-interaction=nonstopmode',
-      '-file-line-error',
-      '-output-directory=' + workingDir,
-    ];
-
-    if (job.options.synctex) {
-      args.push('-synctex=1');
-    }
-
-    if (job.options.shell) {
-      args.push('-shell-escape');
-    }
-
-    args.push(texFilePath);
-    console.log(`[LaTeX Compiler Node] Compilation arguments:`, args);
-
-    // Run compilation (potentially multiple times for references)
-    let lastResult: { success: boolean; stdout: string; stderr: string } = {
-      success: false,
-      stdout: '',
-      stderr: 'No compilation runs executed'
-    };
-    const maxRuns = 3;
+  ): Promise<{ success: boolean; stdout: string; stderr: string; limitErrors: CompilationError[] }> {
+    const backend = getLatexBackend(job.options.backend);
+    console.log(`[LaTeX Compiler Node] Running LaTeX compilation with ${backend.name} (${job.options.compiler || 'pdflatex'})`);
+
+    const limits = resolveCompilationLimits(job.options.limits);
+    const env = getSandboxEnvironment(workingDir, !!job.options.shell, process.env);
+    const limitErrors: CompilationError[] = [];
+
+    const result = await backend.compile({
+      workingDir,
+      texFilePath,
+      options: job.options,
+      // Every engine and tool run is sandboxed, and the limits it ran into are reported with the result
+      runCommand: async (command, args, options) => {
+        if (!this.activeJobs.has(job.id)) {
+          throw new Error('Compilation was cancelled');
+        }
 
-    for (let run = 1; run <= maxRuns; run++) {
-      console.log(`[LaTeX Compiler Node] Starting compilation pass ${run}/${maxRuns}`);
-      this.emitProgress(job.id, 'compiling', 30 + (run - 1) * 20, `Compilation pass ${run}/${maxRuns}`);
-      
-      try {
-        lastResult = await this.runCommand(compilerPath, args, {
-          cwd: workingDir,
-          timeout: job.options.timeout || 30000,
+        const sandboxed = getSandboxedCommand(command, args, limits, process.platform);
+        const run = await this.runCommand(sandboxed.command, sandboxed.args, {
+          ...options,
+          timeout: getSandboxTimeout(limits, options?.timeout),
+          env,
+          maxOutputBytes: limits.logMB * 1024 * 1024,
+          onSpawn: child => this.activeJobs.set(job.id, child),
         });
-        
-        console.log(`[LaTeX Compiler Node] Pass ${run} completed:`, {
-          success: lastResult.success,
-          stdoutLength: lastResult.stdout.length,
-          stderrLength: lastResult.stderr.length,
-          stdoutPreview: lastResult.stdout.substring(0, 500),
-          stderrPreview: lastResult.stderr.substring(0, 500)
-        });
-
-        // Check if we need another run (for references, citations, etc.)
-        if (run < maxRuns && this.needsAnotherRun(lastResult.stdout)) {
-          console.log(`[LaTeX Compiler Node] Another run needed for references/citations`);
-          continue;
+        const violation = detectLimitViolation(run, limits, command);
+        if (violation) {
+          limitErrors.push(violation);
         }
-        console.log(`[LaTeX Compiler Node] Compilation completed after ${run} pass(es)`);
-        break;
-      } catch (error) {
-        console.error(`[LaTeX Compiler Node] Compilation pass ${run} failed:`, error);
-        lastResult = {
-          success: false,
-          stdout: '',
-          stderr: `Compilation pass ${run} failed: ${error instanceof Error ? error.message : String(error)}`
-        };
-        break;
-      }
-    }
+        // Backends stop at a pass that fails to run, so a run that timed out ends the compilation
+        if (run.timedOut && violation) {
+          throw new Error(violation.message);
+        }
+        return run;
+      },
+      resolveCommand: command => this.getCompilerPath(command),
+      readFile: name => this.readFileIfExists(path.join(workingDir, name)),
+      reportProgress: (progress, message) => this.emitProgress(job.id, 'compiling', progress, message),
+    });
 
-    return lastResult;
+    console.log(`[LaTeX Compiler Node] ${backend.name} finished:`, {
+      success: result.success,
+      stdoutLength: result.stdout.length,
+      stderrLength: result.stderr.length,
+      stderrPreview: result.stderr.substring(0, 500),
+      limitErrors,
+    });
+    return { ...result, limitErrors };
   }
 
   /**
-   * Get the full path to a LaTeX compiler
+   * Get the full path to a LaTeX compiler or tool: where the availability check found it, next to an engine
+   * it found (distributions install their tools together), in MacTeX's bin directory, or else the name to
+   * look up on PATH
    */
   private getCompilerPath(compiler: string): string {
-    const compilerPaths: { [key: string]: string } = {
-      'pdflatex': '/Library/TeX/texbin/pdflatex',
-      'xelatex': '/Library/TeX/texbin/xelatex',
-      'lualatex': '/Library/TeX/texbin/lualatex'
-    };
-    
-    // Return hardcoded path if available, otherwise fallback to system PATH
-    return compilerPaths[compiler] || compiler;
+    const foundPath = this.compilerPaths.get(compiler);
+    if (foundPath) return foundPath;
+
+    const fileName = process.platform === 'win32' ? `${compiler}.exe` : compiler;
+    const directories = [
+      ...Array.from(this.compilerPaths.values())
+        .filter(enginePath => path.isAbsolute(enginePath))
+        .map(enginePath => path.dirname(enginePath)),
+      // Apps started from the Finder don't have MacTeX on their PATH
+      '/Library/TeX/texbin',
+    ];
+    const installedPath = directories
+      .map(directory => path.join(directory, fileName))
+      .find(candidate => fs.existsSync(candidate));
+
+    return installedPath || compiler;
   }
 
   /**
@@ -508,34 +653,54 @@ export class LaTeXCompilerNode extends EventEmitter {
   private async runCommand(
     command: string,
     args: string[],
-    options: { cwd?: string; timeout?: number } = {}
-  ): Promise<{ success: boolean; stdout: string; stderr: string }> {
+    options: {
+      cwd?: string;
+      timeout?: number;
+      env?: Record<string, string | undefined>;
+      maxOutputBytes?: number;
+      onSpawn?: (child: ChildProcess) => void; // Gets the process, e.g. to stop it when its job is cancelled
+    } = {}
+  ): Promise<CommandResult> {
     return new Promise((resolve, reject) => {
       const process = spawn(command, args, {
         cwd: options.cwd,
+        env: options.env,
         stdio: ['pipe', 'pipe', 'pipe'],
       });
+      options.onSpawn?.(process);
 
       let stdout = '';
       let stderr = '';
+      let outputLimitExceeded = false;
       let timeoutId: NodeJS.Timeout | null = null;
 
+      // Stop commands that print without end, e.g. a \loop writing to the terminal
+      const checkOutputLimit = () => {
+        if (options.maxOutputBytes && !outputLimitExceeded && stdout.length + stderr.length > options.maxOutputBytes) {
+          outputLimitExceeded = true;
+          process.kill('SIGKILL');
+        }
+      };
+
       if (options.timeout) {
+        // A command that timed out resolves with what it printed so far, marked as timed out
         timeoutId = setTimeout(() => {
           process.kill('SIGTERM');
-          reject(new Error(`Command timed out after ${options.timeout}ms`));
+          resolve({ success: false, stdout, stderr, signal: 'SIGTERM', timedOut: true });
         }, options.timeout);
       }
 
       process.stdout?.on('data', (data) => {
         stdout += data.toString();
+        checkOutputLimit();
       });
 
       process.stderr?.on('data', (data) => {
         stderr += data.toString();
+        checkOutputLimit();
       });
 
-      process.on('close', (code) => {
+      process.on('close', (code, signal) => {
         if (timeoutId) {
           clearTimeout(timeoutId);
         }
@@ -544,6 +709,8 @@ export class LaTeXCompilerNode extends EventEmitter {
           success: code === 0,
           stdout,
           stderr,
+          signal,
+          outputLimitExceeded,
         });
       });
 
@@ -561,7 +728,7 @@ export class LaTeXCompilerNode extends EventEmitter {
    */
   private async processCompilationResult(
     job: CompilationJob,
-    result: { success: boolean; stdout: string; stderr: string },
+    result: { success: boolean; stdout: string; stderr: string; limitErrors: CompilationError[] },
     workingDir: string,
     startTime: number
   ): Promise<CompilationResult> {
@@ -584,10 +751,43 @@ export class LaTeXCompilerNode extends EventEmitter {
     const logContent = result.stdout + '\n' + result.stderr;
     const { errors, warnings } = this.parseLatexLog(logContent);
 
+    // Limit violations come first, as they explain the other errors; oversized documents aren't returned
+    const pageLimitError = checkPageLimit(
+      pdfExists ? countPdfPages(logContent, pdfBuffer) : undefined,
+      resolveCompilationLimits(job.options.limits)
+    );
+    const limitErrors = pageLimitError ? [...result.limitErrors, pageLimitError] : result.limitErrors;
+    errors.unshift(...limitErrors);
+    if (pageLimitError) {
+      pdfExists = false;
+      pdfBuffer = undefined;
+    }
+
+    let imageBuffer: Buffer | undefined;
+    if (job.options.previewImage && pdfExists) {
+      imageBuffer = await this.rasterizeFirstPage(pdfPath, workingDir, job.options.timeout || 30000);
+      if (!imageBuffer) {
+        warnings.push({ message: 'Could not convert the PDF to a preview image (is pdftoppm installed?)', type: 'warning' });
+      }
+    }
+
+    let pageImages: Buffer[] | undefined;
+    if (job.options.pageImages && pdfExists) {
+      pageImages = await this.rasterizePages(pdfPath, workingDir, job.options.timeout || 30000);
+      if (!pageImages) {
+        warnings.push({ message: 'Could not convert the PDF pages to images (is pdftoppm installed?)', type: 'warning' });
+      }
+    }
+
+    const synctex = job.options.synctex && pdfExists ? await this.readSynctex(workingDir) : undefined;
+
     return {
-      success: result.success && pdfExists,
+      success: result.success && pdfExists && limitErrors.length === 0,
       pdfPath: pdfExists ? pdfPath : undefined,
       pdfBuffer,
+      imageBuffer,
+      pageImages,
+      synctex,
       log: logContent,
       errors,
       warnings,
@@ -596,6 +796,71 @@ export class LaTeXCompilerNode extends EventEmitter {
     };
   }
 
+  /**
+   * Render the first page of a PDF to a PNG with poppler's pdftoppm
+   */
+  private async rasterizeFirstPage(pdfPath: string, workingDir: string, timeout: number): Promise<Buffer | undefined> {
+    const outputBase = path.join(workingDir, 'preview');
+
+    try {
+      const result = await this.runCommand('pdftoppm', ['-png', '-r', '150', '-singlefile', '-f', '1', '-l', '1', pdfPath, outputBase], {
+        cwd: workingDir,
+        timeout,
+      });
+
+      if (result.success && await this.fileExists(`${outputBase}.png`)) {
+        return await fs.promises.readFile(`${outputBase}.png`);
+      }
+    } catch (error) {
+      console.warn('[LaTeX Compiler Node] Preview image conversion failed:', error);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Render every page of a PDF to a PNG with poppler's pdftoppm, in page order
+   */
+  private async rasterizePages(pdfPath: string, workingDir: string, timeout: number): Promise<Buffer[] | undefined> {
+    const outputDir = path.join(workingDir, 'pages');
+
+    try {
+      await fs.promises.mkdir(outputDir, { recursive: true });
+      const result = await this.runCommand('pdftoppm', ['-png', '-r', String(PAGE_IMAGE_RESOLUTION), pdfPath, path.join(outputDir, 'page')], {
+        cwd: workingDir,
+        timeout,
+      });
+
+      // pdftoppm pads the page numbers to the same width, so the names sort in page order
+      const fileNames = (await fs.promises.readdir(outputDir)).filter(name => name.endsWith('.png')).sort();
+      if (result.success && fileNames.length > 0) {
+        return await Promise.all(fileNames.map(name => fs.promises.readFile(path.join(outputDir, name))));
+      }
+    } catch (error) {
+      console.warn('[LaTeX Compiler Node] Page image conversion failed:', error);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Read the boxes SyncTeX recorded for the lines of document.tex
+   */
+  private async readSynctex(workingDir: string): Promise<SynctexData | undefined> {
+    const synctexPath = path.join(workingDir, 'document.synctex.gz');
+
+    try {
+      if (await this.fileExists(synctexPath)) {
+        const content = zlib.gunzipSync(await fs.promises.readFile(synctexPath)).toString('utf-8');
+        return parseSynctex(content);
+      }
+    } catch (error) {
+      console.warn('[LaTeX Compiler Node] Reading SyncTeX output failed:', error);
+    }
+
+    return undefined;
+  }
+
   /**
    * Parse LaTeX log for errors and warnings
    */
@@ -609,7 +874,8 @@ export class LaTeXCompilerNode extends EventEmitter {
 
       // Parse errors (format: ./file.tex:line: Error message)
       const errorMatch = line.match(/^(.+?):(\d+):\s*(.*)Error:\s*(.+)$/) ||
-                        line.match(/^(.+?):(\d+):\s*Undefined control sequence/);
+                        line.match(/^(.+?):(\d+):\s*Undefined control sequence/) ||
+                        line.match(/^(.+?):(\d+):\s*()(Font .+ not loadable.*)$/);
       if (errorMatch) {
         const [, file, lineNum, , message] = errorMatch;
         errors.push({
@@ -618,6 +884,7 @@ export class LaTeXCompilerNode extends EventEmitter {
           message: (message || errorMatch[0]).trim(),
           type: 'error',
           context: this.getContextLines(lines, i),
+          diagnostic: getErrorDiagnostic(line, lines.slice(i + 1, i + 6)),
         });
         continue;
       }
@@ -629,6 +896,19 @@ export class LaTeXCompilerNode extends EventEmitter {
           message: fatalMatch[1].trim(),
           type: 'fatal',
           context: this.getContextLines(lines, i),
+          diagnostic: getErrorDiagnostic(fatalMatch[1], lines.slice(i + 1, i + 6)),
+        });
+        continue;
+      }
+
+      // Parse overfull boxes, which the log reports against the lines of the current file
+      const overfull = getWarningDiagnostic(line);
+      if (overfull?.kind === 'overfull-box') {
+        warnings.push({
+          line: overfull.startLine,
+          message: line.trim(),
+          type: 'warning',
+          diagnostic: overfull,
         });
         continue;
       }
@@ -680,12 +960,14 @@ export class LaTeXCompilerNode extends EventEmitter {
   }
 
   /**
-   * Check if another compilation run is needed
+   * Read a file from a job directory, or an empty string when it wasn't written
    */
-  private needsAnotherRun(stdout: string): boolean {
-    return stdout.includes('Rerun to get cross-references right') ||
-           stdout.includes('There were undefined references') ||
-           stdout.includes('Label(s) may have changed');
+  private async readFileIfExists(filePath: string): Promise<string> {
+    try {
+      return await fs.promises.readFile(filePath, 'utf-8');
+    } catch {
+      return '';
+    }
   }
 
   /**
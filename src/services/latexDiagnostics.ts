@@ -0,0 +1,105 @@
+import { LatexDiagnostic } from './latexCompiler';
+
+/**
+ * TeX Live packages providing the files generated documents may load
+ */
+const TEX_LIVE_PACKAGES: Record<string, string> = {
+  'tikz.sty': 'pgf',
+  'pgfpages.sty': 'pgf',
+  'amsmath.sty': 'amsmath',
+  'amssymb.sty': 'amsfonts',
+  'amsfonts.sty': 'amsfonts',
+  'graphicx.sty': 'graphics',
+  'inputenc.sty': 'latex',
+  'fontenc.sty': 'latex',
+  'beamer.cls': 'beamer',
+  'standalone.cls': 'standalone',
+  'babel.sty': 'babel',
+  'textpos.sty': 'textpos',
+  'adjustbox.sty': 'adjustbox',
+  'booktabs.sty': 'booktabs',
+  'multirow.sty': 'multirow',
+  'pgfplots.sty': 'pgfplots',
+  'listings.sty': 'listings',
+  'mathtools.sty': 'mathtools',
+  'unicode-math.sty': 'unicode-math',
+  'fontspec.sty': 'fontspec',
+  'biblatex.sty': 'biblatex',
+  'pdfpages.sty': 'pdfpages',
+  'xcolor.sty': 'xcolor',
+  'hyperref.sty': 'hyperref',
+};
+
+/**
+ * Files checked with kpsewhich along with the compilers, so missing packages are known before compiling
+ */
+export const LATEX_PACKAGE_FILES = Object.keys(TEX_LIVE_PACKAGES);
+
+/**
+ * Get the TeX Live package that provides a file, assuming other files are named after their package
+ */
+export const findTexLivePackage = (file: string): string =>
+  TEX_LIVE_PACKAGES[file] || file.replace(/\.(sty|cls|def|tex)$/, '');
+
+/**
+ * Recognize the kind of a LaTeX error message, using the lines after it for the command TeX stopped at
+ */
+export const getErrorDiagnostic = (message: string, followingLines: string[] = []): LatexDiagnostic | undefined => {
+  const missingFile = message.match(/File [`']([^`']+)' not found/);
+  if (missingFile) {
+    return { kind: 'missing-file', file: missingFile[1], package: findTexLivePackage(missingFile[1]) };
+  }
+
+  if (message.includes('Undefined control sequence')) {
+    // TeX shows the input up to the undefined command on the "l.<line>" line
+    const inputLine = followingLines.find(line => /^l\.\d+ /.test(line));
+    const command = inputLine?.match(/(\\(?:[a-zA-Z@]+|.))\s*$/);
+    return { kind: 'undefined-control-sequence', command: command?.[1] };
+  }
+
+  const font = message.match(/Font \S+=(\S+)(?: at [\d.]+pt)? not loadable/) ||
+               message.match(/The font "([^"]+)" cannot/);
+  if (font) {
+    return { kind: 'font', font: font[1] };
+  }
+
+  return undefined;
+};
+
+/**
+ * Recognize an overfull box warning, e.g. "Overfull \hbox (12.5pt too wide) in paragraph at lines 40--41"
+ */
+export const getWarningDiagnostic = (line: string): LatexDiagnostic | undefined => {
+  const overfull = line.match(/^Overfull \\([hv])box \(([\d.]+)pt too (?:wide|high)\)(?:.*? at lines? (\d+)(?:--(\d+))?)?/);
+  if (!overfull) return undefined;
+
+  const [, box, amount, startLine, endLine] = overfull;
+  return {
+    kind: 'overfull-box',
+    box: box === 'h' ? 'hbox' : 'vbox',
+    amount: parseFloat(amount),
+    startLine: startLine ? parseInt(startLine, 10) : undefined,
+    endLine: endLine ? parseInt(endLine, 10) : startLine ? parseInt(startLine, 10) : undefined,
+  };
+};
+
+/**
+ * Suggest how to fix the problem a diagnostic describes
+ */
+export const describeDiagnostic = (diagnostic: LatexDiagnostic): string => {
+  switch (diagnostic.kind) {
+    case 'missing-file':
+      return `${diagnostic.file} is part of the TeX Live package "${diagnostic.package}". ` +
+        `Install it with "tlmgr install ${diagnostic.package}" or your distribution's package manager, or switch to the Tectonic backend, which downloads packages itself.`;
+    case 'undefined-control-sequence':
+      return diagnostic.command
+        ? `${diagnostic.command} isn't defined. Check its spelling, or load the package defining it in the custom preamble.`
+        : 'A command isn\'t defined. Check its spelling, or load the package defining it in the custom preamble.';
+    case 'overfull-box':
+      return diagnostic.box === 'hbox'
+        ? `A line is ${diagnostic.amount}pt wider than its box. Make the element wider or shorten its text.`
+        : `Content is ${diagnostic.amount}pt taller than its box. Make the element taller or remove some content.`;
+    case 'font':
+      return `The font "${diagnostic.font}" isn't installed. Install it or choose another font in the theme.`;
+  }
+};
@@ -4,16 +4,51 @@ import {
   SlideElement,
   Theme,
   Color,
-  ElementType,
+  Background,
   ShapeType,
   ShapeConnection,
+  ConnectionRouting,
+  TableData,
+  TableCell,
+  TableColumnAlignment,
+  ChartData,
+  ChartSeries,
+  ElementOverlay,
+  ElementProperties,
+  TextRun,
+  CodeLanguage,
 } from '../types/presentation';
+import { resolveChartData, getChartPointX, CHART_THEME_COLOR_ORDER } from '../utils/chartUtils';
+import { latexTemplateManager } from './latexTemplates';
+import { SlideDimensions, getSlideDimensions, getCanvasBaseHeight, CANVAS_BASE_WIDTH } from '../utils/slideGeometry';
+import { getTextRuns, hasRichText, splitTextRunsByLine } from '../utils/richText';
+import { generateCustomPreambleLatex, hasCustomPreamble } from '../utils/customPreamble';
+import { CODE_LANGUAGES, CODE_TOKEN_COLORS, CODE_HIGHLIGHT_COLOR, CODE_LINE_NUMBER_COLOR } from '../utils/codeHighlighting';
+import { BIBLIOGRAPHY_FILE_NAME, hasBibliography, splitCitations } from '../utils/bibliography';
+import { LatexSourceMap, markSourceRange, extractSourceMap } from '../utils/latexSourceMap';
+import { FlowRegion, assignElementsToRegions } from '../utils/flowLayout';
+import { getVerbatimLines } from '../utils/latexVerbatim';
+
+/**
+ * How speaker notes appear in the compiled PDF
+ */
+export type SpeakerNotesMode = 'hidden' | 'notes-only' | 'second-screen' | 'notes-under-slide';
 
 export interface LaTeXGenerationOptions {
   includePackages?: boolean;
   includeDocumentClass?: boolean;
   optimizeCode?: boolean;
   minifyOutput?: boolean;
+  notesMode?: SpeakerNotesMode;
+  unavailableFonts?: string[]; // Theme fonts the compiler backend could not find; fontspec falls back to defaults
+}
+
+/**
+ * A generated document with the lines each slide and element produced
+ */
+export interface GeneratedLaTeXDocument {
+  latex: string;
+  sourceMap: LatexSourceMap;
 }
 
 export interface LaTeXTemplate {
@@ -26,11 +61,50 @@ export interface LaTeXTemplate {
   titleSlideTemplate?: string;
 }
 
+/**
+ * Standard LaTeX size commands with their sizes in points for the 11pt Beamer default, used by flow layout slides
+ */
+const FONT_SIZE_COMMANDS = [
+  { name: 'tiny', points: 6 },
+  { name: 'scriptsize', points: 8 },
+  { name: 'footnotesize', points: 9 },
+  { name: 'small', points: 10 },
+  { name: 'normalsize', points: 11 },
+  { name: 'large', points: 12 },
+  { name: 'Large', points: 14.4 },
+  { name: 'LARGE', points: 17.28 },
+  { name: 'huge', points: 20.74 },
+  { name: 'Huge', points: 24.88 },
+];
+
+/**
+ * A connection end in page coordinates (cm from the top left), with its outward direction in degrees
+ */
+interface ConnectionAnchor {
+  x: number;
+  y: number;
+  angle: number | null; // null for anchors at the element center
+}
+
+/**
+ * Overlay steps an element is shown on; end is undefined for elements that stay
+ */
+interface OverlaySteps {
+  start: number;
+  end?: number;
+}
+
 /**
  * Core LaTeX code generation service for converting presentation elements to Beamer code
  */
 export class LaTeXGenerator {
   private templates: Map<string, LaTeXTemplate> = new Map();
+  // Page geometry of the presentation being generated; 16:9 for standalone slides
+  private slideDimensions: SlideDimensions = getSlideDimensions('16:9');
+  // Whether \cite commands in text are kept, which needs an attached bibliography
+  private citationsEnabled: boolean = false;
+  // Whether slides and elements are wrapped in source map markers while generating
+  private sourceMapEnabled: boolean = false;
 
   constructor() {
     this.initializeDefaultTemplates();
@@ -40,18 +114,60 @@ export class LaTeXGenerator {
    * Generate complete LaTeX document from presentation
    */
   public generateDocument(presentation: Presentation, options: LaTeXGenerationOptions = {}): string {
+    return this.buildDocument(presentation, options);
+  }
+
+  /**
+   * Generate complete LaTeX document with a source map from its lines back to slides and elements
+   */
+  public generateDocumentWithSourceMap(
+    presentation: Presentation,
+    options: LaTeXGenerationOptions = {}
+  ): GeneratedLaTeXDocument {
+    this.sourceMapEnabled = true;
+    try {
+      const latex = this.buildDocument(presentation, options);
+      return extractSourceMap(latex, options.optimizeCode !== false);
+    } finally {
+      this.sourceMapEnabled = false;
+    }
+  }
+
+  /**
+   * Generate a document holding one slide, for compiling slides separately. The first slide's document
+   * also holds the title page and the last one's the references frame.
+   */
+  public generateSlideDocumentWithSourceMap(
+    presentation: Presentation,
+    slideIndex: number,
+    options: LaTeXGenerationOptions = {}
+  ): GeneratedLaTeXDocument {
+    this.sourceMapEnabled = true;
+    try {
+      const latex = this.buildDocument(presentation, options, slideIndex);
+      return extractSourceMap(latex, options.optimizeCode !== false);
+    } finally {
+      this.sourceMapEnabled = false;
+    }
+  }
+
+  private buildDocument(presentation: Presentation, options: LaTeXGenerationOptions, slideIndex?: number): string {
     const opts = {
       includePackages: true,
       includeDocumentClass: true,
       optimizeCode: true,
       minifyOutput: false,
+      notesMode: 'hidden' as SpeakerNotesMode,
       ...options,
     };
 
+    this.slideDimensions = getSlideDimensions(presentation.settings?.slideSize?.aspectRatio);
+    this.citationsEnabled = hasBibliography(presentation.settings?.bibliography);
+
     let latex = '';
 
     if (opts.includeDocumentClass) {
-      latex += this.generateDocumentClass(presentation.theme);
+      latex += this.generateDocumentClass(presentation.theme, opts.notesMode);
       latex += '\n\n';
     }
 
@@ -60,20 +176,48 @@ export class LaTeXGenerator {
       latex += '\n\n';
     }
 
-    latex += this.generatePreamble(presentation);
+    latex += this.generatePreamble(presentation, opts.unavailableFonts || []);
     latex += '\n\n';
 
+    const notesConfiguration = this.generateNotesConfiguration(opts.notesMode);
+    if (notesConfiguration) {
+      latex += notesConfiguration;
+      latex += '\n\n';
+    }
+
     latex += '\\begin{document}\n\n';
 
+    // A slide compiled on its own would count only its own frames in the total footers show
+    if (slideIndex !== undefined) {
+      latex += this.generateTotalFrameNumber(presentation);
+      latex += '\n';
+    }
+
+    const slides = slideIndex === undefined ? presentation.slides : [presentation.slides[slideIndex]];
+
     // Generate title slide if metadata exists
-    if (presentation.metadata.title) {
+    if (presentation.metadata.title && !slideIndex) {
       latex += this.generateTitleSlide(presentation);
       latex += '\n\n';
     }
 
+    if (slideIndex) {
+      latex += this.generateSlideContext(presentation, slideIndex);
+      latex += '\n';
+    }
+
     // Generate content slides
-    for (const slide of presentation.slides) {
-      latex += this.generateSlide(slide, presentation.theme);
+    for (const slide of slides) {
+      const slideLatex = this.generateSectioning(slide, presentation.settings.sectionAgenda)
+        + this.generateSlide(slide, presentation.theme);
+      latex += this.markSource(`${slideLatex}\n`, slide.id);
+      latex += '\n';
+    }
+
+    const bibliography = presentation.settings?.bibliography;
+    const isLastSlide = slideIndex === undefined || slideIndex === presentation.slides.length - 1;
+    if (hasBibliography(bibliography) && bibliography.referencesFrame && isLastSlide) {
+      latex += this.generateReferencesFrame(bibliography.referencesTitle || 'References');
       latex += '\n\n';
     }
 
@@ -95,21 +239,35 @@ export class LaTeXGenerator {
    */
   public generateSlide(slide: Slide, theme: Theme): string {
     let latex = `% Slide: ${slide.title}\n`;
-    latex += `\\begin{frame}{${this.escapeLatex(slide.title)}}\n`;
 
-    // Add slide background if not default
+    // Add slide background if not default; it is set up in a group around the frame
+    // because Beamer draws the background canvas when the page is shipped out
+    let background = '';
     if (slide.background.type !== 'color' || !this.isDefaultBackgroundColor(slide.background.color)) {
-      latex += this.generateBackground(slide.background);
+      background = this.generateBackground(slide.background, slide.id);
+    }
+    if (background) {
+      latex += `{\n${background}`;
     }
 
-    // Sort elements by z-index for proper layering
-    const sortedElements = [...slide.elements].sort((a, b) =>
-      (a.properties.zIndex || 0) - (b.properties.zIndex || 0)
-    );
+    // Code listings are verbatim, which Beamer only allows in fragile frames
+    const fragile = slide.elements.some(element => element.type === 'code') ? '[fragile]' : '';
+    latex += `\\begin{frame}${fragile}{${this.escapeLatex(slide.title)}}\n`;
 
-    // Generate elements
-    for (const element of sortedElements) {
-      latex += this.generateElement(element, theme);
+    if (slide.layout?.mode === 'flow') {
+      latex += this.generateFlowContent(slide, theme);
+    } else {
+      // Sort elements by z-index for proper layering
+      const sortedElements = [...slide.elements].sort((a, b) =>
+        (a.properties.zIndex || 0) - (b.properties.zIndex || 0)
+      );
+
+      // Generate elements, restricted to their overlay steps
+      for (const element of sortedElements) {
+        const elementLatex = this.wrapInOverlay(this.generateElement(element, theme), element.properties.overlay);
+        // Only code that starts on a line of its own can be mapped back to the element
+        latex += latex.endsWith('\n') ? this.markSource(elementLatex, slide.id, element.id) : elementLatex;
+      }
     }
 
     // Generate connections between shapes
@@ -117,10 +275,149 @@ export class LaTeXGenerator {
       latex += this.generateConnections(slide.connections, slide.elements);
     }
 
+    // Speaker notes; Beamer hides them unless the document enables a notes mode
+    if (slide.notes && slide.notes.trim()) {
+      latex += this.generateNote(slide.notes);
+    }
+
     latex += '\\end{frame}';
+
+    if (background) {
+      latex += '\n}';
+    }
+
+    return latex;
+  }
+
+  /**
+   * Generate the elements of a flow layout slide as regular frame content: the title and content regions
+   * in reading order, then the column regions side by side
+   */
+  private generateFlowContent(slide: Slide, theme: Theme): string {
+    const { regions } = slide.layout;
+    const groups = assignElementsToRegions(slide.elements, slide.layout);
+
+    const generateRegion = (region: FlowRegion): string => groups[region]
+      .map(element => {
+        const regionWidth = regions[region]?.width || CANVAS_BASE_WIDTH;
+        const elementLatex = this.wrapInOverlay(this.generateFlowElement(element, theme, regionWidth), element.properties.overlay);
+        return this.markSource(elementLatex, slide.id, element.id);
+      })
+      .join('');
+
+    let latex = generateRegion('title') + generateRegion('content');
+
+    if (groups.leftColumn.length > 0 || groups.rightColumn.length > 0) {
+      latex += '\\begin{columns}[T]\n';
+      (['leftColumn', 'rightColumn'] as FlowRegion[]).forEach(region => {
+        const width = regions[region]?.width;
+        if (!width) return;
+        // Leave a gutter between the columns
+        latex += `\\begin{column}{${Number(((width / CANVAS_BASE_WIDTH) * 0.96).toFixed(2))}\\textwidth}\n`;
+        latex += generateRegion(region);
+        latex += '\\end{column}\n';
+      });
+      latex += '\\end{columns}\n';
+    }
+
+    return latex;
+  }
+
+  /**
+   * Generate an element as regular content, without a position, sized relative to the width of its region.
+   * Each element ends with a blank line so text elements form separate paragraphs.
+   */
+  private generateFlowElement(element: SlideElement, theme: Theme, regionWidth: number): string {
+    const { properties, size } = element;
+    const coords = this.convertCanvasToLatexCoordinates(element.position, size);
+
+    switch (element.type) {
+      case 'text':
+        return `${this.generateFlowTextElement(element)}\n`;
+      case 'image': {
+        if (!element.content) return '% Image element without source\n';
+        const fraction = Number(Math.min(1, size.width / regionWidth).toFixed(2));
+        const { setup, graphic } = this.getImageGraphic(element, [`width=${fraction}\\linewidth`]);
+        return `\\begin{center}\n${setup}${graphic}\n\\end{center}\n\n`;
+      }
+      case 'shape':
+        return `${this.generateShapePicture(properties, properties.shapeType || 'rectangle', coords.width, coords.height)}\n`;
+      case 'table': {
+        const table = properties.tableData;
+        if (!table || table.rows === 0 || table.columns === 0) return '% Empty table element\n';
+        return `\\begin{center}\n${this.generateTabular(properties, table)}\\end{center}\n\n`;
+      }
+      case 'chart': {
+        const chart = properties.chartData ? resolveChartData(properties.chartData) : undefined;
+        if (!chart || chart.series.length === 0) return '% Empty chart element\n';
+        return `\\begin{center}\n${this.generateChartPicture(chart, coords.width, coords.height)}\\end{center}\n\n`;
+      }
+      case 'latex': {
+        const content = (element.content || '').replace(/\s+$/, '');
+        return content.trim() ? `${content}\n\n` : '% Empty raw LaTeX element\n';
+      }
+      case 'code':
+        if (!this.getCodeLines(element).some(line => line.trim())) return '% Empty code element\n';
+        return `${this.generateCodeListings(element, this.getCodeListingOptions(element))}\n`;
+      default:
+        return `% Unsupported element type: ${element.type}\n`;
+    }
+  }
+
+  /**
+   * Generate a text element as a paragraph or list, using standard size commands and alignment environments
+   */
+  private generateFlowTextElement(element: SlideElement): string {
+    const { properties, content } = element;
+    if (!content) return '% Empty text element\n';
+
+    let body: string;
+    if (properties.listType && properties.listType !== 'none') {
+      body = this.generateListContent(content, properties).replace(/\n+$/, '');
+    } else if (properties.hasMath) {
+      body = this.processMathContent(content);
+    } else {
+      body = hasRichText(content, properties.richText)
+        ? this.processRichTextContent(getTextRuns(content, properties.richText))
+        : this.processTextContent(content);
+    }
+
+    const declarations: string[] = [];
+    const sizeName = properties.fontSize ? this.getFontSizeCommandName(properties.fontSize) : 'normalsize';
+    if (sizeName !== 'normalsize') {
+      declarations.push(`\\${sizeName}`);
+    }
+    if (properties.fontWeight === 'bold') {
+      declarations.push('\\bfseries');
+    }
+    if (properties.fontStyle === 'italic') {
+      declarations.push('\\itshape');
+    }
+    const { textColor } = properties;
+    if (textColor && (textColor.r !== 0 || textColor.g !== 0 || textColor.b !== 0)) {
+      declarations.push(`\\color{${this.getOrDefineColor(textColor)}}`);
+    }
+
+    // Ending the paragraph inside the group applies the size's line spacing
+    let latex = declarations.length > 0 ? `{${declarations.join('')} ${body}\\par}\n` : `${body}\n`;
+
+    if (properties.textAlign === 'center') {
+      latex = `\\begin{center}\n${latex}\\end{center}\n`;
+    } else if (properties.textAlign === 'right') {
+      latex = `\\begin{flushright}\n${latex}\\end{flushright}\n`;
+    }
+
     return latex;
   }
 
+  /**
+   * Wrap code generated for a slide or element in source map markers, when a source map is being built
+   */
+  private markSource(latex: string, slideId: string, elementId?: string): string {
+    if (!this.sourceMapEnabled || !latex.endsWith('\n')) return latex;
+    return markSourceRange(latex, slideId, elementId);
+  }
+
   /**
    * Generate LaTeX code for a single element
    */
@@ -132,21 +429,180 @@ export class LaTeXGenerator {
         return this.generateImageElement(element);
       case 'shape':
         return this.generateShapeElement(element, theme);
+      case 'table':
+        return this.generateTableElement(element);
+      case 'chart':
+        return this.generateChartElement(element);
+      case 'latex':
+        return this.generateRawLatexElement(element);
+      case 'code':
+        return this.generateCodeElement(element);
       default:
         return `% Unsupported element type: ${element.type}\n`;
     }
   }
 
+  /**
+   * Get the Beamer overlay specification for an element, or an empty string if it is always shown
+   */
+  public getOverlaySpecification(overlay?: ElementOverlay): string {
+    if (!overlay) return '';
+
+    const { start, end } = this.getOverlaySteps(overlay);
+
+    if (end !== undefined) {
+      return `<${start}-${end}>`;
+    }
+
+    return start > 1 ? `<${start}->` : '';
+  }
+
+  /**
+   * Get the first and, if it disappears, the last step an element is shown on
+   */
+  private getOverlaySteps(overlay: ElementOverlay): OverlaySteps {
+    const start = Math.max(1, Math.floor(overlay.appearOnStep || 1));
+    const end = overlay.disappearAfterStep ? Math.max(start, Math.floor(overlay.disappearAfterStep)) : undefined;
+    return { start, end };
+  }
+
+  /**
+   * Wrap generated element code so it is only typeset on its overlay steps
+   */
+  private wrapInOverlay(latex: string, overlay?: ElementOverlay): string {
+    const specification = this.getOverlaySpecification(overlay);
+    if (!specification) return latex;
+
+    // onlyenv doesn't read its body as an argument, so fragile content stays safe
+    return `\n\\begin{onlyenv}${specification}${latex}\\end{onlyenv}\n`;
+  }
+
+  /**
+   * Generate the section/subsection commands a slide starts, with an optional agenda frame
+   */
+  private generateSectioning(slide: Slide, includeAgenda: boolean = false): string {
+    let latex = '';
+    const section = slide.section?.trim();
+    const subsection = slide.subsection?.trim();
+
+    if (section) {
+      latex += `\\section{${this.escapeLatex(section)}}\n`;
+
+      if (includeAgenda) {
+        latex += '\\begin{frame}{Outline}\n';
+        latex += '\\tableofcontents[currentsection]\n';
+        latex += '\\end{frame}\n\n';
+      }
+    }
+
+    if (subsection) {
+      latex += `\\subsection{${this.escapeLatex(subsection)}}\n`;
+    }
+
+    return latex;
+  }
+
+  /**
+   * Continue the frame numbering and the current section of the slides before a slide compiled on its own
+   */
+  private generateSlideContext(presentation: Presentation, slideIndex: number): string {
+    const slide = presentation.slides[slideIndex];
+    const previousSlides = presentation.slides.slice(0, slideIndex);
+
+    let section: string | undefined;
+    let subsection: string | undefined;
+    previousSlides.forEach(previous => {
+      if (previous.section?.trim()) {
+        section = previous.section.trim();
+        subsection = undefined;
+      }
+      if (previous.subsection?.trim()) {
+        subsection = previous.subsection.trim();
+      }
+    });
+
+    let latex = '';
+    if (section && !slide.section?.trim()) {
+      latex += `\\section{${this.escapeLatex(section)}}\n`;
+      if (subsection && !slide.subsection?.trim()) {
+        latex += `\\subsection{${this.escapeLatex(subsection)}}\n`;
+      }
+    }
+
+    latex += `\\setcounter{framenumber}{${this.countFrames(presentation, previousSlides)}}\n`;
+
+    return latex;
+  }
+
+  /**
+   * Set the total frame number to the frames of the whole presentation. Beamer reads the total from the .nav
+   * file at the start of the document, so the definition follows \\begin{document}.
+   */
+  private generateTotalFrameNumber(presentation: Presentation): string {
+    return `\\def\\inserttotalframenumber{${this.countFrames(presentation, presentation.slides)}}\n`;
+  }
+
+  /**
+   * Count the frames of the title page and the given slides, with the outline frames of the sections they start
+   */
+  private countFrames(presentation: Presentation, slides: Slide[]): number {
+    let frameCount = slides.length + (presentation.metadata.title ? 1 : 0);
+    if (presentation.settings.sectionAgenda) {
+      frameCount += slides.filter(slide => slide.section?.trim()).length;
+    }
+    return frameCount;
+  }
+
+  /**
+   * Generate a \\note for the frame, keeping the note's paragraphs
+   */
+  private generateNote(notes: string): string {
+    const paragraphs = notes
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => line)
+      .map(line => this.escapeLatex(line));
+
+    return `\\note{${paragraphs.join('\n\n')}}\n`;
+  }
+
+  /**
+   * Generate the Beamer options that lay out speaker notes for the selected mode
+   */
+  private generateNotesConfiguration(mode: SpeakerNotesMode): string {
+    switch (mode) {
+      case 'notes-only':
+        return '\\setbeameroption{show only notes}';
+      case 'second-screen':
+        return '\\usepackage{pgfpages}\n\\setbeameroption{show notes on second screen=right}';
+      case 'notes-under-slide':
+        // Each slide is followed by its note page; put both on one portrait sheet
+        return [
+          '\\usepackage{pgfpages}',
+          '\\setbeameroption{show notes}',
+          '\\setbeamertemplate{note page}[plain]',
+          '\\pgfpagesuselayout{2 on 1}[a4paper,border shrink=5mm]',
+        ].join('\n');
+      default:
+        return '';
+    }
+  }
+
   /**
    * Generate document class with theme options
    */
-  private generateDocumentClass(theme: Theme): string {
+  private generateDocumentClass(theme: Theme, notesMode: SpeakerNotesMode = 'hidden'): string {
     const options = [
-      'aspectratio=169', // 16:9 aspect ratio
+      `aspectratio=${this.slideDimensions.beamerAspectRatio}`, // Presentation aspect ratio
       'xcolor=dvipsnames',
       'professionalfonts',
     ];
 
+    // Handouts collapse overlays so each slide gets a single note page
+    if (notesMode === 'notes-under-slide') {
+      options.push('handout');
+    }
+
     if (theme.latexOptions) {
       Object.entries(theme.latexOptions).forEach(([key, value]) => {
         // Avoid duplicate options
@@ -163,9 +619,18 @@ export class LaTeXGenerator {
    * Generate required packages
    */
   private generatePackages(presentation: Presentation): string {
+    return this.getPackageList(presentation).map(pkg => `\\usepackage${pkg}`).join('\n');
+  }
+
+  /**
+   * Get the options and names of the packages the presentation needs, e.g. '[T1]{fontenc}'
+   */
+  private getPackageList(presentation: Presentation): string[] {
+    const usesFontspec = this.usesFontspec(presentation);
+
+    // XeLaTeX and LuaLaTeX read UTF-8 natively and load system fonts through fontspec
     const packages = [
-      '[utf8]{inputenc}',
-      '[T1]{fontenc}',
+      ...(usesFontspec ? ['{fontspec}'] : ['[utf8]{inputenc}', '[T1]{fontenc}']),
       '{babel}',
       '{amsmath}',
       '{amsfonts}',
@@ -177,48 +642,121 @@ export class LaTeXGenerator {
       '[absolute,overlay]{textpos}',
     ];
 
-    // Add conditional packages based on content
+    // Add conditional packages based on content (cover-fit background images use adjustbox too)
     const hasImages = presentation.slides.some(slide =>
-      slide.elements.some(element => element.type === 'image')
+      slide.elements.some(element => element.type === 'image') ||
+      (slide.background.type === 'image' && !!slide.background.image?.src)
     );
     if (hasImages) {
       packages.push('{adjustbox}');
     }
 
+    const hasTables = presentation.slides.some(slide =>
+      slide.elements.some(element => element.type === 'table')
+    );
+    if (hasTables) {
+      packages.push('{booktabs}', '{multirow}');
+      if (!hasImages) {
+        packages.push('{adjustbox}');
+      }
+    }
+
+    if (this.hasCharts(presentation)) {
+      packages.push('{pgfplots}');
+    }
+
+    if (this.getCodeLanguages(presentation).length > 0) {
+      packages.push('{listings}');
+    }
+
+    const bibliography = presentation.settings?.bibliography;
+    if (hasBibliography(bibliography)) {
+      packages.push(`[backend=${bibliography.backend || 'biber'},style=${bibliography.style || 'numeric'}]{biblatex}`);
+    }
+
     const hasMath = presentation.slides.some(slide =>
       slide.elements.some(element => element.properties.hasMath)
     );
     if (hasMath) {
-      packages.push('{mathtools}', '{unicode-math}');
+      // unicode-math needs an OpenType-capable engine
+      packages.push(...(usesFontspec ? ['{mathtools}', '{unicode-math}'] : ['{mathtools}']));
     }
 
-    return packages.map(pkg => `\\usepackage${pkg}`).join('\n');
+    return packages;
+  }
+
+  /**
+   * Find the elements that make the presentation load a package, e.g. the charts that need pgfplots.
+   * Packages every document loads aren't needed by any element in particular.
+   */
+  public findElementsNeedingPackage(presentation: Presentation, packageName: string): { slideId: string; elementId: string }[] {
+    const needsMath = (element: SlideElement) => !!element.properties.hasMath;
+    const elementNeeds: Record<string, (element: SlideElement) => boolean> = {
+      adjustbox: element => element.type === 'image' || element.type === 'table',
+      booktabs: element => element.type === 'table',
+      multirow: element => element.type === 'table',
+      pgfplots: element => element.type === 'chart',
+      listings: element => element.type === 'code',
+      mathtools: needsMath,
+      'unicode-math': needsMath,
+    };
+    const needs = elementNeeds[packageName];
+    if (!needs) return [];
+
+    return presentation.slides.flatMap(slide => slide.elements
+      .filter(needs)
+      .map(element => ({ slideId: slide.id, elementId: element.id })));
   }
 
   /**
    * Generate preamble with theme configuration
    */
-  private generatePreamble(presentation: Presentation): string {
+  private generatePreamble(presentation: Presentation, unavailableFonts: string[] = []): string {
     const { theme, metadata } = presentation;
     let preamble = '';
 
-    // Theme colors
-    preamble += this.generateColorDefinitions(theme);
-    preamble += '\n';
-
-    // Font configuration
-    preamble += this.generateFontConfiguration(theme);
+    // Beamer theme, color/font themes and theme colors from the selected template
+    preamble += this.generateThemePreamble(presentation);
     preamble += '\n';
 
-    // Beamer theme setup
-    preamble += '\\usetheme{default}\n';
-    preamble += '\\usecolortheme[named=primary]{structure}\n';
+    // Font configuration (after the theme so it isn't overridden)
+    preamble += this.usesFontspec(presentation)
+      ? this.generateFontspecConfiguration(theme, unavailableFonts)
+      : this.generateFontConfiguration(theme);
     preamble += '\n';
 
     // TikZ libraries for shapes and connections
     preamble += '\\usetikzlibrary{shapes.geometric,arrows.meta,positioning,calc}\n';
     preamble += '\n';
 
+    // pgfplots compatibility level for chart elements
+    if (this.hasCharts(presentation)) {
+      preamble += '\\pgfplotsset{compat=1.18}\n';
+      preamble += '\n';
+    }
+
+    // Listing colors and languages listings doesn't ship with, for code elements
+    const codeLanguages = this.getCodeLanguages(presentation);
+    if (codeLanguages.length > 0) {
+      preamble += this.generateListingsConfiguration(codeLanguages);
+      preamble += '\n';
+    }
+
+    // Attached .bib file, written next to the document when it is compiled
+    const bibliography = presentation.settings?.bibliography;
+    if (hasBibliography(bibliography)) {
+      preamble += this.generateBibliographyResource(bibliography.content);
+      preamble += '\n';
+    }
+
+    // User packages, TikZ libraries and macros
+    const customPreamble = presentation.settings?.customPreamble;
+    if (hasCustomPreamble(customPreamble)) {
+      preamble += '% Custom preamble\n';
+      preamble += generateCustomPreambleLatex(customPreamble);
+      preamble += '\n\n';
+    }
+
     // Document metadata
     if (metadata.title) {
       preamble += `\\title{${this.escapeLatex(metadata.title)}}\n`;
@@ -240,17 +778,35 @@ export class LaTeXGenerator {
   }
 
   /**
-   * Generate color definitions from theme
+   * Generate the Beamer theme setup and theme colors of the presentation's theme template
    */
-  private generateColorDefinitions(theme: Theme): string {
-    let colors = '';
+  private generateThemePreamble(presentation: Presentation): string {
+    const { theme } = presentation;
+    const template = latexTemplateManager.getThemeTemplate(theme.beamerThemeTemplate || 'default')
+      || latexTemplateManager.getThemeTemplate('default')!;
+    return latexTemplateManager.generateThemePreamble(template, theme);
+  }
 
-    Object.entries(theme.colors).forEach(([name, color]) => {
-      const rgb = this.colorToRgb(color);
-      colors += `\\definecolor{${name}}{RGB}{${rgb.r},${rgb.g},${rgb.b}}\n`;
-    });
+  /**
+   * Embed the BibTeX source with filecontents so exported documents stay self-contained, and register it with biblatex
+   */
+  private generateBibliographyResource(content: string): string {
+    let latex = `\\begin{filecontents*}[overwrite]{${BIBLIOGRAPHY_FILE_NAME}}\n`;
+    latex += `${content.replace(/\s+$/, '')}\n`;
+    latex += '\\end{filecontents*}\n';
+    latex += `\\addbibresource{${BIBLIOGRAPHY_FILE_NAME}}\n`;
+    return latex;
+  }
 
-    return colors;
+  /**
+   * Generate a frame listing the cited references, breaking over several frames when they don't fit
+   */
+  private generateReferencesFrame(title: string): string {
+    let latex = `% References\n`;
+    latex += `\\begin{frame}[allowframebreaks]{${this.escapeLatex(title)}}\n`;
+    latex += '\\printbibliography[heading=none]\n';
+    latex += '\\end{frame}';
+    return latex;
   }
 
   /**
@@ -271,6 +827,59 @@ export class LaTeXGenerator {
     return fonts;
   }
 
+  /**
+   * Generate fontspec font setup from the theme's font family names,
+   * leaving fonts that aren't installed on the engine's default
+   */
+  private generateFontspecConfiguration(theme: Theme, unavailableFonts: string[]): string {
+    const isAvailable = (font: string) => !unavailableFonts.includes(font);
+    let fonts = '';
+
+    const fallbacks = this.getThemeFontFamilies(theme).filter(font => !isAvailable(font));
+    fallbacks.forEach(font => {
+      fonts += `% Font "${this.sanitizeFontName(font)}" is not installed; using the default font instead\n`;
+    });
+
+    if (theme.fonts.body && isAvailable(theme.fonts.body)) {
+      const body = this.sanitizeFontName(theme.fonts.body);
+      fonts += `\\setmainfont{${body}}\n`;
+      fonts += `\\setsansfont{${body}}\n`;
+    }
+
+    if (theme.fonts.monospace && isAvailable(theme.fonts.monospace)) {
+      fonts += `\\setmonofont{${this.sanitizeFontName(theme.fonts.monospace)}}\n`;
+    }
+
+    if (theme.fonts.heading && isAvailable(theme.fonts.heading)) {
+      fonts += `\\newfontfamily\\headingfont{${this.sanitizeFontName(theme.fonts.heading)}}\n`;
+      fonts += '\\setbeamerfont{title}{family=\\headingfont}\n';
+      fonts += '\\setbeamerfont{frametitle}{family=\\headingfont}\n';
+    }
+
+    return fonts;
+  }
+
+  /**
+   * Font family names a presentation loads through fontspec; empty for pdfLaTeX
+   */
+  public getFontspecFonts(presentation: Presentation): string[] {
+    return this.usesFontspec(presentation) ? this.getThemeFontFamilies(presentation.theme) : [];
+  }
+
+  private usesFontspec(presentation: Presentation): boolean {
+    const engine = presentation.settings?.latexEngine;
+    return engine === 'xelatex' || engine === 'lualatex' || presentation.settings?.compilerBackend === 'tectonic';
+  }
+
+  private getThemeFontFamilies(theme: Theme): string[] {
+    const { heading, body, monospace } = theme.fonts;
+    return [heading, body, monospace].filter((font, index, all) => !!font && all.indexOf(font) === index);
+  }
+
+  private sanitizeFontName(font: string): string {
+    return font.replace(/[{}\\%#$&^_~]/g, '').trim();
+  }
+
   /**
    * Generate title slide
    */
@@ -293,8 +902,8 @@ export class LaTeXGenerator {
 
     // Apply text margins to coordinates (0.3cm from each edge)
     const TEXT_MARGIN = 0.3;
-    const TEXT_LEFT_BOUNDARY = 0.2 + TEXT_MARGIN;   // 0.5cm
-    const TEXT_RIGHT_BOUNDARY = 15.5 - TEXT_MARGIN; // 15.2cm
+    const TEXT_LEFT_BOUNDARY = this.slideDimensions.leftEdgeCm + TEXT_MARGIN;   // 0.5cm
+    const TEXT_RIGHT_BOUNDARY = this.slideDimensions.rightEdgeCm - TEXT_MARGIN; // 15.2cm for 16:9
 
     // Adjust text position to respect margins
     const textX = Math.max(TEXT_LEFT_BOUNDARY, coords.x);
@@ -316,24 +925,7 @@ export class LaTeXGenerator {
     let textFormatting = '';
 
     if (properties.fontSize) {
-      // Scale font size based on coordinate conversion ratio
-      // Canvas reference: 800x382, LaTeX usable: 15.3cm x 7.3cm
-      const CANVAS_WIDTH = 800;
-      const USABLE_WIDTH_CM = 15.3;
-      const SCALE_FACTOR = USABLE_WIDTH_CM / CANVAS_WIDTH; // ~0.019125
-
-      // Scale the font size to match the coordinate system
-      const scaledFontSize = properties.fontSize * SCALE_FACTOR * 28.35; // Convert to points (1cm = 28.35pt)
-      const lineSpacing = scaledFontSize * 1.2;
-
-      console.log('📝 [Font Scaling]', {
-        originalFontSize: properties.fontSize,
-        scaleFactor: SCALE_FACTOR,
-        scaledFontSize: scaledFontSize.toFixed(1),
-        lineSpacing: lineSpacing.toFixed(1)
-      });
-
-      textFormatting += `\\fontsize{${scaledFontSize.toFixed(1)}}{${lineSpacing.toFixed(1)}}\\selectfont`;
+      textFormatting += this.generateFontSizeCommand(properties.fontSize);
     }
 
     if (properties.fontWeight === 'bold') {
@@ -365,7 +957,9 @@ export class LaTeXGenerator {
     } else if (content) {
       // Handle newlines properly - use \\ for line breaks within textblock
       // Also handle automatic text wrapping by preserving spaces
-      processedContent = this.processTextContent(content);
+      processedContent = hasRichText(content, properties.richText)
+        ? this.processRichTextContent(getTextRuns(content, properties.richText))
+        : this.processTextContent(content);
 
       // Get text alignment command
       let alignmentCommand = '';
@@ -377,137 +971,820 @@ export class LaTeXGenerator {
         alignmentCommand = '\\raggedright ';
       }
 
-      console.log('📐 [LaTeXGenerator] Text alignment:', {
-        textAlign: properties.textAlign,
-        alignmentCommand: alignmentCommand.trim(),
-        hasLineBreaks: processedContent.includes('\\\\')
-      });
+      console.log('📐 [LaTeXGenerator] Text alignment:', {
+        textAlign: properties.textAlign,
+        alignmentCommand: alignmentCommand.trim(),
+        hasLineBreaks: processedContent.includes('\\\\')
+      });
+
+      // If content has line breaks, wrap it in a minipage for proper line break handling
+      if (processedContent.includes('\\\\')) {
+        processedContent = `\\begin{minipage}[t]{${dynamicWidth.toFixed(2)}cm}\n${alignmentCommand}${processedContent}\n\\end{minipage}`;
+      } else {
+        // For single-line text, apply alignment directly
+        processedContent = alignmentCommand + processedContent;
+      }
+    }
+
+    latex += processedContent;
+
+    if (textFormatting) {
+      latex += '}';
+    }
+
+    latex += '\n\\end{textblock*}\n';
+
+    return latex;
+  }
+
+  /**
+   * Generate a \\fontsize command scaled from canvas pixels to the slide coordinate system
+   */
+  private generateFontSizeCommand(fontSize: number): string {
+    const scaledFontSize = this.getScaledFontSize(fontSize);
+    const lineSpacing = scaledFontSize * 1.2;
+
+    console.log('📝 [Font Scaling]', {
+      originalFontSize: fontSize,
+      scaledFontSize: scaledFontSize.toFixed(1),
+      lineSpacing: lineSpacing.toFixed(1)
+    });
+
+    return `\\fontsize{${scaledFontSize.toFixed(1)}}{${lineSpacing.toFixed(1)}}\\selectfont`;
+  }
+
+  /**
+   * Convert a canvas font size in pixels to points on the slide
+   */
+  private getScaledFontSize(fontSize: number): number {
+    // Scale font size based on coordinate conversion ratio
+    // Canvas reference width maps onto the usable slide width (15.3cm for 16:9, 12.1cm for 4:3)
+    const SCALE_FACTOR = this.slideDimensions.usableWidthCm / CANVAS_BASE_WIDTH; // ~0.019125 for 16:9
+
+    return fontSize * SCALE_FACTOR * 28.35; // Convert to points (1cm = 28.35pt)
+  }
+
+  /**
+   * Get the standard size command closest to a canvas font size, e.g. 'small'
+   */
+  private getFontSizeCommandName(fontSize: number): string {
+    const points = this.getScaledFontSize(fontSize);
+    return FONT_SIZE_COMMANDS.reduce((closest, size) =>
+      Math.abs(size.points - points) < Math.abs(closest.points - points) ? size : closest
+    ).name;
+  }
+
+  /**
+   * Generate image element LaTeX code with preserved aspect ratio
+   */
+  private generateImageElement(element: SlideElement): string {
+    const { position, size, properties, content } = element;
+
+    if (!content) return '% Image element without source\n';
+
+    let latex = '\n% Image Element\n';
+
+    // Use textpos for consistent positioning with text elements
+    const coords = this.convertCanvasToLatexCoordinates(position, size);
+
+    // Calculate aspect ratio from canvas size to maintain proper scaling
+    const canvasAspectRatio = size.width / size.height;
+    const latexAspectRatio = coords.width / coords.height;
+
+    let imageOptions: string[] = [];
+
+    // FIXED: Use only width OR height to maintain aspect ratio, not both
+    // This prevents distortion between canvas and PDF output
+    if (canvasAspectRatio > latexAspectRatio) {
+      // Image is wider relative to the target area - constrain by width
+      imageOptions.push(`width=${coords.width.toFixed(3)}cm`);
+    } else {
+      // Image is taller relative to the target area - constrain by height  
+      imageOptions.push(`height=${coords.height.toFixed(3)}cm`);
+    }
+
+    // Always preserve aspect ratio
+    imageOptions.push('keepaspectratio');
+
+    console.log('🖼️ [LaTeX Generator] Image generation:', {
+      elementId: element.id,
+      canvasSize: { width: size.width, height: size.height },
+      latexCoords: coords,
+      canvasAspectRatio: canvasAspectRatio.toFixed(3),
+      latexAspectRatio: latexAspectRatio.toFixed(3),
+      constrainBy: canvasAspectRatio > latexAspectRatio ? 'width' : 'height',
+      imageOptions
+    });
+
+    const { setup, graphic } = this.getImageGraphic(element, imageOptions);
+
+    const rotation = properties.rotation ? properties.rotation % 360 : 0;
+    if (rotation) {
+      // Rotated images turn about their center, so the block is centered on it and sized to the rotated bounds
+      const radians = (rotation * Math.PI) / 180;
+      const boundsWidth = Math.abs(coords.width * Math.cos(radians)) + Math.abs(coords.height * Math.sin(radians));
+      const centerX = coords.x + coords.width / 2;
+      const centerY = coords.y + coords.height / 2;
+      latex += `\\begin{textblock*}{${boundsWidth.toFixed(3)}cm}[0.5,0.5](${centerX.toFixed(3)}cm,${centerY.toFixed(3)}cm)\n`;
+      latex += '\\centering\n';
+    } else {
+      latex += `\\begin{textblock*}{${coords.width.toFixed(3)}cm}(${coords.x.toFixed(3)}cm,${coords.y.toFixed(3)}cm)\n`;
+    }
+    latex += setup;
+    latex += `${graphic}\n`;
+    latex += '\\end{textblock*}\n';
+
+    return latex;
+  }
+
+  /**
+   * Build the \\includegraphics command for an image with its crop, rotation and flips, after the given size options.
+   * Cropped images need the setup line, which measures the image in box 0, placed before the graphic.
+   */
+  private getImageGraphic(element: SlideElement, sizeOptions: string[]): { setup: string; graphic: string } {
+    const { properties, content } = element;
+    const imageOptions = [...sizeOptions];
+
+    // Crops are relative, so they are trimmed against the image's natural size measured in box 0
+    const trim = this.getImageTrim(properties.crop);
+    if (trim) {
+      imageOptions.push(`trim=${trim}`, 'clip');
+    }
+
+    // Canvas angles run clockwise, graphicx angles counter-clockwise; under a single flip the turn is mirrored
+    const rotation = properties.rotation ? properties.rotation % 360 : 0;
+    const mirrored = !!properties.flipX !== !!properties.flipY;
+    if (rotation) {
+      const angle = mirrored ? rotation : -rotation;
+      imageOptions.push(`angle=${Number(angle.toFixed(2))}`);
+    }
+
+    // Images should be processed by preview service before reaching here
+    const imagePath = content;
+
+    let graphic = `\\includegraphics[${imageOptions.join(',')}]{${imagePath}}`;
+    if (properties.flipX && properties.flipY) {
+      graphic = `\\scalebox{-1}[-1]{${graphic}}`;
+    } else if (properties.flipX) {
+      graphic = `\\reflectbox{${graphic}}`;
+    } else if (properties.flipY) {
+      graphic = `\\scalebox{1}[-1]{${graphic}}`;
+    }
+
+    return {
+      setup: trim ? `\\sbox0{\\includegraphics{${imagePath}}}%\n` : '',
+      graphic
+    };
+  }
+
+
+
+  /**
+   * Get the graphicx trim (left bottom right top) for a crop given in percent, or null when nothing is cut off
+   */
+  private getImageTrim(crop?: ElementProperties['crop']): string | null {
+    if (!crop) return null;
+
+    const clamp = (percent: number) => Math.min(100, Math.max(0, percent)) / 100;
+    const left = clamp(crop.x);
+    const top = clamp(crop.y);
+    const right = clamp(100 - crop.x - crop.width);
+    const bottom = clamp(100 - crop.y - crop.height);
+
+    if (left + top + right + bottom === 0) return null;
+
+    return `{${left.toFixed(3)}\\wd0} {${bottom.toFixed(3)}\\ht0} {${right.toFixed(3)}\\wd0} {${top.toFixed(3)}\\ht0}`;
+  }
+
+  /**
+   * Generate table element LaTeX code as a tabular inside a positioned textblock
+   */
+  private generateTableElement(element: SlideElement): string {
+    const { position, size, properties } = element;
+    const table = properties.tableData;
+
+    if (!table || table.rows === 0 || table.columns === 0) return '% Empty table element\n';
+
+    let latex = '\n% Table Element\n';
+
+    const coords = this.convertCanvasToLatexCoordinates(position, size);
+
+    latex += `\\begin{textblock*}{${coords.width.toFixed(3)}cm}(${coords.x.toFixed(3)}cm,${coords.y.toFixed(3)}cm)\n`;
+    latex += this.generateTabular(properties, table);
+    latex += '\\end{textblock*}\n';
+
+    return latex;
+  }
+
+  /**
+   * Generate a table's tabular, shrunk to the line width when it is wider
+   */
+  private generateTabular(properties: ElementProperties, table: TableData): string {
+    let latex = '';
+    const borderStyle = table.borderStyle || 'booktabs';
+    const alignments = Array.from({ length: table.columns }, (_, column) =>
+      table.columnAlignments?.[column] || 'left'
+    );
+
+    let textFormatting = '';
+    if (properties.fontSize) {
+      textFormatting += this.generateFontSizeCommand(properties.fontSize);
+    }
+    if (properties.textColor) {
+      textFormatting += `\\color{${this.getOrDefineColor(properties.textColor)}} `;
+    }
+    if (textFormatting) {
+      latex += `{${textFormatting}\n`;
+    }
+
+    // Shrink wide tables to the block width, but never enlarge narrow ones
+    latex += '\\begin{adjustbox}{max width=\\linewidth}\n';
+    latex += `\\begin{tabular}{${this.getTableColumnSpec(alignments, borderStyle)}}\n`;
+
+    if (borderStyle === 'booktabs') {
+      latex += '\\toprule\n';
+    } else if (borderStyle !== 'none') {
+      latex += '\\hline\n';
+    }
+
+    const coveredBy = this.resolveTableSpans(table);
+
+    for (let row = 0; row < table.rows; row++) {
+      const isHeader = row === 0 && !!table.headerRow;
+      const rowCells: string[] = [];
+      let column = 0;
+
+      while (column < table.columns) {
+        const origin = coveredBy[row][column];
+        const originCell = table.cells[origin.row]?.[origin.column] || { content: '' };
+        const colSpan = this.getCellSpan(originCell.colSpan, table.columns - origin.column);
+
+        if (origin.row === row && origin.column === column) {
+          const rowSpan = this.getCellSpan(originCell.rowSpan, table.rows - row);
+          let cellLatex = this.processTableCellContent(originCell, isHeader);
+          if (rowSpan > 1) {
+            cellLatex = `\\multirow{${rowSpan}}{*}{${cellLatex}}`;
+          }
+          rowCells.push(this.wrapTableCell(cellLatex, originCell, alignments[column], column, colSpan, borderStyle));
+        } else {
+          // Cell is covered by a row span from above - leave it empty
+          rowCells.push(this.wrapTableCell('', originCell, alignments[column], column, colSpan, borderStyle));
+        }
+
+        column += colSpan;
+      }
+
+      latex += `${rowCells.join(' & ')} \\\\\n`;
+
+      if (isHeader && table.rows > 1) {
+        latex += borderStyle === 'booktabs' ? '\\midrule\n' : borderStyle !== 'none' ? '\\hline\n' : '';
+      } else if ((borderStyle === 'all' || borderStyle === 'horizontal') && row < table.rows - 1) {
+        latex += this.generateTableRowSeparator(coveredBy, row);
+      }
+    }
+
+    if (borderStyle === 'booktabs') {
+      latex += '\\bottomrule\n';
+    } else if (borderStyle !== 'none') {
+      latex += '\\hline\n';
+    }
+
+    latex += '\\end{tabular}\n';
+    latex += '\\end{adjustbox}\n';
+
+    if (textFormatting) {
+      latex += '}\n';
+    }
+
+    return latex;
+  }
+
+  /**
+   * Build the tabular column specification from column alignments and border style
+   */
+  private getTableColumnSpec(alignments: TableColumnAlignment[], borderStyle: TableData['borderStyle']): string {
+    const columns = alignments.map(align => this.mapColumnAlignment(align));
+    return borderStyle === 'all' ? `|${columns.join('|')}|` : columns.join('');
+  }
+
+  /**
+   * Map each table position to the cell that owns it, taking row and column spans into account
+   */
+  private resolveTableSpans(table: TableData): { row: number; column: number }[][] {
+    const coveredBy = Array.from({ length: table.rows }, (_, row) =>
+      Array.from({ length: table.columns }, (_, column) => ({ row, column }))
+    );
+    const claimed = Array.from({ length: table.rows }, () => new Array<boolean>(table.columns).fill(false));
+
+    for (let row = 0; row < table.rows; row++) {
+      for (let column = 0; column < table.columns; column++) {
+        if (claimed[row][column]) continue;
+
+        const cell = table.cells[row]?.[column];
+        const rowSpan = this.getCellSpan(cell?.rowSpan, table.rows - row);
+        const colSpan = this.getCellSpan(cell?.colSpan, table.columns - column);
+
+        for (let r = row; r < row + rowSpan; r++) {
+          for (let c = column; c < column + colSpan; c++) {
+            claimed[r][c] = true;
+            coveredBy[r][c] = { row, column };
+          }
+        }
+      }
+    }
+
+    return coveredBy;
+  }
+
+  /**
+   * Generate the rule below a row, skipping columns where a row span continues into the next row
+   */
+  private generateTableRowSeparator(coveredBy: { row: number; column: number }[][], row: number): string {
+    const nextRow = coveredBy[row + 1];
+    const ranges: Array<[number, number]> = [];
+
+    nextRow.forEach((origin, column) => {
+      if (origin.row > row) {
+        const last = ranges[ranges.length - 1];
+        if (last && last[1] === column) {
+          last[1] = column + 1;
+        } else {
+          ranges.push([column + 1, column + 1]);
+        }
+      }
+    });
+
+    if (ranges.length === 1 && ranges[0][0] === 1 && ranges[0][1] === nextRow.length) {
+      return '\\hline\n';
+    }
+
+    return ranges.map(([start, end]) => `\\cline{${start}-${end}}`).join('') + (ranges.length > 0 ? '\n' : '');
+  }
+
+  private getCellSpan(span: number | undefined, maxSpan: number): number {
+    return Math.max(1, Math.min(Math.floor(span || 1), maxSpan));
+  }
+
+  /**
+   * Wrap cell content in \multicolumn when it spans columns or overrides the column alignment
+   */
+  private wrapTableCell(
+    content: string,
+    cell: TableCell,
+    columnAlignment: TableColumnAlignment,
+    column: number,
+    colSpan: number,
+    borderStyle: TableData['borderStyle']
+  ): string {
+    const align = cell.align || columnAlignment;
+    if (colSpan === 1 && align === columnAlignment) {
+      return content;
+    }
+
+    let spec = this.mapColumnAlignment(align);
+    if (borderStyle === 'all') {
+      spec = `${column === 0 ? '|' : ''}${spec}|`;
+    }
+    return `\\multicolumn{${colSpan}}{${spec}}{${content}}`;
+  }
+
+  private mapColumnAlignment(align: TableColumnAlignment): string {
+    const alignmentMap: Record<TableColumnAlignment, string> = {
+      'left': 'l',
+      'center': 'c',
+      'right': 'r',
+    };
+    return alignmentMap[align] || 'l';
+  }
+
+  /**
+   * Escape table cell text while keeping inline math segments intact
+   */
+  private processTableCellContent(cell: TableCell, isHeader: boolean): string {
+    const content = (cell.content || '').replace(/\n/g, ' ').trim();
+    if (!content) return '';
+
+    let processed: string;
+    if (cell.hasMath || /\$[^$]+\$/.test(content)) {
+      processed = content
+        .split(/(\$[^$]+\$)/)
+        .map(segment => (/^\$[^$]+\$$/.test(segment) ? segment : this.escapeText(segment)))
+        .join('');
+    } else {
+      processed = this.escapeText(content);
+    }
+
+    return isHeader ? `\\textbf{${processed}}` : processed;
+  }
+
+  /**
+   * Check whether any slide contains a chart element
+   */
+  private hasCharts(presentation: Presentation): boolean {
+    return presentation.slides.some(slide =>
+      slide.elements.some(element => element.type === 'chart')
+    );
+  }
+
+  /**
+   * Generate chart element LaTeX code as a pgfplots axis inside a positioned textblock
+   */
+  private generateChartElement(element: SlideElement): string {
+    const { position, size, properties } = element;
+    const chart = properties.chartData ? resolveChartData(properties.chartData) : undefined;
+
+    if (!chart || chart.series.length === 0) return '% Empty chart element\n';
+
+    let latex = '\n% Chart Element\n';
+
+    const coords = this.convertCanvasToLatexCoordinates(position, size);
+
+    latex += `\\begin{textblock*}{${coords.width.toFixed(3)}cm}(${coords.x.toFixed(3)}cm,${coords.y.toFixed(3)}cm)\n`;
+    latex += this.generateChartPicture(chart, coords.width, coords.height);
+    latex += '\\end{textblock*}\n';
+
+    return latex;
+  }
+
+  /**
+   * Generate the tikzpicture drawing a chart at a size in centimeters
+   */
+  private generateChartPicture(chart: ChartData, width: number, height: number): string {
+    let latex = '\\begin{tikzpicture}\n';
+
+    if (chart.chartType === 'pie') {
+      latex += this.generatePieChart(chart, width, height);
+    } else {
+      latex += this.generateChartAxis(chart, width, height);
+    }
+
+    latex += '\\end{tikzpicture}\n';
+
+    return latex;
+  }
+
+  /**
+   * Get the languages of the code elements in a presentation, or an empty list if it has none
+   */
+  private getCodeLanguages(presentation: Presentation): CodeLanguage[] {
+    const languages = new Set<CodeLanguage>();
+    presentation.slides.forEach(slide => slide.elements.forEach(element => {
+      if (element.type === 'code') {
+        languages.add(element.properties.codeLanguage || 'plain');
+      }
+    }));
+    return Array.from(languages);
+  }
+
+  /**
+   * Generate the listings colors and styles, defining languages listings doesn't know from the highlighter's table
+   */
+  private generateListingsConfiguration(languages: CodeLanguage[]): string {
+    const defineColor = (name: string, color: Color) => {
+      const rgb = this.colorToRgb(color);
+      return `\\definecolor{${name}}{RGB}{${rgb.r},${rgb.g},${rgb.b}}\n`;
+    };
+
+    let latex = defineColor('codekeyword', CODE_TOKEN_COLORS.keyword);
+    latex += defineColor('codestring', CODE_TOKEN_COLORS.string);
+    latex += defineColor('codecomment', CODE_TOKEN_COLORS.comment);
+    latex += defineColor('codeplain', CODE_TOKEN_COLORS.plain);
+    latex += defineColor('codelinenumber', CODE_LINE_NUMBER_COLOR);
+    latex += defineColor('codehighlight', CODE_HIGHLIGHT_COLOR);
+    latex += '\\lstset{basicstyle=\\ttfamily\\color{codeplain}, keywordstyle=\\color{codekeyword}\\bfseries, ';
+    latex += 'stringstyle=\\color{codestring}, commentstyle=\\color{codecomment}\\itshape, ';
+    latex += 'numberstyle=\\tiny\\color{codelinenumber}, numbersep=6pt, columns=fullflexible, keepspaces=true, ';
+    latex += 'showstringspaces=false, aboveskip=0pt, belowskip=0pt}\n';
+
+    languages.forEach(language => {
+      const definition = CODE_LANGUAGES[language];
+      if (language === 'plain' || definition.listingsName) return;
+
+      const options = [
+        `morekeywords={${definition.keywords.join(',')}}`,
+        `sensitive=${definition.caseSensitive}`,
+      ];
+      if (definition.lineComment) {
+        options.push(`morecomment=[l]{${definition.lineComment}}`);
+      }
+      if (definition.blockComment) {
+        options.push(`morecomment=[s]{${definition.blockComment[0]}}{${definition.blockComment[1]}}`);
+      }
+      definition.stringDelimiters.forEach(delimiter => options.push(`morestring=[b]${delimiter}`));
+
+      latex += `\\lstdefinelanguage{${definition.label}}{${options.join(', ')}}\n`;
+    });
+
+    return latex;
+  }
+
+  /**
+   * Generate a code element as listings inside a positioned textblock; highlighted lines are split into
+   * their own listings with a background color, continuing the line numbering
+   */
+  private generateCodeElement(element: SlideElement): string {
+    const lines = this.getCodeLines(element);
+    if (!lines.some(line => line.trim())) return '% Empty code element\n';
+
+    const coords = this.convertCanvasToLatexCoordinates(element.position, element.size);
+
+    let latex = '\n% Code Element\n';
+    latex += `\\begin{textblock*}{${coords.width.toFixed(3)}cm}(${coords.x.toFixed(3)}cm,${coords.y.toFixed(3)}cm)\n`;
+    // textblock is a group, so these settings stay local to the element
+    latex += `\\lstset{${this.getCodeListingOptions(element).join(', ')}}\n`;
+    latex += this.generateCodeListings(element, []);
+    latex += '\\end{textblock*}\n';
+
+    return latex;
+  }
+
+  private getCodeLines(element: SlideElement): string[] {
+    return (element.content || '').replace(/\s+$/, '').split(/\r?\n/);
+  }
+
+  /**
+   * Get the listings options for a code element's font, language and line numbers
+   */
+  private getCodeListingOptions(element: SlideElement): string[] {
+    const { properties } = element;
+    const language = CODE_LANGUAGES[properties.codeLanguage || 'plain'];
+
+    const options = [`basicstyle=\\ttfamily\\color{codeplain}${this.generateFontSizeCommand(properties.fontSize || 14)}`];
+    if (properties.codeLanguage && properties.codeLanguage !== 'plain') {
+      options.push(`language=${language.listingsName || language.label}`);
+    }
+    if (properties.showLineNumbers) {
+      options.push('numbers=left', 'xleftmargin=1.5em');
+    }
+
+    return options;
+  }
+
+  /**
+   * Generate a code element's listings, each with the given options before its own
+   */
+  private generateCodeListings(element: SlideElement, listingOptions: string[]): string {
+    const lines = this.getCodeLines(element);
+    const highlighted = new Set(element.properties.highlightedLines || []);
+    let latex = '';
+
+    let start = 0;
+    while (start < lines.length) {
+      const isHighlighted = highlighted.has(start + 1);
+      let end = start + 1;
+      while (end < lines.length && highlighted.has(end + 1) === isHighlighted) end++;
+
+      const segmentOptions = [...listingOptions, `firstnumber=${start + 1}`];
+      if (isHighlighted) {
+        segmentOptions.push('backgroundcolor=\\color{codehighlight}');
+      }
+      latex += `\\begin{lstlisting}[${segmentOptions.join(', ')}]\n`;
+      latex += `${lines.slice(start, end).join('\n')}\n`;
+      latex += '\\end{lstlisting}\n';
+      start = end;
+    }
+
+    return latex;
+  }
+
+  /**
+   * Generate a raw LaTeX element, emitting its content verbatim inside a positioned textblock
+   */
+  private generateRawLatexElement(element: SlideElement): string {
+    const content = (element.content || '').replace(/\s+$/, '');
+    if (!content.trim()) return '% Empty raw LaTeX element\n';
+
+    const coords = this.convertCanvasToLatexCoordinates(element.position, element.size);
+
+    let latex = '\n% Raw LaTeX Element\n';
+    latex += `\\begin{textblock*}{${coords.width.toFixed(3)}cm}(${coords.x.toFixed(3)}cm,${coords.y.toFixed(3)}cm)\n`;
+    latex += `${content}\n`;
+    latex += '\\end{textblock*}\n';
+
+    return latex;
+  }
+
+  /**
+   * Generate a standalone Beamer document typesetting a raw LaTeX snippet alone, at the width it has on the slide.
+   * It loads the deck's theme so Beamer commands and theme colors in the snippet compile as they do in the deck.
+   */
+  public generateSnippetDocument(element: SlideElement, presentation: Presentation): { source: string; snippetStartLine: number } {
+    this.slideDimensions = getSlideDimensions(presentation.settings?.slideSize?.aspectRatio);
+    const coords = this.convertCanvasToLatexCoordinates(element.position, element.size);
+
+    // textpos positions relative to the page, which a standalone crop doesn't have
+    const packages = this.getPackageList(presentation)
+      .filter(pkg => !pkg.endsWith('{textpos}'))
+      .map(pkg => `\\usepackage${pkg}`);
+
+    const lines = [
+      '\\documentclass[beamer,border=2pt,xcolor=dvipsnames]{standalone}',
+      ...packages,
+      this.generateThemePreamble(presentation).replace(/\n$/, ''),
+      '\\usetikzlibrary{shapes.geometric,arrows.meta,positioning,calc}',
+    ];
+
+    const customPreamble = presentation.settings?.customPreamble;
+    if (hasCustomPreamble(customPreamble)) {
+      lines.push(generateCustomPreambleLatex(customPreamble));
+    }
 
-      // If content has line breaks, wrap it in a minipage for proper line break handling
-      if (processedContent.includes('\\\\')) {
-        processedContent = `\\begin{minipage}[t]{${dynamicWidth.toFixed(2)}cm}\n${alignmentCommand}${processedContent}\n\\end{minipage}`;
-      } else {
-        // For single-line text, apply alignment directly
-        processedContent = alignmentCommand + processedContent;
+    // The frame is cropped to its content, so a minipage keeps the width the snippet has on the slide
+    lines.push(
+      '\\begin{document}',
+      '\\begin{standaloneframe}',
+      `\\begin{minipage}{${coords.width.toFixed(3)}cm}`
+    );
+    const snippetStartLine = lines.join('\n').split('\n').length + 1;
+    lines.push(
+      (element.content || '').replace(/\s+$/, ''),
+      '\\end{minipage}',
+      '\\end{standaloneframe}',
+      '\\end{document}'
+    );
+
+    return { source: lines.join('\n') + '\n', snippetStartLine };
+  }
+
+  /**
+   * Generate the pgfplots axis environment for bar, line and scatter charts
+   */
+  private generateChartAxis(chart: ChartData, width: number, height: number): string {
+    const axisOptions = [
+      `width=${width.toFixed(3)}cm`,
+      `height=${height.toFixed(3)}cm`,
+      'tick label style={font=\\tiny}',
+      'label style={font=\\scriptsize}',
+      'title style={font=\\small}',
+    ];
+
+    if (chart.chartType === 'bar') {
+      axisOptions.push('ybar', 'enlarge x limits=0.15');
+      // Anchor the bars at zero unless negative values need room below the baseline
+      if (chart.series.every(series => series.values.every(value => value >= 0))) {
+        axisOptions.push('ymin=0');
       }
     }
 
-    latex += processedContent;
+    // Categorical charts plot against the label index and show the labels as ticks
+    if (chart.chartType !== 'scatter' && chart.labels.length > 0) {
+      axisOptions.push(`xtick={${chart.labels.map((_, index) => index).join(',')}}`);
+      axisOptions.push(`xticklabels={${chart.labels.map(label => `{${this.escapeLatex(label)}}`).join(',')}}`);
+    }
 
-    if (textFormatting) {
-      latex += '}';
+    if (chart.title) {
+      axisOptions.push(`title={${this.escapeLatex(chart.title)}}`);
+    }
+    if (chart.xLabel) {
+      axisOptions.push(`xlabel={${this.escapeLatex(chart.xLabel)}}`);
+    }
+    if (chart.yLabel) {
+      axisOptions.push(`ylabel={${this.escapeLatex(chart.yLabel)}}`);
+    }
+    if (chart.showLegend) {
+      axisOptions.push('legend style={font=\\tiny}');
     }
 
-    latex += '\n\\end{textblock*}\n';
+    let latex = `\\begin{axis}[${axisOptions.join(', ')}]\n`;
+
+    chart.series.forEach((series, index) => {
+      const color = this.getChartSeriesColor(series, index);
+      const plotOptions = chart.chartType === 'bar'
+        ? [`draw=${color}`, `fill=${color}`]
+        : chart.chartType === 'scatter'
+          ? [`color=${color}`, 'only marks', 'mark=*']
+          : [`color=${color}`, 'mark=*'];
+
+      const points = series.values.map((value, pointIndex) => {
+        const x = chart.chartType === 'scatter' ? getChartPointX(series, pointIndex) : pointIndex;
+        return `(${x},${value})`;
+      });
+
+      latex += `\\addplot[${plotOptions.join(', ')}] coordinates {${points.join(' ')}};\n`;
+
+      if (chart.showLegend) {
+        latex += `\\addlegendentry{${this.escapeLatex(series.name)}}\n`;
+      }
+    });
+
+    latex += '\\end{axis}\n';
 
     return latex;
   }
 
   /**
-   * Generate image element LaTeX code with preserved aspect ratio
+   * Generate a pie chart from the first series using TikZ arcs
    */
-  private generateImageElement(element: SlideElement): string {
-    const { position, size, properties, content } = element;
-
-    if (!content) return '% Image element without source\n';
+  private generatePieChart(chart: ChartData, width: number, height: number): string {
+    const series = chart.series[0];
+    const values = series.values.map(value => Math.max(0, value));
+    const total = values.reduce((sum, value) => sum + value, 0);
+    const titleHeight = chart.title ? 0.6 : 0;
+    // Leave room around the pie for slice labels
+    const radius = Math.max(0.3, Math.min(width, height - titleHeight) / 2 - 0.4);
 
-    let latex = '\n% Image Element\n';
+    let latex = '';
 
-    // Use textpos for consistent positioning with text elements
-    const coords = this.convertCanvasToLatexCoordinates(position, size);
+    if (chart.title) {
+      latex += `\\node[font=\\small] at (0,${(radius + 0.5).toFixed(3)}) {${this.escapeLatex(chart.title)}};\n`;
+    }
 
-    // Calculate aspect ratio from canvas size to maintain proper scaling
-    const canvasAspectRatio = size.width / size.height;
-    const latexAspectRatio = coords.width / coords.height;
+    if (total === 0) {
+      latex += `\\draw (0,0) circle (${radius.toFixed(3)});\n`;
+      return latex;
+    }
 
-    let imageOptions: string[] = [];
+    // Slices run clockwise from twelve o'clock
+    let startAngle = 90;
 
-    // FIXED: Use only width OR height to maintain aspect ratio, not both
-    // This prevents distortion between canvas and PDF output
-    if (canvasAspectRatio > latexAspectRatio) {
-      // Image is wider relative to the target area - constrain by width
-      imageOptions.push(`width=${coords.width.toFixed(3)}cm`);
-    } else {
-      // Image is taller relative to the target area - constrain by height  
-      imageOptions.push(`height=${coords.height.toFixed(3)}cm`);
-    }
+    values.forEach((value, index) => {
+      if (value === 0) return;
 
-    // Always preserve aspect ratio
-    imageOptions.push('keepaspectratio');
+      const sweep = (value / total) * 360;
+      const endAngle = startAngle - sweep;
+      const midAngle = startAngle - sweep / 2;
+      const color = this.getChartSeriesColor({
+        name: '',
+        values: [],
+        color: series.pointColors?.[index] || chart.series[index]?.color,
+      }, index);
 
-    if (properties.crop) {
-      const { crop } = properties;
-      imageOptions.push(`trim=${crop.x} ${crop.y} ${crop.width} ${crop.height}`);
-      imageOptions.push('clip');
-    }
+      latex += `\\fill[${color}, draw=white] (0,0) -- (${startAngle.toFixed(2)}:${radius.toFixed(3)}) arc (${startAngle.toFixed(2)}:${endAngle.toFixed(2)}:${radius.toFixed(3)}) -- cycle;\n`;
 
-    // Images should be processed by preview service before reaching here
-    let imagePath = content;
+      const label = chart.labels[index];
+      if (label) {
+        latex += `\\node[font=\\tiny] at (${midAngle.toFixed(2)}:${(radius + 0.3).toFixed(3)}) {${this.escapeLatex(label)}};\n`;
+      }
 
-    console.log('🖼️ [LaTeX Generator] Image generation:', {
-      elementId: element.id,
-      canvasSize: { width: size.width, height: size.height },
-      latexCoords: coords,
-      canvasAspectRatio: canvasAspectRatio.toFixed(3),
-      latexAspectRatio: latexAspectRatio.toFixed(3),
-      constrainBy: canvasAspectRatio > latexAspectRatio ? 'width' : 'height',
-      imageOptions
+      startAngle = endAngle;
     });
 
-    latex += `\\begin{textblock*}{${coords.width.toFixed(3)}cm}(${coords.x.toFixed(3)}cm,${coords.y.toFixed(3)}cm)\n`;
-    latex += `\\includegraphics[${imageOptions.join(',')}]{${imagePath}}\n`;
-    latex += '\\end{textblock*}\n';
-
     return latex;
   }
 
+  /**
+   * Get the color of a chart series, cycling through the theme colors when none is set
+   */
+  private getChartSeriesColor(series: ChartSeries, index: number): string {
+    if (series.color) {
+      const rgb = this.colorToRgb(series.color);
+      return `{rgb,255:red,${rgb.r};green,${rgb.g};blue,${rgb.b}}`;
+    }
 
+    return CHART_THEME_COLOR_ORDER[index % CHART_THEME_COLOR_ORDER.length];
+  }
 
   /**
    * Generate shape element LaTeX code using TikZ
    */
   private generateShapeElement(element: SlideElement, theme: Theme): string {
     const { position, size, properties } = element;
+    const shapeType = properties.shapeType || 'rectangle';
 
-    let latex = '\n% Shape Element\n';
-    latex += '\\begin{tikzpicture}[remember picture,overlay]\n';
-
-    // Use smart coordinate conversion
+    // Use textpos for consistent positioning with text elements; the picture uses local coordinates
     const coords = this.convertCanvasToLatexCoordinates(position, size);
 
-    const shapeOptions = [];
+    let latex = '\n% Shape Element\n';
+    latex += `\\begin{textblock*}{${this.formatCm(coords.width)}cm}(${coords.x.toFixed(3)}cm,${coords.y.toFixed(3)}cm)\n`;
+    latex += this.generateShapePicture(properties, shapeType, coords.width, coords.height);
+    latex += '\\end{textblock*}\n';
 
-    if (properties.fillColor) {
-      const fillColor = this.getOrDefineColor(properties.fillColor);
-      shapeOptions.push(`fill=${fillColor}`);
-    }
+    return latex;
+  }
 
-    if (properties.strokeColor) {
-      const strokeColor = this.getOrDefineColor(properties.strokeColor);
-      shapeOptions.push(`draw=${strokeColor}`);
-    }
+  /**
+   * Generate the tikzpicture drawing a shape at a size in centimeters
+   */
+  private generateShapePicture(properties: ElementProperties, shapeType: ShapeType, shapeWidth: number, shapeHeight: number): string {
+    const width = this.formatCm(shapeWidth);
+    const height = this.formatCm(shapeHeight);
 
-    if (properties.strokeWidth) {
-      shapeOptions.push(`line width=${properties.strokeWidth}pt`);
-    }
+    let latex = '\\begin{tikzpicture}\n';
+    // Fix the bounding box so rotated shapes keep their position
+    latex += `\\useasboundingbox (0,0) rectangle (${width}cm,${height}cm);\n`;
 
-    const shapeType = properties.shapeType || 'rectangle';
+    const shapeOptions = this.getShapeOptions(properties, shapeType, shapeWidth, shapeHeight);
+    const options = shapeOptions.length > 0 ? `[${shapeOptions.join(',')}]` : '';
 
     switch (shapeType) {
       case 'rectangle':
-        latex += this.generateRectangle(coords.x, coords.y, coords.width, coords.height, shapeOptions, properties);
+        latex += this.generateRectangle(shapeWidth, shapeHeight, options);
         break;
       case 'circle':
-        latex += this.generateCircle(coords.x, coords.y, Math.min(coords.width, coords.height) / 2, shapeOptions);
+        latex += this.generateCircle(shapeWidth, shapeHeight, options);
         break;
       case 'ellipse':
-        latex += this.generateEllipse(coords.x, coords.y, coords.width / 2, coords.height / 2, shapeOptions);
+        latex += this.generateEllipse(shapeWidth, shapeHeight, options);
         break;
-      case 'line':
-        latex += this.generateLine(coords.x, coords.y, coords.x + coords.width, coords.y - coords.height, shapeOptions, properties);
+      case 'triangle':
+        latex += this.generateTriangle(shapeWidth, shapeHeight, options);
         break;
+      case 'diamond':
+        latex += this.generateDiamond(shapeWidth, shapeHeight, options);
+        break;
+      case 'line':
       case 'arrow':
-        latex += this.generateArrow(coords.x, coords.y, coords.x + coords.width, coords.y - coords.height, shapeOptions, properties);
+        latex += this.generateLine(shapeWidth, shapeHeight, options);
         break;
       default:
         latex += `% Unsupported shape type: ${shapeType}\n`;
@@ -519,11 +1796,102 @@ export class LaTeXGenerator {
   }
 
   /**
-   * Generate connections between shapes
+   * Build TikZ options for a shape's fill, stroke, dash pattern, corners, arrow heads and rotation
+   */
+  private getShapeOptions(properties: ElementProperties, shapeType: ShapeType, width: number, height: number): string[] {
+    const options: string[] = [];
+    const isOpenPath = shapeType === 'line' || shapeType === 'arrow';
+
+    if (properties.fillColor && !isOpenPath) {
+      options.push(`fill=${this.getTikzColor(properties.fillColor)}`);
+      if (properties.fillColor.a !== undefined && properties.fillColor.a < 1) {
+        options.push(`fill opacity=${this.formatOpacity(properties.fillColor.a)}`);
+      }
+    }
+
+    if (properties.strokeColor) {
+      options.push(`draw=${this.getTikzColor(properties.strokeColor)}`);
+      if (properties.strokeColor.a !== undefined && properties.strokeColor.a < 1) {
+        options.push(`draw opacity=${this.formatOpacity(properties.strokeColor.a)}`);
+      }
+    }
+
+    if (properties.strokeWidth) {
+      options.push(`line width=${properties.strokeWidth}pt`);
+    }
+
+    const dashPattern = this.getDashPattern(properties.strokeDashArray);
+    if (dashPattern) {
+      options.push(dashPattern);
+    }
+
+    if (properties.opacity !== undefined && properties.opacity < 1) {
+      options.push(`opacity=${this.formatOpacity(properties.opacity)}`);
+    }
+
+    if (shapeType === 'rectangle' && properties.cornerRadius) {
+      options.push(`rounded corners=${properties.cornerRadius}pt`);
+    }
+
+    if (isOpenPath) {
+      const arrowStart = properties.arrowStart ? '{Stealth}' : '';
+      const arrowEnd = (properties.arrowEnd ?? shapeType === 'arrow') ? '{Stealth}' : '';
+      if (arrowStart || arrowEnd) {
+        options.push(`${arrowStart}-${arrowEnd}`);
+      }
+    }
+
+    // Canvas angles run clockwise, TikZ angles counter-clockwise
+    if (properties.rotation) {
+      const angle = -properties.rotation;
+      options.push(`rotate around={${Number(angle.toFixed(2))}:(${this.formatCm(width / 2)}cm,${this.formatCm(height / 2)}cm)}`);
+    }
+
+    return options;
+  }
+
+  /**
+   * Convert a canvas dash array (dash, gap, ...) to a TikZ dash pattern
+   */
+  private getDashPattern(dashArray?: number[]): string {
+    if (!dashArray || dashArray.length === 0 || dashArray.every(length => length <= 0)) return '';
+
+    // Odd-length arrays repeat, as in SVG and Fabric.js
+    const lengths = dashArray.length % 2 === 1 ? [...dashArray, ...dashArray] : dashArray;
+    const segments = [];
+    for (let i = 0; i < lengths.length; i += 2) {
+      segments.push(`on ${lengths[i]}pt off ${lengths[i + 1]}pt`);
+    }
+    return `dash pattern=${segments.join(' ')}`;
+  }
+
+  /**
+   * Get a TikZ color expression, using named colors where they match exactly
+   */
+  private getTikzColor(color: Color): string {
+    const rgb = this.colorToRgb(color);
+    const namedColor = this.getOrDefineColor(color);
+    // getOrDefineColor falls back to black for custom colors
+    if (namedColor === 'black' && (rgb.r || rgb.g || rgb.b)) {
+      return `{rgb,255:red,${rgb.r};green,${rgb.g};blue,${rgb.b}}`;
+    }
+    return namedColor;
+  }
+
+  private formatOpacity(opacity: number): string {
+    return String(Math.round(Math.max(0, Math.min(1, opacity)) * 100) / 100);
+  }
+
+  private formatCm(value: number): string {
+    return String(Number(value.toFixed(3)));
+  }
+
+  /**
+   * Generate connections between shapes, anchored at their connection points in page coordinates
    */
   private generateConnections(connections: ShapeConnection[], elements: SlideElement[]): string {
     let latex = '\n% Shape Connections\n';
-    latex += '\\begin{tikzpicture}[remember picture,overlay]\n';
+    latex += '\\begin{tikzpicture}[remember picture,overlay,shift={(current page.north west)}]\n';
 
     for (const connection of connections) {
       const fromElement = elements.find(e => e.id === connection.fromElementId);
@@ -531,60 +1899,157 @@ export class LaTeXGenerator {
 
       if (!fromElement || !toElement) continue;
 
-      const fromPos = this.getConnectionPoint(fromElement, connection.fromConnectionPointId);
-      const toPos = this.getConnectionPoint(toElement, connection.toConnectionPointId);
+      const from = this.getConnectionAnchor(fromElement, connection.fromConnectionPointId);
+      const to = this.getConnectionAnchor(toElement, connection.toConnectionPointId);
+      const options = this.getConnectionOptions(connection.style);
+      const path = this.getConnectionPath(from, to, connection.style.routing || 'straight');
 
-      const connectionOptions = [];
+      latex += `\\draw${options.length > 0 ? `[${options.join(',')}]` : ''} ${path};\n`;
+    }
 
-      if (connection.style.strokeColor) {
-        const color = this.getOrDefineColor(connection.style.strokeColor);
-        connectionOptions.push(`draw=${color}`);
-      }
+    latex += '\\end{tikzpicture}\n';
+
+    return latex;
+  }
+
+  /**
+   * Build TikZ options for a connection's stroke, dash pattern and arrow heads
+   */
+  private getConnectionOptions(style: ShapeConnection['style']): string[] {
+    const options: string[] = [];
+
+    if (style.strokeColor) {
+      options.push(`draw=${this.getTikzColor(style.strokeColor)}`);
+    }
+
+    if (style.strokeWidth) {
+      options.push(`line width=${style.strokeWidth}pt`);
+    }
+
+    const dashPattern = this.getDashPattern(style.strokeDashArray);
+    if (dashPattern) {
+      options.push(dashPattern);
+    }
+
+    const arrowStart = style.startArrowType && style.startArrowType !== 'none'
+      ? `{${this.mapArrowType(style.startArrowType)}}`
+      : '';
+    const arrowEnd = style.arrowType && style.arrowType !== 'none'
+      ? `{${this.mapArrowType(style.arrowType)}}`
+      : '';
+    if (arrowStart || arrowEnd) {
+      options.push(`${arrowStart}-${arrowEnd}`);
+    }
+
+    return options;
+  }
 
-      if (connection.style.strokeWidth) {
-        connectionOptions.push(`line width=${connection.style.strokeWidth}pt`);
+  /**
+   * Build the TikZ path between two anchors for a routing style
+   */
+  private getConnectionPath(from: ConnectionAnchor, to: ConnectionAnchor, routing: ConnectionRouting): string {
+    const point = (x: number, y: number) => `(${this.formatCm(x)}cm,${this.formatCm(-y)}cm)`;
+    const start = point(from.x, from.y);
+    const end = point(to.x, to.y);
+
+    switch (routing) {
+      case 'orthogonal': {
+        const fromHorizontal = this.leavesHorizontally(from);
+        const toHorizontal = this.leavesHorizontally(to);
+        if (fromHorizontal && toHorizontal) {
+          const midX = (from.x + to.x) / 2;
+          return `${start} -- ${point(midX, from.y)} -- ${point(midX, to.y)} -- ${end}`;
+        }
+        if (!fromHorizontal && !toHorizontal) {
+          const midY = (from.y + to.y) / 2;
+          return `${start} -- ${point(from.x, midY)} -- ${point(to.x, midY)} -- ${end}`;
+        }
+        return `${start} ${fromHorizontal ? '-|' : '|-'} ${end}`;
       }
 
-      if (connection.style.arrowType && connection.style.arrowType !== 'none') {
-        connectionOptions.push(`-{${this.mapArrowType(connection.style.arrowType)}}`);
+      case 'curved': {
+        if (from.angle === null && to.angle === null) {
+          return `${start} to[bend left=30] ${end}`;
+        }
+        // Anchors without a side (element centers) point straight at the other end
+        const outAngle = from.angle ?? this.getAngleBetween(from, to);
+        const inAngle = to.angle ?? this.getAngleBetween(to, from);
+        return `${start} to[out=${outAngle},in=${inAngle}] ${end}`;
       }
 
-      latex += `\\draw[${connectionOptions.join(',')}] (${fromPos.x}cm,${fromPos.y}cm) -- (${toPos.x}cm,${toPos.y}cm);\n`;
+      default:
+        return `${start} -- ${end}`;
     }
+  }
 
-    latex += '\\end{tikzpicture}\n';
+  /**
+   * Resolve a connection point id against the element's connection points, falling back to its center
+   */
+  private getConnectionAnchor(element: SlideElement, pointId: string): ConnectionAnchor {
+    const point = element.properties.connectionPoints?.find(p => p.id === pointId);
+    const relativeX = point ? point.x : 0.5;
+    const relativeY = point ? point.y : 0.5;
+
+    // Same absolute position as shapeUtils.getConnectionPointPosition on the canvas
+    const coords = this.convertCanvasToLatexCoordinates(
+      {
+        x: element.position.x + element.size.width * relativeX,
+        y: element.position.y + element.size.height * relativeY,
+      },
+      { width: 0, height: 0 }
+    );
 
-    return latex;
+    // Outward direction from the element center, counter-clockwise from east as in TikZ
+    const offsetX = (relativeX - 0.5) * element.size.width;
+    const offsetY = (relativeY - 0.5) * element.size.height;
+    const angle = offsetX === 0 && offsetY === 0
+      ? null
+      : Math.round(Math.atan2(-offsetY, offsetX) * 180 / Math.PI);
+
+    return { x: coords.x, y: coords.y, angle };
   }
 
-  // Helper methods for shape generation
-  private generateRectangle(x: number, y: number, width: number, height: number, options: string[], properties: any): string {
-    const cornerRadius = properties.cornerRadius ? `, rounded corners=${properties.cornerRadius}pt` : '';
-    return `\\draw[${options.join(',')}${cornerRadius}] (${x}cm,${y}cm) rectangle (${x + width}cm,${y - height}cm);\n`;
+  private leavesHorizontally(anchor: ConnectionAnchor): boolean {
+    if (anchor.angle === null) return true;
+    const angle = Math.abs(anchor.angle);
+    return angle <= 45 || angle >= 135;
   }
 
-  private generateCircle(x: number, y: number, radius: number, options: string[]): string {
-    const centerX = x + radius;
-    const centerY = y - radius;
-    return `\\draw[${options.join(',')}] (${centerX}cm,${centerY}cm) circle (${this.pixelsToLatex(radius)}cm);\n`;
+  private getAngleBetween(from: ConnectionAnchor, to: ConnectionAnchor): number {
+    return Math.round(Math.atan2(from.y - to.y, to.x - from.x) * 180 / Math.PI);
   }
 
-  private generateEllipse(x: number, y: number, radiusX: number, radiusY: number, options: string[]): string {
-    const centerX = x + radiusX;
-    const centerY = y - radiusY;
-    return `\\draw[${options.join(',')}] (${centerX}cm,${centerY}cm) ellipse (${this.pixelsToLatex(radiusX)}cm and ${this.pixelsToLatex(radiusY)}cm);\n`;
+  // Helper methods for shape generation, in the shape's local coordinates (origin at the bottom left)
+  private generateRectangle(width: number, height: number, options: string): string {
+    return `\\draw${options} (0,0) rectangle (${this.formatCm(width)}cm,${this.formatCm(height)}cm);\n`;
   }
 
-  private generateLine(x1: number, y1: number, x2: number, y2: number, options: string[], properties: any): string {
-    return `\\draw[${options.join(',')}] (${x1}cm,${y1}cm) -- (${x2}cm,${y2}cm);\n`;
+  private generateCircle(width: number, height: number, options: string): string {
+    const radius = Math.min(width, height) / 2;
+    return `\\draw${options} (${this.formatCm(width / 2)}cm,${this.formatCm(height / 2)}cm) circle (${this.formatCm(radius)}cm);\n`;
   }
 
-  private generateArrow(x1: number, y1: number, x2: number, y2: number, options: string[], properties: any): string {
-    const arrowOptions = [...options];
-    if (!arrowOptions.some(opt => opt.includes('->'))) {
-      arrowOptions.push('-{Stealth}');
-    }
-    return `\\draw[${arrowOptions.join(',')}] (${x1}cm,${y1}cm) -- (${x2}cm,${y2}cm);\n`;
+  private generateEllipse(width: number, height: number, options: string): string {
+    return `\\draw${options} (${this.formatCm(width / 2)}cm,${this.formatCm(height / 2)}cm) ellipse (${this.formatCm(width / 2)}cm and ${this.formatCm(height / 2)}cm);\n`;
+  }
+
+  private generateTriangle(width: number, height: number, options: string): string {
+    const w = this.formatCm(width);
+    const h = this.formatCm(height);
+    return `\\draw${options} (${this.formatCm(width / 2)}cm,${h}cm) -- (0,0) -- (${w}cm,0) -- cycle;\n`;
+  }
+
+  private generateDiamond(width: number, height: number, options: string): string {
+    const w = this.formatCm(width);
+    const h = this.formatCm(height);
+    const midX = this.formatCm(width / 2);
+    const midY = this.formatCm(height / 2);
+    return `\\draw${options} (${midX}cm,${h}cm) -- (${w}cm,${midY}cm) -- (${midX}cm,0) -- (0,${midY}cm) -- cycle;\n`;
+  }
+
+  // Lines and arrows run from the top left to the bottom right, as drawn on the canvas
+  private generateLine(width: number, height: number, options: string): string {
+    return `\\draw${options} (0,${this.formatCm(height)}cm) -- (${this.formatCm(width)}cm,0);\n`;
   }
 
   // Utility methods
@@ -592,26 +2057,28 @@ export class LaTeXGenerator {
    * Correct coordinate conversion with proper margins for text positioning
    */
   private convertCanvasToLatexCoordinates(position: { x: number; y: number }, size: { width: number; height: number }) {
-    // Canvas dimensions - must match SimpleTextCanvas.tsx BASE dimensions
-    const CANVAS_WIDTH = 800;  // Must match BASE_WIDTH in SimpleTextCanvas.tsx
-    const CANVAS_HEIGHT = Math.round(800 * (7.3 / 15.3)); // Must match calculated BASE_HEIGHT
+    const dimensions = this.slideDimensions;
+
+    // Canvas dimensions - must match SimpleTextCanvas.tsx BASE dimensions for the same aspect ratio
+    const CANVAS_WIDTH = CANVAS_BASE_WIDTH;
+    const CANVAS_HEIGHT = getCanvasBaseHeight(dimensions); // 382 for 16:9
 
-    // Absolute slide boundaries:
+    // Absolute slide boundaries for 16:9:
     // Left edge: 0.2cm, Right edge: 15.5cm
     // Top edge: 1cm, Bottom edge: 8.3cm
 
-    const SLIDE_LEFT_EDGE = 0.2;   // Absolute left edge
-    const SLIDE_RIGHT_EDGE = 15.5; // Absolute right edge
-    const Y_OFFSET = 1.0;          // Top edge offset
-    const USABLE_HEIGHT_CM = 7.3;  // 8.3 - 1.0 = 7.3cm usable height
+    const SLIDE_LEFT_EDGE = dimensions.leftEdgeCm;   // Absolute left edge
+    const SLIDE_RIGHT_EDGE = dimensions.rightEdgeCm; // Absolute right edge
+    const Y_OFFSET = dimensions.topEdgeCm;           // Top edge offset
+    const USABLE_HEIGHT_CM = dimensions.usableHeightCm; // 8.3 - 1.0 = 7.3cm usable height for 16:9
 
     // For images, use the full slide area (no text margins)
     // For text, we'll add margins in the text generation function
-    const USABLE_WIDTH_CM = SLIDE_RIGHT_EDGE - SLIDE_LEFT_EDGE; // 15.3cm
+    const USABLE_WIDTH_CM = dimensions.usableWidthCm; // 15.3cm for 16:9
 
     // Scale factors based on full usable area
-    const X_SCALE = USABLE_WIDTH_CM / CANVAS_WIDTH;   // 15.3 / 800 = 0.019125
-    const Y_SCALE = USABLE_HEIGHT_CM / CANVAS_HEIGHT; // 7.3 / 382 = 0.019110
+    const X_SCALE = USABLE_WIDTH_CM / CANVAS_WIDTH;   // 15.3 / 800 = 0.019125 for 16:9
+    const Y_SCALE = USABLE_HEIGHT_CM / CANVAS_HEIGHT; // 7.3 / 382 = 0.019110 for 16:9
 
     // Convert coordinates using the full usable area
     const x = SLIDE_LEFT_EDGE + (position.x * X_SCALE);
@@ -620,8 +2087,8 @@ export class LaTeXGenerator {
     const height = size.height * Y_SCALE;
 
     // Calculate dynamic center within usable area
-    const centerX = SLIDE_LEFT_EDGE + (USABLE_WIDTH_CM / 2); // 0.2 + 15.3/2 = 7.85cm
-    const centerY = Y_OFFSET + (USABLE_HEIGHT_CM / 2);       // 1.0 + 7.3/2 = 4.65cm
+    const centerX = SLIDE_LEFT_EDGE + (USABLE_WIDTH_CM / 2);
+    const centerY = Y_OFFSET + (USABLE_HEIGHT_CM / 2);
 
     console.log(`🔧 [LaTeX Generator] Coordinate conversion with margins:`, {
       input: { x: position.x, y: position.y, width: size.width, height: size.height },
@@ -640,22 +2107,6 @@ export class LaTeXGenerator {
     };
   }
 
-  private pixelsToLatex(pixels: number, invertY: boolean = false): number {
-    // Convert pixels to cm (assuming 96 DPI)
-    // Standard conversion: 1 inch = 2.54 cm, 96 DPI means 96 pixels per inch
-    const cm = pixels * 2.54 / 96;
-
-    // For Y coordinates, we need to invert because:
-    // - Canvas Y=0 is at top, LaTeX Y=0 is at bottom
-    // - Beamer slide height is approximately 9.6cm (for 16:9 aspect ratio)
-    if (invertY) {
-      const slideHeightCm = 9.6; // Standard beamer slide height in cm
-      return slideHeightCm - cm;
-    }
-
-    return cm;
-  }
-
   private colorToRgb(color: Color): { r: number; g: number; b: number } {
     return {
       r: Math.round(color.r),
@@ -701,6 +2152,17 @@ export class LaTeXGenerator {
     return arrowMap[arrowType] || 'Stealth';
   }
 
+  /**
+   * Escape text, keeping citation commands intact when the presentation has a bibliography
+   */
+  private escapeText(text: string): string {
+    if (!this.citationsEnabled) return this.escapeLatex(text);
+
+    return splitCitations(text)
+      .map((part, index) => (index % 2 === 1 ? part : this.escapeLatex(part)))
+      .join('');
+  }
+
   private escapeLatex(text: string): string {
     return text
       .replace(/\\/g, '\\textbackslash{}')
@@ -719,21 +2181,28 @@ export class LaTeXGenerator {
    * Generate LaTeX list content from text content and list properties
    */
   private generateListContent(content: string, properties: any): string {
-    const { listType, listStyle, listIndentLevel, customBulletSymbol } = properties;
+    const { listType, listStyle, listIndentLevel, customBulletSymbol, overlay } = properties;
 
-    // Split content into lines for list items
-    const lines = content.split('\n').filter(line => line.trim());
+    // Split content into lines for list items, keeping inline formatting runs
+    const lines = hasRichText(content, properties.richText)
+      ? splitTextRunsByLine(getTextRuns(content, properties.richText))
+        .filter(line => line.some(run => run.text.trim()))
+        .map(line => this.formatTextRuns(this.trimTextRuns(line)))
+      : content.split('\n').filter(line => line.trim()).map(line => this.escapeText(line.trim()));
 
     if (lines.length === 0) return '';
 
     let latex = '';
     const indentLevel = listIndentLevel || 0;
 
+    // Reveal one item per step, starting on the step the element appears
+    const revealSteps = overlay?.revealListItems ? this.getOverlaySteps(overlay) : undefined;
+
     // Generate appropriate list environment based on type
     if (listType === 'bullet') {
-      latex += this.generateBulletList(lines, listStyle, indentLevel, customBulletSymbol);
+      latex += this.generateBulletList(lines, listStyle, indentLevel, customBulletSymbol, revealSteps);
     } else if (listType === 'numbered') {
-      latex += this.generateNumberedList(lines, listStyle, indentLevel);
+      latex += this.generateNumberedList(lines, listStyle, indentLevel, revealSteps);
     }
 
     return latex;
@@ -742,7 +2211,7 @@ export class LaTeXGenerator {
   /**
    * Generate bullet list LaTeX code
    */
-  private generateBulletList(items: string[], style: string, indentLevel: number, customSymbol?: string): string {
+  private generateBulletList(items: string[], style: string, indentLevel: number, customSymbol?: string, revealSteps?: OverlaySteps): string {
     let latex = '';
 
     // Determine bullet symbol based on style and indent level
@@ -761,9 +2230,9 @@ export class LaTeXGenerator {
     }
 
     // Generate list items
-    for (const item of items) {
-      latex += `\\item ${this.escapeLatex(item.trim())}\n`;
-    }
+    items.forEach((item, index) => {
+      latex += `${this.generateListItemCommand(index, revealSteps)} ${item}\n`;
+    });
 
     latex += '\\end{itemize}';
 
@@ -773,7 +2242,7 @@ export class LaTeXGenerator {
   /**
    * Generate numbered list LaTeX code
    */
-  private generateNumberedList(items: string[], style: string, indentLevel: number): string {
+  private generateNumberedList(items: string[], style: string, indentLevel: number, revealSteps?: OverlaySteps): string {
     let latex = '';
 
     // Use enumerate environment with custom numbering
@@ -791,15 +2260,28 @@ export class LaTeXGenerator {
     }
 
     // Generate list items
-    for (const item of items) {
-      latex += `\\item ${this.escapeLatex(item.trim())}\n`;
-    }
+    items.forEach((item, index) => {
+      latex += `${this.generateListItemCommand(index, revealSteps)} ${item}\n`;
+    });
 
     latex += '\\end{enumerate}';
 
     return latex;
   }
 
+  /**
+   * Generate an \\item command, uncovered from its own step when revealing items incrementally.
+   * Items of a list that disappears are shown until its last step, so items past it appear on that step.
+   */
+  private generateListItemCommand(index: number, revealSteps?: OverlaySteps): string {
+    if (!revealSteps) return '\\item';
+
+    const { start, end } = revealSteps;
+    return end !== undefined
+      ? `\\item<${Math.min(start + index, end)}-${end}>`
+      : `\\item<${start + index}->`;
+  }
+
   /**
    * Get bullet symbol based on style and indent level
    */
@@ -849,8 +2331,8 @@ export class LaTeXGenerator {
     const lines = content.split('\n');
     const maxLineLength = Math.max(...lines.map(line => line.length));
 
-    // Text-safe area width (14.6cm with 0.3cm margins on each side: 15.2 - 0.5 = 14.7cm)
-    const TEXT_USABLE_WIDTH = 14.7;
+    // Text-safe area width with 0.3cm margins on each side (15.2 - 0.5 = 14.7cm for 16:9)
+    const TEXT_USABLE_WIDTH = this.slideDimensions.usableWidthCm - 0.6;
 
     // Base width calculation considering font size
     // More accurate character width estimation for different font sizes
@@ -917,7 +2399,7 @@ export class LaTeXGenerator {
     });
 
     // Escape LaTeX special characters first
-    let processed = this.escapeLatex(content);
+    let processed = this.escapeText(content);
 
     // Handle different types of newlines and line breaks
     // 1. Handle explicit line breaks (\\n or \n)
@@ -950,16 +2432,157 @@ export class LaTeXGenerator {
     return processed;
   }
 
-  private getConnectionPoint(element: SlideElement, pointId: string): { x: number; y: number } {
-    // Simplified connection point calculation
-    const centerX = this.pixelsToLatex(element.position.x + element.size.width / 2);
-    const centerY = this.pixelsToLatex(element.position.y + element.size.height / 2, true);
-    return { x: centerX, y: centerY };
+  /**
+   * Process rich text runs for LaTeX output, breaking lines like processTextContent
+   */
+  private processRichTextContent(runs: TextRun[]): string {
+    return splitTextRunsByLine(runs)
+      .map(line => this.formatTextRuns(line))
+      .join('\\\\')
+      .replace(/\\\\\\\\/g, '\\\\[0.5em]')
+      .replace(/\\\\+$/, '');
+  }
+
+  /**
+   * Format runs as escaped LaTeX with inline formatting commands
+   */
+  private formatTextRuns(runs: TextRun[]): string {
+    return runs.map(run => {
+      const escaped = run.code ? this.escapeLatex(run.text) : this.escapeText(run.text);
+      let text = escaped.replace(/  +/g, match => '~'.repeat(Math.min(match.length, 10)));
+
+      if (run.code) text = `\\texttt{${text}}`;
+      if (run.script === 'subscript') text = `\\textsubscript{${text}}`;
+      if (run.script === 'superscript') text = `\\textsuperscript{${text}}`;
+      if (run.bold) text = `\\textbf{${text}}`;
+      if (run.italic) text = `\\textit{${text}}`;
+      if (run.underline) text = `\\underline{${text}}`;
+      if (run.color) {
+        const rgb = this.colorToRgb(run.color);
+        text = `\\textcolor[RGB]{${rgb.r},${rgb.g},${rgb.b}}{${text}}`;
+      }
+      if (run.link) text = `\\href{${this.escapeUrl(run.link)}}{${text}}`;
+
+      return text;
+    }).join('');
+  }
+
+  /**
+   * Trim leading and trailing whitespace from a line of runs
+   */
+  private trimTextRuns(runs: TextRun[]): TextRun[] {
+    return runs
+      .map((run, index) => {
+        let text = run.text;
+        if (index === 0) text = text.replace(/^\s+/, '');
+        if (index === runs.length - 1) text = text.replace(/\s+$/, '');
+        return { ...run, text };
+      })
+      .filter(run => run.text);
+  }
+
+  /**
+   * Escape a URL for use in \\href
+   */
+  private escapeUrl(url: string): string {
+    return url.replace(/[{}\\]/g, '').replace(/[%#]/g, '\\$&');
+  }
+
+  /**
+   * Generate the background canvas setup for a slide from its color, gradient or image
+   */
+  private generateBackground(background: Background, slideId: string): string {
+    switch (background.type) {
+      case 'color':
+        return background.color ? this.generateBackgroundColor(background.color) : '';
+      case 'gradient':
+        return this.generateBackgroundGradient(background, slideId);
+      case 'image':
+        return this.generateBackgroundImage(background);
+      default:
+        return '';
+    }
+  }
+
+  private generateBackgroundColor(color: Color): string {
+    const rgb = this.colorToRgb(color);
+    let latex = '% Background color\n';
+    latex += `\\definecolor{slidebackground}{RGB}{${rgb.r},${rgb.g},${rgb.b}}\n`;
+    latex += '\\setbeamercolor{background canvas}{bg=slidebackground}\n';
+    return latex;
+  }
+
+  /**
+   * Generate a TikZ shading covering the page, declared once per slide so every color stop is kept
+   */
+  private generateBackgroundGradient(background: Background, slideId: string): string {
+    const gradient = background.gradient;
+    if (!gradient || gradient.colors.length === 0) return '';
+    if (gradient.colors.length === 1) return this.generateBackgroundColor(gradient.colors[0]);
+
+    const shadingName = `slidebackground${slideId.replace(/[^A-Za-z0-9]/g, '')}`;
+    const isRadial = gradient.type === 'radial';
+    // Horizontal shadings span 0-100bp, radial ones run from the center out to 50bp
+    const length = isRadial ? 50 : 100;
+    const stops = gradient.colors.map((color, index) => {
+      const position = (index / (gradient.colors.length - 1)) * length;
+      const rgb = this.colorToRgb(color);
+      return `rgb(${position.toFixed(1)}bp)=(${(rgb.r / 255).toFixed(3)},${(rgb.g / 255).toFixed(3)},${(rgb.b / 255).toFixed(3)})`;
+    }).join('; ');
+
+    let latex = `% Background ${gradient.type} gradient\n`;
+
+    if (isRadial) {
+      latex += `\\pgfdeclareradialshading{${shadingName}}{\\pgfpoint{0bp}{0bp}}{${stops}}\n`;
+    } else {
+      latex += `\\pgfdeclarehorizontalshading{${shadingName}}{100bp}{${stops}}\n`;
+    }
+
+    // Angles follow CSS: 0deg runs bottom to top, 90deg left to right (the default is top to bottom)
+    const shadingOptions = [`shading=${shadingName}`];
+    if (!isRadial) {
+      shadingOptions.push(`shading angle=${90 - (gradient.angle ?? 180)}`);
+    }
+
+    latex += '\\setbeamertemplate{background canvas}{%\n';
+    latex += '\\begin{tikzpicture}\n';
+    latex += `\\shade[${shadingOptions.join(', ')}] (0,0) rectangle (\\paperwidth,\\paperheight);\n`;
+    latex += '\\end{tikzpicture}}\n';
+
+    return latex;
   }
 
-  private generateBackground(background: any): string {
-    // Simplified background generation
-    return '% Background styling would go here\n';
+  /**
+   * Generate a background image covering, fitting inside or stretched to the page
+   */
+  private generateBackgroundImage(background: Background): string {
+    const image = background.image;
+    if (!image || !image.src) return '';
+
+    let graphic: string;
+    switch (image.fit) {
+      case 'fill':
+        graphic = `\\includegraphics[width=\\paperwidth,height=\\paperheight]{${image.src}}`;
+        break;
+      case 'contain':
+        graphic = `\\includegraphics[width=\\paperwidth,height=\\paperheight,keepaspectratio]{${image.src}}`;
+        break;
+      case 'cover':
+      default:
+        // Scale to the page width, then grow until the height is covered too
+        graphic = `\\adjustbox{width=\\paperwidth,min height=\\paperheight}{\\includegraphics{${image.src}}}`;
+        break;
+    }
+
+    let latex = `% Background image (${image.fit || 'cover'})\n`;
+    latex += '\\setbeamertemplate{background canvas}{%\n';
+    latex += '\\begin{tikzpicture}\n';
+    latex += '\\useasboundingbox (0,0) rectangle (\\paperwidth,\\paperheight);\n';
+    latex += '\\clip (0,0) rectangle (\\paperwidth,\\paperheight);\n';
+    latex += `\\node[inner sep=0pt] at (0.5\\paperwidth,0.5\\paperheight) {${graphic}};\n`;
+    latex += '\\end{tikzpicture}}\n';
+
+    return latex;
   }
 
   private isDefaultBackgroundColor(color: Color | undefined): boolean {
@@ -994,19 +2617,35 @@ export class LaTeXGenerator {
   }
 
   /**
-   * Optimize generated LaTeX code
+   * Optimize generated LaTeX code, leaving the lines of code listings and other verbatim environments as written
    */
   private optimizeCode(latex: string): string {
-    // Remove excessive whitespace
-    latex = latex.replace(/\n\s*\n\s*\n/g, '\n\n');
+    const lines = latex.split('\n');
+    const verbatimLines = getVerbatimLines(lines);
+
+    // Runs of lines that are all verbatim or all not
+    const runs: { lines: string[]; verbatim: boolean }[] = [];
+    lines.forEach((line, index) => {
+      const run = runs[runs.length - 1];
+      if (run && run.verbatim === verbatimLines[index]) {
+        run.lines.push(line);
+      } else {
+        runs.push({ lines: [line], verbatim: verbatimLines[index] });
+      }
+    });
 
-    // Remove trailing whitespace
-    latex = latex.replace(/[ \t]+$/gm, '');
+    return runs.map(run => {
+      let text = run.lines.join('\n');
+      if (run.verbatim) return text;
 
-    // Optimize TikZ pictures by combining when possible
-    // This is a simplified optimization
+      // Remove excessive whitespace
+      text = text.replace(/\n\s*\n\s*\n/g, '\n\n');
 
-    return latex;
+      // Remove trailing whitespace
+      text = text.replace(/[ \t]+$/gm, '');
+
+      return text;
+    }).join('\n');
   }
 
   /**
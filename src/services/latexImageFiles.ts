@@ -0,0 +1,89 @@
+import { Presentation, Slide } from '../types/presentation';
+import { CompilationFile } from './latexCompiler';
+import { MAX_IMAGE_BYTES, getImageExtension } from '../utils/imageFiles';
+
+// Image of the mwe package, shown in place of images that can't be written
+const PLACEHOLDER_IMAGE = 'example-image';
+
+/**
+ * Images of a presentation rewritten to files of the compile job directory
+ */
+export interface PresentationImageFiles {
+  presentation: Presentation; // Images refer to their file by name
+  files: Record<string, CompilationFile[]>; // The files the images of each slide need, by slide id
+}
+
+/**
+ * Turn an embedded or local image into a job file named after what it belongs to, or null for images
+ * LaTeX finds itself, such as the placeholder image
+ */
+const toImageFile = (source: string, baseName: string): CompilationFile | null => {
+  const dataUrl = source.match(/^data:image\/([a-zA-Z]+);base64,(.+)$/);
+  if (dataUrl) {
+    const [, format, base64Data] = dataUrl;
+    const sizeInBytes = (base64Data.length * 3) / 4;
+    if (sizeInBytes > MAX_IMAGE_BYTES) {
+      throw new Error(`Image too large: ${(sizeInBytes / 1024 / 1024).toFixed(1)}MB, max allowed: 20MB`);
+    }
+
+    const binary = atob(base64Data);
+    const content = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      content[i] = binary.charCodeAt(i);
+    }
+    return { name: `${baseName}.${format.toLowerCase()}`, content };
+  }
+
+  // Absolute paths, e.g. of imported Beamer images, are outside the job directory the sandbox may read.
+  // The compiler copies them only if they are images, so other files can't be read through an image.
+  const localPath = source.startsWith('file://') ? decodeURIComponent(source.slice('file://'.length)) : source;
+  if (/^([a-zA-Z]:)?[\\/]/.test(localPath)) {
+    const extension = getImageExtension(localPath);
+    if (!extension) {
+      throw new Error(`Not an image file LaTeX can include: ${localPath}`);
+    }
+    return { name: `${baseName}.${extension}`, path: localPath };
+  }
+
+  return null;
+};
+
+/**
+ * Write the embedded and local images of a presentation's elements and backgrounds as job files, so
+ * documents include them by plain file name from the job directory
+ */
+export const collectImageFiles = (presentation: Presentation): PresentationImageFiles => {
+  const files: Record<string, CompilationFile[]> = {};
+  // Element and slide ids become file names, so only characters safe in \includegraphics are kept
+  const safeName = (prefix: string, id: string) => `${prefix}-${id.replace(/[^a-zA-Z0-9-]/g, '-')}`;
+
+  const useImageFile = (slideId: string, source: string, baseName: string): string => {
+    try {
+      const file = toImageFile(source, baseName);
+      if (!file) return source;
+
+      files[slideId] = [...(files[slideId] || []), file];
+      return file.name;
+    } catch (error) {
+      console.error('[LaTeX Image Files] Failed to process image:', error);
+      return PLACEHOLDER_IMAGE;
+    }
+  };
+
+  const slides = presentation.slides.map((slide): Slide => {
+    const elements = slide.elements.map(element =>
+      element.type === 'image' && element.content
+        ? { ...element, content: useImageFile(slide.id, element.content, safeName('image', element.id)) }
+        : element
+    );
+
+    const backgroundImage = slide.background.image;
+    const background = slide.background.type === 'image' && backgroundImage?.src
+      ? { ...slide.background, image: { ...backgroundImage, src: useImageFile(slide.id, backgroundImage.src, safeName('background', slide.id)) } }
+      : slide.background;
+
+    return { ...slide, elements, background };
+  });
+
+  return { presentation: { ...presentation, slides }, files };
+};
@@ -0,0 +1,156 @@
+import { CompilationError, CompilationLimits } from './latexCompiler';
+
+export const DEFAULT_COMPILATION_LIMITS: CompilationLimits = {
+  cpuSeconds: 60,
+  memoryMB: 2048,
+  outputMB: 100,
+  logMB: 10,
+  maxPages: 500,
+};
+
+// The hard CPU limit is a little higher, so the soft limit's SIGXCPU is what stops the run
+const HARD_CPU_LIMIT_MARGIN_SECONDS = 5;
+
+// Wall-clock time a run gets beyond its hard CPU limit, for time spent waiting on files rather than computing
+const WALL_CLOCK_MARGIN_SECONDS = 10;
+
+// What the allocator prints on stderr when a run hits its memory limit, e.g. kpathsea's
+// "fatal: memory exhausted (xmalloc of 65536 bytes)" or "lualatex: out of memory"
+const ALLOCATION_FAILURE = /^(?:[\w.-]+: )?(?:fatal: )?(?:memory exhausted|out of memory|cannot allocate memory|not enough memory)/im;
+
+// TeX's own fatal error when its memory fills up; document text in the log never starts a line with "! "
+const TEX_MEMORY_EXCEEDED = /^! TeX capacity exceeded, sorry \[main memory size/m;
+
+/**
+ * Fill in the limits a job didn't set
+ */
+export const resolveCompilationLimits = (limits: Partial<CompilationLimits> = {}): CompilationLimits => ({
+  ...DEFAULT_COMPILATION_LIMITS,
+  ...limits,
+});
+
+/**
+ * Environment for TeX runs: kpathsea may only open and write files in the job directory, and never runs
+ * shell commands unless the presentation allows it
+ */
+export const getSandboxEnvironment = (
+  workingDir: string,
+  allowShellEscape: boolean,
+  baseEnv: Record<string, string | undefined> = {}
+): Record<string, string | undefined> => ({
+  ...baseEnv,
+  openin_any: 'p',
+  openout_any: 'p',
+  TEXMFOUTPUT: workingDir,
+  shell_escape: allowShellEscape ? 't' : 'f',
+});
+
+/**
+ * Wrap a command so the shell applies CPU time, memory and file size limits before it execs the command.
+ * Windows has no ulimit, so commands run as they are there.
+ */
+export const getSandboxedCommand = (
+  command: string,
+  args: string[],
+  limits: CompilationLimits,
+  platform: string
+): { command: string; args: string[] } => {
+  if (platform === 'win32') {
+    return { command, args };
+  }
+
+  // Limits the system doesn't support (e.g. -v on macOS) are skipped rather than failing the run
+  const cpuSeconds = Math.ceil(limits.cpuSeconds);
+  const script = [
+    `ulimit -H -t ${cpuSeconds + HARD_CPU_LIMIT_MARGIN_SECONDS} 2>/dev/null`,
+    `ulimit -S -t ${cpuSeconds} 2>/dev/null`,
+    `ulimit -v ${Math.ceil(limits.memoryMB * 1024)} 2>/dev/null`,
+    `ulimit -f ${Math.ceil((limits.outputMB * 1024 * 1024) / 512)} 2>/dev/null`,
+    'exec "$0" "$@"',
+  ].join('; ');
+
+  return { command: '/bin/sh', args: ['-c', script, command, ...args] };
+};
+
+/**
+ * Wall-clock timeout of a sandboxed run, in milliseconds. It outlasts the hard CPU limit, so an engine that keeps
+ * computing is stopped by the CPU limit, and the timeout only stops runs that hang without using CPU.
+ */
+export const getSandboxTimeout = (limits: CompilationLimits, timeout: number = 0): number =>
+  Math.max(timeout, (Math.ceil(limits.cpuSeconds) + HARD_CPU_LIMIT_MARGIN_SECONDS + WALL_CLOCK_MARGIN_SECONDS) * 1000);
+
+/**
+ * Find the limit a finished command ran into, from the signal that stopped it or what it printed
+ */
+export const detectLimitViolation = (
+  run: { signal?: string | null; outputLimitExceeded?: boolean; timedOut?: boolean; stdout: string; stderr: string },
+  limits: CompilationLimits,
+  command: string
+): CompilationError | undefined => {
+  const name = command.split(/[\\/]/).pop();
+
+  if (run.signal === 'SIGXCPU') {
+    return {
+      message: `${name} used more than ${limits.cpuSeconds} seconds of CPU time and was stopped`,
+      type: 'fatal',
+      limit: 'cpu-time',
+    };
+  }
+  if (run.timedOut) {
+    return {
+      message: `${name} did not finish within its time limit and was stopped`,
+      type: 'fatal',
+      limit: 'cpu-time',
+    };
+  }
+  if (run.signal === 'SIGXFSZ') {
+    return {
+      message: `${name} wrote a file larger than ${limits.outputMB} MB and was stopped`,
+      type: 'fatal',
+      limit: 'output-size',
+    };
+  }
+  if (run.outputLimitExceeded) {
+    return {
+      message: `${name} printed more than ${limits.logMB} MB of output and was stopped`,
+      type: 'fatal',
+      limit: 'output-size',
+    };
+  }
+  if (ALLOCATION_FAILURE.test(run.stderr) || TEX_MEMORY_EXCEEDED.test(run.stdout)) {
+    return {
+      message: `${name} needed more than ${limits.memoryMB} MB of memory`,
+      type: 'fatal',
+      limit: 'memory',
+    };
+  }
+
+  return undefined;
+};
+
+/**
+ * Count the pages of a compiled PDF from the engine's "Output written" line, or the page objects in the PDF
+ */
+export const countPdfPages = (log: string, pdf?: Uint8Array): number | undefined => {
+  const written = log.match(/Output written on .*?\((\d+) pages?/);
+  if (written) {
+    return parseInt(written[1], 10);
+  }
+  if (!pdf) return undefined;
+
+  // Page objects in compressed object streams aren't visible; this is a lower bound then
+  const pages = Buffer.from(pdf).toString('latin1').match(/\/Type\s*\/Page(?![a-zA-Z])/g);
+  return pages ? pages.length : undefined;
+};
+
+/**
+ * A page count error when a document has more pages than allowed
+ */
+export const checkPageLimit = (pageCount: number | undefined, limits: CompilationLimits): CompilationError | undefined =>
+  pageCount !== undefined && pageCount > limits.maxPages
+    ? {
+      message: `The document has ${pageCount} pages, more than the limit of ${limits.maxPages}`,
+      type: 'fatal',
+      limit: 'page-count',
+    }
+    : undefined;
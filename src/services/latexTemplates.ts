@@ -10,6 +10,7 @@ export interface LaTeXThemeTemplate {
   customColors?: Record<string, Color>;
   customCommands?: string[];
   preambleAdditions?: string;
+  sectionNavigation?: boolean; // Headline lists every section of the document, not just the current one
 }
 
 export interface LaTeXSlideTemplate {
@@ -189,6 +190,7 @@ export class LaTeXTemplateManager {
       description: 'Modern theme with sidebar navigation',
       beamerTheme: 'Berlin',
       colorTheme: 'default',
+      sectionNavigation: true,
     });
 
     // Metropolis theme (modern)
@@ -211,6 +213,7 @@ export class LaTeXTemplateManager {
       beamerTheme: 'Warsaw',
       colorTheme: 'seahorse',
       fontTheme: 'serif',
+      sectionNavigation: true,
     });
 
     // Corporate theme
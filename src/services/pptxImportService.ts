@@ -7,12 +7,14 @@ import {
   Position,
   Size,
   Color,
+  TextRun,
   createDefaultTheme,
   createDefaultPresentationSettings,
   createDefaultPresentationMetadata,
   createDefaultSlideLayout,
   createDefaultBackground
 } from '../types/presentation';
+import { hasRichText, normalizeTextRuns, sliceTextRuns } from '../utils/richText';
 
 export interface ImportProgress {
   stage: 'parsing' | 'extracting' | 'converting' | 'finalizing';
@@ -256,7 +258,8 @@ export class PPTXImportService {
       slideData.title = this.extractSlideTitle(slideXml) || `Slide ${slideNumber}`;
 
       // Extract text elements
-      const textElements = this.extractTextElements(slideXml, slideNumber);
+      const hyperlinks = await this.extractSlideHyperlinks(zip, slideNumber);
+      const textElements = this.extractTextElements(slideXml, slideNumber, hyperlinks);
       slideData.content.push(...textElements);
 
       // Extract images if enabled
@@ -299,18 +302,23 @@ export class PPTXImportService {
   /**
    * Extract text elements from slide XML
    */
-  private extractTextElements(slideXml: string, slideNumber: number): PPTXElement[] {
+  private extractTextElements(slideXml: string, slideNumber: number, hyperlinks: Record<string, string> = {}): PPTXElement[] {
     const textElements: PPTXElement[] = [];
 
     try {
       // Simple regex-based text extraction (in production, use proper XML parser)
-      const textRegex = /<p:sp[^>]*>.*?<a:t>([^<]+)<\/a:t>.*?<\/p:sp>/gs;
+      const shapeRegex = /<p:sp\b[^>]*>(.*?)<\/p:sp>/gs;
       let match;
       let elementIndex = 0;
 
-      while ((match = textRegex.exec(slideXml)) !== null) {
-        const textContent = match[1].trim();
+      while ((match = shapeRegex.exec(slideXml)) !== null) {
+        const runs = this.extractTextRuns(match[1], hyperlinks);
+        const fullText = runs.map(run => run.text).join('');
+        const textContent = fullText.trim();
         if (textContent) {
+          const leadingWhitespace = fullText.length - fullText.replace(/^\s+/, '').length;
+          const textRuns = sliceTextRuns(runs, leadingWhitespace, leadingWhitespace + textContent.length);
+
           textElements.push({
             type: 'text',
             id: `slide${slideNumber}_text${elementIndex}`,
@@ -320,7 +328,8 @@ export class PPTXImportService {
             properties: {
               fontSize: 16,
               fontFamily: 'Arial',
-              textColor: { r: 0, g: 0, b: 0 }
+              textColor: { r: 0, g: 0, b: 0 },
+              ...(this.importOptions.preserveFormatting && hasRichText(textContent, textRuns) ? { richText: textRuns } : {})
             }
           });
           elementIndex++;
@@ -334,6 +343,121 @@ export class PPTXImportService {
     }
   }
 
+  /**
+   * Extract formatted text runs from a shape, one line per paragraph
+   */
+  private extractTextRuns(shapeXml: string, hyperlinks: Record<string, string>): TextRun[] {
+    const paragraphs = shapeXml.match(/<a:p\b[^>]*?(?:\/>|>.*?<\/a:p>)/gs);
+
+    // Loose text without paragraph markup
+    if (!paragraphs) {
+      const texts = (shapeXml.match(/<a:t>[^<]*<\/a:t>/g) || [])
+        .map(text => this.decodeXmlEntities(text.replace(/<\/?a:t>/g, '')));
+      return texts.length > 0 ? [{ text: texts.join('') }] : [];
+    }
+
+    const runs: TextRun[] = [];
+    paragraphs.forEach((paragraph, index) => {
+      if (index > 0) runs.push({ text: '\n' });
+
+      const runRegex = /<a:(r|fld|br)\b[^>]*?(?:\/>|>(.*?)<\/a:\1>)/gs;
+      let runMatch;
+      while ((runMatch = runRegex.exec(paragraph)) !== null) {
+        if (runMatch[1] === 'br') {
+          runs.push({ text: '\n' });
+          continue;
+        }
+
+        const textMatch = /<a:t>([^<]*)<\/a:t>/.exec(runMatch[2] || '');
+        if (textMatch) {
+          runs.push({ ...this.extractRunFormat(runMatch[2], hyperlinks), text: this.decodeXmlEntities(textMatch[1]) });
+        }
+      }
+    });
+
+    return normalizeTextRuns(runs);
+  }
+
+  /**
+   * Extract inline formatting from a run's properties
+   */
+  private extractRunFormat(runXml: string, hyperlinks: Record<string, string>): Omit<TextRun, 'text'> {
+    const rPrMatch = /<a:rPr\b([^>]*?)(?:\/>|>(.*?)<\/a:rPr>)/s.exec(runXml);
+    if (!rPrMatch) return {};
+
+    const attributes = rPrMatch[1];
+    const body = rPrMatch[2] || '';
+    const format: Omit<TextRun, 'text'> = {};
+
+    if (/\bb="(1|true)"/.test(attributes)) format.bold = true;
+    if (/\bi="(1|true)"/.test(attributes)) format.italic = true;
+
+    const underline = /\bu="([^"]+)"/.exec(attributes);
+    if (underline && underline[1] !== 'none') format.underline = true;
+
+    const baseline = /\bbaseline="(-?\d+)"/.exec(attributes);
+    if (baseline && parseInt(baseline[1], 10) > 0) format.script = 'superscript';
+    if (baseline && parseInt(baseline[1], 10) < 0) format.script = 'subscript';
+
+    const color = /<a:solidFill>\s*<a:srgbClr val="([0-9A-Fa-f]{6})"/.exec(body);
+    if (color) format.color = this.hexToColor(color[1]);
+
+    const typeface = /<a:latin typeface="([^"]+)"/.exec(body);
+    if (typeface && /courier|consolas|mono|menlo/i.test(typeface[1])) format.code = true;
+
+    const link = /<a:hlinkClick\b[^>]*r:id="([^"]+)"/.exec(body);
+    if (link && hyperlinks[link[1]]) format.link = hyperlinks[link[1]];
+
+    return format;
+  }
+
+  /**
+   * Extract external hyperlink targets from the slide relationships
+   */
+  private async extractSlideHyperlinks(zip: JSZip, slideNumber: number): Promise<Record<string, string>> {
+    const hyperlinks: Record<string, string> = {};
+
+    try {
+      const relsXml = await this.getFileContent(zip, `ppt/slides/_rels/slide${slideNumber}.xml.rels`);
+      const relationships = relsXml.match(/<Relationship\b[^>]*>/g) || [];
+
+      relationships.forEach(relationship => {
+        const id = /Id="([^"]+)"/.exec(relationship);
+        const target = /Target="([^"]+)"/.exec(relationship);
+        if (id && target && /Type="[^"]*\/hyperlink"/.test(relationship)) {
+          hyperlinks[id[1]] = this.decodeXmlEntities(target[1]);
+        }
+      });
+    } catch {
+      // Slides without relationships have no hyperlinks
+    }
+
+    return hyperlinks;
+  }
+
+  /**
+   * Convert a hex color such as FF8800 to a Color
+   */
+  private hexToColor(hex: string): Color {
+    return {
+      r: parseInt(hex.slice(0, 2), 16),
+      g: parseInt(hex.slice(2, 4), 16),
+      b: parseInt(hex.slice(4, 6), 16),
+    };
+  }
+
+  /**
+   * Decode the predefined XML entities
+   */
+  private decodeXmlEntities(text: string): string {
+    return text
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&amp;/g, '&');
+  }
+
   /**
    * Extract image elements from slide XML
    */
@@ -1,9 +1,21 @@
 import { EventEmitter } from 'events';
 import { Presentation, Slide } from '../types/presentation';
-import { latexCompiler, ILatexCompiler } from './latexCompilerFactory';
-import { CompilationResult, CompilationProgress } from './latexCompiler';
-import { latexGenerator } from './latexGenerator';
+import { latexCompiler } from './latexCompilerFactory';
+import {
+  CompilationResult,
+  CompilationProgress,
+  CompilationError,
+  CompilationFile,
+  CompilationOptions,
+  LatexAvailability,
+} from './latexCompiler';
+import { latexGenerator, SpeakerNotesMode } from './latexGenerator';
 import { compilationCacheService } from './compilationCacheService';
+import { latexTemplateManager } from './latexTemplates';
+import { collectImageFiles } from './latexImageFiles';
+import { findUnavailableFonts } from './fontAvailability';
+import { LatexSourceMap, findSourceMapEntry } from '../utils/latexSourceMap';
+import { PageBox, SynctexData } from '../utils/synctex';
 
 export interface PreviewState {
   isCompiling: boolean;
@@ -14,6 +26,17 @@ export interface PreviewState {
   error: string | null;
   pdfUrl: string | null;
   currentSlideIndex: number;
+  fontWarning?: string | null;
+  pageImageUrls?: string[]; // Images of the PDF pages, when the compiler could render them
+  syncBoxes?: PreviewSyncBox[];
+}
+
+/**
+ * Where a slide or element was typeset in the preview PDF
+ */
+export interface PreviewSyncBox extends PageBox {
+  slideId: string;
+  elementId?: string;
 }
 
 export interface PreviewOptions {
@@ -21,6 +44,7 @@ export interface PreviewOptions {
   autoCompile?: boolean;
   compiler?: 'pdflatex' | 'xelatex' | 'lualatex';
   timeout?: number;
+  notesMode?: SpeakerNotesMode;
 }
 
 /**
@@ -31,8 +55,18 @@ export class PreviewService extends EventEmitter {
   private currentJobId: string | null = null;
   private compilationTimeout: NodeJS.Timeout | null = null;
   private currentPdfUrl: string | null = null;
+  private currentPageImageUrls: string[] = [];
   private options: Required<PreviewOptions>;
   private lastPresentationHash: string | null = null;
+  private fontAvailability: Map<string, boolean> = new Map();
+  // Lines of the document being compiled, mapped back to slides and elements
+  private currentSourceMap: LatexSourceMap = [];
+  // Presentation the document being compiled was generated from, for errors the source map can't place
+  private currentPresentation: Presentation | null = null;
+  // Jobs compiling single slides, or combining their PDFs
+  private slideJobIds: string[] = [];
+  // Incremented for every compilation, so a superseded one stops before showing its result
+  private compilationGeneration = 0;
 
   constructor(options: PreviewOptions = {}) {
     super();
@@ -41,6 +75,7 @@ export class PreviewService extends EventEmitter {
       autoCompile: true,
       compiler: 'pdflatex',
       timeout: 30000,
+      notesMode: 'hidden',
       ...options,
     };
 
@@ -92,6 +127,8 @@ export class PreviewService extends EventEmitter {
         console.log('[Preview Service] Cancelling existing job:', this.currentJobId);
         latexCompiler.cancelJob(this.currentJobId);
       }
+      this.cancelSlideJobs();
+      const generation = ++this.compilationGeneration;
 
       // Debounce compilation
       console.log('[Preview Service] Setting compilation timeout with debounce:', this.options.debounceMs, 'ms');
@@ -100,17 +137,50 @@ export class PreviewService extends EventEmitter {
           console.log('[Preview Service] Starting actual compilation process');
           this.emit('compilation-started');
 
-          // Process base64 images before LaTeX generation
-          console.log('[Preview Service] Processing base64 images...');
-          const processedPresentation = await this.processBase64Images(presentation);
+          // Images are compiled from files in the job directory, the only place the sandboxed engine may read
+          const { presentation: processedPresentation, files: imageFiles } = collectImageFiles(presentation);
+          this.currentPresentation = processedPresentation;
+
+          // Fonts fontspec can't find fall back to the engine defaults
+          const unavailableFonts = await this.findUnavailableFonts(processedPresentation);
+
+          // fontspec setups need the engine chosen for the presentation
+          const compiler = presentation.settings?.latexEngine || this.options.compiler;
+          const backend = presentation.settings?.compilerBackend;
+          const shell = !!presentation.settings?.allowShellEscape;
+
+          if (this.canCompileSlidesSeparately(presentation)) {
+            const compiled = await this.compileSlidesSeparately(
+              presentation,
+              processedPresentation,
+              { compiler, backend, shell, timeout: this.options.timeout, synctex: true, pageImages: true },
+              imageFiles,
+              unavailableFonts,
+              generation
+            );
+            // A newer compilation took over
+            if (!compiled) return;
+
+            const { result, syncBoxes } = compiled;
+            this.handleCompilationResult(result, syncBoxes);
+            if (result.success) {
+              resolve(result.jobId);
+            } else {
+              reject(new Error(result.errors.map(e => this.describeError(e)).join('; ')));
+            }
+            return;
+          }
 
           // Generate LaTeX source
           console.log('[Preview Service] Generating LaTeX source...');
-          const latexSource = latexGenerator.generateDocument(processedPresentation, {
+          const { latex: latexSource, sourceMap } = latexGenerator.generateDocumentWithSourceMap(processedPresentation, {
             includePackages: true,
             includeDocumentClass: true,
             optimizeCode: true,
+            notesMode: this.options.notesMode,
+            unavailableFonts,
           });
+          this.currentSourceMap = sourceMap;
           console.log('[Preview Service] Generated LaTeX source length:', latexSource.length);
           console.log('[Preview Service] LaTeX source preview:', latexSource.substring(0, 500) + (latexSource.length > 500 ? '...' : ''));
 
@@ -135,15 +205,20 @@ export class PreviewService extends EventEmitter {
 
           // Start compilation
           console.log('[Preview Service] Starting fresh compilation with options:', {
-            compiler: this.options.compiler,
+            compiler,
             timeout: this.options.timeout,
             synctex: true,
           });
           
+          const files = Object.values(imageFiles).flat();
           const jobId = await latexCompiler.compile(latexSource, {
-            compiler: this.options.compiler,
+            compiler,
+            backend,
+            shell,
             timeout: this.options.timeout,
             synctex: true,
+            pageImages: true,
+            files: files.length > 0 ? files : undefined,
           });
 
           console.log('[Preview Service] Compilation job started with ID:', jobId);
@@ -171,7 +246,7 @@ export class PreviewService extends EventEmitter {
                 resolve(jobId);
               } else {
                 console.error('[Preview Service] Compilation failed with errors:', result.errors);
-                reject(new Error(result.errors.map(e => e.message).join('; ')));
+                reject(new Error(result.errors.map(e => this.describeError(e)).join('; ')));
               }
             }
           };
@@ -212,7 +287,7 @@ export class PreviewService extends EventEmitter {
     queueStatus: { queued: number; active: number; total: number };
   } {
     return {
-      isCompiling: this.currentJobId !== null,
+      isCompiling: this.currentJobId !== null || this.slideJobIds.length > 0,
       queueStatus: latexCompiler.getQueueStatus(),
     };
   }
@@ -221,6 +296,13 @@ export class PreviewService extends EventEmitter {
    * Cancel current compilation
    */
   public cancelCompilation(): boolean {
+    if (this.slideJobIds.length > 0) {
+      this.compilationGeneration++;
+      this.cancelSlideJobs();
+      this.emit('compilation-cancelled');
+      return true;
+    }
+
     if (this.currentJobId) {
       const cancelled = latexCompiler.cancelJob(this.currentJobId);
       if (cancelled) {
@@ -271,15 +353,225 @@ export class PreviewService extends EventEmitter {
     if (this.currentJobId) {
       latexCompiler.cancelJob(this.currentJobId);
     }
+    this.cancelSlideJobs();
 
     if (this.currentPdfUrl) {
       URL.revokeObjectURL(this.currentPdfUrl);
       this.currentPdfUrl = null;
     }
+    this.currentPageImageUrls.forEach(url => URL.revokeObjectURL(url));
+    this.currentPageImageUrls = [];
 
     this.removeAllListeners();
   }
 
+  /**
+   * Whether slides can be compiled as separate documents. Agenda frames, citation labels and navigation bars
+   * listing the sections depend on the whole document, and a single slide gains nothing from it.
+   */
+  private canCompileSlidesSeparately(presentation: Presentation): boolean {
+    const template = latexTemplateManager.getThemeTemplate(presentation.theme?.beamerThemeTemplate || 'default');
+    const hasSections = presentation.slides.some(slide => slide.section?.trim());
+
+    return presentation.slides.length > 1
+      && !presentation.settings?.sectionAgenda
+      && !presentation.settings?.bibliography
+      && !(template?.sectionNavigation && hasSections);
+  }
+
+  /**
+   * Compile each slide as its own document, reusing cached PDFs of unchanged slides, and combine their pages
+   * into one PDF, with the page images and SyncTeX boxes of the slides put together the same way.
+   * Resolves to null when a newer compilation superseded this one.
+   */
+  private async compileSlidesSeparately(
+    presentation: Presentation,
+    processedPresentation: Presentation,
+    compileOptions: CompilationOptions,
+    imageFiles: Record<string, CompilationFile[]>,
+    unavailableFonts: string[],
+    generation: number
+  ): Promise<{ result: CompilationResult; syncBoxes: PreviewSyncBox[] } | null> {
+    const startTime = Date.now();
+    this.currentSourceMap = [];
+
+    const slideDocuments = processedPresentation.slides.map((_, index) =>
+      latexGenerator.generateSlideDocumentWithSourceMap(processedPresentation, index, {
+        includePackages: true,
+        includeDocumentClass: true,
+        optimizeCode: true,
+        notesMode: this.options.notesMode,
+        unavailableFonts,
+      })
+    );
+
+    // Cached results are keyed by the slide as edited, before images were written out
+    const slideResults: (CompilationResult | null)[] = slideDocuments.map(({ latex }, index) => {
+      const cachedResult = compilationCacheService.getCachedResult(presentation.slides[index], presentation, latex);
+      // Results restored from persistence lose their PDF and page images
+      const hasBinaryOutput = ArrayBuffer.isView(cachedResult?.pdfBuffer)
+        && (cachedResult?.pageImages || []).every(image => ArrayBuffer.isView(image));
+      return cachedResult?.success && hasBinaryOutput ? cachedResult : null;
+    });
+
+    const changedIndexes = slideResults.flatMap((result, index) => (result ? [] : [index]));
+    console.log('[Preview Service] Compiling', changedIndexes.length, 'of', slideDocuments.length, 'slides');
+    if (generation !== this.compilationGeneration) {
+      return null;
+    }
+
+    let compiledCount = 0;
+    const compiledResults = await Promise.all(changedIndexes.map(async index => {
+      const files = imageFiles[processedPresentation.slides[index].id];
+      const result = await this.runSlideJob(slideDocuments[index].latex, { ...compileOptions, files });
+      if (result && generation === this.compilationGeneration) {
+        compiledCount++;
+        this.emit('compilation-progress', {
+          jobId: result.jobId,
+          stage: 'compiling',
+          progress: Math.round((compiledCount / changedIndexes.length) * 80),
+          message: `Compiled ${compiledCount} of ${changedIndexes.length} changed slides`,
+        } as CompilationProgress);
+      }
+      return result;
+    }));
+
+    if (generation !== this.compilationGeneration || compiledResults.some(result => !result)) {
+      return null;
+    }
+
+    const failedResults: CompilationResult[] = [];
+    const newCacheEntries: { slide: Slide; latexCode: string; result: CompilationResult }[] = [];
+    compiledResults.forEach((result, i) => {
+      const index = changedIndexes[i];
+      if (!result) return;
+
+      if (result.success) {
+        newCacheEntries.push({ slide: presentation.slides[index], latexCode: slideDocuments[index].latex, result });
+        slideResults[index] = result;
+      } else {
+        // Line numbers refer to the slide's own document
+        failedResults.push({
+          ...result,
+          errors: result.errors.map(error => this.locateError(
+            error,
+            slideDocuments[index].sourceMap,
+            { ...processedPresentation, slides: [processedPresentation.slides[index]] }
+          )),
+        });
+      }
+    });
+
+    compilationCacheService.cacheResults(presentation, newCacheEntries);
+
+    if (failedResults.length > 0) {
+      const result: CompilationResult = {
+        success: false,
+        log: failedResults.map(failedResult => failedResult.log).join('\n'),
+        errors: failedResults.flatMap(failedResult => failedResult.errors),
+        warnings: failedResults.flatMap(failedResult => failedResult.warnings),
+        duration: Date.now() - startTime,
+        jobId: failedResults[0].jobId,
+      };
+      return { result, syncBoxes: [] };
+    }
+
+    this.emit('compilation-progress', {
+      jobId: '',
+      stage: 'processing',
+      progress: 90,
+      message: 'Combining slides',
+    } as CompilationProgress);
+
+    const files = slideResults.map((result, index) => ({
+      name: `slide-${index + 1}.pdf`,
+      content: result!.pdfBuffer!,
+    }));
+    const stitchedResult = await this.runSlideJob(this.generateStitchDocument(files.map(file => file.name)), {
+      compiler: 'pdflatex',
+      backend: compileOptions.backend,
+      timeout: this.options.timeout,
+      files,
+    });
+
+    if (!stitchedResult || generation !== this.compilationGeneration) {
+      return null;
+    }
+
+    // Page numbers in each slide's output continue from the pages of the slides before it
+    const pageImages: Buffer[] = [];
+    const syncBoxes: PreviewSyncBox[] = [];
+    slideResults.forEach((result, index) => {
+      syncBoxes.push(...this.getSyncBoxes(result!.synctex, slideDocuments[index].sourceMap, pageImages.length));
+      pageImages.push(...(result!.pageImages || []));
+    });
+    const hasAllPageImages = slideResults.every(result => result!.pageImages);
+
+    const result: CompilationResult = {
+      ...stitchedResult,
+      pageImages: hasAllPageImages ? pageImages : undefined,
+      warnings: [...compiledResults.flatMap(compiledResult => compiledResult!.warnings), ...stitchedResult.warnings],
+      duration: Date.now() - startTime,
+    };
+    return { result, syncBoxes: hasAllPageImages ? syncBoxes : [] };
+  }
+
+  /**
+   * Start a compile job and wait for its result, or null when it is cancelled
+   */
+  private async runSlideJob(source: string, options: CompilationOptions): Promise<CompilationResult | null> {
+    const jobId = await latexCompiler.compile(source, options);
+    this.slideJobIds.push(jobId);
+
+    return new Promise(resolve => {
+      const finish = (result: CompilationResult | null) => {
+        latexCompiler.off('job-completed', handleCompleted);
+        latexCompiler.off('job-cancelled', handleCancelled);
+        this.slideJobIds = this.slideJobIds.filter(id => id !== jobId);
+        resolve(result);
+      };
+      const handleCompleted = (result: CompilationResult) => {
+        if (result.jobId === jobId) finish(result);
+      };
+      const handleCancelled = ({ jobId: cancelledJobId }: { jobId: string }) => {
+        if (cancelledJobId === jobId) finish(null);
+      };
+
+      latexCompiler.on('job-completed', handleCompleted);
+      latexCompiler.on('job-cancelled', handleCancelled);
+    });
+  }
+
+  /**
+   * Cancel the jobs of a compilation that compiles slides separately
+   */
+  private cancelSlideJobs(): void {
+    [...this.slideJobIds].forEach(jobId => latexCompiler.cancelJob(jobId));
+  }
+
+  /**
+   * Generate a document that places the pages of the slide PDFs one after another, at their own size
+   */
+  private generateStitchDocument(fileNames: string[]): string {
+    return [
+      '\\documentclass{article}',
+      '\\usepackage{pdfpages}',
+      '\\begin{document}',
+      ...fileNames.map(fileName => `\\includepdf[pages=-,fitpaper]{${fileName}}`),
+      '\\end{document}',
+      '',
+    ].join('\n');
+  }
+
+  /**
+   * Check the theme fonts with the compiler backend and report any that aren't installed
+   */
+  private async findUnavailableFonts(presentation: Presentation): Promise<string[]> {
+    const unavailableFonts = await findUnavailableFonts(presentation, latexCompiler, this.fontAvailability);
+    this.emit('font-fallback', { fonts: unavailableFonts });
+    return unavailableFonts;
+  }
+
   /**
    * Setup compiler event listeners
    */
@@ -308,31 +600,88 @@ export class PreviewService extends EventEmitter {
   /**
    * Handle compilation result
    */
-  private handleCompilationResult(result: CompilationResult): void {
+  private handleCompilationResult(
+    result: CompilationResult,
+    syncBoxes: PreviewSyncBox[] = this.getSyncBoxes(result.synctex, this.currentSourceMap)
+  ): void {
     if (result.success && result.pdfBuffer) {
       // Clean up previous PDF URL
       if (this.currentPdfUrl) {
         URL.revokeObjectURL(this.currentPdfUrl);
       }
+      this.currentPageImageUrls.forEach(url => URL.revokeObjectURL(url));
 
       // Create new PDF URL
       const blob = new Blob([result.pdfBuffer], { type: 'application/pdf' });
       this.currentPdfUrl = URL.createObjectURL(blob);
+      this.currentPageImageUrls = (result.pageImages || []).map(image =>
+        URL.createObjectURL(new Blob([image], { type: 'image/png' }))
+      );
 
       this.emit('compilation-success', {
         pdfUrl: this.currentPdfUrl,
+        pageImageUrls: this.currentPageImageUrls,
+        syncBoxes,
         duration: result.duration,
         warnings: result.warnings,
       });
     } else {
       this.emit('compilation-error', {
-        errors: result.errors,
+        errors: result.errors.map(error => this.locateError(error)),
         warnings: result.warnings,
         log: result.log,
       });
     }
   }
 
+  /**
+   * Attach the SyncTeX boxes of a compiled document to the slides and elements their lines were generated from
+   */
+  private getSyncBoxes(synctex: SynctexData | undefined, sourceMap: LatexSourceMap, pageOffset: number = 0): PreviewSyncBox[] {
+    if (!synctex) return [];
+
+    return synctex.boxes.flatMap(({ line, ...box }) => {
+      const entry = findSourceMapEntry(sourceMap, line);
+      return entry
+        ? [{ ...box, page: box.page + pageOffset, slideId: entry.slideId, elementId: entry.elementId }]
+        : [];
+    });
+  }
+
+  /**
+   * Attach a compilation error to the slide and element its line was generated from
+   */
+  private locateError(
+    error: CompilationError,
+    sourceMap: LatexSourceMap = this.currentSourceMap,
+    presentation: Presentation | null = this.currentPresentation
+  ): CompilationError {
+    // Packages are loaded in the preamble, so a missing one is shown on the first element that needs it
+    if (error.diagnostic?.kind === 'missing-file' && !error.slideId && presentation) {
+      const packageName = error.diagnostic.file.replace(/\.sty$/, '');
+      const [source] = latexGenerator.findElementsNeedingPackage(presentation, packageName);
+      if (source) {
+        return { ...error, ...source };
+      }
+    }
+
+    // Errors in other files, such as the .vrb files of fragile frames, have their own line numbers
+    if (!error.line || error.slideId || (error.file && !error.file.endsWith('document.tex'))) {
+      return error;
+    }
+
+    const entry = findSourceMapEntry(sourceMap, error.line);
+    return entry ? { ...error, slideId: entry.slideId, elementId: entry.elementId } : error;
+  }
+
+  /**
+   * Describe an error with the slide it came from, for the rejected compile promise
+   */
+  private describeError(error: CompilationError): string {
+    const { slideId } = this.locateError(error);
+    return slideId ? `${error.message} (slide ${slideId})` : error.message;
+  }
+
   /**
    * Generate a hash of the presentation for change detection
    */
@@ -374,11 +723,7 @@ export class PreviewService extends EventEmitter {
   /**
    * Check if LaTeX is available
    */
-  public async checkLatexAvailability(): Promise<{
-    available: boolean;
-    compilers: string[];
-    version?: string;
-  }> {
+  public async checkLatexAvailability(): Promise<LatexAvailability> {
     console.log('🔧 [Preview Service] ===== STARTING LATEX AVAILABILITY CHECK =====');
     console.log('🔧 [Preview Service] LaTeX compiler instance:', {
       exists: !!latexCompiler,
@@ -431,6 +776,7 @@ export class PreviewService extends EventEmitter {
       const fallbackResult = {
         available: false,
         compilers: [],
+        backends: [],
         version: undefined,
       };
       console.log('🔧 [Preview Service] Returning fallback result:', fallbackResult);
@@ -455,79 +801,6 @@ export class PreviewService extends EventEmitter {
       successRate: 0,
     };
   }
-
-  /**
-   * Process base64 images in presentation by saving them as temporary files
-   */
-  private async processBase64Images(presentation: Presentation): Promise<Presentation> {
-    const processedSlides = await Promise.all(
-      presentation.slides.map(async (slide) => {
-        const processedElements = await Promise.all(
-          slide.elements.map(async (element) => {
-            if (element.type === 'image' && element.content?.startsWith('data:image/')) {
-              try {
-                // Extract image format and data
-                const matches = element.content.match(/^data:image\/([a-zA-Z]+);base64,(.+)$/);
-                if (matches) {
-                  const [, format, base64Data] = matches;
-                  
-                  // Check size limit (20MB max to prevent crashes)
-                  const sizeInBytes = (base64Data.length * 3) / 4; // Approximate base64 decoded size
-                  const maxSizeInBytes = 20 * 1024 * 1024; // 20MB
-                  
-                  if (sizeInBytes > maxSizeInBytes) {
-                    console.warn(`Image too large: ${(sizeInBytes / 1024 / 1024).toFixed(1)}MB, max allowed: 20MB`);
-                    throw new Error(`Image too large: ${(sizeInBytes / 1024 / 1024).toFixed(1)}MB`);
-                  }
-                  
-                  // Create temporary file using Electron's file system
-                  if (window.electronAPI && (window.electronAPI as any).exportWriteFileBase64) {
-                    const tempFileName = `temp_image_${element.id}.${format}`;
-                    const tempPath = `/tmp/latex-images/${tempFileName}`;
-                    
-                    console.log(`[Preview Service] Saving image: ${tempFileName} (${(sizeInBytes / 1024).toFixed(1)}KB)`);
-                    
-                    // Save file using base64 data directly
-                    const result = await (window.electronAPI as any).exportWriteFileBase64(tempPath, base64Data);
-                    
-                    if (result.success) {
-                      console.log(`[Preview Service] Image saved successfully: ${result.filePath}`);
-                      // Return element with file path instead of base64
-                      return {
-                        ...element,
-                        content: result.filePath
-                      };
-                    } else {
-                      console.error('Failed to save image:', result.error);
-                      throw new Error(result.error);
-                    }
-                  }
-                }
-              } catch (error) {
-                console.error('Failed to process base64 image:', error);
-                // Return element with placeholder content for failed images
-                return {
-                  ...element,
-                  content: 'example-image' // LaTeX built-in placeholder
-                };
-              }
-            }
-            return element;
-          })
-        );
-
-        return {
-          ...slide,
-          elements: processedElements
-        };
-      })
-    );
-
-    return {
-      ...presentation,
-      slides: processedSlides
-    };
-  }
 }
 
 // Export singleton instance
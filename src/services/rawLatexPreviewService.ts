@@ -0,0 +1,144 @@
+import { EventEmitter } from 'events';
+import { Presentation, SlideElement } from '../types/presentation';
+import { latexCompiler } from './latexCompilerFactory';
+import { CompilationError, CompilationOptions, CompilationResult } from './latexCompiler';
+import { latexGenerator } from './latexGenerator';
+
+export interface RawLatexPreview {
+  imageUrl: string | null;
+  errors: CompilationError[]; // Line numbers are relative to the element content
+}
+
+export interface RawLatexPreviewEvent extends RawLatexPreview {
+  elementId: string;
+  slideId: string;
+}
+
+const MAX_CACHED_PREVIEWS = 50;
+
+/**
+ * Raw LaTeX Preview Service compiles raw LaTeX elements on their own, through the
+ * shared compiler queue, into images for the canvas
+ */
+export class RawLatexPreviewService extends EventEmitter {
+  private cache: Map<string, RawLatexPreview> = new Map();
+  private pending: Map<string, Promise<RawLatexPreview>> = new Map();
+
+  /**
+   * Get the preview image and compile errors for a raw LaTeX element, compiling it if its source changed
+   */
+  public async renderPreview(element: SlideElement, slideId: string, presentation: Presentation): Promise<RawLatexPreview> {
+    const { source, snippetStartLine } = latexGenerator.generateSnippetDocument(element, presentation);
+    const compiler = presentation.settings?.latexEngine || 'pdflatex';
+    const backend = presentation.settings?.compilerBackend;
+    const shell = !!presentation.settings?.allowShellEscape;
+    const timeout = (presentation.settings?.compilationTimeout || 30) * 1000;
+    const key = `${compiler}\n${backend}\n${shell}\n${source}`;
+
+    let preview = this.cache.get(key) ? Promise.resolve(this.cache.get(key)!) : this.pending.get(key);
+    if (!preview) {
+      preview = this.compileSnippet(source, { compiler, backend, shell, timeout, previewImage: true }, snippetStartLine).then(result => {
+        this.pending.delete(key);
+        this.cacheResult(key, result);
+        return result;
+      });
+      this.pending.set(key, preview);
+    }
+
+    const result = await preview;
+    this.emit('preview-updated', { ...result, elementId: element.id, slideId } as RawLatexPreviewEvent);
+    return result;
+  }
+
+  /**
+   * Drop all cached previews
+   */
+  public clearCache(): void {
+    this.cache.forEach(preview => this.revokeImageUrl(preview));
+    this.cache.clear();
+  }
+
+  /**
+   * Compile a snippet document and wait for its job to complete
+   */
+  private async compileSnippet(
+    source: string,
+    options: CompilationOptions,
+    snippetStartLine: number
+  ): Promise<RawLatexPreview> {
+    let jobId: string;
+
+    try {
+      jobId = await latexCompiler.compile(source, options);
+    } catch (error) {
+      return {
+        imageUrl: null,
+        errors: [{ message: error instanceof Error ? error.message : String(error), type: 'fatal' }],
+      };
+    }
+
+    return new Promise(resolve => {
+      const handleCompleted = (result: CompilationResult) => {
+        if (result.jobId !== jobId) return;
+        latexCompiler.off('job-completed', handleCompleted);
+        latexCompiler.off('job-cancelled', handleCancelled);
+        resolve(this.toPreview(result, snippetStartLine));
+      };
+
+      const handleCancelled = ({ jobId: cancelledJobId }: { jobId: string }) => {
+        if (cancelledJobId !== jobId) return;
+        latexCompiler.off('job-completed', handleCompleted);
+        latexCompiler.off('job-cancelled', handleCancelled);
+        resolve({ imageUrl: null, errors: [{ message: 'Compilation was cancelled', type: 'error' }] });
+      };
+
+      latexCompiler.on('job-completed', handleCompleted);
+      latexCompiler.on('job-cancelled', handleCancelled);
+    });
+  }
+
+  /**
+   * Turn a compilation result into a preview, with error lines counted from the start of the snippet
+   */
+  private toPreview(result: CompilationResult, snippetStartLine: number): RawLatexPreview {
+    const errors = result.errors.map(error => ({
+      ...error,
+      line: error.line !== undefined && error.line >= snippetStartLine
+        ? error.line - snippetStartLine + 1
+        : undefined,
+    }));
+
+    if (!result.success) {
+      return {
+        imageUrl: null,
+        errors: errors.length > 0 ? errors : [{ message: 'Compilation failed', type: 'error' }],
+      };
+    }
+
+    const imageUrl = result.imageBuffer
+      ? URL.createObjectURL(new Blob([result.imageBuffer], { type: 'image/png' }))
+      : null;
+
+    return { imageUrl, errors };
+  }
+
+  private cacheResult(key: string, preview: RawLatexPreview): void {
+    this.cache.set(key, preview);
+
+    // Maps iterate in insertion order, so the first key is the oldest
+    if (this.cache.size > MAX_CACHED_PREVIEWS) {
+      const oldestKey = this.cache.keys().next().value as string;
+      this.revokeImageUrl(this.cache.get(oldestKey)!);
+      this.cache.delete(oldestKey);
+    }
+  }
+
+  private revokeImageUrl(preview: RawLatexPreview): void {
+    if (preview.imageUrl) {
+      URL.revokeObjectURL(preview.imageUrl);
+    }
+  }
+}
+
+// Export singleton instance
+export const rawLatexPreviewService = new RawLatexPreviewService();
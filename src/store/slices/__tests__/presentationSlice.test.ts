@@ -5,6 +5,7 @@ import presentationReducer, {
   selectSlide,
   reorderSlides,
   updateSlideTitle,
+  updateSlideSection,
   addElement,
   updateElement,
   deleteElement,
@@ -12,8 +13,10 @@ import presentationReducer, {
   resizeElement,
   duplicateSlide,
   markAsSaved,
+  applyTheme,
+  setBeamerThemeTemplate,
 } from '../presentationSlice';
-import { SlideElement } from '../../types/presentation';
+import { SlideElement, createDefaultTheme } from '../../../types/presentation';
 
 describe('presentationSlice', () => {
   const initialState = {
@@ -260,6 +263,22 @@ describe('presentationSlice', () => {
         expect(element?.content).toBe('Updated text');
         expect(state.isModified).toBe(true);
       });
+
+      it('should keep rich text runs aligned with edited content', () => {
+        let state = presentationReducer(stateWithSlide, updateElement({
+          slideId,
+          elementId,
+          updates: { properties: { fontSize: 16, richText: [{ text: 'Test ' }, { text: 'text', bold: true }] } },
+        }));
+        state = presentationReducer(state, updateElement({
+          slideId,
+          elementId,
+          updates: { content: 'Test texts' },
+        }));
+
+        const element = state.currentPresentation?.slides[0].elements[0];
+        expect(element?.properties.richText).toEqual([{ text: 'Test ' }, { text: 'texts', bold: true }]);
+      });
     });
 
     describe('deleteElement', () => {
@@ -345,6 +364,61 @@ describe('presentationSlice', () => {
     });
   });
 
+  describe('section operations', () => {
+    it('should start and rename a section at a slide', () => {
+      let state = presentationReducer(initialState, createPresentation({}));
+      const slideId = state.currentPresentation!.slides[0].id;
+
+      state = presentationReducer(state, updateSlideSection({ slideId, section: 'Introduction' }));
+      state = presentationReducer(state, updateSlideSection({ slideId, subsection: 'Motivation' }));
+
+      expect(state.currentPresentation?.slides[0].section).toBe('Introduction');
+      expect(state.currentPresentation?.slides[0].subsection).toBe('Motivation');
+      expect(state.isModified).toBe(true);
+    });
+
+    it('should remove a marker without touching the other', () => {
+      let state = presentationReducer(initialState, createPresentation({}));
+      const slideId = state.currentPresentation!.slides[0].id;
+
+      state = presentationReducer(state, updateSlideSection({ slideId, section: 'Results', subsection: 'Data' }));
+      state = presentationReducer(state, updateSlideSection({ slideId, section: null }));
+
+      expect(state.currentPresentation?.slides[0].section).toBeUndefined();
+      expect(state.currentPresentation?.slides[0].subsection).toBe('Data');
+    });
+
+    it('should not start a new section when duplicating a slide', () => {
+      let state = presentationReducer(initialState, createPresentation({}));
+      const slideId = state.currentPresentation!.slides[0].id;
+
+      state = presentationReducer(state, updateSlideSection({ slideId, section: 'Results' }));
+      state = presentationReducer(state, duplicateSlide(slideId));
+
+      expect(state.currentPresentation?.slides[0].section).toBe('Results');
+      expect(state.currentPresentation?.slides[1].section).toBeUndefined();
+    });
+  });
+
+  describe('theme operations', () => {
+    it('should set the Beamer theme template', () => {
+      let state = presentationReducer(initialState, createPresentation({}));
+      state = presentationReducer(state, setBeamerThemeTemplate('madrid'));
+
+      expect(state.currentPresentation?.theme.beamerThemeTemplate).toBe('madrid');
+      expect(state.isModified).toBe(true);
+    });
+
+    it('should keep the Beamer theme template when applying a color theme', () => {
+      let state = presentationReducer(initialState, createPresentation({}));
+      state = presentationReducer(state, setBeamerThemeTemplate('metropolis'));
+      state = presentationReducer(state, applyTheme({ ...createDefaultTheme(), id: 'other', name: 'Other' }));
+
+      expect(state.currentPresentation?.theme.id).toBe('other');
+      expect(state.currentPresentation?.theme.beamerThemeTemplate).toBe('metropolis');
+    });
+  });
+
   describe('utility actions', () => {
     it('should mark presentation as saved', () => {
       let state = presentationReducer(initialState, createPresentation({}));
@@ -14,6 +14,7 @@ import {
   Position,
   Size,
 } from '../../types/presentation';
+import { reconcileTextRuns } from '../../utils/richText';
 
 interface PresentationState {
   currentPresentation: Presentation | null;
@@ -107,7 +108,17 @@ const presentationSlice = createSlice({
     applyTheme: (state, action: PayloadAction<Theme>) => {
       if (!state.currentPresentation) return;
 
-      state.currentPresentation.theme = action.payload;
+      // Keep the chosen Beamer theme unless the new theme brings its own
+      const beamerThemeTemplate = action.payload.beamerThemeTemplate || state.currentPresentation.theme.beamerThemeTemplate;
+      state.currentPresentation.theme = { ...action.payload, beamerThemeTemplate };
+      state.currentPresentation.updatedAt = new Date();
+      state.isModified = true;
+    },
+
+    setBeamerThemeTemplate: (state, action: PayloadAction<string>) => {
+      if (!state.currentPresentation) return;
+
+      state.currentPresentation.theme.beamerThemeTemplate = action.payload;
       state.currentPresentation.updatedAt = new Date();
       state.isModified = true;
     },
@@ -233,6 +244,29 @@ const presentationSlice = createSlice({
       }
     },
 
+    updateSlideSection: (state, action: PayloadAction<{
+      slideId: string;
+      section?: string | null;
+      subsection?: string | null;
+    }>) => {
+      if (!state.currentPresentation) return;
+
+      const slide = state.currentPresentation.slides.find(s => s.id === action.payload.slideId);
+      if (slide) {
+        // undefined leaves a marker untouched, null removes it
+        const { section, subsection } = action.payload;
+        if (section !== undefined) {
+          slide.section = section === null ? undefined : section;
+        }
+        if (subsection !== undefined) {
+          slide.subsection = subsection === null ? undefined : subsection;
+        }
+        slide.updatedAt = new Date();
+        state.currentPresentation.updatedAt = new Date();
+        state.isModified = true;
+      }
+    },
+
     // Element CRUD operations
     addElement: (state, action: PayloadAction<{
       slideId: string;
@@ -291,7 +325,12 @@ const presentationSlice = createSlice({
       if (slide) {
         const element = slide.elements.find(e => e.id === action.payload.elementId);
         if (element) {
+          const { content, properties } = action.payload.updates;
           Object.assign(element, action.payload.updates);
+          // Keep inline formatting runs aligned with edited text
+          if (content !== undefined && element.properties.richText && !properties?.richText) {
+            element.properties.richText = reconcileTextRuns(element.properties.richText, content);
+          }
           element.updatedAt = new Date();
           slide.updatedAt = new Date();
           state.currentPresentation.updatedAt = new Date();
@@ -487,6 +526,9 @@ const presentationSlice = createSlice({
         ...originalSlide,
         id: `slide-${timestamp}-${Math.random().toString(36).substr(2, 9)}`,
         title: `${originalSlide.title} (Copy)`,
+        // The copy continues the original's section rather than starting another one
+        section: undefined,
+        subsection: undefined,
         elements: originalSlide.elements.map((element, index) => ({
           ...element,
           id: `element-${timestamp}-${index}-${Math.random().toString(36).substr(2, 9)}`,
@@ -518,6 +560,7 @@ export const {
   updatePresentationMetadata,
   updatePresentationSettings,
   applyTheme,
+  setBeamerThemeTemplate,
 
   // Slide actions
   addSlide,
@@ -527,6 +570,7 @@ export const {
   updateSlide,
   updateSlideTitle,
   updateSlideNotes,
+  updateSlideSection,
   duplicateSlide,
 
   // Element actions
@@ -1,5 +1,6 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
 import { AccessibilitySettings, KeyboardMode } from '../../services/accessibilityService';
+import { ShapeType } from '../../types/presentation';
 
 export interface UIState {
   // Editor state
@@ -21,7 +22,7 @@ export interface UIState {
   
   // Tool state
   activeTool: 'select' | 'text' | 'shape' | 'image' | 'draw';
-  activeShapeType: 'rectangle' | 'circle' | 'line' | 'arrow' | null;
+  activeShapeType: ShapeType | null;
   
   // Compilation state
   isCompiling: boolean;
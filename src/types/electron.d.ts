@@ -40,9 +40,16 @@ interface ElectronAPI {
     success: boolean;
     available?: boolean;
     compilers?: string[];
+    backends?: ('engine' | 'latexmk' | 'tectonic')[];
+    missingFiles?: string[];
     version?: string;
     error?: string;
   }>;
+  checkFontAvailability: (fonts: string[]) => Promise<{
+    success: boolean;
+    fonts?: Record<string, boolean>;
+    error?: string;
+  }>;
   
   // Window management
   minimizeWindow: () => Promise<void>;
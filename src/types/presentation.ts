@@ -17,7 +17,7 @@ export interface Color {
   a?: number;
 }
 
-export type ElementType = 'text' | 'image' | 'shape' | 'chart' | 'table';
+export type ElementType = 'text' | 'image' | 'shape' | 'chart' | 'table' | 'latex' | 'code'; // 'latex' content is raw LaTeX, emitted verbatim
 
 export type ShapeType = 'rectangle' | 'circle' | 'line' | 'arrow' | 'triangle' | 'diamond' | 'ellipse';
 
@@ -28,6 +28,10 @@ export interface ConnectionPoint {
   type: 'input' | 'output' | 'bidirectional';
 }
 
+export type ConnectionArrowType = 'none' | 'arrow' | 'diamond' | 'circle';
+
+export type ConnectionRouting = 'straight' | 'orthogonal' | 'curved';
+
 export interface ShapeConnection {
   id: string;
   fromElementId: string;
@@ -38,10 +42,71 @@ export interface ShapeConnection {
     strokeColor?: Color;
     strokeWidth?: number;
     strokeDashArray?: number[];
-    arrowType?: 'none' | 'arrow' | 'diamond' | 'circle';
+    arrowType?: ConnectionArrowType; // Head at the target end
+    startArrowType?: ConnectionArrowType; // Head at the source end
+    routing?: ConnectionRouting; // Defaults to straight
   };
 }
 
+export type TableColumnAlignment = 'left' | 'center' | 'right';
+
+export interface TableCell {
+  content: string;
+  hasMath?: boolean;
+  colSpan?: number; // Number of columns this cell spans (default 1)
+  rowSpan?: number; // Number of rows this cell spans (default 1)
+  align?: TableColumnAlignment; // Overrides the column alignment
+}
+
+export interface TableData {
+  rows: number;
+  columns: number;
+  cells: TableCell[][]; // rows x columns; cells covered by a span are ignored
+  headerRow?: boolean;
+  columnAlignments?: TableColumnAlignment[];
+  borderStyle?: 'none' | 'all' | 'horizontal' | 'booktabs';
+}
+
+export type ChartType = 'bar' | 'line' | 'scatter' | 'pie';
+
+export interface ChartSeries {
+  name: string;
+  values: number[];
+  xValues?: number[]; // Scatter charts only; falls back to the label index
+  color?: Color;
+  pointColors?: Color[]; // Pie charts only; colors of the individual slices
+}
+
+export interface ChartData {
+  chartType: ChartType;
+  labels: string[];
+  series: ChartSeries[];
+  csvData?: string; // Attached CSV, takes precedence over inline labels/series
+  title?: string;
+  xLabel?: string;
+  yLabel?: string;
+  showLegend?: boolean;
+}
+
+export type CodeLanguage = 'plain' | 'python' | 'javascript' | 'typescript' | 'java' | 'c' | 'cpp' | 'bash' | 'sql';
+
+export interface TextRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  color?: Color;
+  code?: boolean; // Inline code in a monospaced font
+  link?: string; // Hyperlink target URL
+  script?: 'subscript' | 'superscript';
+}
+
+export interface ElementOverlay {
+  appearOnStep?: number; // First overlay step the element is shown on (1-based)
+  disappearAfterStep?: number; // Last overlay step the element is shown on
+  revealListItems?: boolean; // Lists reveal one item per step, starting at appearOnStep
+}
+
 export interface ElementProperties {
   // Common properties
   opacity?: number;
@@ -56,7 +121,8 @@ export interface ElementProperties {
   textAlign?: 'left' | 'center' | 'right' | 'justify';
   textColor?: Color;
   backgroundColor?: Color;
-  
+  richText?: TextRun[]; // Inline formatting runs; their text joined together equals the content
+
   // List properties
   listType?: 'none' | 'bullet' | 'numbered' | 'custom';
   listStyle?: 'disc' | 'circle' | 'square' | 'decimal' | 'lower-alpha' | 'upper-alpha' | 'lower-roman' | 'upper-roman';
@@ -69,6 +135,7 @@ export interface ElementProperties {
   strokeColor?: Color;
   strokeWidth?: number;
   cornerRadius?: number; // For rectangles
+  strokeDashArray?: number[]; // Dash and gap lengths, as in Fabric.js
   connectionPoints?: ConnectionPoint[];
   
   // Line/Arrow specific properties
@@ -80,18 +147,32 @@ export interface ElementProperties {
   // Image properties
   src?: string;
   alt?: string;
-  crop?: {
+  crop?: { // Visible part of the original image, in percent of its width and height from the top left
     x: number;
     y: number;
     width: number;
     height: number;
   };
-  flipX?: boolean;
-  flipY?: boolean;
+  flipX?: boolean; // Mirrored left to right, before rotation
+  flipY?: boolean; // Mirrored top to bottom, before rotation
   
   // Math properties
   hasMath?: boolean;
   mathExpressions?: any[];
+
+  // Table properties
+  tableData?: TableData;
+
+  // Chart properties
+  chartData?: ChartData;
+
+  // Code properties (the code itself is the element content; fontSize sets its size)
+  codeLanguage?: CodeLanguage;
+  showLineNumbers?: boolean;
+  highlightedLines?: number[]; // 1-based line numbers
+
+  // Overlay properties
+  overlay?: ElementOverlay;
 }
 
 export interface SlideElement {
@@ -123,6 +204,7 @@ export interface Background {
 export interface SlideLayout {
   name: string;
   template: string;
+  mode?: 'absolute' | 'flow'; // 'flow' generates elements as regular Beamer content in the regions they sit in
   regions: {
     title?: { x: number; y: number; width: number; height: number };
     content?: { x: number; y: number; width: number; height: number };
@@ -140,6 +222,8 @@ export interface Slide {
   layout: SlideLayout;
   background: Background;
   notes: string;
+  section?: string; // Starts a new section with this title at this slide
+  subsection?: string; // Starts a new subsection with this title at this slide
   createdAt: Date;
   updatedAt: Date;
 }
@@ -162,6 +246,7 @@ export interface Theme {
   };
   latexClass?: string;
   latexOptions?: Record<string, string>;
+  beamerThemeTemplate?: string; // LaTeXTemplateManager theme template id, e.g. 'madrid'
   isCustom?: boolean;
   createdAt?: Date;
   updatedAt?: Date;
@@ -189,6 +274,29 @@ export interface PresentationMetadata {
   description?: string;
 }
 
+export interface LatexMacro {
+  name: string; // Command name without the backslash, e.g. 'vect'
+  argumentCount?: number; // 0-9; the definition refers to arguments as #1..#9
+  definition: string;
+}
+
+export interface CustomPreamble {
+  macros: LatexMacro[];
+  packages: string[]; // Complete \usepackage lines
+  tikzLibraries: string[];
+}
+
+export type BibliographyStyle = 'numeric' | 'authoryear' | 'alphabetic';
+
+export interface Bibliography {
+  fileName: string; // Name of the attached .bib file, for display
+  content: string; // BibTeX source
+  style?: BibliographyStyle; // biblatex style, defaults to numeric
+  backend?: 'biber' | 'bibtex'; // Defaults to biber
+  referencesFrame?: boolean; // Add a references frame at the end of the document
+  referencesTitle?: string;
+}
+
 export interface PresentationSettings {
   slideSize: {
     width: number;
@@ -198,10 +306,15 @@ export interface PresentationSettings {
   autoSave: boolean;
   autoSaveInterval: number; // in seconds
   latexEngine: 'pdflatex' | 'xelatex' | 'lualatex';
+  compilerBackend?: 'engine' | 'latexmk' | 'tectonic'; // How the engine is run; Tectonic always uses XeTeX
+  allowShellEscape?: boolean; // Let \write18 run commands, e.g. for minted; off unless opted in
   compilationTimeout: number; // in seconds
   showGrid: boolean;
   snapToGrid: boolean;
   gridSize: number;
+  sectionAgenda?: boolean; // Agenda frame highlighting the current section at each section start
+  customPreamble?: CustomPreamble; // User macros, packages and TikZ libraries added to the exported preamble
+  bibliography?: Bibliography; // Attached .bib file for \cite commands
 }
 
 export interface Presentation {
@@ -264,6 +377,24 @@ export const createDefaultPresentationSettings = (): PresentationSettings => ({
   gridSize: 10,
 });
 
+export const createDefaultTableData = (rows: number = 3, columns: number = 3): TableData => ({
+  rows,
+  columns,
+  cells: Array.from({ length: rows }, () =>
+    Array.from({ length: columns }, () => ({ content: '' }))
+  ),
+  headerRow: true,
+  columnAlignments: Array.from({ length: columns }, () => 'left' as TableColumnAlignment),
+  borderStyle: 'booktabs',
+});
+
+export const createDefaultChartData = (chartType: ChartType = 'bar'): ChartData => ({
+  chartType,
+  labels: ['A', 'B', 'C'],
+  series: [{ name: 'Series 1', values: [3, 5, 2] }],
+  showLegend: false,
+});
+
 export const createDefaultPresentationMetadata = (): PresentationMetadata => ({
   author: '',
   title: 'New Presentation',
@@ -0,0 +1,60 @@
+import { createCitation, hasBibliography, parseBibEntries, splitCitations } from '../bibliography';
+
+describe('bibliography', () => {
+  const bib = `
+@string{jn = "Journal of Examples"}
+
+@article{smith2020,
+  author = {Smith, John and Doe, Jane},
+  title = {A {Study} of
+    Examples},
+  journal = jn,
+  year = 2020
+}
+
+@comment{ignored}
+
+@book{knuth84, title = "The {\\TeX}book", author = "Donald Knuth", date = {1984-01-01}}
+`;
+
+  it('lists entries with their key, type and display fields', () => {
+    expect(parseBibEntries(bib)).toEqual([
+      {
+        key: 'smith2020',
+        type: 'article',
+        title: 'A Study of Examples',
+        author: 'Smith, John and Doe, Jane',
+        year: '2020',
+      },
+      {
+        key: 'knuth84',
+        type: 'book',
+        title: 'The \\TeXbook',
+        author: 'Donald Knuth',
+        year: '1984',
+      },
+    ]);
+  });
+
+  it('builds citation commands for one or more keys', () => {
+    expect(createCitation(['smith2020'])).toBe('\\cite{smith2020}');
+    expect(createCitation(['smith2020', 'knuth84'], 'parencite')).toBe('\\parencite{smith2020,knuth84}');
+  });
+
+  it('splits text around citations, including prenotes and postnotes', () => {
+    expect(splitCitations('As shown \\cite{a} and \\parencite[see][p.~4]{b,c}.')).toEqual([
+      'As shown ',
+      '\\cite{a}',
+      ' and ',
+      '\\parencite[see][p.~4]{b,c}',
+      '.',
+    ]);
+    expect(splitCitations('No citations here')).toEqual(['No citations here']);
+  });
+
+  it('only counts a bibliography with content', () => {
+    expect(hasBibliography(undefined)).toBe(false);
+    expect(hasBibliography({ fileName: 'empty.bib', content: '  \n' })).toBe(false);
+    expect(hasBibliography({ fileName: 'refs.bib', content: bib })).toBe(true);
+  });
+});
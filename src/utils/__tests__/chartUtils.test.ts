@@ -0,0 +1,111 @@
+import {
+  parseChartCsv,
+  resolveChartData,
+  getChartPointX,
+  getChartSeriesColor,
+  getChartSliceColor,
+  getChartValueRange,
+} from '../chartUtils';
+import { createDefaultChartData, createDefaultTheme } from '../../types/presentation';
+
+describe('chartUtils', () => {
+  describe('parseChartCsv', () => {
+    test('uses the header row for series names and the first column for labels', () => {
+      const result = parseChartCsv('Quarter,Revenue,Cost\nQ1,10,4\nQ2,12.5,6\n');
+
+      expect(result.labels).toEqual(['Q1', 'Q2']);
+      expect(result.series).toEqual([
+        { name: 'Revenue', values: [10, 12.5] },
+        { name: 'Cost', values: [4, 6] },
+      ]);
+    });
+
+    test('handles quoted fields and Windows line endings', () => {
+      const result = parseChartCsv('Region,"Sales, total"\r\n"North, East",3\r\n');
+
+      expect(result.labels).toEqual(['North, East']);
+      expect(result.series[0].name).toBe('Sales, total');
+    });
+
+    test('treats non-numeric values as zero', () => {
+      const result = parseChartCsv('x,y\na,n/a\nb,\n');
+
+      expect(result.series[0].values).toEqual([0, 0]);
+    });
+
+    test('returns no data without a header and at least one row', () => {
+      expect(parseChartCsv('x,y')).toEqual({ labels: [], series: [] });
+      expect(parseChartCsv('')).toEqual({ labels: [], series: [] });
+    });
+  });
+
+  describe('resolveChartData', () => {
+    test('returns inline data when no CSV is attached', () => {
+      const chart = createDefaultChartData();
+
+      expect(resolveChartData(chart)).toBe(chart);
+    });
+
+    test('prefers attached CSV and keeps inline series colors', () => {
+      const chart = {
+        ...createDefaultChartData('line'),
+        series: [{ name: 'Inline', values: [1], color: { r: 10, g: 20, b: 30 } }],
+        csvData: 'Month,Visitors\nJan,100\nFeb,150',
+      };
+
+      const resolved = resolveChartData(chart);
+
+      expect(resolved.labels).toEqual(['Jan', 'Feb']);
+      expect(resolved.series).toEqual([
+        { name: 'Visitors', values: [100, 150], color: { r: 10, g: 20, b: 30 } },
+      ]);
+      expect(resolved.chartType).toBe('line');
+    });
+
+    test('falls back to inline data when the CSV has no series', () => {
+      const chart = { ...createDefaultChartData(), csvData: 'only-a-header' };
+
+      expect(resolveChartData(chart).series).toEqual(chart.series);
+    });
+  });
+
+  describe('helpers', () => {
+    test('uses explicit x values and falls back to the point index', () => {
+      const series = { name: 's', values: [1, 2, 3], xValues: [0.5, 1.5] };
+
+      expect(getChartPointX(series, 1)).toBe(1.5);
+      expect(getChartPointX(series, 2)).toBe(2);
+    });
+
+    test('cycles through theme colors for series without a color', () => {
+      const theme = createDefaultTheme();
+      const series = { name: 's', values: [] };
+
+      expect(getChartSeriesColor(series, 0, theme)).toEqual(theme.colors.primary);
+      expect(getChartSeriesColor(series, 1, theme)).toEqual(theme.colors.accent);
+      expect(getChartSeriesColor(series, 4, theme)).toEqual(theme.colors.primary);
+      expect(getChartSeriesColor({ ...series, color: { r: 1, g: 2, b: 3 } }, 0, theme)).toEqual({ r: 1, g: 2, b: 3 });
+    });
+
+    test('colors pie slices by point color, then by series color, then by theme color', () => {
+      const theme = createDefaultTheme();
+      const chart = {
+        ...createDefaultChartData('pie'),
+        series: [
+          { name: 'Votes', values: [3, 2, 1], pointColors: [{ r: 1, g: 2, b: 3 }] },
+          { name: 'Other', values: [], color: { r: 4, g: 5, b: 6 } },
+        ],
+      };
+
+      expect(getChartSliceColor(chart, 0, theme)).toEqual({ r: 1, g: 2, b: 3 });
+      expect(getChartSliceColor(chart, 1, theme)).toEqual({ r: 4, g: 5, b: 6 });
+      expect(getChartSliceColor(chart, 2, theme)).toEqual(theme.colors.secondary);
+    });
+
+    test('includes zero in the value range', () => {
+      expect(getChartValueRange([{ name: 's', values: [3, 8] }])).toEqual({ min: 0, max: 8 });
+      expect(getChartValueRange([{ name: 's', values: [-2, 5] }])).toEqual({ min: -2, max: 5 });
+      expect(getChartValueRange([{ name: 's', values: [] }])).toEqual({ min: 0, max: 1 });
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { tokenizeCode, parseLineRanges, formatLineRanges } from '../codeHighlighting';
+
+describe('codeHighlighting', () => {
+  describe('tokenizeCode', () => {
+    test('splits a line into keywords, strings, numbers and comments', () => {
+      expect(tokenizeCode('return "a\\"b" + 42 # done', 'python')).toEqual([[
+        { text: 'return', type: 'keyword' },
+        { text: ' ', type: 'plain' },
+        { text: '"a\\"b"', type: 'string' },
+        { text: ' + ', type: 'plain' },
+        { text: '42', type: 'number' },
+        { text: ' ', type: 'plain' },
+        { text: '# done', type: 'comment' },
+      ]]);
+    });
+
+    test('does not treat digits inside identifiers as numbers', () => {
+      expect(tokenizeCode('x2 = 0x1F', 'javascript')[0]).toEqual([
+        { text: 'x2 = ', type: 'plain' },
+        { text: '0x1F', type: 'number' },
+      ]);
+    });
+
+    test('continues block comments across lines', () => {
+      const lines = tokenizeCode('int a; /* start\nstill comment */ int b;', 'c');
+
+      expect(lines[0][lines[0].length - 1]).toEqual({ text: '/* start', type: 'comment' });
+      expect(lines[1]).toEqual([
+        { text: 'still comment */', type: 'comment' },
+        { text: ' ', type: 'plain' },
+        { text: 'int', type: 'keyword' },
+        { text: ' b;', type: 'plain' },
+      ]);
+    });
+
+    test('matches SQL keywords case-insensitively', () => {
+      expect(tokenizeCode('Select name', 'sql')[0][0]).toEqual({ text: 'Select', type: 'keyword' });
+    });
+
+    test('leaves plain text unhighlighted and keeps empty lines', () => {
+      expect(tokenizeCode('if "x"\n\nend', 'plain')).toEqual([
+        [{ text: 'if "x"', type: 'plain' }],
+        [],
+        [{ text: 'end', type: 'plain' }],
+      ]);
+    });
+  });
+
+  describe('line ranges', () => {
+    test('parses single lines and ranges, ignoring invalid parts', () => {
+      expect(parseLineRanges('4-6, 2, x, 5, 9-8, 0')).toEqual([2, 4, 5, 6, 8, 9]);
+    });
+
+    test('formats consecutive lines as ranges', () => {
+      expect(formatLineRanges([6, 2, 4, 5, 9])).toBe('2, 4-6, 9');
+      expect(formatLineRanges([])).toBe('');
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import {
+  generateCustomPreambleLatex,
+  getCustomPreambleErrors,
+  getKatexMacros,
+  macroToLatex,
+} from '../customPreamble';
+import { CustomPreamble } from '../../types/presentation';
+
+describe('customPreamble', () => {
+  const preamble: CustomPreamble = {
+    macros: [
+      { name: 'vect', argumentCount: 1, definition: '\\mathbf{#1}' },
+      { name: 'R', definition: '\\mathbb{R}' },
+    ],
+    packages: ['\\usepackage{siunitx}', '\\usepackage[version=4]{mhchem}'],
+    tikzLibraries: ['decorations.pathmorphing', 'patterns'],
+  };
+
+  it('renders macros as \\newcommand definitions', () => {
+    expect(macroToLatex(preamble.macros[0])).toBe('\\newcommand{\\vect}[1]{\\mathbf{#1}}');
+    expect(macroToLatex(preamble.macros[1])).toBe('\\newcommand{\\R}{\\mathbb{R}}');
+  });
+
+  it('renders packages, libraries and macros in order', () => {
+    expect(generateCustomPreambleLatex(preamble)).toBe([
+      '\\usepackage{siunitx}',
+      '\\usepackage[version=4]{mhchem}',
+      '\\usetikzlibrary{decorations.pathmorphing,patterns}',
+      '\\newcommand{\\vect}[1]{\\mathbf{#1}}',
+      '\\newcommand{\\R}{\\mathbb{R}}',
+    ].join('\n'));
+  });
+
+  it('maps macros to KaTeX macros', () => {
+    expect(getKatexMacros(preamble.macros)).toEqual({
+      '\\vect': '\\mathbf{#1}',
+      '\\R': '\\mathbb{R}',
+    });
+    expect(getKatexMacros()).toEqual({});
+  });
+
+  it('accepts a valid preamble', () => {
+    expect(getCustomPreambleErrors(preamble)).toEqual([]);
+  });
+
+  it('reports invalid names, arguments, package lines and libraries', () => {
+    const errors = getCustomPreambleErrors({
+      macros: [
+        { name: '\\bad', definition: 'x' },
+        { name: 'twice', definition: 'a' },
+        { name: 'twice', definition: '#2', argumentCount: 1 },
+      ],
+      packages: ['\\documentclass{article}'],
+      tikzLibraries: ['bad library!'],
+    });
+
+    expect(errors).toEqual([
+      'Invalid macro name "\\bad": use letters only, without the backslash',
+      'Macro \\twice is defined more than once',
+      'Macro \\twice refers to an argument it does not take',
+      'Not a \\usepackage line: \\documentclass{article}',
+      'Invalid TikZ library name "bad library!"',
+    ]);
+  });
+
+  it('reports macros that LaTeX or the loaded packages already define', () => {
+    const errors = getCustomPreambleErrors({
+      macros: [
+        { name: 'vec', argumentCount: 1, definition: '\\mathbf{#1}' },
+        { name: 'alert', definition: 'x' },
+        { name: 'R', definition: '\\mathbb{R}' },
+      ],
+      packages: [],
+      tikzLibraries: [],
+    });
+
+    expect(errors).toEqual([
+      'Macro \\vec is already defined by LaTeX or a loaded package; choose another name',
+      'Macro \\alert is already defined by LaTeX or a loaded package; choose another name',
+    ]);
+  });
+});
@@ -0,0 +1,56 @@
+import { assignElementsToRegions, createFlowRegions } from '../flowLayout';
+import { SlideElement, createDefaultSlideLayout } from '../../types/presentation';
+
+describe('flowLayout', () => {
+  const createElement = (id: string, x: number, y: number): SlideElement => ({
+    id,
+    type: 'text',
+    position: { x, y },
+    size: { width: 100, height: 40 },
+    properties: {},
+    content: id,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  it('creates a title strip above a content region or two columns', () => {
+    expect(createFlowRegions(450, false)).toEqual({
+      title: { x: 0, y: 0, width: 800, height: 60 },
+      content: { x: 0, y: 60, width: 800, height: 390 },
+    });
+    expect(createFlowRegions(450, true)).toEqual({
+      title: { x: 0, y: 0, width: 800, height: 60 },
+      leftColumn: { x: 0, y: 60, width: 400, height: 390 },
+      rightColumn: { x: 400, y: 60, width: 400, height: 390 },
+    });
+  });
+
+  it('groups elements by the region their center lies in, in reading order', () => {
+    const layout = { ...createDefaultSlideLayout(), regions: createFlowRegions(450, true) };
+    const groups = assignElementsToRegions([
+      createElement('lower-left', 20, 300),
+      createElement('right', 500, 100),
+      createElement('upper-left', 20, 100),
+      createElement('title', 300, 5),
+    ], layout);
+
+    expect(groups.title.map(element => element.id)).toEqual(['title']);
+    expect(groups.leftColumn.map(element => element.id)).toEqual(['upper-left', 'lower-left']);
+    expect(groups.rightColumn.map(element => element.id)).toEqual(['right']);
+    expect(groups.content).toEqual([]);
+  });
+
+  it('assigns elements outside every region to the nearest one', () => {
+    const layout = { ...createDefaultSlideLayout(), regions: createFlowRegions(450, false) };
+    const groups = assignElementsToRegions([createElement('below', 300, 600)], layout);
+
+    expect(groups.content.map(element => element.id)).toEqual(['below']);
+  });
+
+  it('puts everything in the content region when the layout has no regions', () => {
+    const layout = { ...createDefaultSlideLayout(), regions: {} };
+    const groups = assignElementsToRegions([createElement('a', 20, 20)], layout);
+
+    expect(groups.content.map(element => element.id)).toEqual(['a']);
+  });
+});
@@ -0,0 +1,43 @@
+import { extractSourceMap, findSourceMapEntry, markSourceRange } from '../latexSourceMap';
+
+describe('latexSourceMap', () => {
+  const element = markSourceRange('\\begin{textblock*}\nHello\n\\end{textblock*}\n', 'slide-1', 'element-1');
+  const slide = markSourceRange(`\\begin{frame}{One}\n${element}\\end{frame}\n`, 'slide-1');
+  const latex = `\\documentclass{beamer}\n\\begin{document}\n\n${slide}\n\\end{document}`;
+
+  it('removes the markers and maps the lines they enclosed', () => {
+    const result = extractSourceMap(latex);
+
+    expect(result.latex).toBe([
+      '\\documentclass{beamer}',
+      '\\begin{document}',
+      '',
+      '\\begin{frame}{One}',
+      '\\begin{textblock*}',
+      'Hello',
+      '\\end{textblock*}',
+      '\\end{frame}',
+      '',
+      '\\end{document}',
+    ].join('\n'));
+    expect(result.sourceMap).toEqual([
+      { slideId: 'slide-1', elementId: 'element-1', startLine: 5, endLine: 7 },
+      { slideId: 'slide-1', elementId: undefined, startLine: 4, endLine: 8 },
+    ]);
+  });
+
+  it('finds the most specific entry for a line', () => {
+    const { sourceMap } = extractSourceMap(latex);
+
+    expect(findSourceMapEntry(sourceMap, 6)?.elementId).toBe('element-1');
+    expect(findSourceMapEntry(sourceMap, 8)).toEqual(expect.objectContaining({ slideId: 'slide-1', elementId: undefined }));
+    expect(findSourceMapEntry(sourceMap, 2)).toBeUndefined();
+  });
+
+  it('merges blank lines left next to each other when asked', () => {
+    const marked = `a\n\n${markSourceRange('\n', 'slide-1')}\nb`;
+
+    expect(extractSourceMap(marked).latex).toBe('a\n\n\n\nb');
+    expect(extractSourceMap(marked, true).latex).toBe('a\n\nb');
+  });
+});
@@ -2,6 +2,7 @@ import {
   containsMath,
   extractMathExpressions,
   convertToLaTeX,
+  parseMathContent,
 } from '../mathRenderer';
 
 describe('mathRenderer', () => {
@@ -102,4 +103,21 @@ describe('mathRenderer', () => {
       expect(latex).toBe('');
     });
   });
-});
\ No newline at end of file
+
+  describe('parseMathContent', () => {
+    test('expands custom macros alongside the defaults', () => {
+      const macros = { '\\vect': '\\mathbf{#1}' };
+      const [segment] = parseMathContent('$\\vect{v} \\in \\RR$', macros);
+
+      expect(segment.type).toBe('math');
+      expect(segment.rendered).toContain('mathbf');
+    });
+
+    test('keeps expressions with unknown macros as text', () => {
+      const [segment] = parseMathContent('$\\vect{v}$');
+
+      expect(segment.type).toBe('text');
+      expect(segment.content).toBe('$\\vect{v}$');
+    });
+  });
+});
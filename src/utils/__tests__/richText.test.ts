@@ -0,0 +1,65 @@
+import {
+  applyTextRunFormat,
+  getTextRuns,
+  getTextRunFormatInRange,
+  hasRichText,
+  isSafeLink,
+  reconcileTextRuns,
+  splitTextRunsByLine,
+} from '../richText';
+
+describe('richText', () => {
+  it('falls back to a plain run when runs no longer match the content', () => {
+    expect(getTextRuns('Hello', [{ text: 'Hi', bold: true }])).toEqual([{ text: 'Hello' }]);
+    expect(hasRichText('Hello', [{ text: 'Hi', bold: true }])).toBe(false);
+    expect(hasRichText('Hi', [{ text: 'Hi', bold: true }])).toBe(true);
+  });
+
+  it('formats a character range and merges matching neighbours', () => {
+    const bold = applyTextRunFormat('Hello world', undefined, 6, 11, { bold: true });
+    expect(bold).toEqual([{ text: 'Hello ' }, { text: 'world', bold: true }]);
+
+    const merged = applyTextRunFormat('Hello world', bold, 0, 6, { bold: true });
+    expect(merged).toEqual([{ text: 'Hello world', bold: true }]);
+
+    const cleared = applyTextRunFormat('Hello world', merged, 0, 5, { bold: false });
+    expect(cleared).toEqual([{ text: 'Hello' }, { text: ' world', bold: true }]);
+  });
+
+  it('reports formatting shared by the whole range', () => {
+    const runs = [
+      { text: 'ab', bold: true, italic: true },
+      { text: 'cd', bold: true },
+    ];
+
+    expect(getTextRunFormatInRange('abcd', runs, 0, 4)).toEqual({ bold: true });
+    expect(getTextRunFormatInRange('abcd', runs, 0, 2)).toEqual({ bold: true, italic: true });
+    expect(getTextRunFormatInRange('abcd', runs, 1, 1)).toEqual({ bold: true, italic: true });
+  });
+
+  it('splits runs into lines', () => {
+    const lines = splitTextRunsByLine([{ text: 'One\nTw', bold: true }, { text: 'o' }]);
+
+    expect(lines).toEqual([
+      [{ text: 'One', bold: true }],
+      [{ text: 'Tw', bold: true }, { text: 'o' }],
+    ]);
+  });
+
+  it('carries formatting over to edited content', () => {
+    const runs = [{ text: 'Hello ' }, { text: 'world', bold: true }];
+
+    expect(reconcileTextRuns(runs, 'Hello worlds')).toEqual([{ text: 'Hello ' }, { text: 'worlds', bold: true }]);
+    expect(reconcileTextRuns(runs, 'Hi world')).toEqual([{ text: 'Hi ' }, { text: 'world', bold: true }]);
+    expect(reconcileTextRuns(runs, 'Hello')).toEqual([{ text: 'Hello' }]);
+  });
+
+  it('accepts only web, mail and relative links', () => {
+    expect(isSafeLink('https://example.com')).toBe(true);
+    expect(isSafeLink('MAILTO:ada@example.com')).toBe(true);
+    expect(isSafeLink('slides/next.html#top')).toBe(true);
+    expect(isSafeLink('vbscript:msgbox(1)')).toBe(false);
+    expect(isSafeLink(' java\nscript:alert(1)')).toBe(false);
+    expect(isSafeLink('data:text/html,<script>')).toBe(false);
+  });
+});
@@ -0,0 +1,30 @@
+import { getSlideDimensions, getCanvasBaseHeight } from '../slideGeometry';
+
+describe('slideGeometry', () => {
+  it('keeps the 16:9 content area used by the canvas', () => {
+    const dimensions = getSlideDimensions('16:9');
+
+    expect(dimensions.beamerAspectRatio).toBe('169');
+    expect(dimensions.rightEdgeCm).toBe(15.5);
+    expect(dimensions.usableWidthCm).toBe(15.3);
+    expect(dimensions.usableHeightCm).toBe(7.3);
+    expect(getCanvasBaseHeight(dimensions)).toBe(382);
+  });
+
+  it('uses the Beamer page size for 4:3 and 16:10', () => {
+    const standard = getSlideDimensions('4:3');
+    const wide = getSlideDimensions('16:10');
+
+    expect(standard.beamerAspectRatio).toBe('43');
+    expect(standard.paperWidthCm).toBe(12.8);
+    expect(standard.usableWidthCm).toBe(12.1);
+    expect(standard.usableHeightCm).toBe(7.9);
+    expect(wide.beamerAspectRatio).toBe('1610');
+    expect(wide.usableHeightCm).toBe(8.3);
+  });
+
+  it('falls back to 16:9 for unknown ratios', () => {
+    expect(getSlideDimensions('3:2' as any).aspectRatio).toBe('16:9');
+    expect(getSlideDimensions().aspectRatio).toBe('16:9');
+  });
+});
@@ -0,0 +1,65 @@
+import { parseSynctex, findBoxAt, getBoundingBox } from '../synctex';
+
+describe('synctex', () => {
+  // 65781.76sp is one point
+  const content = [
+    'SyncTeX Version:1',
+    'Input:1:/tmp/latex-presentation-editor/job_1/document.tex',
+    'Input:2:/usr/share/texlive/texmf-dist/tex/latex/beamer/beamerbaseframe.sty',
+    'Output:pdf',
+    'Magnification:1000',
+    'Unit:1',
+    'X Offset:0',
+    'Y Offset:0',
+    'Content:',
+    '!312',
+    '{1',
+    '[1,40:0,1315635:29933260,1315635,0',
+    '(1,12:657817,1315635:6578176,657817,131563',
+    'x1,12:657817,1315635',
+    'h2,3:0,0:100,100,0',
+    ']',
+    '}1',
+    '{2',
+    'h1,20:1315635,1973452:3289088,1315635,0',
+    '}2',
+    'Postamble:',
+    'Count:5',
+  ].join('\n');
+
+  it('reads the horizontal boxes typeset from the document in points', () => {
+    const { pageCount, boxes } = parseSynctex(content);
+
+    expect(pageCount).toBe(2);
+    expect(boxes).toHaveLength(2);
+    expect(boxes[0].page).toBe(1);
+    expect(boxes[0].line).toBe(12);
+    expect(boxes[0].x).toBeCloseTo(10);
+    expect(boxes[0].y).toBeCloseTo(10);
+    expect(boxes[0].width).toBeCloseTo(100);
+    expect(boxes[0].height).toBeCloseTo(12);
+    expect(boxes[1]).toEqual(expect.objectContaining({ page: 2, line: 20 }));
+    expect(boxes[1].y).toBeCloseTo(10);
+  });
+
+  it('finds the smallest box containing a point', () => {
+    const boxes = [
+      { page: 1, x: 0, y: 0, width: 100, height: 100, name: 'outer' },
+      { page: 1, x: 10, y: 10, width: 20, height: 20, name: 'inner' },
+      { page: 2, x: 10, y: 10, width: 5, height: 5, name: 'other page' },
+    ];
+
+    expect(findBoxAt(boxes, 1, 15, 15)?.name).toBe('inner');
+    expect(findBoxAt(boxes, 1, 50, 50)?.name).toBe('outer');
+    expect(findBoxAt(boxes, 1, 150, 50)).toBeUndefined();
+  });
+
+  it('gets the rectangle around boxes on their first page', () => {
+    expect(getBoundingBox([
+      { page: 2, x: 10, y: 20, width: 30, height: 10 },
+      { page: 2, x: 5, y: 40, width: 10, height: 10 },
+      { page: 3, x: 0, y: 0, width: 500, height: 500 },
+    ])).toEqual({ page: 2, x: 5, y: 20, width: 35, height: 30 });
+    expect(getBoundingBox([])).toBeUndefined();
+  });
+});
@@ -0,0 +1,103 @@
+import { Bibliography } from '../types/presentation';
+
+export interface BibEntry {
+  key: string;
+  type: string; // Entry type without the @, e.g. 'article'
+  title?: string;
+  author?: string;
+  year?: string;
+}
+
+export type CitationCommand = 'cite' | 'parencite' | 'textcite' | 'footcite';
+
+export const CITATION_COMMANDS: CitationCommand[] = ['cite', 'parencite', 'textcite', 'footcite'];
+
+// File name the attached .bib is written to next to the document
+export const BIBLIOGRAPHY_FILE_NAME = 'references.bib';
+
+// \cite-like commands with up to two optional arguments (prenote and postnote) and a key list
+const CITATION_PATTERN = /\\(?:cite|parencite|textcite|footcite|autocite|citeauthor|citeyear|nocite)(?:\[[^\]]*\]){0,2}\{[^{}\\]+\}/g;
+
+const ENTRY_START_PATTERN = /@(\w+)\s*[{(]\s*([^,\s]+)\s*,/g;
+const NON_ENTRY_TYPES = ['comment', 'preamble', 'string'];
+
+/**
+ * Check whether a bibliography has any BibTeX source to cite from
+ */
+export const hasBibliography = (bibliography?: Bibliography): bibliography is Bibliography =>
+  !!bibliography && bibliography.content.trim().length > 0;
+
+/**
+ * Read the value of a field from the body of a BibTeX entry, without its braces or quotes
+ */
+const readField = (body: string, field: string): string | undefined => {
+  const match = new RegExp(`(?:^|[,\\s])${field}\\s*=\\s*`, 'i').exec(body);
+  if (!match) return undefined;
+
+  let i = match.index + match[0].length;
+  let value = '';
+
+  if (body[i] === '{' || body[i] === '"') {
+    const closing = body[i] === '{' ? '}' : '"';
+    let depth = 0;
+    for (i++; i < body.length; i++) {
+      const char = body[i];
+      if (char === closing && depth === 0) break;
+      if (char === '{') depth++;
+      if (char === '}') depth--;
+      value += char;
+    }
+  } else {
+    value = (body.slice(i).match(/^[^,}\s]+/) || [''])[0];
+  }
+
+  return value.replace(/[{}]/g, '').replace(/\s+/g, ' ').trim() || undefined;
+};
+
+/**
+ * List the entries of a BibTeX file with the fields shown in the citation picker
+ */
+export const parseBibEntries = (content: string): BibEntry[] => {
+  const starts: { type: string; key: string; index: number }[] = [];
+  let match: RegExpExecArray | null;
+
+  ENTRY_START_PATTERN.lastIndex = 0;
+  while ((match = ENTRY_START_PATTERN.exec(content)) !== null) {
+    starts.push({ type: match[1].toLowerCase(), key: match[2], index: match.index + match[0].length });
+  }
+
+  return starts
+    .map((start, index) => ({ ...start, body: content.slice(start.index, starts[index + 1]?.index ?? content.length) }))
+    .filter(start => !NON_ENTRY_TYPES.includes(start.type))
+    .map(({ key, type, body }) => ({
+      key,
+      type,
+      title: readField(body, 'title'),
+      author: readField(body, 'author'),
+      year: readField(body, 'year') || readField(body, 'date')?.slice(0, 4),
+    }));
+};
+
+/**
+ * Build a citation command for one or more keys
+ */
+export const createCitation = (keys: string[], command: CitationCommand = 'cite'): string =>
+  `\\${command}{${keys.join(',')}}`;
+
+/**
+ * Split a text around its citation commands, so they can be kept out of LaTeX escaping; odd indexes hold the citations
+ */
+export const splitCitations = (text: string): string[] => {
+  const parts: string[] = [];
+  let last = 0;
+  let match: RegExpExecArray | null;
+
+  CITATION_PATTERN.lastIndex = 0;
+  while ((match = CITATION_PATTERN.exec(text)) !== null) {
+    parts.push(text.slice(last, match.index), match[0]);
+    last = match.index + match[0].length;
+  }
+  parts.push(text.slice(last));
+
+  return parts;
+};
@@ -0,0 +1,152 @@
+import { fabric } from 'fabric';
+import { ChartData, Color, Theme } from '../types/presentation';
+import { resolveChartData, getChartPointX, getChartSeriesColor, getChartSliceColor, getChartValueRange } from './chartUtils';
+
+const toRgba = (color: Color): string => `rgba(${color.r}, ${color.g}, ${color.b}, ${color.a || 1})`;
+
+// Build a Fabric.js group approximating how pgfplots will render the chart
+export const createFabricChart = (
+  chartData: ChartData,
+  theme: Theme,
+  position: { x: number; y: number },
+  size: { width: number; height: number }
+): fabric.Group => {
+  const chart = resolveChartData(chartData);
+  const { width, height } = size;
+  const objects: fabric.Object[] = [];
+  const axisColor = toRgba(theme.colors.text);
+
+  // Background keeps the group's bounds equal to the element size
+  objects.push(new fabric.Rect({
+    left: 0,
+    top: 0,
+    width,
+    height,
+    fill: 'rgba(255, 255, 255, 0)',
+    stroke: 'rgba(0, 0, 0, 0.15)',
+    strokeWidth: 1,
+  }));
+
+  const titleHeight = chart.title ? 20 : 0;
+  if (chart.title) {
+    objects.push(new fabric.Text(chart.title, {
+      left: width / 2,
+      top: 2,
+      originX: 'center',
+      fontSize: 14,
+      fill: axisColor,
+    }));
+  }
+
+  if (chart.chartType === 'pie') {
+    const values = (chart.series[0]?.values || []).map(value => Math.max(0, value));
+    const total = values.reduce((sum, value) => sum + value, 0);
+    const radius = Math.max(5, Math.min(width, height - titleHeight) / 2 - 10);
+    const centerX = width / 2;
+    const centerY = titleHeight + (height - titleHeight) / 2;
+    let angle = -Math.PI / 2;
+
+    values.forEach((value, index) => {
+      if (total === 0 || value === 0) return;
+      const sweep = (value / total) * Math.PI * 2;
+      const end = angle + sweep;
+      const largeArc = sweep > Math.PI ? 1 : 0;
+      const startX = centerX + radius * Math.cos(angle);
+      const startY = centerY + radius * Math.sin(angle);
+      const endX = centerX + radius * Math.cos(end);
+      const endY = centerY + radius * Math.sin(end);
+      const color = getChartSliceColor(chart, index, theme);
+
+      objects.push(new fabric.Path(
+        `M ${centerX} ${centerY} L ${startX} ${startY} A ${radius} ${radius} 0 ${largeArc} 1 ${endX} ${endY} Z`,
+        { fill: toRgba(color), stroke: '#ffffff', strokeWidth: 1 }
+      ));
+      angle = end;
+    });
+  } else {
+    const padding = { left: 30, right: 10, top: titleHeight + 10, bottom: 25 };
+    const plotWidth = Math.max(10, width - padding.left - padding.right);
+    const plotHeight = Math.max(10, height - padding.top - padding.bottom);
+    const { min, max } = getChartValueRange(chart.series);
+    const toY = (value: number) => padding.top + plotHeight - ((value - min) / (max - min)) * plotHeight;
+
+    const pointCount = Math.max(1, chart.labels.length, ...chart.series.map(series => series.values.length));
+    const xValues = chart.chartType === 'scatter'
+      ? chart.series.flatMap(series => series.values.map((_, index) => getChartPointX(series, index)))
+      : [0, pointCount - 1];
+    const minX = Math.min(0, ...xValues);
+    const maxX = Math.max(minX + 1, ...xValues);
+    const slotWidth = plotWidth / pointCount;
+    const toX = (x: number) => chart.chartType === 'scatter'
+      ? padding.left + ((x - minX) / (maxX - minX)) * plotWidth
+      : padding.left + slotWidth * (x + 0.5);
+
+    // Axes
+    objects.push(new fabric.Line([padding.left, padding.top, padding.left, padding.top + plotHeight], {
+      stroke: axisColor,
+      strokeWidth: 1,
+    }));
+    objects.push(new fabric.Line([padding.left, toY(0), padding.left + plotWidth, toY(0)], {
+      stroke: axisColor,
+      strokeWidth: 1,
+    }));
+
+    if (chart.chartType !== 'scatter') {
+      chart.labels.forEach((label, index) => {
+        objects.push(new fabric.Text(label, {
+          left: toX(index),
+          top: padding.top + plotHeight + 4,
+          originX: 'center',
+          fontSize: 10,
+          fill: axisColor,
+        }));
+      });
+    }
+
+    const barWidth = (slotWidth * 0.8) / Math.max(1, chart.series.length);
+
+    chart.series.forEach((series, seriesIndex) => {
+      const color = toRgba(getChartSeriesColor(series, seriesIndex, theme));
+
+      if (chart.chartType === 'bar') {
+        series.values.forEach((value, index) => {
+          const top = Math.min(toY(value), toY(0));
+          objects.push(new fabric.Rect({
+            left: padding.left + slotWidth * index + slotWidth * 0.1 + barWidth * seriesIndex,
+            top,
+            width: barWidth,
+            height: Math.abs(toY(0) - toY(value)),
+            fill: color,
+          }));
+        });
+      } else {
+        const points = series.values.map((value, index) => ({ x: toX(getChartPointX(series, index)), y: toY(value) }));
+
+        if (chart.chartType === 'line' && points.length > 1) {
+          objects.push(new fabric.Polyline(points, {
+            fill: '',
+            stroke: color,
+            strokeWidth: 2,
+          }));
+        }
+
+        points.forEach(point => {
+          objects.push(new fabric.Circle({
+            left: point.x,
+            top: point.y,
+            radius: 3,
+            originX: 'center',
+            originY: 'center',
+            fill: color,
+          }));
+        });
+      }
+    });
+  }
+
+  return new fabric.Group(objects, {
+    left: position.x,
+    top: position.y,
+    subTargetCheck: false,
+  });
+};
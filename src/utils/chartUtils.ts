@@ -0,0 +1,111 @@
+import { ChartData, ChartSeries, Color, Theme } from '../types/presentation';
+
+// Theme colors used for series without an explicit color, in order
+export const CHART_THEME_COLOR_ORDER: (keyof Theme['colors'])[] = ['primary', 'accent', 'secondary', 'text'];
+
+// Split a single CSV line, honouring double-quoted fields
+const splitCsvLine = (line: string): string[] => {
+  const fields: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (char === ',' && !inQuotes) {
+      fields.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  fields.push(current.trim());
+  return fields;
+};
+
+// Parse CSV chart data: the header row names the series, the first column holds the labels
+export const parseChartCsv = (csv: string): { labels: string[]; series: ChartSeries[] } => {
+  const lines = csv
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line.length > 0);
+
+  if (lines.length < 2) {
+    return { labels: [], series: [] };
+  }
+
+  const header = splitCsvLine(lines[0]);
+  const series: ChartSeries[] = header.slice(1).map((name, index) => ({
+    name: name || `Series ${index + 1}`,
+    values: [],
+  }));
+  const labels: string[] = [];
+
+  for (const line of lines.slice(1)) {
+    const fields = splitCsvLine(line);
+    labels.push(fields[0] || '');
+
+    series.forEach((entry, index) => {
+      const value = parseFloat(fields[index + 1]);
+      entry.values.push(Number.isFinite(value) ? value : 0);
+    });
+  }
+
+  return { labels, series };
+};
+
+// Resolve the labels and series to plot, preferring attached CSV data over inline values
+export const resolveChartData = (chart: ChartData): ChartData => {
+  if (!chart.csvData || !chart.csvData.trim()) {
+    return chart;
+  }
+
+  const parsed = parseChartCsv(chart.csvData);
+  if (parsed.series.length === 0) {
+    return chart;
+  }
+
+  return {
+    ...chart,
+    labels: parsed.labels,
+    // Keep colors chosen for inline series so switching to CSV doesn't restyle the chart
+    series: parsed.series.map((series, index) => ({
+      ...series,
+      color: chart.series[index]?.color,
+      pointColors: chart.series[index]?.pointColors,
+    })),
+  };
+};
+
+// Get the x coordinate of a data point; scatter series may provide explicit x values
+export const getChartPointX = (series: ChartSeries, index: number): number => {
+  const x = series.xValues?.[index];
+  return x !== undefined && Number.isFinite(x) ? x : index;
+};
+
+// Get the color of a series, cycling through the theme colors when none is set
+export const getChartSeriesColor = (series: ChartSeries, index: number, theme: Theme): Color => {
+  return series.color || theme.colors[CHART_THEME_COLOR_ORDER[index % CHART_THEME_COLOR_ORDER.length]];
+};
+
+// Get the color of a pie slice: the point color of the first series, else the series colors in order
+export const getChartSliceColor = (chart: ChartData, index: number, theme: Theme): Color => {
+  return chart.series[0]?.pointColors?.[index] || getChartSeriesColor(chart.series[index] || { name: '', values: [] }, index, theme);
+};
+
+// Get the value range of all series, always including zero so bars have a baseline
+export const getChartValueRange = (series: ChartSeries[]): { min: number; max: number } => {
+  const values = series.flatMap(entry => entry.values);
+  const min = Math.min(0, ...values);
+  const max = Math.max(0, ...values);
+
+  return { min, max: max === min ? min + 1 : max };
+};
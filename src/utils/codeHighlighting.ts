@@ -0,0 +1,266 @@
+import { CodeLanguage, Color } from '../types/presentation';
+
+export type CodeTokenType = 'keyword' | 'string' | 'comment' | 'number' | 'plain';
+
+export interface CodeToken {
+  text: string;
+  type: CodeTokenType;
+}
+
+export interface CodeLanguageDefinition {
+  label: string;
+  listingsName?: string; // Built-in listings language; others are defined from this table
+  keywords: string[];
+  caseSensitive: boolean;
+  lineComment?: string;
+  blockComment?: [string, string];
+  stringDelimiters: string[];
+}
+
+const C_KEYWORDS = [
+  'auto', 'break', 'case', 'char', 'const', 'continue', 'default', 'do', 'double', 'else', 'enum', 'extern',
+  'float', 'for', 'goto', 'if', 'int', 'long', 'register', 'return', 'short', 'signed', 'sizeof', 'static',
+  'struct', 'switch', 'typedef', 'union', 'unsigned', 'void', 'volatile', 'while',
+];
+
+const JAVASCRIPT_KEYWORDS = [
+  'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'delete', 'do', 'else',
+  'export', 'extends', 'false', 'finally', 'for', 'from', 'function', 'if', 'import', 'in', 'instanceof', 'let',
+  'new', 'null', 'of', 'return', 'static', 'super', 'switch', 'this', 'throw', 'true', 'try', 'typeof',
+  'undefined', 'var', 'void', 'while', 'yield',
+];
+
+export const CODE_LANGUAGES: Record<CodeLanguage, CodeLanguageDefinition> = {
+  plain: {
+    label: 'Plain text',
+    keywords: [],
+    caseSensitive: true,
+    stringDelimiters: [],
+  },
+  python: {
+    label: 'Python',
+    listingsName: 'Python',
+    keywords: [
+      'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif', 'else',
+      'except', 'False', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'None',
+      'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'True', 'try', 'while', 'with', 'yield',
+    ],
+    caseSensitive: true,
+    lineComment: '#',
+    stringDelimiters: ['"', "'"],
+  },
+  javascript: {
+    label: 'JavaScript',
+    keywords: JAVASCRIPT_KEYWORDS,
+    caseSensitive: true,
+    lineComment: '//',
+    blockComment: ['/*', '*/'],
+    stringDelimiters: ['"', "'", '`'],
+  },
+  typescript: {
+    label: 'TypeScript',
+    keywords: [
+      ...JAVASCRIPT_KEYWORDS, 'abstract', 'any', 'as', 'boolean', 'declare', 'enum', 'implements', 'interface',
+      'keyof', 'namespace', 'never', 'number', 'private', 'protected', 'public', 'readonly', 'string', 'type',
+      'unknown',
+    ],
+    caseSensitive: true,
+    lineComment: '//',
+    blockComment: ['/*', '*/'],
+    stringDelimiters: ['"', "'", '`'],
+  },
+  java: {
+    label: 'Java',
+    listingsName: 'Java',
+    keywords: [
+      'abstract', 'boolean', 'break', 'byte', 'case', 'catch', 'char', 'class', 'continue', 'default', 'do',
+      'double', 'else', 'enum', 'extends', 'false', 'final', 'finally', 'float', 'for', 'if', 'implements',
+      'import', 'instanceof', 'int', 'interface', 'long', 'new', 'null', 'package', 'private', 'protected',
+      'public', 'return', 'short', 'static', 'super', 'switch', 'this', 'throw', 'throws', 'true', 'try', 'void',
+      'while',
+    ],
+    caseSensitive: true,
+    lineComment: '//',
+    blockComment: ['/*', '*/'],
+    stringDelimiters: ['"', "'"],
+  },
+  c: {
+    label: 'C',
+    listingsName: 'C',
+    keywords: C_KEYWORDS,
+    caseSensitive: true,
+    lineComment: '//',
+    blockComment: ['/*', '*/'],
+    stringDelimiters: ['"', "'"],
+  },
+  cpp: {
+    label: 'C++',
+    listingsName: '{[ISO]C++}',
+    keywords: [
+      ...C_KEYWORDS, 'bool', 'catch', 'class', 'constexpr', 'delete', 'false', 'friend', 'namespace', 'new',
+      'nullptr', 'operator', 'private', 'protected', 'public', 'template', 'this', 'throw', 'true', 'try',
+      'typename', 'using', 'virtual',
+    ],
+    caseSensitive: true,
+    lineComment: '//',
+    blockComment: ['/*', '*/'],
+    stringDelimiters: ['"', "'"],
+  },
+  bash: {
+    label: 'Bash',
+    listingsName: 'bash',
+    keywords: [
+      'case', 'do', 'done', 'echo', 'elif', 'else', 'esac', 'exit', 'export', 'fi', 'for', 'function', 'if',
+      'in', 'local', 'read', 'return', 'then', 'until', 'while',
+    ],
+    caseSensitive: true,
+    lineComment: '#',
+    stringDelimiters: ['"', "'"],
+  },
+  sql: {
+    label: 'SQL',
+    listingsName: 'SQL',
+    keywords: [
+      'and', 'as', 'asc', 'by', 'create', 'delete', 'desc', 'distinct', 'drop', 'from', 'group', 'having', 'in',
+      'insert', 'into', 'is', 'join', 'left', 'limit', 'not', 'null', 'on', 'or', 'order', 'right', 'select',
+      'set', 'table', 'update', 'values', 'where',
+    ],
+    caseSensitive: false,
+    lineComment: '--',
+    blockComment: ['/*', '*/'],
+    stringDelimiters: ["'"],
+  },
+};
+
+// Token colors shared by the canvas and the exporters, similar to common light editor themes
+export const CODE_TOKEN_COLORS: Record<CodeTokenType, Color> = {
+  keyword: { r: 0, g: 0, b: 204, a: 1 },
+  string: { r: 163, g: 21, b: 21, a: 1 },
+  comment: { r: 0, g: 128, b: 0, a: 1 },
+  number: { r: 9, g: 134, b: 88, a: 1 },
+  plain: { r: 33, g: 37, b: 41, a: 1 },
+};
+
+export const CODE_HIGHLIGHT_COLOR: Color = { r: 255, g: 243, b: 176, a: 1 };
+export const CODE_LINE_NUMBER_COLOR: Color = { r: 134, g: 142, b: 150, a: 1 };
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][\w$]*/;
+const NUMBER_PATTERN = /^\d[\w.]*/;
+
+/**
+ * Split code into lines of highlighted tokens; block comments may span lines, strings may not
+ */
+export const tokenizeCode = (code: string, language: CodeLanguage = 'plain'): CodeToken[][] => {
+  const definition = CODE_LANGUAGES[language] || CODE_LANGUAGES.plain;
+  const keywords = new Set(definition.caseSensitive
+    ? definition.keywords
+    : definition.keywords.map(keyword => keyword.toLowerCase()));
+  let inBlockComment = false;
+
+  return code.split(/\r?\n/).map(line => {
+    const tokens: CodeToken[] = [];
+    const push = (text: string, type: CodeTokenType) => {
+      const previous = tokens[tokens.length - 1];
+      if (previous && previous.type === type) {
+        previous.text += text;
+      } else {
+        tokens.push({ text, type });
+      }
+    };
+
+    let i = 0;
+    while (i < line.length) {
+      const rest = line.slice(i);
+
+      if (inBlockComment && definition.blockComment) {
+        const end = rest.indexOf(definition.blockComment[1]);
+        const length = end === -1 ? rest.length : end + definition.blockComment[1].length;
+        push(rest.slice(0, length), 'comment');
+        inBlockComment = end === -1;
+        i += length;
+        continue;
+      }
+
+      if (definition.lineComment && rest.startsWith(definition.lineComment)) {
+        push(rest, 'comment');
+        break;
+      }
+
+      if (definition.blockComment && rest.startsWith(definition.blockComment[0])) {
+        inBlockComment = true;
+        push(definition.blockComment[0], 'comment');
+        i += definition.blockComment[0].length;
+        continue;
+      }
+
+      const delimiter = definition.stringDelimiters.find(candidate => rest.startsWith(candidate));
+      if (delimiter) {
+        let end = 1;
+        while (end < rest.length && rest[end] !== delimiter) {
+          end += rest[end] === '\\' ? 2 : 1;
+        }
+        const string = rest.slice(0, end + 1);
+        push(string, 'string');
+        i += string.length;
+        continue;
+      }
+
+      const previousChar = i > 0 ? line[i - 1] : '';
+      const number = /[\w$]/.test(previousChar) ? null : rest.match(NUMBER_PATTERN);
+      if (number) {
+        push(number[0], 'number');
+        i += number[0].length;
+        continue;
+      }
+
+      const identifier = rest.match(IDENTIFIER_PATTERN);
+      if (identifier) {
+        const word = definition.caseSensitive ? identifier[0] : identifier[0].toLowerCase();
+        push(identifier[0], keywords.has(word) ? 'keyword' : 'plain');
+        i += identifier[0].length;
+        continue;
+      }
+
+      push(line[i], 'plain');
+      i++;
+    }
+
+    return tokens;
+  });
+};
+
+/**
+ * Parse line numbers and ranges such as "2, 4-6" into sorted, unique line numbers
+ */
+export const parseLineRanges = (text: string): number[] => {
+  const lines = new Set<number>();
+
+  text.split(',').forEach(part => {
+    const range = part.trim().match(/^(\d+)(?:\s*-\s*(\d+))?$/);
+    if (!range) return;
+
+    const start = Number(range[1]);
+    const end = range[2] ? Number(range[2]) : start;
+    for (let line = Math.max(1, Math.min(start, end)); line <= Math.max(start, end); line++) {
+      lines.add(line);
+    }
+  });
+
+  return Array.from(lines).sort((a, b) => a - b);
+};
+
+/**
+ * Format line numbers as compact ranges, the inverse of parseLineRanges
+ */
+export const formatLineRanges = (lines: number[]): string => {
+  const ranges: string[] = [];
+  const sorted = Array.from(new Set(lines)).sort((a, b) => a - b);
+
+  for (let i = 0; i < sorted.length; i++) {
+    const start = sorted[i];
+    while (sorted[i + 1] === sorted[i] + 1) i++;
+    ranges.push(sorted[i] === start ? String(start) : `${start}-${sorted[i]}`);
+  }
+
+  return ranges.join(', ');
+};
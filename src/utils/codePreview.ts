@@ -0,0 +1,97 @@
+import { fabric } from 'fabric';
+import { Color, ElementProperties } from '../types/presentation';
+import { tokenizeCode, CODE_TOKEN_COLORS, CODE_HIGHLIGHT_COLOR, CODE_LINE_NUMBER_COLOR } from './codeHighlighting';
+
+const toRgba = (color: Color): string => `rgba(${color.r}, ${color.g}, ${color.b}, ${color.a || 1})`;
+
+const PADDING = 8;
+const LINE_HEIGHT = 1.3;
+const CHAR_WIDTH = 0.6; // Of the font size, for common monospace fonts
+
+// Build a Fabric.js group approximating how listings will render the code
+export const createFabricCodeListing = (
+  code: string,
+  properties: ElementProperties,
+  position: { x: number; y: number },
+  size: { width: number; height: number }
+): fabric.Group => {
+  const { width, height } = size;
+  const fontSize = properties.fontSize || 14;
+  const lineHeight = fontSize * LINE_HEIGHT;
+  const allLines = tokenizeCode(code.replace(/\s+$/, '').replace(/\t/g, '    '), properties.codeLanguage);
+  // Code that doesn't fit is cut off at the element bounds, so the group keeps the element size
+  const lines = allLines.slice(0, Math.max(1, Math.floor((height - 2 * PADDING) / lineHeight)));
+  const objects: fabric.Object[] = [];
+
+  // Background keeps the group's bounds equal to the element size
+  objects.push(new fabric.Rect({
+    left: 0,
+    top: 0,
+    width,
+    height,
+    fill: '#f8f9fa',
+    stroke: 'rgba(0, 0, 0, 0.15)',
+    strokeWidth: 1,
+  }));
+
+  (properties.highlightedLines || [])
+    .filter(line => line >= 1 && line <= lines.length)
+    .forEach(line => {
+      objects.push(new fabric.Rect({
+        left: 0,
+        top: PADDING + (line - 1) * lineHeight,
+        width,
+        height: lineHeight,
+        fill: toRgba(CODE_HIGHLIGHT_COLOR),
+      }));
+    });
+
+  let codeLeft = PADDING;
+  if (properties.showLineNumbers) {
+    const numbers = new fabric.Text(lines.map((_, index) => String(index + 1)).join('\n'), {
+      left: PADDING,
+      top: PADDING,
+      fontSize,
+      lineHeight: LINE_HEIGHT,
+      fontFamily: 'monospace',
+      textAlign: 'right',
+      fill: toRgba(CODE_LINE_NUMBER_COLOR),
+    });
+    objects.push(numbers);
+    codeLeft += (numbers.width || 0) + fontSize;
+  }
+  const maxChars = Math.max(1, Math.floor((width - codeLeft - PADDING) / (fontSize * CHAR_WIDTH)));
+
+  // One text object, colored per character from the tokens of each line
+  const styles: Record<number, Record<number, { fill: string }>> = {};
+  const text = lines.map((tokens, lineIndex) => {
+    let line = '';
+    tokens.forEach(token => {
+      const visible = token.text.slice(0, maxChars - line.length);
+      if (token.type !== 'plain') {
+        for (let i = 0; i < visible.length; i++) {
+          styles[lineIndex] = styles[lineIndex] || {};
+          styles[lineIndex][line.length + i] = { fill: toRgba(CODE_TOKEN_COLORS[token.type]) };
+        }
+      }
+      line += visible;
+    });
+    return line;
+  }).join('\n');
+
+  objects.push(new fabric.Text(text, {
+    left: codeLeft,
+    top: PADDING,
+    fontSize,
+    lineHeight: LINE_HEIGHT,
+    fontFamily: 'monospace',
+    fill: toRgba(CODE_TOKEN_COLORS.plain),
+    styles,
+  }));
+
+  return new fabric.Group(objects, {
+    left: position.x,
+    top: position.y,
+    subTargetCheck: false,
+  });
+};
@@ -0,0 +1,119 @@
+import { CustomPreamble, LatexMacro } from '../types/presentation';
+
+const MACRO_NAME_PATTERN = /^[a-zA-Z]+$/;
+const PACKAGE_LINE_PATTERN = /^\\usepackage(\[[^\]]*\])?\{[^{}]+\}$/;
+const TIKZ_LIBRARY_PATTERN = /^[a-zA-Z][a-zA-Z0-9.-]*$/;
+
+// Commands LaTeX, beamer and the packages the generator loads already define;
+// \newcommand stops compilation with "Command already defined" for these
+const PREDEFINED_COMMANDS = new Set([
+  // Text, document structure and beamer
+  'text', 'textbf', 'textit', 'texttt', 'textrm', 'textsf', 'textsc', 'textcolor', 'emph', 'underline',
+  'color', 'title', 'author', 'date', 'institute', 'today', 'maketitle', 'titlepage', 'tableofcontents',
+  'section', 'subsection', 'paragraph', 'item', 'label', 'ref', 'cite', 'caption', 'footnote', 'url', 'href',
+  'includegraphics', 'hline', 'newline', 'par', 'alert', 'pause', 'only', 'uncover', 'visible', 'onslide',
+  'frametitle', 'framesubtitle', 'note', 'structure', 'LaTeX', 'TeX',
+  // Accents and special letters
+  'H', 'L', 'O', 'P', 'S', 'b', 'c', 'd', 'i', 'j', 'k', 'l', 'o', 'r', 't', 'u', 'v', 'aa', 'AA', 'ae', 'AE', 'ss',
+  // Math
+  'frac', 'dfrac', 'tfrac', 'binom', 'sqrt', 'sum', 'prod', 'int', 'oint', 'lim', 'log', 'ln', 'exp',
+  'sin', 'cos', 'tan', 'max', 'min', 'sup', 'inf', 'det', 'dim', 'ker', 'deg', 'gcd', 'arg', 'Pr', 'Re', 'Im',
+  'vec', 'hat', 'bar', 'dot', 'ddot', 'tilde', 'overline', 'underbrace', 'overbrace',
+  'mathbb', 'mathbf', 'mathrm', 'mathcal', 'mathit', 'mathfrak', 'operatorname', 'DeclareMathOperator',
+  'left', 'right', 'cdot', 'cdots', 'ldots', 'dots', 'times', 'div', 'pm', 'mp', 'infty', 'partial', 'nabla',
+  'leq', 'geq', 'le', 'ge', 'neq', 'ne', 'approx', 'equiv', 'sim', 'in', 'to', 'mid', 'neg',
+  'cap', 'cup', 'subset', 'subseteq', 'emptyset', 'varnothing', 'forall', 'exists',
+  'iff', 'implies', 'rightarrow', 'leftarrow', 'Rightarrow', 'Leftarrow', 'mapsto',
+  'alpha', 'beta', 'gamma', 'delta', 'epsilon', 'varepsilon', 'zeta', 'eta', 'theta', 'iota', 'kappa',
+  'lambda', 'mu', 'nu', 'xi', 'pi', 'rho', 'sigma', 'tau', 'upsilon', 'phi', 'varphi', 'chi', 'psi', 'omega',
+  'Gamma', 'Delta', 'Theta', 'Lambda', 'Xi', 'Pi', 'Sigma', 'Upsilon', 'Phi', 'Psi', 'Omega',
+  // TikZ
+  'tikz', 'draw', 'fill', 'node', 'path', 'coordinate',
+]);
+
+export const createEmptyCustomPreamble = (): CustomPreamble => ({
+  macros: [],
+  packages: [],
+  tikzLibraries: [],
+});
+
+/**
+ * Check whether a preamble adds anything to the document
+ */
+export const hasCustomPreamble = (preamble?: CustomPreamble): preamble is CustomPreamble =>
+  !!preamble && (preamble.macros.length > 0 || preamble.packages.length > 0 || preamble.tikzLibraries.length > 0);
+
+/**
+ * Render a macro as a \newcommand definition
+ */
+export const macroToLatex = (macro: LatexMacro): string => {
+  const argumentCount = macro.argumentCount ? `[${macro.argumentCount}]` : '';
+  return `\\newcommand{\\${macro.name}}${argumentCount}{${macro.definition}}`;
+};
+
+/**
+ * Render the package lines, TikZ libraries and macro definitions of a preamble
+ */
+export const generateCustomPreambleLatex = (preamble: CustomPreamble): string => {
+  const lines: string[] = [...preamble.packages];
+
+  if (preamble.tikzLibraries.length > 0) {
+    lines.push(`\\usetikzlibrary{${preamble.tikzLibraries.join(',')}}`);
+  }
+
+  lines.push(...preamble.macros.map(macroToLatex));
+
+  return lines.join('\n');
+};
+
+/**
+ * Map macros to KaTeX's macros option so canvas math matches the compiled PDF
+ */
+export const getKatexMacros = (macros: LatexMacro[] = []): Record<string, string> =>
+  macros.reduce<Record<string, string>>((katexMacros, macro) => {
+    katexMacros[`\\${macro.name}`] = macro.definition;
+    return katexMacros;
+  }, {});
+
+/**
+ * Check macro names (including clashes with existing commands), argument counts, package lines and TikZ library names
+ */
+export const getCustomPreambleErrors = (preamble: CustomPreamble): string[] => {
+  const errors: string[] = [];
+  const names = new Set<string>();
+
+  preamble.macros.forEach(macro => {
+    if (!MACRO_NAME_PATTERN.test(macro.name)) {
+      errors.push(`Invalid macro name "${macro.name}": use letters only, without the backslash`);
+    } else if (names.has(macro.name)) {
+      errors.push(`Macro \\${macro.name} is defined more than once`);
+    } else if (PREDEFINED_COMMANDS.has(macro.name)) {
+      errors.push(`Macro \\${macro.name} is already defined by LaTeX or a loaded package; choose another name`);
+    }
+    names.add(macro.name);
+
+    const argumentCount = macro.argumentCount || 0;
+    if (!Number.isInteger(argumentCount) || argumentCount < 0 || argumentCount > 9) {
+      errors.push(`Macro \\${macro.name} must take between 0 and 9 arguments`);
+    }
+
+    const usedArguments = (macro.definition.match(/#([1-9])/g) || []).map(arg => Number(arg.slice(1)));
+    if (usedArguments.some(arg => arg > argumentCount)) {
+      errors.push(`Macro \\${macro.name} refers to an argument it does not take`);
+    }
+  });
+
+  preamble.packages.forEach(line => {
+    if (!PACKAGE_LINE_PATTERN.test(line)) {
+      errors.push(`Not a \\usepackage line: ${line}`);
+    }
+  });
+
+  preamble.tikzLibraries.forEach(library => {
+    if (!TIKZ_LIBRARY_PATTERN.test(library)) {
+      errors.push(`Invalid TikZ library name "${library}"`);
+    }
+  });
+
+  return errors;
+};
@@ -0,0 +1,70 @@
+import { SlideElement, SlideLayout } from '../types/presentation';
+import { CANVAS_BASE_WIDTH } from './slideGeometry';
+
+export type FlowRegion = 'title' | 'content' | 'leftColumn' | 'rightColumn';
+
+type LayoutRegion = NonNullable<SlideLayout['regions'][FlowRegion]>;
+
+// Regions in the order their elements appear in a flow layout frame
+export const FLOW_REGIONS: FlowRegion[] = ['title', 'content', 'leftColumn', 'rightColumn'];
+
+// Height of the strip at the top of the canvas that holds title region elements, in canvas pixels
+const TITLE_REGION_HEIGHT = 60;
+
+const distanceToRegion = (x: number, y: number, region: LayoutRegion): number => {
+  const dx = Math.max(region.x - x, 0, x - (region.x + region.width));
+  const dy = Math.max(region.y - y, 0, y - (region.y + region.height));
+  return Math.sqrt(dx * dx + dy * dy);
+};
+
+/**
+ * Group elements by the flow region their center lies in, or the nearest one, each group in reading order
+ */
+export const assignElementsToRegions = (
+  elements: SlideElement[],
+  layout: SlideLayout
+): Record<FlowRegion, SlideElement[]> => {
+  const groups: Record<FlowRegion, SlideElement[]> = { title: [], content: [], leftColumn: [], rightColumn: [] };
+  const regions = FLOW_REGIONS.filter(name => layout.regions[name]);
+
+  elements.forEach(element => {
+    const centerX = element.position.x + element.size.width / 2;
+    const centerY = element.position.y + element.size.height / 2;
+
+    let nearest: FlowRegion = 'content';
+    let nearestDistance = Infinity;
+    regions.forEach(name => {
+      const distance = distanceToRegion(centerX, centerY, layout.regions[name] as LayoutRegion);
+      if (distance < nearestDistance) {
+        nearest = name;
+        nearestDistance = distance;
+      }
+    });
+    groups[nearest].push(element);
+  });
+
+  FLOW_REGIONS.forEach(name => {
+    groups[name].sort((a, b) => a.position.y - b.position.y || a.position.x - b.position.x);
+  });
+
+  return groups;
+};
+
+/**
+ * Regions of a flow layout on a canvas of the given height: a title strip above one content region or two columns
+ */
+export const createFlowRegions = (canvasHeight: number, columns: boolean): SlideLayout['regions'] => {
+  const title = { x: 0, y: 0, width: CANVAS_BASE_WIDTH, height: TITLE_REGION_HEIGHT };
+  const bodyHeight = Math.max(0, canvasHeight - TITLE_REGION_HEIGHT);
+
+  if (!columns) {
+    return { title, content: { x: 0, y: TITLE_REGION_HEIGHT, width: CANVAS_BASE_WIDTH, height: bodyHeight } };
+  }
+
+  const columnWidth = CANVAS_BASE_WIDTH / 2;
+  return {
+    title,
+    leftColumn: { x: 0, y: TITLE_REGION_HEIGHT, width: columnWidth, height: bodyHeight },
+    rightColumn: { x: columnWidth, y: TITLE_REGION_HEIGHT, width: columnWidth, height: bodyHeight },
+  };
+};
@@ -0,0 +1,29 @@
+// Largest image file written for a compile job, to prevent crashes
+export const MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+
+// Bytes files of the image formats LaTeX engines include start with, by file extension
+const IMAGE_SIGNATURES: Record<string, number[][]> = {
+  png: [[0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]],
+  jpg: [[0xff, 0xd8, 0xff]],
+  jpeg: [[0xff, 0xd8, 0xff]],
+  pdf: [[0x25, 0x50, 0x44, 0x46, 0x2d]], // %PDF-
+  eps: [[0x25, 0x21, 0x50, 0x53], [0xc5, 0xd0, 0xd3, 0xc6]], // %!PS, or the DOS EPS binary header
+};
+
+/**
+ * The lowercased extension of an image file LaTeX engines include, or null for other files
+ */
+export const getImageExtension = (fileName: string): string | null => {
+  const extension = fileName.match(/\.([a-zA-Z0-9]+)$/)?.[1].toLowerCase();
+  return extension && IMAGE_SIGNATURES[extension] ? extension : null;
+};
+
+/**
+ * Whether the content of a file is an image of the format its extension names
+ */
+export const isImageContent = (fileName: string, content: Uint8Array): boolean => {
+  const extension = getImageExtension(fileName);
+  return !!extension && IMAGE_SIGNATURES[extension].some(signature =>
+    signature.every((byte, index) => content[index] === byte)
+  );
+};
@@ -0,0 +1,71 @@
+import { getVerbatimLines } from './latexVerbatim';
+
+/**
+ * A range of lines in a generated document and the slide, and optionally the element, it was generated from
+ */
+export interface LatexSourceMapEntry {
+  startLine: number; // 1-based, inclusive
+  endLine: number; // 1-based, inclusive
+  slideId: string;
+  elementId?: string;
+}
+
+export type LatexSourceMap = LatexSourceMapEntry[];
+
+// Marker lines wrapped around generated code while a source map is built; they never reach the output
+const SOURCE_MAP_MARKER = '\u001Fsource-map';
+
+/**
+ * Wrap a chunk of generated code in source map markers. The chunk must start at a line start and end with a newline
+ */
+export const markSourceRange = (latex: string, slideId: string, elementId?: string): string =>
+  `${SOURCE_MAP_MARKER} begin ${slideId}${elementId ? ` ${elementId}` : ''}\n${latex}${SOURCE_MAP_MARKER} end\n`;
+
+/**
+ * Remove the source map markers from generated code and collect the line ranges they enclosed.
+ * Blank lines left next to each other by a removed marker are merged when collapseBlankLines is set,
+ * except in verbatim environments.
+ */
+export const extractSourceMap = (
+  latex: string,
+  collapseBlankLines: boolean = false
+): { latex: string; sourceMap: LatexSourceMap } => {
+  const output: string[] = [];
+  const sourceMap: LatexSourceMap = [];
+  const open: { slideId: string; elementId?: string; startLine: number }[] = [];
+
+  const lines = latex.split('\n');
+  const verbatimLines = getVerbatimLines(lines);
+
+  lines.forEach((line, index) => {
+    if (line.startsWith(SOURCE_MAP_MARKER)) {
+      const [, kind, slideId, elementId] = line.split(' ');
+      if (kind === 'begin') {
+        open.push({ slideId, elementId, startLine: output.length + 1 });
+      } else {
+        const range = open.pop();
+        if (range && output.length >= range.startLine) {
+          sourceMap.push({ ...range, endLine: output.length });
+        }
+      }
+      return;
+    }
+
+    // Blank lines of code listings are part of the code
+    if (collapseBlankLines && !verbatimLines[index] && line === '' && output.length > 0 && output[output.length - 1] === '') {
+      return;
+    }
+    output.push(line);
+  });
+
+  // Innermost ranges first, so element ranges win over the slide around them
+  sourceMap.sort((a, b) => (a.endLine - a.startLine) - (b.endLine - b.startLine));
+
+  return { latex: output.join('\n'), sourceMap };
+};
+
+/**
+ * Find the most specific source map entry covering a line of the generated document
+ */
+export const findSourceMapEntry = (sourceMap: LatexSourceMap, line: number): LatexSourceMapEntry | undefined =>
+  sourceMap.find(entry => line >= entry.startLine && line <= entry.endLine);
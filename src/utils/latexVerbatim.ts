@@ -0,0 +1,27 @@
+// Environments typesetting their lines as written, so their blank lines and spaces must be kept
+const VERBATIM_BEGIN = /\\begin\{(lstlisting|verbatim\*?|Verbatim\*?|minted|filecontents\*?|comment)\}/;
+
+/**
+ * Flag the lines inside verbatim environments, between their \begin and \end lines, which aren't flagged.
+ * Whitespace elsewhere in LaTeX source doesn't change the output, including in raw LaTeX elements.
+ */
+export const getVerbatimLines = (lines: string[]): boolean[] => {
+  let openEnvironment: string | null = null;
+
+  return lines.map(line => {
+    if (openEnvironment) {
+      if (line.includes(`\\end{${openEnvironment}}`)) {
+        openEnvironment = null;
+        return false;
+      }
+      return true;
+    }
+
+    const begin = line.match(VERBATIM_BEGIN);
+    // Environments closed on the line they begin, e.g. \begin{verbatim}x\end{verbatim}, leave nothing open
+    if (begin && !line.slice(begin.index! + begin[0].length).includes(`\\end{${begin[1]}}`)) {
+      openEnvironment = begin[1];
+    }
+    return false;
+  });
+};
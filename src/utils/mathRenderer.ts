@@ -6,12 +6,27 @@ export interface MathSegment {
   rendered?: string;
 }
 
+/**
+ * Shorthand macros available in every expression
+ */
+export const DEFAULT_MATH_MACROS: Record<string, string> = {
+  '\\RR': '\\mathbb{R}',
+  '\\NN': '\\mathbb{N}',
+  '\\ZZ': '\\mathbb{Z}',
+  '\\QQ': '\\mathbb{Q}',
+  '\\CC': '\\mathbb{C}',
+  '\\eps': '\\varepsilon',
+  '\\phi': '\\varphi',
+  '\\implies': '\\Rightarrow',
+  '\\iff': '\\Leftrightarrow',
+};
+
 /**
  * Parse text content that may contain LaTeX math expressions
  * Math expressions are expected to be wrapped in $$ ... $$ for display math
- * or $ ... $ for inline math
+ * or $ ... $ for inline math; macros (e.g. from the presentation preamble) extend the defaults
  */
-export function parseMathContent(content: string): MathSegment[] {
+export function parseMathContent(content: string, macros: Record<string, string> = {}): MathSegment[] {
   const segments: MathSegment[] = [];
   let currentIndex = 0;
   
@@ -40,17 +55,7 @@ export function parseMathContent(content: string): MathSegment[] {
         displayMode: isDisplayMath,
         throwOnError: true,
         errorColor: '#cc0000',
-        macros: {
-          '\\RR': '\\mathbb{R}',
-          '\\NN': '\\mathbb{N}',
-          '\\ZZ': '\\mathbb{Z}',
-          '\\QQ': '\\mathbb{Q}',
-          '\\CC': '\\mathbb{C}',
-          '\\eps': '\\varepsilon',
-          '\\phi': '\\varphi',
-          '\\implies': '\\Rightarrow',
-          '\\iff': '\\Leftrightarrow',
-        },
+        macros: { ...DEFAULT_MATH_MACROS, ...macros },
       });
       
       segments.push({
@@ -94,8 +99,8 @@ export function parseMathContent(content: string): MathSegment[] {
 /**
  * Render math content to HTML string for display
  */
-export function renderMathToHTML(content: string): string {
-  const segments = parseMathContent(content);
+export function renderMathToHTML(content: string, macros: Record<string, string> = {}): string {
+  const segments = parseMathContent(content, macros);
   
   return segments.map(segment => {
     if (segment.type === 'math' && segment.rendered) {
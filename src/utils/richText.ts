@@ -0,0 +1,210 @@
+import { Color, TextRun } from '../types/presentation';
+
+export type TextRunFormat = Omit<TextRun, 'text'>;
+
+const FORMAT_KEYS: (keyof TextRunFormat)[] = ['bold', 'italic', 'underline', 'color', 'code', 'link', 'script'];
+
+const sameColor = (a?: Color, b?: Color): boolean => {
+  if (!a || !b) return a === b;
+  return a.r === b.r && a.g === b.g && a.b === b.b && (a.a ?? 1) === (b.a ?? 1);
+};
+
+const sameFormatValue = (key: keyof TextRunFormat, a: unknown, b: unknown): boolean =>
+  key === 'color' ? sameColor(a as Color | undefined, b as Color | undefined) : (a || undefined) === (b || undefined);
+
+/**
+ * Set one formatting key of a run to a value of that key's type
+ */
+const setFormat = <K extends keyof TextRunFormat>(format: TextRunFormat, key: K, value: TextRunFormat[K]): void => {
+  format[key] = value;
+};
+
+/**
+ * Check whether two runs carry the same formatting
+ */
+export const sameTextRunFormat = (a: TextRunFormat, b: TextRunFormat): boolean =>
+  FORMAT_KEYS.every(key => sameFormatValue(key, a[key], b[key]));
+
+/**
+ * Check whether a run carries any inline formatting
+ */
+export const hasTextRunFormatting = (run: TextRunFormat): boolean =>
+  FORMAT_KEYS.some(key => !!run[key]);
+
+/**
+ * Drop empty runs and merge neighbours with the same formatting
+ */
+export const normalizeTextRuns = (runs: TextRun[]): TextRun[] => {
+  const normalized: TextRun[] = [];
+
+  runs.forEach(run => {
+    if (!run.text) return;
+    const previous = normalized[normalized.length - 1];
+    if (previous && sameTextRunFormat(previous, run)) {
+      normalized[normalized.length - 1] = { ...previous, text: previous.text + run.text };
+    } else {
+      normalized.push({ ...run });
+    }
+  });
+
+  return normalized;
+};
+
+/**
+ * Get the runs for an element, falling back to a single plain run when they no longer match the content
+ */
+export const getTextRuns = (content: string, runs?: TextRun[]): TextRun[] => {
+  if (runs && runs.map(run => run.text).join('') === content) {
+    return runs;
+  }
+  return content ? [{ text: content }] : [];
+};
+
+/**
+ * Check whether an element has runs with inline formatting that match its content
+ */
+export const hasRichText = (content: string, runs?: TextRun[]): boolean =>
+  !!runs && getTextRuns(content, runs).some(hasTextRunFormatting);
+
+/**
+ * Get the runs covering the character range [start, end)
+ */
+export const sliceTextRuns = (runs: TextRun[], start: number, end: number): TextRun[] => {
+  const sliced: TextRun[] = [];
+  let offset = 0;
+
+  runs.forEach(run => {
+    const runStart = offset;
+    const runEnd = offset + run.text.length;
+    offset = runEnd;
+
+    const from = Math.max(start, runStart);
+    const to = Math.min(end, runEnd);
+    if (from < to) {
+      sliced.push({ ...run, text: run.text.slice(from - runStart, to - runStart) });
+    }
+  });
+
+  return sliced;
+};
+
+/**
+ * Apply formatting to the character range [start, end); false or undefined values remove a format
+ */
+export const applyTextRunFormat = (
+  content: string,
+  runs: TextRun[] | undefined,
+  start: number,
+  end: number,
+  format: Partial<TextRunFormat>
+): TextRun[] => {
+  const current = getTextRuns(content, runs);
+  const from = Math.max(0, Math.min(start, end, content.length));
+  const to = Math.min(content.length, Math.max(start, end));
+
+  const formatted = sliceTextRuns(current, from, to).map(run => {
+    const next: TextRun = { ...run };
+    (Object.keys(format) as (keyof TextRunFormat)[]).forEach(key => {
+      const value = format[key];
+      if (value === undefined || value === false || value === '') {
+        delete next[key];
+      } else {
+        setFormat(next, key, value);
+      }
+    });
+    return next;
+  });
+
+  return normalizeTextRuns([
+    ...sliceTextRuns(current, 0, from),
+    ...formatted,
+    ...sliceTextRuns(current, to, content.length),
+  ]);
+};
+
+/**
+ * Get the formatting shared by every character in [start, end), or at the caret for empty ranges
+ */
+export const getTextRunFormatInRange = (
+  content: string,
+  runs: TextRun[] | undefined,
+  start: number,
+  end: number
+): TextRunFormat => {
+  const current = getTextRuns(content, runs);
+  const from = start === end ? Math.max(0, start - 1) : Math.min(start, end);
+  const to = start === end ? from + 1 : Math.max(start, end);
+  const covered = sliceTextRuns(current, from, to);
+  if (covered.length === 0) return {};
+
+  const shared: TextRunFormat = {};
+  FORMAT_KEYS.forEach(key => {
+    const value = covered[0][key];
+    if (value && covered.every(run => sameFormatValue(key, run[key], value))) {
+      setFormat(shared, key, value);
+    }
+  });
+
+  return shared;
+};
+
+/**
+ * Split runs into lines at newline characters
+ */
+export const splitTextRunsByLine = (runs: TextRun[]): TextRun[][] => {
+  const lines: TextRun[][] = [[]];
+
+  runs.forEach(run => {
+    run.text.split('\n').forEach((part, index) => {
+      if (index > 0) lines.push([]);
+      if (part) lines[lines.length - 1].push({ ...run, text: part });
+    });
+  });
+
+  return lines;
+};
+
+/**
+ * Carry runs over to edited content; inserted text takes the formatting of the text before it
+ */
+export const reconcileTextRuns = (runs: TextRun[], content: string): TextRun[] => {
+  const previous = runs.map(run => run.text).join('');
+  if (previous === content) return runs;
+
+  let prefix = 0;
+  while (prefix < previous.length && prefix < content.length && previous[prefix] === content[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < previous.length - prefix &&
+    suffix < content.length - prefix &&
+    previous[previous.length - 1 - suffix] === content[content.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const inserted = content.slice(prefix, content.length - suffix);
+  const anchor = sliceTextRuns(runs, Math.max(0, prefix - 1), Math.max(1, prefix))[0];
+  const { text: _anchorText, ...anchorFormat } = anchor || { text: '' };
+
+  return normalizeTextRuns([
+    ...sliceTextRuns(runs, 0, prefix),
+    { ...anchorFormat, text: inserted },
+    ...sliceTextRuns(runs, previous.length - suffix, previous.length),
+  ]);
+};
+
+// Link schemes exports keep; others, such as javascript:, could run script where the export is opened
+const SAFE_LINK_SCHEMES = ['http', 'https', 'mailto'];
+
+/**
+ * Check whether a run's link is a web or mail address, or relative. Browsers ignore whitespace and control
+ * characters in URLs, so they don't hide the scheme.
+ */
+export const isSafeLink = (link: string): boolean => {
+  const visible = Array.from(link).filter(char => char > ' ' && char !== '\u007f').join('');
+  const scheme = /^([a-zA-Z][a-zA-Z0-9+.-]*):/.exec(visible)?.[1];
+  return !scheme || SAFE_LINK_SCHEMES.includes(scheme.toLowerCase());
+};
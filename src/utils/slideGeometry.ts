@@ -0,0 +1,63 @@
+import { PresentationSettings } from '../types/presentation';
+
+export type SlideAspectRatio = PresentationSettings['slideSize']['aspectRatio'];
+
+/**
+ * Page size and usable content area of a Beamer slide, in centimeters
+ */
+export interface SlideDimensions {
+  aspectRatio: SlideAspectRatio;
+  beamerAspectRatio: string; // Value of the beamer `aspectratio` class option
+  paperWidthCm: number;
+  paperHeightCm: number;
+  leftEdgeCm: number;
+  rightEdgeCm: number;
+  topEdgeCm: number;
+  bottomEdgeCm: number;
+  usableWidthCm: number;
+  usableHeightCm: number;
+}
+
+// Canvas width in pixels that maps onto the usable slide width
+export const CANVAS_BASE_WIDTH = 800;
+
+// Beamer page sizes for each supported aspect ratio
+const BEAMER_PAGE_SIZES: Record<SlideAspectRatio, { option: string; width: number; height: number }> = {
+  '16:9': { option: '169', width: 16, height: 9 },
+  '16:10': { option: '1610', width: 16, height: 10 },
+  '4:3': { option: '43', width: 12.8, height: 9.6 },
+};
+
+// Space kept free around the content area: left edge, right edge, frame title, footline
+const LEFT_MARGIN_CM = 0.2;
+const RIGHT_MARGIN_CM = 0.5;
+const TOP_MARGIN_CM = 1.0;
+const BOTTOM_MARGIN_CM = 0.7;
+
+/**
+ * Get the slide dimensions for an aspect ratio, falling back to 16:9 for unknown values
+ */
+export const getSlideDimensions = (aspectRatio: SlideAspectRatio = '16:9'): SlideDimensions => {
+  const page = BEAMER_PAGE_SIZES[aspectRatio] || BEAMER_PAGE_SIZES['16:9'];
+  const rightEdgeCm = page.width - RIGHT_MARGIN_CM;
+  const bottomEdgeCm = page.height - BOTTOM_MARGIN_CM;
+
+  return {
+    aspectRatio: BEAMER_PAGE_SIZES[aspectRatio] ? aspectRatio : '16:9',
+    beamerAspectRatio: page.option,
+    paperWidthCm: page.width,
+    paperHeightCm: page.height,
+    leftEdgeCm: LEFT_MARGIN_CM,
+    rightEdgeCm,
+    topEdgeCm: TOP_MARGIN_CM,
+    bottomEdgeCm,
+    usableWidthCm: Math.round((rightEdgeCm - LEFT_MARGIN_CM) * 100) / 100,
+    usableHeightCm: Math.round((bottomEdgeCm - TOP_MARGIN_CM) * 100) / 100,
+  };
+};
+
+/**
+ * Canvas height in pixels that matches the usable slide area at CANVAS_BASE_WIDTH
+ */
+export const getCanvasBaseHeight = (dimensions: SlideDimensions): number =>
+  Math.round(CANVAS_BASE_WIDTH * (dimensions.usableHeightCm / dimensions.usableWidthCm));
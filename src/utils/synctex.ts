@@ -0,0 +1,111 @@
+/**
+ * A rectangle on a PDF page in points, from the top left corner of the page
+ */
+export interface PageBox {
+  page: number; // 1-based
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * A box SyncTeX recorded for a line of the compiled document
+ */
+export interface SynctexBox extends PageBox {
+  line: number;
+}
+
+export interface SynctexData {
+  pageCount: number;
+  boxes: SynctexBox[];
+}
+
+// Resolution of the page images in dots per inch, so their pixels can be converted to PDF points
+export const PAGE_IMAGE_RESOLUTION = 96;
+
+// Scaled points per PostScript point
+const SP_PER_BP = 65781.76;
+
+// Box records: '(' hbox, '[' vbox, 'h' void hbox, 'v' void vbox, then tag,line[,column]:h,v:width,height,depth
+const BOX_RECORD = /^[[(hv](\d+),(\d+)(?:,-?\d+)?:(-?\d+),(-?\d+):(-?\d+),(-?\d+),(-?\d+)/;
+
+/**
+ * Parse uncompressed SyncTeX output, keeping the horizontal boxes typeset from lines of the given file.
+ * Horizontal boxes hold lines of text, pictures and images; vertical boxes would cover whole frames.
+ */
+export const parseSynctex = (content: string, fileName: string = 'document.tex'): SynctexData => {
+  const tags = new Set<string>();
+  const boxes: SynctexBox[] = [];
+  let unit = 1;
+  let magnification = 1000;
+  let xOffset = 0;
+  let yOffset = 0;
+  let page = 0;
+  let pageCount = 0;
+
+  for (const line of content.split('\n')) {
+    if (line.startsWith('Input:')) {
+      const [, tag, ...path] = line.split(':');
+      const inputPath = path.join(':');
+      if (inputPath === fileName || inputPath.endsWith(`/${fileName}`)) {
+        tags.add(tag);
+      }
+    } else if (line.startsWith('Unit:')) {
+      unit = Number(line.slice(5)) || 1;
+    } else if (line.startsWith('Magnification:')) {
+      magnification = Number(line.slice(14)) || 1000;
+    } else if (line.startsWith('X Offset:')) {
+      xOffset = Number(line.slice(9)) || 0;
+    } else if (line.startsWith('Y Offset:')) {
+      yOffset = Number(line.slice(9)) || 0;
+    } else if (line.startsWith('{')) {
+      page = Number(line.slice(1));
+      pageCount = Math.max(pageCount, page);
+    } else if (line.startsWith('(') || line.startsWith('h')) {
+      const match = line.match(BOX_RECORD);
+      if (!match || !tags.has(match[1])) continue;
+
+      const [, , inputLine, h, v, width, height, depth] = match.map(Number);
+      const scale = (unit * magnification) / 1000 / SP_PER_BP;
+      const offsetScale = magnification / 1000 / SP_PER_BP;
+      const toPoints = (value: number, offset: number = 0) => value * scale + offset * offsetScale;
+
+      // (h, v) is the left end of the baseline
+      boxes.push({
+        page,
+        line: inputLine,
+        x: toPoints(Math.min(h, h + width), xOffset),
+        y: toPoints(v - height, yOffset),
+        width: toPoints(Math.abs(width)),
+        height: toPoints(height + depth),
+      });
+    }
+  }
+
+  return { pageCount, boxes };
+};
+
+/**
+ * Find the smallest box containing a point on a page
+ */
+export const findBoxAt = <T extends PageBox>(boxes: T[], page: number, x: number, y: number): T | undefined =>
+  boxes
+    .filter(box => box.page === page && x >= box.x && x <= box.x + box.width && y >= box.y && y <= box.y + box.height)
+    .sort((a, b) => a.width * a.height - b.width * b.height)[0];
+
+/**
+ * Get the rectangle around the boxes on the first page any of them is on
+ */
+export const getBoundingBox = (boxes: PageBox[]): PageBox | undefined => {
+  if (boxes.length === 0) return undefined;
+
+  const page = Math.min(...boxes.map(box => box.page));
+  const pageBoxes = boxes.filter(box => box.page === page);
+  const left = Math.min(...pageBoxes.map(box => box.x));
+  const top = Math.min(...pageBoxes.map(box => box.y));
+  const right = Math.max(...pageBoxes.map(box => box.x + box.width));
+  const bottom = Math.max(...pageBoxes.map(box => box.y + box.height));
+
+  return { page, x: left, y: top, width: right - left, height: bottom - top };
+};